@@ -2,6 +2,8 @@ import type {NextConfig} from 'next';
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // Raw socket clients used by the IMAP/SMTP provider; load them from node_modules at runtime
+  serverExternalPackages: ['imapflow', 'nodemailer', 'mailparser'],
   typescript: {
     ignoreBuildErrors: true,
   },
@@ -0,0 +1,9 @@
+// Writes the OpenAPI document of the API routes to docs/openapi.json (`npm run openapi`)
+
+import { writeFileSync } from "fs";
+import { resolve } from "path";
+import { buildOpenApiDocument } from "@/lib/schemas/openapi";
+
+const outputPath = resolve(process.cwd(), "docs/openapi.json");
+writeFileSync(outputPath, `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`);
+console.log(`[OpenAPI] Wrote ${outputPath}`);
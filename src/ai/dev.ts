@@ -2,4 +2,7 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/generate-email-drafts.ts';
-import '@/ai/flows/regenerate-email-drafts.ts';
\ No newline at end of file
+import '@/ai/flows/regenerate-email-drafts.ts';
+import '@/ai/flows/analyze-email-thread.ts';
+import '@/ai/flows/analyze-contact.ts';
+import '@/ai/flows/synthesize-thread-analyses.ts';
\ No newline at end of file
@@ -0,0 +1,68 @@
+/**
+ * @fileOverview Second pass over one contact for comprehensive learning: reconciles what the
+ * per-thread analyses found about the user's relationship with them into one insight.
+ *
+ * - analyzeContact - A function that settles the relationship with a contact across threads.
+ * - AnalyzeContactInput - The input type for the analyzeContact function.
+ * - AnalyzeContactOutput - The return type for the analyzeContact function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {REPAIR_INSTRUCTIONS, generateWithRepairs} from '@/ai/structured-output';
+import {relationshipInsightSchema} from '@/lib/schemas/personal-context';
+
+const AnalyzeContactInputSchema = z.object({
+  contactEmail: z.string().describe('The contact.'),
+  threadCount: z.number().int().describe('Threads the contact appeared in.'),
+  observations: z.string().describe('JSON of the relationship and communication insights about the contact, one entry per thread.'),
+});
+export type AnalyzeContactInput = z.infer<typeof AnalyzeContactInputSchema>;
+
+const AnalyzeContactOutputSchema = relationshipInsightSchema;
+export type AnalyzeContactOutput = z.infer<typeof AnalyzeContactOutputSchema>;
+
+const PromptInputSchema = AnalyzeContactInputSchema.extend({
+  validationErrors: z.array(z.string()).optional().describe('Problems with the previous answer, as "path: message".'),
+});
+
+export async function analyzeContact(input: AnalyzeContactInput): Promise<AnalyzeContactOutput> {
+  return analyzeContactFlow(input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'analyzeContactPrompt',
+  input: {schema: PromptInputSchema},
+  output: {schema: AnalyzeContactOutputSchema},
+  prompt: `You are an expert at understanding relationships from how people write to each other.
+
+Each of {{threadCount}} email threads between the user and {{{contactEmail}}} was analyzed on its own. These are the observations about the contact, one entry per thread:
+
+{{{observations}}}
+
+Reconcile them into a single view of the user's relationship with {{{contactEmail}}}:
+- Pick the category that best fits all the threads, not just the most recent one. When threads disagree, weigh the ones with stronger evidence.
+- Describe the relationship dynamics, how the user addresses the contact and the contexts they share.
+- Judge communication frequency, response timing and who usually starts conversations from all the threads together.
+- Keep the most telling evidence, quoted from the observations.
+
+Use only the listed values for the category and pattern fields, and leave out fields the observations say nothing about. Raise the confidence above the per-thread values only when the threads agree.
+${REPAIR_INSTRUCTIONS}`,
+});
+
+const analyzeContactFlow = ai.defineFlow(
+  {
+    name: 'analyzeContactFlow',
+    inputSchema: AnalyzeContactInputSchema,
+    outputSchema: AnalyzeContactOutputSchema,
+  },
+  async input => {
+    const relationship = await generateWithRepairs(
+      AnalyzeContactOutputSchema,
+      async validationErrors => (await prompt({...input, validationErrors})).output,
+      'AnalyzeContact'
+    );
+    // The model sometimes normalizes the address; keep the one the insights are keyed by
+    return {...relationship, contactEmail: input.contactEmail};
+  }
+);
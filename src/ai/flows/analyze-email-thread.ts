@@ -0,0 +1,170 @@
+/**
+ * @fileOverview Extracts personal context (communication style, relationships, professional and
+ * personal details) from one email thread as structured output.
+ *
+ * - analyzeEmailThread - A function that analyzes a thread at an analysis depth, asking again when the answer doesn't fit the schema.
+ * - AnalyzeEmailThreadInput - The input type for the analyzeEmailThread function.
+ * - AnalyzeEmailThreadOutput - The return type for the analyzeEmailThread function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {REPAIR_INSTRUCTIONS, generateWithRepairs} from '@/ai/structured-output';
+import {ANALYSIS_DEPTHS} from '@/lib/analysis-depth';
+import {analysisDepthSchema, extractedThreadAnalysisSchema} from '@/lib/schemas/personal-context';
+
+const AnalyzeEmailThreadInputSchema = z.object({
+  threadSummary: z.string().describe('JSON summary of the thread: subject, other participants, message counts, time span and category.'),
+  userMessages: z.string().describe("JSON array of a sample of the user's messages in the thread."),
+  otherMessages: z.string().describe("JSON array of a sample of the other participants' messages."),
+  analysisDepth: analysisDepthSchema.describe('Basic extracts only communication style and relationships.'),
+});
+export type AnalyzeEmailThreadInput = z.infer<typeof AnalyzeEmailThreadInputSchema>;
+
+// The thread ID, overall confidence and evidence sources are filled in by the caller
+const AnalyzeEmailThreadOutputSchema = extractedThreadAnalysisSchema;
+export type AnalyzeEmailThreadOutput = z.infer<typeof AnalyzeEmailThreadOutputSchema>;
+
+// What basic analysis extracts
+const StyleAnalysisOutputSchema = AnalyzeEmailThreadOutputSchema.pick({communicationInsights: true, relationshipInsights: true});
+
+const PromptInputSchema = AnalyzeEmailThreadInputSchema.omit({analysisDepth: true}).extend({
+  validationErrors: z.array(z.string()).optional().describe('Problems with the previous answer, as "path: message".'),
+});
+
+export async function analyzeEmailThread(input: AnalyzeEmailThreadInput): Promise<AnalyzeEmailThreadOutput> {
+  return analyzeEmailThreadFlow(input);
+}
+
+const THREAD_CONTEXT = `You are an expert at analyzing communication patterns and extracting comprehensive personal context from email threads.
+
+Analyze this email thread to extract detailed insights about the user's communication style, relationships, professional context, personal preferences, and behavioral patterns.
+
+Thread Summary:
+{{{threadSummary}}}
+
+User's Messages:
+{{{userMessages}}}
+
+Other Participants' Messages:
+{{{otherMessages}}}`;
+
+const STYLE_FOCUS = `**Communication Style & Patterns:**
+- Tone variation with different contacts (formal, casual, friendly, direct)
+- Greeting patterns ("Hi", "Hello", "Hey", professional titles)
+- Sign-off preferences ("Best", "Thanks", "Regards", casual endings)
+- Response timing patterns and urgency handling
+- Sentence structure (short vs long, complexity)
+- Emoji and punctuation usage patterns
+- Language preferences and regional expressions
+
+**Relationship & Social Context:**
+- How they address different people (first names, titles, nicknames)
+- Relationship dynamics and communication formality levels
+- Shared contexts and common topics of discussion
+- Communication frequency and initiation patterns
+- Professional vs personal relationship boundaries`;
+
+const PROFILE_FOCUS = `**Professional Information:**
+- Current role, responsibilities, and authority levels
+- Work schedule patterns and availability
+- Meeting preferences and scheduling patterns
+- Project involvement and professional goals
+- Industry knowledge and technical expertise
+- Decision-making patterns and delegation comfort
+- Management style and team interactions
+
+**Personal Preferences & Habits:**
+- Daily routines and lifestyle patterns mentioned in emails
+- Travel patterns and location preferences
+- Family information and personal relationships
+- Hobbies, interests, and leisure activities
+- Values and beliefs that influence communication
+- Stress indicators and busy period behaviors
+- Food preferences, favorite restaurants mentioned
+- Shopping habits and brand preferences mentioned
+- Entertainment choices (movies, music, books, sports teams mentioned)
+- Cultural preferences and background indicators
+- Learning preferences and information consumption habits
+- Technology preferences and social media usage patterns
+
+**Behavioral Patterns:**
+- How they handle different types of requests
+- Conflict resolution and diplomatic communication
+- Privacy boundaries and information sharing comfort
+- Group email dynamics vs private communication
+- Escalation triggers and when they involve others
+
+**Contextual Adaptations:**
+- How communication style changes based on:
+  - Recipient type (family, colleagues, clients, executives)
+  - Email context (urgent, casual, formal business)
+  - Group vs individual communication
+  - First contact vs ongoing relationship`;
+
+const ANSWER_GUIDELINES = `Be thorough and extract as much meaningful personal context as possible. Look for subtle patterns in word choice, formality shifts, topics discussed, and relationship dynamics. The goal is to build a comprehensive understanding of how this person communicates and interacts in different contexts.
+
+Quote the messages in "evidence". Use only the listed values for every type, category and level field. Leave out optional fields that don't apply, including "contactEmail" on communication insights that aren't specific to one contact, and return an empty list for anything the thread says nothing about.
+
+Assign confidence scores (0 to 1) conservatively - only use high confidence (>0.8) when there is clear, repeated evidence across multiple messages.`;
+
+const prompt = ai.definePrompt({
+  name: 'analyzeEmailThreadPrompt',
+  input: {schema: PromptInputSchema},
+  output: {schema: AnalyzeEmailThreadOutputSchema},
+  prompt: `${THREAD_CONTEXT}
+
+Focus on extracting:
+
+${STYLE_FOCUS}
+
+${PROFILE_FOCUS}
+
+${ANSWER_GUIDELINES}
+${REPAIR_INSTRUCTIONS}`,
+});
+
+const stylePrompt = ai.definePrompt({
+  name: 'analyzeEmailThreadStylePrompt',
+  input: {schema: PromptInputSchema},
+  output: {schema: StyleAnalysisOutputSchema},
+  prompt: `${THREAD_CONTEXT}
+
+Only extract the user's communication style and their relationships with the other participants. Focus on:
+
+${STYLE_FOCUS}
+
+${ANSWER_GUIDELINES}
+${REPAIR_INSTRUCTIONS}`,
+});
+
+const analyzeEmailThreadFlow = ai.defineFlow(
+  {
+    name: 'analyzeEmailThreadFlow',
+    inputSchema: AnalyzeEmailThreadInputSchema,
+    outputSchema: AnalyzeEmailThreadOutputSchema,
+  },
+  async ({analysisDepth, ...input}) => {
+    if (ANALYSIS_DEPTHS[analysisDepth].styleOnly) {
+      const style = await generateWithRepairs(
+        StyleAnalysisOutputSchema,
+        async validationErrors => (await stylePrompt({...input, validationErrors})).output,
+        'AnalyzeEmailThread'
+      );
+      return {
+        ...style,
+        professionalInsights: [],
+        personalInsights: [],
+        behavioralPatterns: [],
+        contextualResponses: [],
+        temporalPatterns: [],
+        knowledgeAreas: [],
+      };
+    }
+    return generateWithRepairs(
+      AnalyzeEmailThreadOutputSchema,
+      async validationErrors => (await prompt({...input, validationErrors})).output,
+      'AnalyzeEmailThread'
+    );
+  }
+);
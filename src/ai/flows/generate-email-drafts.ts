@@ -12,7 +12,7 @@ import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
 
 const GenerateEmailDraftsInputSchema = z.object({
-  emailContent: z.string().describe('The content of the email to reply to.'),
+  emailContent: z.string().describe('The email to reply to, or the full conversation transcript ending with the message to reply to.'),
   userContext: z.string().describe('The personal context of the user.'),
 });
 export type GenerateEmailDraftsInput = z.infer<typeof GenerateEmailDraftsInputSchema>;
@@ -13,7 +13,7 @@ import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
 
 const RegenerateEmailDraftsInputSchema = z.object({
-  emailContent: z.string().describe('The content of the email to reply to.'),
+  emailContent: z.string().describe('The email to reply to, or the full conversation transcript ending with the message to reply to.'),
   userContext: z.string().describe('The user\u2019s personal context to incorporate into the reply.'),
 });
 export type RegenerateEmailDraftsInput = z.infer<typeof RegenerateEmailDraftsInputSchema>;
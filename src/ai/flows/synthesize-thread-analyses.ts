@@ -0,0 +1,70 @@
+/**
+ * @fileOverview Cross-thread synthesis for comprehensive learning: turns the patterns found in
+ * individual threads into the ones that hold across the user's mail.
+ *
+ * - synthesizeThreadAnalyses - A function that consolidates per-thread patterns.
+ * - SynthesizeThreadAnalysesInput - The input type for the synthesizeThreadAnalyses function.
+ * - SynthesizeThreadAnalysesOutput - The return type for the synthesizeThreadAnalyses function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {REPAIR_INSTRUCTIONS, generateWithRepairs} from '@/ai/structured-output';
+import {extractedThreadAnalysisSchema} from '@/lib/schemas/personal-context';
+
+const SynthesizeThreadAnalysesInputSchema = z.object({
+  threadCount: z.number().int().describe('Threads that were analyzed.'),
+  observations: z.string().describe('JSON of the patterns found in each thread, grouped by kind.'),
+});
+export type SynthesizeThreadAnalysesInput = z.infer<typeof SynthesizeThreadAnalysesInputSchema>;
+
+const SynthesizeThreadAnalysesOutputSchema = extractedThreadAnalysisSchema.pick({
+  communicationInsights: true,
+  behavioralPatterns: true,
+  contextualResponses: true,
+  temporalPatterns: true,
+  knowledgeAreas: true,
+});
+export type SynthesizeThreadAnalysesOutput = z.infer<typeof SynthesizeThreadAnalysesOutputSchema>;
+
+const PromptInputSchema = SynthesizeThreadAnalysesInputSchema.extend({
+  validationErrors: z.array(z.string()).optional().describe('Problems with the previous answer, as "path: message".'),
+});
+
+export async function synthesizeThreadAnalyses(input: SynthesizeThreadAnalysesInput): Promise<SynthesizeThreadAnalysesOutput> {
+  return synthesizeThreadAnalysesFlow(input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'synthesizeThreadAnalysesPrompt',
+  input: {schema: PromptInputSchema},
+  output: {schema: SynthesizeThreadAnalysesOutputSchema},
+  prompt: `You are an expert at building an accurate picture of how a person communicates.
+
+{{threadCount}} of the user's email threads were analyzed one at a time. These are the patterns found in them, grouped by kind:
+
+{{{observations}}}
+
+Synthesize what holds across the threads:
+- Merge observations that describe the same pattern in different words into one, combining their evidence. Copy evidence quotes word for word.
+- Keep patterns seen in several threads, and single-thread ones only when the evidence is strong.
+- Drop observations that other threads contradict, unless the difference is explained by who the user was writing to; describe such differences as style variations or contextual responses.
+- Include communication insights only for general patterns, without a contact.
+
+Confidence should reflect how consistently a pattern appears across threads. Use only the listed values for every type and level field.
+${REPAIR_INSTRUCTIONS}`,
+});
+
+const synthesizeThreadAnalysesFlow = ai.defineFlow(
+  {
+    name: 'synthesizeThreadAnalysesFlow',
+    inputSchema: SynthesizeThreadAnalysesInputSchema,
+    outputSchema: SynthesizeThreadAnalysesOutputSchema,
+  },
+  async input =>
+    generateWithRepairs(
+      SynthesizeThreadAnalysesOutputSchema,
+      async validationErrors => (await prompt({...input, validationErrors})).output,
+      'SynthesizeThreadAnalyses'
+    )
+);
@@ -0,0 +1,50 @@
+import {GenkitError, z} from 'genkit';
+
+// Times an answer that fails validation is sent back to be fixed before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Runs a prompt with a structured output schema, asking again with the validation errors when
+ * the answer doesn't fit it. `generate` receives the errors of the previous answer, as
+ * "path: message", to pass to the prompt.
+ */
+export async function generateWithRepairs<T extends z.ZodTypeAny>(
+  schema: T,
+  generate: (validationErrors?: string[]) => Promise<unknown>,
+  label: string
+): Promise<z.infer<T>> {
+  let validationErrors: string[] | undefined;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return schema.parse(await generate(validationErrors));
+    } catch (error) {
+      const issues = getValidationIssues(error);
+      if (!issues || attempt >= MAX_REPAIR_ATTEMPTS) throw error;
+      console.warn(`[${label}] Answer failed validation, asking for a repair: ${issues.join('; ')}`);
+      validationErrors = issues;
+    }
+  }
+}
+
+// Genkit rejects output that doesn't match the JSON schema as INVALID_ARGUMENT, listing each problem;
+// what gets past it (or comes back empty) is caught by the zod parse
+function getValidationIssues(error: unknown): string[] | null {
+  if (error instanceof z.ZodError) {
+    return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  if (error instanceof GenkitError && error.status === 'INVALID_ARGUMENT') {
+    const errors = (error.detail as {errors?: {path: string; message: string}[]} | undefined)?.errors;
+    if (errors?.length) return errors.map(e => `${e.path}: ${e.message}`);
+  }
+  return null;
+}
+
+// Appended to structured-output prompts that take `validationErrors`
+export const REPAIR_INSTRUCTIONS = `{{#if validationErrors}}
+
+Your previous answer did not match the required format:
+{{#each validationErrors}}
+- {{{this}}}
+{{/each}}
+Answer again, fixing these problems.
+{{/if}}`;
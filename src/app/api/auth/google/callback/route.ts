@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  OAUTH_STATE_COOKIE,
+  exchangeAuthorizationCode,
+  getGoogleUserInfo,
+  getRedirectUri,
+  verifyOAuthState,
+} from '@/services/google-oauth';
+import { oauthCredentialStore } from '@/services/oauth-credential-store';
+import { GOOGLE_OAUTH_MESSAGE_TYPE, type GoogleOAuthResultMessage } from '@/lib/google-oauth-client';
+
+// Hands the result to the window that opened the popup, then closes it
+function popupResponse(origin: string, message: GoogleOAuthResultMessage): NextResponse {
+  // Escaped so account details can't close the script tag
+  const payload = JSON.stringify(message).replace(/</g, '\\u003c');
+  const html = `<!DOCTYPE html>
+<html>
+  <head><title>Google account</title></head>
+  <body>
+    <p>${message.ok ? 'Account connected. You can close this window.' : 'Could not connect the account. You can close this window.'}</p>
+    <script>
+      if (window.opener) {
+        window.opener.postMessage(${payload}, ${JSON.stringify(origin)});
+      }
+      window.close();
+    </script>
+  </body>
+</html>`;
+  const response = new NextResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/google' });
+  return response;
+}
+
+export async function GET(request: NextRequest) {
+  const { origin, searchParams } = request.nextUrl;
+  const fail = (error: string) => popupResponse(origin, { type: GOOGLE_OAUTH_MESSAGE_TYPE, ok: false, error });
+
+  const googleError = searchParams.get('error');
+  if (googleError) {
+    return fail(googleError === 'access_denied' ? 'Access was not granted.' : `Google returned an error: ${googleError}`);
+  }
+
+  const userId = verifyOAuthState(request.cookies.get(OAUTH_STATE_COOKIE)?.value, searchParams.get('state'));
+  const code = searchParams.get('code');
+  if (!userId || !code) {
+    return fail('The sign-in request expired or did not start from this app. Please try again.');
+  }
+
+  try {
+    const tokens = await exchangeAuthorizationCode(code, getRedirectUri(origin));
+    const profile = await getGoogleUserInfo(tokens.accessToken);
+    if (!tokens.refreshToken) {
+      return fail('Google did not issue a refresh token. Remove the app from your Google account permissions and try again.');
+    }
+
+    await oauthCredentialStore.saveCredentials(userId, profile.email.toLowerCase(), profile.email, tokens.refreshToken, tokens.scopes);
+    console.log(`[GoogleOAuth] Connected ${profile.email} for offline access`);
+
+    return popupResponse(origin, {
+      type: GOOGLE_OAUTH_MESSAGE_TYPE,
+      ok: true,
+      email: profile.email,
+      displayName: profile.name,
+      photoURL: profile.picture,
+      accessToken: tokens.accessToken,
+      expiresAt: tokens.expiresAt,
+      scopes: tokens.scopes,
+    });
+  } catch (error) {
+    console.error('[GoogleOAuth] Authorization code exchange failed:', error);
+    return fail((error as Error).message || 'Failed to connect the account.');
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { oauthCredentialStore } from '@/services/oauth-credential-store';
+import { isGoogleOAuthConfigured, revokeGoogleToken } from '@/services/google-oauth';
+import { assertSameUser, withAuth } from '@/lib/api-auth';
+import { parseJsonBody } from '@/lib/api-validation';
+import { oauthRevokeRequestSchema } from '@/lib/schemas/api';
+
+// Whether the browser should connect accounts through the server's offline flow
+export const GET = withAuth(async () => {
+  return NextResponse.json({ configured: isGoogleOAuthConfigured() });
+});
+
+// Revokes and forgets the stored refresh token of an account. A popup-issued `accessToken` can be
+// passed too, for accounts connected without offline access.
+export const DELETE = withAuth(async (request, user) => {
+  const parsed = await parseJsonBody(request, oauthRevokeRequestSchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
+  const userId = assertSameUser(user, parsed.data.userId);
+
+  try {
+    const { accountId, accessToken } = parsed.data;
+
+    if (accessToken) {
+      await revokeGoogleToken(accessToken);
+    }
+    if (isGoogleOAuthConfigured()) {
+      await oauthCredentialStore.deleteCredentials(userId, accountId);
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[GoogleOAuth] Error deleting stored credentials:', error);
+    return NextResponse.json(
+      { error: `Failed to remove stored credentials: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { OAuthCredentialError, oauthCredentialStore } from '@/services/oauth-credential-store';
+import { isGoogleOAuthConfigured } from '@/services/google-oauth';
+import { assertSameUser, withAuth } from '@/lib/api-auth';
+import { parseJsonBody } from '@/lib/api-validation';
+import { oauthAccountRequestSchema, type OAuthRefreshResponse } from '@/lib/schemas/api';
+
+// Returns a fresh access token for a connected account from its stored refresh token
+export const POST = withAuth(async (request, user) => {
+  const parsed = await parseJsonBody(request, oauthAccountRequestSchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
+  const userId = assertSameUser(user, parsed.data.userId);
+
+  try {
+    const { accountId } = parsed.data;
+
+    if (!isGoogleOAuthConfigured()) {
+      return NextResponse.json({ error: 'Offline Google access is not configured on this server' }, { status: 404 });
+    }
+
+    const { accessToken, expiresAt, scopes } = await oauthCredentialStore.getAccessToken(userId, accountId);
+    return NextResponse.json<OAuthRefreshResponse>({ accessToken, expiresAt, scopes });
+  } catch (error) {
+    if (error instanceof OAuthCredentialError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'missing' ? 404 : 401 }
+      );
+    }
+    console.error('[GoogleOAuth] Error refreshing access token:', error);
+    return NextResponse.json(
+      { error: `Token refresh failed: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
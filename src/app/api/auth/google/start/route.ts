@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import {
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_MAX_AGE_SECONDS,
+  buildAuthorizationUrl,
+  createOAuthState,
+  getRedirectUri,
+  isGoogleOAuthConfigured,
+} from '@/services/google-oauth';
+import { withAuth } from '@/lib/api-auth';
+import { parseJsonBody } from '@/lib/api-validation';
+import { oauthStartRequestSchema, type OAuthStartResponse } from '@/lib/schemas/api';
+
+// Returns the URL of Google's consent screen for offline access, for the client to open in its
+// popup. The state cookie ties the callback to the signed-in user, since the popup's navigation
+// can't carry an ID token.
+export const POST = withAuth(async (request, user) => {
+  const parsed = await parseJsonBody(request, oauthStartRequestSchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
+  const { scopes, loginHint } = parsed.data;
+
+  if (!isGoogleOAuthConfigured()) {
+    return NextResponse.json(
+      { error: 'Offline Google access is not configured on this server (GMAIL_CLIENT_ID, GMAIL_CLIENT_SECRET, TOKEN_ENCRYPTION_KEY)' },
+      { status: 501 }
+    );
+  }
+
+  const { state, cookieValue } = createOAuthState(user.uid);
+  const response = NextResponse.json<OAuthStartResponse>({
+    url: buildAuthorizationUrl(getRedirectUri(request.nextUrl.origin), state, scopes, loginHint),
+  });
+  response.cookies.set(OAUTH_STATE_COOKIE, cookieValue, {
+    httpOnly: true,
+    secure: request.nextUrl.protocol === 'https:',
+    sameSite: 'lax',
+    path: '/api/auth/google',
+    maxAge: OAUTH_STATE_MAX_AGE_SECONDS,
+  });
+  return response;
+});
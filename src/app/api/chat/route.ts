@@ -1,7 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
 import { personalContextService } from '@/services/personal-context/personal-context-service';
+import { resolveOwnerId, withAuth } from '@/lib/api-auth';
+import { parseJsonBody } from '@/lib/api-validation';
+import { chatRequestSchema, type ChatResponse } from '@/lib/schemas/api';
 
 // Define the enhanced chat prompt that includes personal context
 const chatPrompt = ai.definePrompt({
@@ -33,70 +36,67 @@ User message: {{message}}
 Provide a helpful, informative, and friendly response that is tailored to the user's context and communication preferences.`,
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const { message, userId } = await request.json();
+export const POST = withAuth(async (request, user) => {
+  const parsed = await parseJsonBody(request, chatRequestSchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
+  const userId = resolveOwnerId(user, parsed.data.userId);
 
-    if (!message || typeof message !== 'string') {
-      return NextResponse.json(
-        { error: 'Message is required and must be a string' },
-        { status: 400 }
-      );
-    }
+  try {
+    const { message } = parsed.data;
 
-    // Get personal context if userId is provided
+    // Get personal context of the signed-in user
     let personalContext = '';
     let communicationStyle = '';
     
-    if (userId) {
-      try {
-        const profile = await personalContextService.getPersonalContext(userId);
+    try {
+      const profile = await personalContextService.getPersonalContext(userId);
+      
+      if (profile) {
+        // Build personal context summary
+        const contextParts = [];
         
-        if (profile) {
-          // Build personal context summary
-          const contextParts = [];
-          
-          if (profile.professionalProfile.jobTitle) {
-            contextParts.push(`Job Title: ${profile.professionalProfile.jobTitle}`);
-          }
-          
-          if (profile.professionalProfile.company) {
-            contextParts.push(`Company: ${profile.professionalProfile.company}`);
-          }
-          
-          if (profile.professionalProfile.expertise.length > 0) {
-            contextParts.push(`Expertise: ${profile.professionalProfile.expertise.join(', ')}`);
-          }
-          
-          if (profile.personalPreferences.personalInterests.length > 0) {
-            contextParts.push(`Interests: ${profile.personalPreferences.personalInterests.join(', ')}`);
-          }
-          
-          personalContext = contextParts.join('\n');
-          
-          // Build communication style summary
-          const style = profile.communicationPatterns.globalStyle;
-          const styleParts = [
-            `Tone: ${style.tone}`,
-            `Formality Level: ${style.formality}/10`,
-            `Preferred Response Length: ${style.responseLength}`,
-            `Decision Making Style: ${profile.personalPreferences.decisionMakingStyle}`
-          ];
-          
-          if (style.greetingStyle.length > 0) {
-            styleParts.push(`Greeting Style: ${style.greetingStyle.join(', ')}`);
-          }
-          
-          if (style.closingStyle.length > 0) {
-            styleParts.push(`Closing Style: ${style.closingStyle.join(', ')}`);
-          }
-          
-          communicationStyle = styleParts.join('\n');
+        if (profile.professionalProfile.jobTitle) {
+          contextParts.push(`Job Title: ${profile.professionalProfile.jobTitle}`);
         }
-      } catch (error) {
-        console.warn('Failed to fetch personal context:', error);
-        // Continue without personal context
+        
+        if (profile.professionalProfile.company) {
+          contextParts.push(`Company: ${profile.professionalProfile.company}`);
+        }
+        
+        if (profile.professionalProfile.expertise.length > 0) {
+          contextParts.push(`Expertise: ${profile.professionalProfile.expertise.join(', ')}`);
+        }
+        
+        if (profile.personalPreferences.personalInterests.length > 0) {
+          contextParts.push(`Interests: ${profile.personalPreferences.personalInterests.join(', ')}`);
+        }
+        
+        personalContext = contextParts.join('\n');
+        
+        // Build communication style summary
+        const style = profile.communicationPatterns.globalStyle;
+        const styleParts = [
+          `Tone: ${style.tone}`,
+          `Formality Level: ${style.formality}/10`,
+          `Preferred Response Length: ${style.responseLength}`,
+          `Decision Making Style: ${profile.personalPreferences.decisionMakingStyle}`
+        ];
+        
+        if (style.greetingStyle.length > 0) {
+          styleParts.push(`Greeting Style: ${style.greetingStyle.join(', ')}`);
+        }
+        
+        if (style.closingStyle.length > 0) {
+          styleParts.push(`Closing Style: ${style.closingStyle.join(', ')}`);
+        }
+        
+        communicationStyle = styleParts.join('\n');
       }
+    } catch (error) {
+      console.warn('Failed to fetch personal context:', error);
+      // Continue without personal context
     }
 
     // Use GenKit chat prompt to generate response
@@ -110,7 +110,7 @@ export async function POST(request: NextRequest) {
       throw new Error('No response generated');
     }
 
-    return NextResponse.json({
+    return NextResponse.json<ChatResponse>({
       response: output.response,
       timestamp: new Date().toISOString(),
       hasPersonalContext: !!personalContext
@@ -123,4 +123,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
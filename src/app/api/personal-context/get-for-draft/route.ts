@@ -1,18 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { personalContextService } from '@/services/personal-context/personal-context-service';
+import { resolveOwnerId, withAuth } from '@/lib/api-auth';
+import { parseSearchParams } from '@/lib/api-validation';
+import { ownerQuerySchema, type DraftContextResponse } from '@/lib/schemas/api';
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Missing required parameter: userId' },
-        { status: 400 }
-      );
-    }
+export const GET = withAuth(async (request, user) => {
+  const query = parseSearchParams(request, ownerQuerySchema);
+  if (!query.success) {
+    return query.response;
+  }
+  const userId = resolveOwnerId(user, query.data.userId);
 
+  try {
     console.log(`[API] Getting personal context for draft generation for user: ${userId}`);
 
     try {
@@ -58,7 +57,7 @@ export async function GET(request: NextRequest) {
 
         const formattedContext = contextParts.join(' ');
         
-        return NextResponse.json({
+        return NextResponse.json<DraftContextResponse>({
           success: true,
           userContext: formattedContext,
           hasProfile: true
@@ -67,7 +66,7 @@ export async function GET(request: NextRequest) {
         // No profile found, return fallback context
         const fallbackContext = "I am a busy professional. I prefer concise and direct communication. Today is " + new Date().toLocaleDateString() + ".";
         
-        return NextResponse.json({
+        return NextResponse.json<DraftContextResponse>({
           success: true,
           userContext: fallbackContext,
           hasProfile: false
@@ -79,7 +78,7 @@ export async function GET(request: NextRequest) {
       // Return fallback context on error
       const fallbackContext = "I am a busy professional. I prefer concise and direct communication. Today is " + new Date().toLocaleDateString() + ".";
       
-      return NextResponse.json({
+      return NextResponse.json<DraftContextResponse>({
         success: true,
         userContext: fallbackContext,
         hasProfile: false,
@@ -95,4 +94,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { LearningJobError, learningJobService } from '@/services/personal-context/learning-job-service';
+import { resolveOwnerId, withAuth } from '@/lib/api-auth';
+import { parseRouteParams } from '@/lib/api-validation';
+import { learningJobParamsSchema, type LearningJobResponse } from '@/lib/schemas/api';
+
+export const POST = withAuth(async (_request, user, context) => {
+  const params = await parseRouteParams(context, learningJobParamsSchema);
+  if (!params.success) {
+    return params.response;
+  }
+
+  const job = await learningJobService.getJob(params.data.jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Learning job not found' }, { status: 404 });
+  }
+  resolveOwnerId(user, job.userId);
+
+  try {
+    const updated = await learningJobService.cancel(job.id);
+    return NextResponse.json<LearningJobResponse>({ success: true, job: updated });
+  } catch (error) {
+    if (error instanceof LearningJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.code === 'not_found' ? 404 : 409 });
+    }
+    console.error('[PersonalContextAPI] Error cancelling learning job:', error);
+    return NextResponse.json(
+      { error: `Failed to cancel learning job: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { LearningJobError, learningJobService } from '@/services/personal-context/learning-job-service';
+import { MailServerRejectedError } from '@/services/mail-server-guard';
+import { resolveOwnerId, withAuth } from '@/lib/api-auth';
+import { parseJsonBody, parseRouteParams } from '@/lib/api-validation';
+import { learningJobParamsSchema, resumeLearningJobRequestSchema, type LearningJobResponse } from '@/lib/schemas/api';
+
+export const POST = withAuth(async (request, user, context) => {
+  const params = await parseRouteParams(context, learningJobParamsSchema);
+  if (!params.success) {
+    return params.response;
+  }
+  const parsed = await parseJsonBody(request, resumeLearningJobRequestSchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
+
+  const job = await learningJobService.getJob(params.data.jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Learning job not found' }, { status: 404 });
+  }
+  resolveOwnerId(user, job.userId);
+
+  try {
+    const resumed = await learningJobService.resume(job.id, parsed.data);
+    return NextResponse.json<LearningJobResponse>({ success: true, job: resumed });
+  } catch (error) {
+    if (error instanceof LearningJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.code === 'not_found' ? 404 : 409 });
+    }
+    if (error instanceof MailServerRejectedError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('[PersonalContextAPI] Error resuming learning job:', error);
+    return NextResponse.json(
+      { error: `Failed to resume learning job: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
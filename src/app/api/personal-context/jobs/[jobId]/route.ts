@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { learningJobService } from '@/services/personal-context/learning-job-service';
+import { resolveOwnerId, withAuth } from '@/lib/api-auth';
+import { parseRouteParams } from '@/lib/api-validation';
+import { learningJobParamsSchema, type LearningJobResponse } from '@/lib/schemas/api';
+
+export const GET = withAuth(async (_request, user, context) => {
+  const params = await parseRouteParams(context, learningJobParamsSchema);
+  if (!params.success) {
+    return params.response;
+  }
+
+  const job = await learningJobService.getJob(params.data.jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Learning job not found' }, { status: 404 });
+  }
+  resolveOwnerId(user, job.userId);
+
+  return NextResponse.json<LearningJobResponse>({ success: true, job });
+});
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { LearningJobError, learningJobService } from '@/services/personal-context/learning-job-service';
+import { OAuthCredentialError } from '@/services/oauth-credential-store';
+import { MailServerRejectedError } from '@/services/mail-server-guard';
+import { assertSameUser, resolveOwnerId, withAuth } from '@/lib/api-auth';
+import { parseJsonBody } from '@/lib/api-validation';
+import { learnRequestSchema, type LearnEstimateResponse } from '@/lib/schemas/api';
+
+// Takes the same body as POST /api/personal-context/learn, so the page can estimate exactly the
+// job it is about to start
+export const POST = withAuth(async (request, user) => {
+  const parsed = await parseJsonBody(request, learnRequestSchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
+  const body = parsed.data;
+  const userId = resolveOwnerId(user, body.userId);
+  if (body.credentials) {
+    assertSameUser(user, body.credentials.userId);
+  }
+
+  try {
+    const { accessToken, imapAccount, mode, options } = body;
+    const source = await learningJobService.resolveSource(body);
+    const estimate = await learningJobService.estimate({
+      userId,
+      mode,
+      options,
+      source,
+      credentials: { accessToken, imapAccount }
+    });
+    return NextResponse.json<LearnEstimateResponse>({ success: true, estimate });
+  } catch (error) {
+    if (error instanceof MailServerRejectedError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof LearningJobError || error instanceof OAuthCredentialError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 401 });
+    }
+    console.error('[PersonalContextAPI] Error estimating learning:', error);
+    return NextResponse.json(
+      { success: false, error: `Failed to estimate learning: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
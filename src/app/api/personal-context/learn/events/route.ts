@@ -0,0 +1,77 @@
+import { personalContextService } from '@/services/personal-context/personal-context-service';
+import { learningJobService } from '@/services/personal-context/learning-job-service';
+import { learningEvents } from '@/services/personal-context/learning-events';
+import type { LearningEvent } from '@/types/personal-context';
+import { resolveOwnerId, withAuth } from '@/lib/api-auth';
+import { parseSearchParams } from '@/lib/api-validation';
+import { ownerQuerySchema } from '@/lib/schemas/api';
+
+// Comment lines keep proxies from closing a quiet stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+function formatEvent(event: LearningEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Streams the owner's learning events as Server-Sent Events. The first event is a snapshot of the
+// latest job and progress; after that come the job's status, phase and batch changes and its logs.
+export const GET = withAuth(async (request, user) => {
+  const query = parseSearchParams(request, ownerQuerySchema);
+  if (!query.success) {
+    return query.response;
+  }
+  const userId = resolveOwnerId(user, query.data.userId);
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      // Subscribe before reading the snapshot, so nothing that happens meanwhile is missed
+      const unsubscribe = learningEvents.subscribe(userId, event => write(formatEvent(event)));
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        const wasOpen = !closed;
+        stop();
+        if (wasOpen) {
+          controller.close();
+        }
+      });
+
+      try {
+        const [progress, job] = await Promise.all([
+          personalContextService.getLearningProgress(userId),
+          learningJobService.getLatestJob(userId)
+        ]);
+        write(formatEvent({ type: 'snapshot', job, progress }));
+      } catch (error) {
+        console.error('[PersonalContextAPI] Error loading learning snapshot:', error);
+        write(formatEvent({ type: 'error', message: `Failed to load learning progress: ${(error as Error).message}` }));
+      }
+    },
+    cancel() {
+      stop();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+});
@@ -1,49 +1,37 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { personalContextService } from '@/services/personal-context/personal-context-service';
-import type { PersonalContextLearningInput } from '@/types/personal-context';
+import { LearningJobError, learningJobService } from '@/services/personal-context/learning-job-service';
+import { OAuthCredentialError } from '@/services/oauth-credential-store';
+import { MailServerRejectedError } from '@/services/mail-server-guard';
+import { assertSameUser, resolveOwnerId, withAuth } from '@/lib/api-auth';
+import { parseJsonBody, parseSearchParams } from '@/lib/api-validation';
+import { learnRequestSchema, ownerQuerySchema, type LearnResponse, type LearningProgressResponse } from '@/lib/schemas/api';
 
 // Helper function for server-side logging that will be captured by the UI
 const serverLog = (message: string) => {
   console.log(`[PersonalContextAPI] ${message}`);
 };
 
-export async function POST(request: NextRequest) {
-  try {
-    serverLog('API route called - Processing request');
-    
-    // First log the start of the API call with a unique identifier to help synchronize logs
-    const apiCallId = Date.now().toString(36) + Math.random().toString(36).substring(2, 7);
-    serverLog(`API call started with ID: ${apiCallId}`);
-    
-    const body = await request.json();
-    
-    // Validate required fields
-    const { userId, accessToken, options } = body;
-    
-    if (!userId || !accessToken) {
-      serverLog(`Missing required fields: userId and accessToken`);
-      return NextResponse.json(
-        { error: 'Missing required fields: userId and accessToken' },
-        { status: 400 }
-      );
-    }
-
-    // Set default options if not provided
-    const learningOptions = {
-      timeRange: options?.timeRange || 'last_3months',
-      analysisDepth: options?.analysisDepth || 'standard',
-      includePromotional: options?.includePromotional ?? false,
-      minThreadLength: options?.minThreadLength || 2,
-      ...options
-    };
+export const POST = withAuth(async (request, user) => {
+  const parsed = await parseJsonBody(request, learnRequestSchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
+  const body = parsed.data;
+  const userId = resolveOwnerId(user, body.userId);
+  // Stored Google credentials can only be used by the user who connected them
+  if (body.credentials) {
+    assertSameUser(user, body.credentials.userId);
+  }
 
-    const input: PersonalContextLearningInput = {
-      userId,
-      accessToken,
-      options: learningOptions
-    };
+  try {
+    // IMAP accounts are learned from instead of Gmail when given, and server-held Google
+    // credentials are used instead of a posted access token when available. The schema has
+    // already filled in default options.
+    const { accessToken, imapAccount, mode, options: learningOptions } = body;
+    const source = await learningJobService.resolveSource(body);
 
-    serverLog(`Starting personal context learning for user: ${userId}`);
+    serverLog(`Queueing ${mode} personal context learning for user: ${userId}`);
     serverLog(`Learning options: ${JSON.stringify({
       timeRange: learningOptions.timeRange,
       analysisDepth: learningOptions.analysisDepth,
@@ -51,19 +39,27 @@ export async function POST(request: NextRequest) {
       minThreadLength: learningOptions.minThreadLength
     })}`);
     
-    // Start the learning process
-    const result = await personalContextService.learnPersonalContext(input);
-
-    serverLog(`Learning process ${result.success ? 'completed successfully' : 'failed'}`);
-    serverLog(`API route response status: ${result.success ? 'success' : 'error'}`);
-    serverLog(`API call completed with ID: ${apiCallId}`);
-    
-    // Return the result with the API call ID for log synchronization
-    return NextResponse.json({
-      ...result,
-      _apiCallId: apiCallId
+    const job = await learningJobService.enqueue({
+      userId,
+      requestedBy: user.uid,
+      mode,
+      options: learningOptions,
+      source,
+      credentials: { accessToken, imapAccount }
     });
+    serverLog(`Queued learning job ${job.id}`);
+    
+    return NextResponse.json<LearnResponse>({ success: true, job }, { status: 202 });
   } catch (error) {
+    if (error instanceof LearningJobError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.code === 'not_found' ? 404 : 409 });
+    }
+    if (error instanceof MailServerRejectedError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof OAuthCredentialError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 401 });
+    }
     serverLog(`Error in learn API: ${(error as Error).message}`);
     serverLog(`API route error stack: ${(error as Error).stack?.slice(0, 200)}...`);
     return NextResponse.json(
@@ -71,27 +67,26 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    
-    if (!userId) {
-      serverLog(`Missing userId parameter`);
-      return NextResponse.json(
-        { error: 'Missing userId parameter' },
-        { status: 400 }
-      );
-    }
+export const GET = withAuth(async (request, user) => {
+  const query = parseSearchParams(request, ownerQuerySchema);
+  if (!query.success) {
+    return query.response;
+  }
+  const userId = resolveOwnerId(user, query.data.userId);
 
-    // Get learning progress
-    const progress = await personalContextService.getLearningProgress(userId);
+  try {
+    // Get learning progress and the job behind it
+    const [progress, job] = await Promise.all([
+      personalContextService.getLearningProgress(userId),
+      learningJobService.getLatestJob(userId)
+    ]);
     
-    return NextResponse.json({
+    return NextResponse.json<LearningProgressResponse>({
       success: true,
-      progress
+      progress,
+      job
     });
     
   } catch (error) {
@@ -102,4 +97,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -1,19 +1,18 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { personalContextService } from '@/services/personal-context/personal-context-service';
 import type { PersonalContextUpdateInput } from '@/types/personal-context';
+import { resolveOwnerId, withAuth } from '@/lib/api-auth';
+import { parseJsonBody, parseSearchParams } from '@/lib/api-validation';
+import { ownerQuerySchema, profileUpdateRequestSchema, type ProfileResponse } from '@/lib/schemas/api';
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Missing userId parameter' },
-        { status: 400 }
-      );
-    }
+export const GET = withAuth(async (request, user) => {
+  const query = parseSearchParams(request, ownerQuerySchema);
+  if (!query.success) {
+    return query.response;
+  }
+  const userId = resolveOwnerId(user, query.data.userId);
 
+  try {
     // Get personal context profile
     const profile = await personalContextService.getPersonalContext(userId);
     
@@ -24,7 +23,7 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    return NextResponse.json({
+    return NextResponse.json<ProfileResponse>({
       success: true,
       profile
     });
@@ -37,27 +36,24 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
+
+export const POST = withAuth(async (request, user) => {
+  const parsed = await parseJsonBody(request, profileUpdateRequestSchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
+  const userId = resolveOwnerId(user, parsed.data.userId);
 
-export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    
-    // Validate required fields for updating context
-    const { userId, emailContent, recipientEmail, userReply, threadContext } = body;
-    
-    if (!userId || !emailContent || !recipientEmail || !userReply) {
-      return NextResponse.json(
-        { error: 'Missing required fields: userId, emailContent, recipientEmail, userReply' },
-        { status: 400 }
-      );
-    }
+    const { emailContent, recipientEmail, userReply, aiDraft, threadContext } = parsed.data;
 
     const input: PersonalContextUpdateInput = {
       userId,
       emailContent,
       recipientEmail,
       userReply,
+      aiDraft,
       threadContext
     };
 
@@ -70,7 +66,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'Personal context updated successfully',
-        updates: result.updates
+        updates: result.updates,
+        replyOrigin: result.replyOrigin
       });
     } else {
       return NextResponse.json(
@@ -87,20 +84,16 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Missing userId parameter' },
-        { status: 400 }
-      );
-    }
+export const DELETE = withAuth(async (request, user) => {
+  const query = parseSearchParams(request, ownerQuerySchema);
+  if (!query.success) {
+    return query.response;
+  }
+  const userId = resolveOwnerId(user, query.data.userId);
 
+  try {
     // Delete personal context data
     const result = await personalContextService.deletePersonalContextData(userId);
     
@@ -124,4 +117,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
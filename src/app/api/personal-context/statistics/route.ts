@@ -1,18 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { personalContextService } from '@/services/personal-context/personal-context-service';
+import { resolveOwnerId, withAuth } from '@/lib/api-auth';
+import { parseSearchParams } from '@/lib/api-validation';
+import { ownerQuerySchema, type StatisticsResponse } from '@/lib/schemas/api';
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Missing userId parameter' },
-        { status: 400 }
-      );
-    }
+export const GET = withAuth(async (request, user) => {
+  const query = parseSearchParams(request, ownerQuerySchema);
+  if (!query.success) {
+    return query.response;
+  }
+  const userId = resolveOwnerId(user, query.data.userId);
 
+  try {
     // Get user statistics
     const statistics = await personalContextService.getUserStatistics(userId);
     
@@ -23,7 +22,7 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    return NextResponse.json({
+    return NextResponse.json<StatisticsResponse>({
       success: true,
       statistics
     });
@@ -36,4 +35,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
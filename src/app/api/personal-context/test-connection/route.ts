@@ -1,17 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { personalContextService } from '@/services/personal-context/personal-context-service';
+import { withAuth } from '@/lib/api-auth';
+import { parseJsonBody } from '@/lib/api-validation';
+import { testConnectionRequestSchema } from '@/lib/schemas/api';
+
+export const POST = withAuth(async (request) => {
+  const parsed = await parseJsonBody(request, testConnectionRequestSchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
 
-export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { accessToken } = body;
-    
-    if (!accessToken) {
-      return NextResponse.json(
-        { error: 'Missing accessToken' },
-        { status: 400 }
-      );
-    }
+    const { accessToken } = parsed.data;
 
     // Test Gmail connection
     const result = await personalContextService.testGmailConnection(accessToken);
@@ -30,4 +30,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
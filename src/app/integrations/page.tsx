@@ -1,7 +1,27 @@
+"use client";
+
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { PlugZap } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { KeyRound, Loader2, LogIn, PlugZap } from "lucide-react";
+import { useAuth } from "@/contexts/auth-context";
+import { GOOGLE_SCOPES, hasGoogleScope, type GoogleScopeId } from "@/lib/google-scopes";
 
 export default function IntegrationsPage() {
+  const { currentUser, loading, handleSignIn, accounts, ensureScopes, revokeScope } = useAuth();
+  // `${accountId}:${scopeId}` of the permission being granted or revoked
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+
+  const runForScope = async (accountId: string, scopeId: GoogleScopeId, task: () => Promise<unknown>) => {
+    setPendingKey(`${accountId}:${scopeId}`);
+    try {
+      await task();
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
   return (
     <div className="flex flex-col gap-6">
       <div>
@@ -13,19 +33,89 @@ export default function IntegrationsPage() {
       <Card className="shadow-md">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <PlugZap className="h-6 w-6 text-primary" />
-            Available Integrations
+            <KeyRound className="h-6 w-6 text-primary" />
+            Google Permissions
           </CardTitle>
           <CardDescription>
-            Manage your connections to streamline your workflow.
+            Accounts start with read-only Gmail access. Other permissions are requested when a feature first needs them, and can be revoked here.
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="flex flex-col items-center justify-center h-64 border-2 border-dashed border-border rounded-lg">
-            <PlugZap className="h-16 w-16 text-muted-foreground/50 mb-4" />
-            <p className="text-muted-foreground">No integrations connected yet.</p>
-            <p className="text-sm text-muted-foreground/80">Check back soon for new integrations!</p>
-          </div>
+        <CardContent className="space-y-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !currentUser ? (
+            <div className="flex flex-col items-center justify-center h-48 border-2 border-dashed border-border rounded-lg gap-3">
+              <p className="text-muted-foreground">Sign in to see which permissions you have granted.</p>
+              <Button variant="outline" size="sm" onClick={handleSignIn}>
+                <LogIn className="mr-2 h-4 w-4" />
+                Sign In with Google
+              </Button>
+            </div>
+          ) : (
+            accounts.map(account => (
+              <div key={account.id} className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: account.color }} />
+                  <span className="font-medium">{account.email}</span>
+                  {!account.accessToken && <Badge variant="outline">Not connected this session</Badge>}
+                </div>
+                <div className="divide-y divide-border rounded-lg border border-border">
+                  {GOOGLE_SCOPES.map(definition => {
+                    const granted = hasGoogleScope(account.grantedScopes, definition.id);
+                    const isPending = pendingKey === `${account.id}:${definition.id}`;
+                    // Revoking a narrower scope can take a broader one with it
+                    const alsoRemoved = granted
+                      ? GOOGLE_SCOPES.filter(other => definition.impliedBy.includes(other.scope) && hasGoogleScope(account.grantedScopes, other.id))
+                      : [];
+                    return (
+                      <div key={definition.id} className="flex items-center justify-between gap-4 p-3">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium">{definition.label}</span>
+                            <Badge variant={granted ? "default" : "secondary"}>{granted ? "Granted" : "Not granted"}</Badge>
+                          </div>
+                          <p className="text-xs text-muted-foreground">{definition.description}</p>
+                          {alsoRemoved.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Revoking also removes {alsoRemoved.map(other => other.label).join(", ")}.
+                            </p>
+                          )}
+                        </div>
+                        {definition.required ? (
+                          <span className="text-xs text-muted-foreground">Required</span>
+                        ) : granted ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!!pendingKey}
+                            onClick={() => runForScope(account.id, definition.id, () => revokeScope(account.id, definition.id))}
+                          >
+                            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Revoke
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            disabled={!!pendingKey}
+                            onClick={() => runForScope(account.id, definition.id, () => ensureScopes(account.id, [definition.id]))}
+                          >
+                            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Grant
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))
+          )}
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <PlugZap className="h-4 w-4" />
+            Google can only revoke an app&apos;s access as a whole, so after revoking you&apos;ll be asked to approve the permissions you keep.
+          </p>
         </CardContent>
       </Card>
     </div>
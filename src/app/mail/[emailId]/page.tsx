@@ -1,38 +1,83 @@
 "use client";
 
-import { useState, useEffect, useTransition, useCallback } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useState, useEffect, useTransition, useCallback, useMemo } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { useToast } from "@/hooks/use-toast";
-import type { Email } from "@/types/mail";
-import { getEmailById, sendEmail, markEmailAsRead as apiMarkEmailAsRead } from "@/services/gmail";
+import type { BodyHighlight, ComposeMode, Email, EmailAttachment, MailboxAction, MailLabel, MailThread, OutgoingEmail } from "@/types/mail";
+import {
+  getThreadForMessage,
+  sendEmail,
+  getAttachmentData,
+  markEmailAsRead as apiMarkEmailAsRead,
+  createDraft,
+  updateDraft,
+  deleteDraft,
+  sendDraft,
+  getDraftIdForMessage,
+  listLabels,
+  applyMailboxAction,
+} from "@/services/gmail";
+import {
+  formatThreadForPrompt,
+  fileToOutgoingAttachment,
+  formatFileSize,
+  getReplyRecipients,
+  applyMailboxActionToEmail,
+  parseAddressList,
+  extractEmailAddress,
+  prefixSubject,
+  MAX_ATTACHMENT_TOTAL_BYTES,
+} from "@/lib/mail-utils";
 import { handleGenerateEmailDrafts, handleRegenerateEmailDrafts } from "@/app/actions";
 import type { GenerateEmailDraftsInput } from "@/ai/flows/generate-email-drafts";
 import { useAuth } from "@/contexts/auth-context";
+import { getContextOwnerId } from "@/lib/mail-accounts";
+import { authorizedFetch } from "@/lib/api-client";
 
 import { EmailDetailView } from "../components/email-detail-view";
 import { DraftSummaryCard } from "../components/draft-summary-card";
-import { MainReplyComposer } from "../components/main-reply-composer";
+import { MainReplyComposer, type ComposeRecipients } from "../components/main-reply-composer";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2, ArrowLeft, AlertTriangle, Mail as MailIcon, Link as LinkIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 
 export default function EmailDetailPage() {
-  const { currentUser, googleAccessToken, loading: authLoading, handleSignIn } = useAuth();
+  const { currentUser, loading: authLoading, handleSignIn, accounts, activeAccount, connectAccount, hasScopes, ensureScopes } = useAuth();
   const params = useParams();
+  const searchParams = useSearchParams();
   const router = useRouter();
   const { toast } = useToast();
 
   const emailId = params.emailId as string;
+  // Messages opened from the unified inbox name the account they belong to
+  const accountId = searchParams.get("account");
+  const mailAccount = (accountId ? accounts.find(account => account.id === accountId) : null) ?? activeAccount;
+  // Evidence links from the personal context mark the quote they point to, as "start-end"
+  const highlightParam = searchParams.get("highlight")?.match(/^(\d+)-(\d+)$/);
+  const highlight: BodyHighlight | undefined = highlightParam
+    ? { start: Number(highlightParam[1]), end: Number(highlightParam[2]) }
+    : undefined;
+  const googleAccessToken = mailAccount?.accessToken ?? null;
+  const canModifyMail = !!mailAccount && hasScopes(mailAccount.id, ["gmail.modify"]);
 
-  const [emailDetails, setEmailDetails] = useState<Email | null>(null);
+  const [thread, setThread] = useState<MailThread | null>(null);
   const [isFetchingEmail, setIsFetchingEmail] = useState(true);
   const [generatedDrafts, setGeneratedDrafts] = useState<string[]>([]);
+  const [aiDrafts, setAiDrafts] = useState<string[]>([]); // Drafts as generated, before edits in their cards
+  const [replyAiDraft, setReplyAiDraft] = useState<string | null>(null); // AI draft the composer started from
   const [activeReplyContent, setActiveReplyContent] = useState("");
+  const [replyAttachments, setReplyAttachments] = useState<File[]>([]);
+  const [composeMode, setComposeMode] = useState<ComposeMode>("reply");
+  const [recipients, setRecipients] = useState<ComposeRecipients>({ to: "", cc: "", bcc: "" });
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(null); // Gmail draft backing the composer
+  const [labels, setLabels] = useState<MailLabel[]>([]);
 
   const [isGeneratingDrafts, startDraftGenerationTransition] = useTransition();
   const [isRegenerating, startRegenerationTransition] = useTransition();
   const [isSendingReply, startSendingTransition] = useTransition();
+  const [isSavingDraft, startSavingDraftTransition] = useTransition();
+  const [isApplyingAction, startMailboxActionTransition] = useTransition();
 
   const fetchAndSetEmailDetails = useCallback(async () => {
     if (!emailId || !googleAccessToken) {
@@ -45,23 +90,23 @@ export default function EmailDetailPage() {
 
     setIsFetchingEmail(true);
     try {
-      const fetchedEmail = await getEmailById(googleAccessToken, emailId);
-      if (fetchedEmail) {
-        setEmailDetails(fetchedEmail);
-        if (!fetchedEmail.read) {
-          await apiMarkEmailAsRead(googleAccessToken, emailId);
-        }
+      const fetchedThread = await getThreadForMessage(googleAccessToken, emailId);
+      if (fetchedThread) {
+        setThread(fetchedThread);
+        // Read-only accounts leave mail unread rather than prompting for more access on every open
+        const unreadMessages = canModifyMail ? fetchedThread.messages.filter(message => !message.read) : [];
+        await Promise.all(unreadMessages.map(message => apiMarkEmailAsRead(googleAccessToken, message.id)));
       } else {
         toast({ title: "Error", description: "Could not fetch email details.", variant: "destructive" });
-        setEmailDetails(null);
+        setThread(null);
       }
     } catch (error) {
       toast({ title: "Error Fetching Email", description: (error as Error).message, variant: "destructive" });
-      setEmailDetails(null);
+      setThread(null);
     } finally {
       setIsFetchingEmail(false);
     }
-  }, [emailId, googleAccessToken, toast, authLoading, currentUser]);
+  }, [emailId, googleAccessToken, canModifyMail, toast, authLoading, currentUser]);
 
   useEffect(() => {
     if (currentUser && googleAccessToken) {
@@ -71,6 +116,82 @@ export default function EmailDetailPage() {
     }
   }, [fetchAndSetEmailDetails, currentUser, googleAccessToken, authLoading]);
 
+  // Saved drafts belong to the thread too, but they are edited in the composer rather than shown
+  // as messages. A thread that is nothing but a draft is displayed as-is.
+  const conversation: MailThread | null = useMemo(() => {
+    if (!thread || !thread.messages.some(message => !message.isDraft)) return thread;
+    return { ...thread, messages: thread.messages.filter(message => !message.isDraft) };
+  }, [thread]);
+
+  const savedDraft: Email | null = useMemo(() => {
+    if (!thread || conversation === thread) return null;
+    const drafts = thread.messages.filter(message => message.isDraft);
+    return drafts.find(message => message.id === emailId) ?? drafts[drafts.length - 1] ?? null;
+  }, [thread, conversation, emailId]);
+
+  // The opened message is the reply target; fall back to the latest one if the ID moved threads
+  // (or if the opened message is a draft)
+  const emailDetails: Email | null = conversation
+    ? conversation.messages.find(message => message.id === emailId) ?? conversation.messages[conversation.messages.length - 1]
+    : null;
+
+  const resetRecipients = useCallback((original: Email, mode: ComposeMode) => {
+    const { to, cc } = getReplyRecipients(original, mode, mailAccount?.email ?? currentUser?.email);
+    setRecipients({ to: to.join(", "), cc: cc.join(", "), bcc: "" });
+  }, [mailAccount?.email, currentUser?.email]);
+
+  // A freshly opened conversation starts as a plain reply to the focused message, unless there is
+  // a saved draft to pick back up
+  useEffect(() => {
+    if (!emailDetails) return;
+    setActiveDraftId(null);
+    if (!savedDraft || !googleAccessToken) {
+      setComposeMode("reply");
+      resetRecipients(emailDetails, "reply");
+      return;
+    }
+
+    setComposeMode(savedDraft.cc?.length ? "replyAll" : "reply");
+    setRecipients({
+      to: (savedDraft.to ?? []).join(", "),
+      cc: (savedDraft.cc ?? []).join(", "),
+      bcc: (savedDraft.bcc ?? []).join(", "),
+    });
+    setActiveReplyContent(savedDraft.body);
+    setReplyAiDraft(null);
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const [draftId, files] = await Promise.all([
+          getDraftIdForMessage(googleAccessToken, savedDraft.id),
+          // Re-attach the draft's files so saving it again doesn't drop them
+          Promise.all((savedDraft.attachments ?? []).map(async (attachment) => {
+            const data = await getAttachmentData(googleAccessToken, attachment);
+            return new File([data], attachment.filename, { type: attachment.mimeType });
+          })),
+        ]);
+        if (cancelled) return;
+        setActiveDraftId(draftId);
+        setReplyAttachments(files);
+      } catch (error) {
+        if (!cancelled) {
+          toast({ title: "Error Loading Draft", description: (error as Error).message, variant: "destructive" });
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // Keyed on IDs: label/star changes replace the message objects but must not reset the composer
+  }, [emailDetails?.id, savedDraft?.id, googleAccessToken, resetRecipients, toast]);
+
+  const handleComposeModeChange = (mode: ComposeMode) => {
+    setComposeMode(mode);
+    if (emailDetails) resetRecipients(emailDetails, mode);
+  };
+
   const getPersonalContextForUser = async (): Promise<string> => {
     if (!currentUser?.uid) {
       console.warn("No current user for personal context");
@@ -78,7 +199,8 @@ export default function EmailDetailPage() {
     }
 
     try {
-      const response = await fetch(`/api/personal-context/get-for-draft?userId=${encodeURIComponent(currentUser.uid)}`, {
+      const contextOwnerId = getContextOwnerId(currentUser.uid, mailAccount);
+      const response = await authorizedFetch(`/api/personal-context/get-for-draft?userId=${encodeURIComponent(contextOwnerId)}`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -104,19 +226,21 @@ export default function EmailDetailPage() {
   };
 
   const handleGenerateInitialDrafts = () => {
-    if (!emailDetails || !emailDetails.body) {
+    if (!conversation || !emailDetails || !emailDetails.body) {
       toast({ title: "Error", description: "Email content not fully loaded or empty.", variant: "destructive" });
       return;
     }
     startDraftGenerationTransition(async () => {
       const userContext = await getPersonalContextForUser();
-      const input: GenerateEmailDraftsInput = { emailContent: emailDetails.body, userContext };
+      const input: GenerateEmailDraftsInput = { emailContent: formatThreadForPrompt(conversation), userContext };
       const result = await handleGenerateEmailDrafts(input);
       if ("error" in result || !("drafts" in result) || !result.drafts) {
         toast({ title: "Error Generating Drafts", description: (result as any).error || "Failed to generate drafts.", variant: "destructive" });
         setGeneratedDrafts(["Error generating draft.", "Error generating draft.", "Error generating draft."]);
+        setAiDrafts([]);
       } else {
         setGeneratedDrafts(result.drafts as [string, string, string]);
+        setAiDrafts(result.drafts);
         toast({ title: "Drafts Generated", description: "Successfully generated 3 email drafts using your personal context." });
       }
     });
@@ -130,49 +254,216 @@ export default function EmailDetailPage() {
     });
   };
 
-  const handleSelectDraftForComposer = (draftContent: string) => {
+  const handleSelectDraftForComposer = (draftContent: string, index: number) => {
     setActiveReplyContent(draftContent);
+    setReplyAiDraft(aiDrafts[index] ?? null);
   };
 
   const handleRegenerateInComposer = () => {
-    if (!emailDetails || !emailDetails.body) {
+    if (!conversation || !emailDetails || !emailDetails.body) {
        toast({ title: "Error", description: "Original email content not fully loaded or empty.", variant: "destructive" });
       return;
     }
     startRegenerationTransition(async () => {
       const userContext = await getPersonalContextForUser();
-      const input: GenerateEmailDraftsInput = { emailContent: emailDetails.body, userContext };
+      const input: GenerateEmailDraftsInput = { emailContent: formatThreadForPrompt(conversation), userContext };
       const result = await handleRegenerateEmailDrafts(input);
        if ("error" in result || !("draftReplies" in result) || !result.draftReplies) {
         toast({ title: "Error Regenerating Drafts", description: (result as any).error || "Failed to regenerate drafts.", variant: "destructive" });
         const errorDrafts = generatedDrafts.map(() => "Error regenerating.") as [string,string,string];
         setGeneratedDrafts(errorDrafts.slice(0,3));
+        setAiDrafts([]);
       } else {
         setGeneratedDrafts(result.draftReplies.slice(0,3) as [string, string, string]);
+        setAiDrafts(result.draftReplies.slice(0, 3));
         toast({ title: "Drafts Regenerated", description: "Successfully regenerated 3 email drafts using your personal context." });
         if (result.draftReplies.length > 0) {
           setActiveReplyContent(result.draftReplies[0]);
+          setReplyAiDraft(result.draftReplies[0]);
+        }
+      }
+    });
+  };
+
+  useEffect(() => {
+    if (!googleAccessToken) return;
+    listLabels(googleAccessToken)
+      .then(setLabels)
+      .catch(error => console.warn("EmailDetailPage: Failed to load labels:", error));
+  }, [googleAccessToken]);
+
+  // Actions apply to every message in the conversation, like Gmail's conversation view.
+  // Anything that takes the conversation out of the mailbox (or marks it unread) returns to the list.
+  const handleMailboxAction = (action: MailboxAction) => {
+    if (!conversation || !mailAccount) return;
+    startMailboxActionTransition(async () => {
+      try {
+        const token = await ensureScopes(mailAccount.id, ["gmail.modify"]);
+        if (!token) return;
+        await applyMailboxAction(token, conversation.messages.map(message => message.id), action);
+        const leavesConversation = action.type === "archive" || action.type === "trash" || action.type === "snooze"
+          || (action.type === "markRead" && !action.read);
+        if (leavesConversation) {
+          const descriptions: Record<string, string> = {
+            archive: "Conversation archived.",
+            trash: "Conversation moved to Trash.",
+            snooze: "Conversation moved to Snoozed.",
+            markRead: "Conversation marked as unread.",
+          };
+          toast({ title: "Done", description: descriptions[action.type] });
+          router.push('/mail');
+          return;
         }
+        setThread(prev => prev && {
+          ...prev,
+          messages: prev.messages.map(message => conversation.messages.some(m => m.id === message.id)
+            ? applyMailboxActionToEmail(message, action) ?? message
+            : message),
+        });
+      } catch (error) {
+        toast({ title: "Action Failed", description: (error as Error).message || "Could not update this conversation.", variant: "destructive" });
+      }
+    });
+  };
+
+  // Stable so inline images aren't refetched on every render of the thread view
+  const fetchInlineAttachmentData = useCallback(async (attachment: EmailAttachment) => {
+    if (!googleAccessToken) throw new Error("Not signed in to Gmail.");
+    return getAttachmentData(googleAccessToken, attachment);
+  }, [googleAccessToken]);
+
+  const handleDownloadAttachment = async (attachment: EmailAttachment) => {
+    if (!googleAccessToken) return;
+    try {
+      const data = await getAttachmentData(googleAccessToken, attachment);
+      const url = URL.createObjectURL(new Blob([data], { type: attachment.mimeType }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = attachment.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Download Failed", description: (error as Error).message || `Could not download ${attachment.filename}.`, variant: "destructive" });
+    }
+  };
+
+  const buildOutgoingEmail = async (original: Email, body: string): Promise<OutgoingEmail> => ({
+    to: parseAddressList(recipients.to),
+    cc: parseAddressList(recipients.cc),
+    bcc: parseAddressList(recipients.bcc),
+    subject: prefixSubject(original.subject, composeMode),
+    body,
+    attachments: await Promise.all(replyAttachments.map(fileToOutgoingAttachment)),
+    mode: composeMode,
+    original,
+  });
+
+  const handleSaveDraft = (content: string = activeReplyContent) => {
+    if (!emailDetails || !mailAccount) return;
+    startSavingDraftTransition(async () => {
+      try {
+        const token = await ensureScopes(mailAccount.id, ["gmail.compose"]);
+        if (!token) return;
+        const message = await buildOutgoingEmail(emailDetails, content);
+        const draft = activeDraftId
+          ? await updateDraft(token, activeDraftId, message)
+          : await createDraft(token, message);
+        setActiveDraftId(draft.id);
+        toast({ title: "Draft Saved", description: "Saved to your Gmail drafts. Open it from the Drafts box to keep editing." });
+      } catch (error) {
+        toast({ title: "Error Saving Draft", description: (error as Error).message || "Failed to save the draft.", variant: "destructive" });
       }
     });
   };
 
+  const handleSaveGeneratedDraft = (content: string) => {
+    setActiveReplyContent(content);
+    handleSaveDraft(content);
+  };
+
+  const handleDiscardDraft = () => {
+    if (!activeDraftId || !mailAccount || !emailDetails) return;
+    startSavingDraftTransition(async () => {
+      try {
+        const token = await ensureScopes(mailAccount.id, ["gmail.compose"]);
+        if (!token) return;
+        await deleteDraft(token, activeDraftId);
+        setActiveDraftId(null);
+        setActiveReplyContent("");
+        setReplyAttachments([]);
+        handleComposeModeChange("reply");
+        toast({ title: "Draft Discarded", description: "The draft was removed from Gmail." });
+      } catch (error) {
+        toast({ title: "Error Discarding Draft", description: (error as Error).message || "Failed to delete the draft.", variant: "destructive" });
+      }
+    });
+  };
+
+  // Feeds a sent reply back into the personal context. Runs after the send, and a failure only
+  // costs the learning, so it isn't surfaced.
+  const recordSentReply = (original: Email, recipient: string, userReply: string, aiDraft: string | null) => {
+    if (!currentUser) return;
+    authorizedFetch('/api/personal-context/profile', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        userId: getContextOwnerId(currentUser.uid, mailAccount),
+        emailContent: original.body || original.snippet || original.subject,
+        recipientEmail: extractEmailAddress(recipient),
+        userReply,
+        ...(aiDraft ? { aiDraft } : {}),
+      }),
+    })
+      .then(response => {
+        if (!response.ok) console.warn(`EmailDetailPage: Personal context not updated (${response.status})`);
+      })
+      .catch(error => console.warn("EmailDetailPage: Failed to update personal context:", error));
+  };
+
   const handleSendReply = () => {
-    if (!emailDetails || !activeReplyContent.trim() || !googleAccessToken) {
-      toast({ title: "Error", description: "Cannot send reply. Check login, email selection, or content.", variant: "destructive" });
+    const to = parseAddressList(recipients.to);
+    if (!emailDetails || !mailAccount || !googleAccessToken || to.length === 0 || (composeMode !== "forward" && !activeReplyContent.trim())) {
+      toast({ title: "Error", description: "Cannot send. Check login, recipients, or content.", variant: "destructive" });
+      return;
+    }
+    const forwardedBytes = composeMode === "forward"
+      ? (emailDetails.attachments ?? []).reduce((sum, attachment) => sum + attachment.size, 0)
+      : 0;
+    const totalAttachmentBytes = replyAttachments.reduce((sum, file) => sum + file.size, forwardedBytes);
+    if (totalAttachmentBytes > MAX_ATTACHMENT_TOTAL_BYTES) {
+      toast({
+        title: "Attachments Too Large",
+        description: `Attachments total ${formatFileSize(totalAttachmentBytes)}; Gmail allows up to ${formatFileSize(MAX_ATTACHMENT_TOTAL_BYTES)}.`,
+        variant: "destructive",
+      });
       return;
     }
     startSendingTransition(async () => {
       try {
-        await sendEmail(
-          googleAccessToken,
-          emailDetails.senderEmail,
-          `Re: ${emailDetails.subject}`,
-          activeReplyContent
-        );
-        toast({ title: "Email Sent", description: "Your reply has been sent via Gmail." });
+        const token = await ensureScopes(mailAccount.id, ["gmail.compose"]);
+        if (!token) return;
+        const message = await buildOutgoingEmail(emailDetails, activeReplyContent);
+        if (activeDraftId) {
+          await sendDraft(token, activeDraftId, message);
+          setActiveDraftId(null);
+        } else {
+          await sendEmail(token, message);
+        }
+        if (composeMode !== "forward") {
+          recordSentReply(emailDetails, to[0], activeReplyContent, replyAiDraft);
+        }
+        toast({
+          title: "Email Sent",
+          description: composeMode === "forward" ? "Your message has been forwarded via Gmail." : "Your reply has been sent via Gmail.",
+        });
         setActiveReplyContent("");
+        setReplyAttachments([]);
         setGeneratedDrafts([]);
+        setAiDrafts([]);
+        setReplyAiDraft(null);
+        handleComposeModeChange("reply");
       } catch (error) {
         toast({ title: "Error Sending Email", description: (error as Error).message || "Failed to send the reply.", variant: "destructive" });
       }
@@ -208,10 +499,10 @@ export default function EmailDetailPage() {
         <AlertTriangle className="h-12 w-12 text-destructive mb-4" />
         <h2 className="text-xl font-semibold mb-2">Google Connection Required</h2>
         <p className="text-muted-foreground mb-4">
-          Hello {currentUser.displayName || currentUser.email}, we couldn't retrieve the necessary Google Access Token.
+          Hello {currentUser.displayName || currentUser.email}, we couldn't retrieve the necessary Google Access Token{mailAccount ? ` for ${mailAccount.email}` : ""}.
         </p>
         <p className="text-muted-foreground mb-6">Please connect to your Google account to view this email.</p>
-        <Button onClick={handleSignIn}>
+        <Button onClick={() => (mailAccount && !mailAccount.isPrimary ? connectAccount(mailAccount.email) : handleSignIn())}>
             <LinkIcon className="mr-2 h-4 w-4" />
             Connect to Google
         </Button>
@@ -247,10 +538,17 @@ export default function EmailDetailPage() {
 
       {/* Main content wrapper to control overflow */}
       <div className="w-full overflow-x-hidden"> {/* Ensures this container doesn't cause page scroll */}
-        {emailDetails && (
+        {conversation && emailDetails && (
           <>
             <EmailDetailView
-              email={emailDetails}
+              thread={conversation}
+              focusedEmailId={emailDetails.id}
+              highlight={emailDetails.id === emailId ? highlight : undefined}
+              onDownloadAttachment={handleDownloadAttachment}
+              fetchAttachmentData={fetchInlineAttachmentData}
+              labels={labels}
+              onAction={handleMailboxAction}
+              isApplyingAction={isApplyingAction}
               onGenerateDrafts={handleGenerateInitialDrafts}
               isGeneratingDrafts={isGeneratingDrafts}
             />
@@ -280,7 +578,9 @@ export default function EmailDetailPage() {
                       key={index}
                       draftNumber={index + 1}
                       content={draft}
-                      onSelectDraft={handleSelectDraftForComposer}
+                      onSelectDraft={(content) => handleSelectDraftForComposer(content, index)}
+                      onSaveToGmail={handleSaveGeneratedDraft}
+                      isSavingToGmail={isSavingDraft}
                       onUpdateDraftContent={(newContent) => handleUpdateDraftContent(index, newContent)}
                     />
                   ))}
@@ -290,10 +590,20 @@ export default function EmailDetailPage() {
 
             <div className="mt-6">
               <MainReplyComposer
+                mode={composeMode}
+                onModeChange={handleComposeModeChange}
+                recipients={recipients}
+                onRecipientsChange={setRecipients}
+                forwardedAttachments={emailDetails.attachments}
                 replyContent={activeReplyContent}
                 onReplyContentChange={setActiveReplyContent}
+                attachments={replyAttachments}
+                onAttachmentsChange={setReplyAttachments}
                 onSend={handleSendReply}
                 onRegenerate={handleRegenerateInComposer}
+                onSaveDraft={() => handleSaveDraft()}
+                onDiscardDraft={activeDraftId ? handleDiscardDraft : undefined}
+                isSavingDraft={isSavingDraft}
                 isSending={isSendingReply}
                 isRegenerating={isRegenerating}
               />
@@ -8,6 +8,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Send } from "lucide-react";
 import { useAuth } from "@/contexts/auth-context";
+import { getContextOwnerId } from "@/lib/mail-accounts";
+import { authorizedFetch } from "@/lib/api-client";
 
 interface Message {
   id: string;
@@ -22,7 +24,7 @@ export function ChatView() {
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const { currentUser } = useAuth();
+  const { currentUser, activeAccount } = useAuth();
 
   const handleSendMessage = async () => {
     if (inputValue.trim() === "" || isLoading) return;
@@ -49,14 +51,14 @@ export function ChatView() {
     setMessages((prevMessages) => [...prevMessages, typingMessage]);
 
     try {
-      const response = await fetch('/api/chat', {
+      const response = await authorizedFetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
           message: userMessage,
-          userId: currentUser?.uid // Use authenticated user ID
+          userId: currentUser ? getContextOwnerId(currentUser.uid, activeAccount) : undefined // Profile of the active mail account
         }),
       });
 
@@ -4,7 +4,7 @@
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Edit3, CheckCircle } from "lucide-react";
+import { Edit3, CheckCircle, Save, Loader2 } from "lucide-react";
 import { useState, useEffect } from 'react';
 
 interface DraftSummaryCardProps {
@@ -12,9 +12,18 @@ interface DraftSummaryCardProps {
   content: string;
   onSelectDraft: (content: string) => void;
   onUpdateDraftContent: (newContent: string) => void; // To update the specific draft in MailPage state
+  onSaveToGmail?: (content: string) => void; // Saves it as a Gmail draft in the same conversation
+  isSavingToGmail?: boolean;
 }
 
-export function DraftSummaryCard({ draftNumber, content, onSelectDraft, onUpdateDraftContent }: DraftSummaryCardProps) {
+export function DraftSummaryCard({
+  draftNumber,
+  content,
+  onSelectDraft,
+  onUpdateDraftContent,
+  onSaveToGmail,
+  isSavingToGmail = false,
+}: DraftSummaryCardProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editableContent, setEditableContent] = useState(content);
 
@@ -44,6 +53,14 @@ export function DraftSummaryCard({ draftNumber, content, onSelectDraft, onUpdate
     onSelectDraft(editableContent);
   };
 
+  const handleSaveToGmail = () => {
+    if (isEditing) {
+      onUpdateDraftContent(editableContent);
+      setIsEditing(false);
+    }
+    onSaveToGmail?.(editableContent);
+  };
+
   return (
     <Card className="flex flex-col shadow-md h-full">
       <CardHeader>
@@ -62,6 +79,12 @@ export function DraftSummaryCard({ draftNumber, content, onSelectDraft, onUpdate
         <Button variant="outline" size="sm" onClick={handleEditToggle}>
           <Edit3 className="mr-2 h-4 w-4" /> {isEditing ? "Save Draft" : "Edit Draft"}
         </Button>
+        {onSaveToGmail && (
+          <Button variant="outline" size="sm" onClick={handleSaveToGmail} disabled={isSavingToGmail}>
+            {isSavingToGmail ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save to Gmail
+          </Button>
+        )}
         <Button size="sm" onClick={handleUseDraft} className="bg-primary hover:bg-primary/90 text-primary-foreground">
           <CheckCircle className="mr-2 h-4 w-4" /> Use This Draft
         </Button>
@@ -2,20 +2,54 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
-import { EmailDisplay } from "./email-display"; 
-import type { Email } from "@/types/mail";
+import { EmailThreadView } from "./email-thread-view";
+import { MailActionsToolbar } from "./mail-actions-toolbar";
+import type { BodyHighlight, EmailAttachment, MailboxAction, MailLabel, MailThread } from "@/types/mail";
 import { Loader2, Wand2 } from "lucide-react";
 
 interface EmailDetailViewProps {
-  email: Email;
+  thread: MailThread;
+  focusedEmailId?: string;
+  highlight?: BodyHighlight; // Marked in the focused message
+  onDownloadAttachment?: (attachment: EmailAttachment) => void;
+  fetchAttachmentData?: (attachment: EmailAttachment) => Promise<Uint8Array>;
+  labels?: MailLabel[];
+  onAction?: (action: MailboxAction) => void; // Applies to the whole conversation
+  isApplyingAction?: boolean;
   onGenerateDrafts: () => void;
   isGeneratingDrafts: boolean;
 }
 
-export function EmailDetailView({ email, onGenerateDrafts, isGeneratingDrafts }: EmailDetailViewProps) {
+export function EmailDetailView({
+  thread,
+  focusedEmailId,
+  highlight,
+  onDownloadAttachment,
+  fetchAttachmentData,
+  labels = [],
+  onAction,
+  isApplyingAction = false,
+  onGenerateDrafts,
+  isGeneratingDrafts,
+}: EmailDetailViewProps) {
   return (
     <div className="space-y-4">
-      <EmailDisplay {...email} />
+      {onAction && (
+        <MailActionsToolbar
+          emails={thread.messages}
+          labels={labels}
+          onAction={onAction}
+          disabled={isApplyingAction}
+          className="justify-end"
+        />
+      )}
+      <EmailThreadView
+        thread={thread}
+        focusedEmailId={focusedEmailId}
+        highlight={highlight}
+        onDownloadAttachment={onDownloadAttachment}
+        fetchAttachmentData={fetchAttachmentData}
+      />
       <div className="flex justify-end">
         <Button onClick={onGenerateDrafts} disabled={isGeneratingDrafts}>
           {isGeneratingDrafts ? (
@@ -1,19 +1,123 @@
+"use client";
 
+import { useState, useEffect, useMemo, useRef, type ReactNode, type RefObject } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { MoreHorizontal, Paperclip, Download, ImageOff, Code, AlignLeft } from "lucide-react";
+import { splitQuotedText, formatFileSize } from "@/lib/mail-utils";
+import { sanitizeEmailHtml } from "@/lib/sanitize-email-html";
+import type { BodyHighlight, EmailAttachment } from "@/types/mail";
+import { HtmlEmailFrame } from "./html-email-frame";
 
 interface EmailDisplayProps {
   sender: string;
   senderEmail: string;
   subject: string;
   body: string;
+  htmlBody?: string;
   receivedTime: string;
+  attachments?: EmailAttachment[];
+  onDownloadAttachment?: (attachment: EmailAttachment) => void;
+  fetchAttachmentData?: (attachment: EmailAttachment) => Promise<Uint8Array>; // Resolves cid: inline images
+  onHeaderClick?: () => void; // Used by the thread view to collapse an expanded message
+  highlight?: BodyHighlight; // Marked in the plain-text body, which is shown instead of the HTML
 }
 
-export function EmailDisplay({ sender, senderEmail, subject, body, receivedTime }: EmailDisplayProps) {
+interface PlacedHighlight {
+  inQuoted: boolean;
+  start: number;
+  end: number;
+}
+
+// Finds which part of the split body the highlight falls in, with offsets into that part
+function placeHighlight(body: string, visible: string, quoted: string, highlight?: BodyHighlight): PlacedHighlight | null {
+  if (!highlight) return null;
+  const leadingBlank = body.length - body.trimStart().length;
+  const start = highlight.start + leadingBlank;
+  const end = highlight.end + leadingBlank;
+  if (start < 0 || end <= start || end > body.length) return null;
+
+  // The visible part is a prefix of the body and the quoted part a suffix
+  const quotedStart = body.length - quoted.length;
+  if (quoted && start >= quotedStart) {
+    return { inQuoted: true, start: start - quotedStart, end: end - quotedStart };
+  }
+  return start < visible.length ? { inQuoted: false, start, end: Math.min(end, visible.length) } : null;
+}
+
+function renderHighlighted(text: string, range: PlacedHighlight | null, markRef: RefObject<HTMLElement>): ReactNode {
+  if (!range) return text;
+  return (
+    <>
+      {text.slice(0, range.start)}
+      <mark ref={markRef} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+        {text.slice(range.start, range.end)}
+      </mark>
+      {text.slice(range.end)}
+    </>
+  );
+}
+
+export function EmailDisplay({
+  sender,
+  senderEmail,
+  subject,
+  body,
+  htmlBody,
+  receivedTime,
+  attachments = [],
+  onDownloadAttachment,
+  fetchAttachmentData,
+  onHeaderClick,
+  highlight,
+}: EmailDisplayProps) {
+  const { visible, quoted } = splitQuotedText(body);
+  const placedHighlight = placeHighlight(body, visible, quoted, highlight);
+  const [showQuoted, setShowQuoted] = useState(!!placedHighlight?.inQuoted);
+  const [showHtml, setShowHtml] = useState(!!htmlBody && !placedHighlight);
+  const [allowRemoteImages, setAllowRemoteImages] = useState(false);
+  const [inlineImages, setInlineImages] = useState<Record<string, string>>({});
+  const markRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: "center" });
+  }, [highlight?.start, highlight?.end]);
+
+  // Load the inline parts the HTML actually references so cid: images can be shown as data: URLs
+  useEffect(() => {
+    if (!htmlBody || !showHtml || !fetchAttachmentData) return;
+    const referenced = attachments.filter(a => a.contentId && htmlBody.includes(`cid:${a.contentId}`));
+    if (referenced.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(referenced.map(async (attachment) => {
+      try {
+        const data = await fetchAttachmentData(attachment);
+        const dataUrl = `data:${attachment.mimeType};base64,${Buffer.from(data).toString("base64")}`;
+        return [attachment.contentId!, dataUrl] as [string, string];
+      } catch (error) {
+        console.error(`Error loading inline image ${attachment.filename}:`, error);
+        return null;
+      }
+    })).then(entries => {
+      if (cancelled) return;
+      setInlineImages(Object.fromEntries(entries.filter((entry): entry is [string, string] => entry !== null)));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [htmlBody, showHtml, attachments, fetchAttachmentData]);
+
+  const sanitized = useMemo(
+    () => (htmlBody && showHtml ? sanitizeEmailHtml(htmlBody, { allowRemoteImages, inlineImages }) : null),
+    [htmlBody, showHtml, allowRemoteImages, inlineImages]
+  );
+
   return (
     <Card className="shadow-md overflow-hidden w-full"> {/* Ensure card itself is full width and hides overflow */}
-      <CardHeader>
+      <CardHeader onClick={onHeaderClick} className={onHeaderClick ? "cursor-pointer" : undefined}>
         <div className="flex items-start gap-4 min-w-0"> {/* Added min-w-0 for flex child to allow shrinking */}
           <Avatar className="h-10 w-10 shrink-0"> {/* Added shrink-0 to prevent avatar from pushing width */}
             <AvatarImage src={`https://placehold.co/40x40.png?text=${sender.charAt(0)}`} data-ai-hint="profile avatar" />
@@ -28,12 +132,74 @@ export function EmailDisplay({ sender, senderEmail, subject, body, receivedTime
         </div>
       </CardHeader>
       <CardContent>
-        <div className="prose prose-sm max-w-none text-foreground dark:prose-invert whitespace-pre-wrap overflow-x-auto w-full">
-          {body}
-        </div>
+        {htmlBody && (
+          <div className="mb-3 flex flex-wrap items-center justify-end gap-2">
+            {sanitized && sanitized.blockedRemoteImages > 0 && !allowRemoteImages && (
+              <div className="mr-auto flex items-center gap-2 text-xs text-muted-foreground">
+                <ImageOff className="h-3.5 w-3.5 shrink-0" />
+                <span>Remote images are hidden to protect your privacy.</span>
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setAllowRemoteImages(true)}>
+                  Load images
+                </Button>
+              </div>
+            )}
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setShowHtml(prev => !prev)}>
+              {showHtml ? <AlignLeft className="mr-1 h-3.5 w-3.5" /> : <Code className="mr-1 h-3.5 w-3.5" />}
+              {showHtml ? "Plain text" : "Formatted"}
+            </Button>
+          </div>
+        )}
+        {sanitized ? (
+          <HtmlEmailFrame html={sanitized.html} title={subject} />
+        ) : (
+          <div className="prose prose-sm max-w-none text-foreground dark:prose-invert whitespace-pre-wrap overflow-x-auto w-full">
+            {renderHighlighted(visible, placedHighlight && !placedHighlight.inQuoted ? placedHighlight : null, markRef)}
+          </div>
+        )}
+        {!sanitized && quoted && (
+          <div className="mt-3">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2"
+              onClick={() => setShowQuoted(prev => !prev)}
+              title={showQuoted ? "Hide quoted text" : "Show quoted text"}
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+            {showQuoted && (
+              <div className="mt-2 border-l-2 border-muted pl-3 text-sm text-muted-foreground whitespace-pre-wrap overflow-x-auto">
+                {renderHighlighted(quoted, placedHighlight?.inQuoted ? placedHighlight : null, markRef)}
+              </div>
+            )}
+          </div>
+        )}
+        {attachments.length > 0 && (
+          <div className="mt-4 border-t pt-3">
+            <div className="mb-2 flex items-center text-xs font-medium text-muted-foreground">
+              <Paperclip className="mr-1 h-3.5 w-3.5" />
+              {attachments.length} {attachments.length === 1 ? "attachment" : "attachments"}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {attachments.map((attachment) => (
+                <Button
+                  key={attachment.partId}
+                  variant="outline"
+                  size="sm"
+                  className="max-w-full"
+                  onClick={() => onDownloadAttachment?.(attachment)}
+                  disabled={!onDownloadAttachment}
+                  title={`Download ${attachment.filename}`}
+                >
+                  <Download className="mr-2 h-4 w-4 shrink-0" />
+                  <span className="truncate">{attachment.filename}</span>
+                  <span className="ml-2 shrink-0 text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
 }
-
-    
\ No newline at end of file
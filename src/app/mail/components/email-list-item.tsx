@@ -1,41 +1,89 @@
-
 "use client";
 
 import { cn } from "@/lib/utils";
-import type { Email } from "@/types/mail";
+import type { Email, MailAccount, MailboxAction } from "@/types/mail";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Archive, Trash2, Star } from "lucide-react";
 
 interface EmailListItemProps {
   email: Email;
   onSelect: () => void;
   isSelected: boolean;
+  // Multi-select and quick actions are optional so the item still works as a plain link
+  isChecked?: boolean;
+  onCheckedChange?: (checked: boolean) => void;
+  onAction?: (action: MailboxAction) => void;
+  account?: MailAccount; // Shown as a colour tag in the unified inbox
 }
 
-export function EmailListItem({ email, onSelect, isSelected }: EmailListItemProps) {
+export function EmailListItem({ email, onSelect, isSelected, isChecked = false, onCheckedChange, onAction, account }: EmailListItemProps) {
   return (
-    <button
-      onClick={onSelect}
+    <div
       className={cn(
-        "flex flex-col items-start gap-2 rounded-lg border p-3 text-left text-sm transition-all hover:bg-accent w-full",
-        isSelected && "bg-muted"
+        "group flex items-start gap-2 rounded-lg border p-3 text-sm transition-all hover:bg-accent w-full",
+        (isSelected || isChecked) && "bg-muted",
+        account && "border-l-4"
       )}
+      style={account ? { borderLeftColor: account.color } : undefined}
     >
-      <div className="flex w-full flex-col gap-1">
-        <div className="flex items-center">
-          <div className="flex items-center gap-2">
-            <div className={cn("font-semibold", !email.read && "text-primary")}>{email.sender}</div>
-            {!email.read && (
-              <span className="flex h-2 w-2 rounded-full bg-primary" />
-            )}
-          </div>
-          <div className={cn("ml-auto text-xs", isSelected ? "text-foreground" : "text-muted-foreground")}>
-            {email.receivedTime}
+      {onCheckedChange && (
+        <Checkbox
+          checked={isChecked}
+          onCheckedChange={(checked) => onCheckedChange(checked === true)}
+          aria-label={`Select email from ${email.sender}`}
+          className="mt-0.5"
+        />
+      )}
+      <button onClick={onSelect} className="flex min-w-0 flex-1 flex-col items-start gap-2 text-left">
+        <div className="flex w-full flex-col gap-1">
+          <div className="flex items-center">
+            <div className="flex items-center gap-2">
+              <div className={cn("font-semibold", !email.read && "text-primary")}>{email.sender}</div>
+              {!email.read && (
+                <span className="flex h-2 w-2 rounded-full bg-primary" />
+              )}
+            </div>
+            <div className={cn("ml-auto text-xs", isSelected ? "text-foreground" : "text-muted-foreground")}>
+              {email.receivedTime}
+            </div>
           </div>
+          <div className={cn("text-xs font-medium", !email.read && "text-foreground")}>{email.subject}</div>
+          {account && (
+            <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
+              <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: account.color }} />
+              {account.email}
+            </div>
+          )}
         </div>
-        <div className={cn("text-xs font-medium", !email.read && "text-foreground")}>{email.subject}</div>
-      </div>
-      <div className="line-clamp-2 text-xs text-muted-foreground">
-        {email.snippet}
-      </div>
-    </button>
+        <div className="line-clamp-2 text-xs text-muted-foreground">
+          {email.snippet}
+        </div>
+      </button>
+      {onAction && (
+        <div className="flex shrink-0 flex-col items-center gap-1">
+          <button
+            onClick={() => onAction({ type: "star", starred: !email.starred })}
+            className="text-muted-foreground hover:text-yellow-500"
+            title={email.starred ? "Unstar" : "Star"}
+          >
+            <Star className={cn("h-4 w-4", email.starred && "fill-yellow-400 text-yellow-400")} />
+          </button>
+          <button
+            onClick={() => onAction({ type: "archive" })}
+            className="text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100 focus:opacity-100"
+            title="Archive"
+          >
+            <Archive className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => onAction({ type: "trash" })}
+            className="text-muted-foreground opacity-0 hover:text-destructive group-hover:opacity-100 focus:opacity-100"
+            title="Delete"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
   );
 }
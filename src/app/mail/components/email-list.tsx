@@ -1,11 +1,14 @@
 
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { Email } from "@/types/mail";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { Email, MailAccount, MailboxAction, MailLabel } from "@/types/mail";
 import { EmailListItem } from "./email-list-item";
+import { MailActionsToolbar } from "./mail-actions-toolbar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Inbox } from 'lucide-react';
+import { Inbox, Loader2 } from 'lucide-react';
 
 interface EmailListProps {
   emails: Email[];
@@ -13,15 +16,108 @@ interface EmailListProps {
   selectedEmailId?: string | null;
   isLoading: boolean;
   title: string;
+  // Infinite scroll: when provided, the next page is requested as the end of the list scrolls into view
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Mailbox actions: enables per-row quick actions and multi-select bulk actions
+  labels?: MailLabel[];
+  onAction?: (emails: Email[], action: MailboxAction) => void;
+  // Unified inbox: rows are tagged with the colour of the account they came from
+  accounts?: MailAccount[];
 }
 
-export function EmailList({ emails, onSelectEmail, selectedEmailId, isLoading, title }: EmailListProps) {
+// Message IDs are only unique within one account
+function getEmailKey(email: Email): string {
+  return email.accountId ? `${email.accountId}:${email.id}` : email.id;
+}
+
+export function EmailList({
+  emails,
+  onSelectEmail,
+  selectedEmailId,
+  isLoading,
+  title,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  labels = [],
+  onAction,
+  accounts,
+}: EmailListProps) {
+  const loadMoreSentinelRef = useRef<HTMLDivElement | null>(null);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+
+  // Drop selections for messages that left the list (archived, new box, new search...)
+  useEffect(() => {
+    setCheckedIds(prev => {
+      const stillListed = new Set([...prev].filter(key => emails.some(email => getEmailKey(email) === key)));
+      return stillListed.size === prev.size ? prev : stillListed;
+    });
+  }, [emails]);
+
+  const checkedEmails = emails.filter(email => checkedIds.has(getEmailKey(email)));
+  const allChecked = emails.length > 0 && checkedEmails.length === emails.length;
+
+  const toggleChecked = (key: string, checked: boolean) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const handleBulkAction = (action: MailboxAction) => {
+    if (!onAction || checkedEmails.length === 0) return;
+    onAction(checkedEmails, action);
+    if (action.type === "archive" || action.type === "trash" || action.type === "snooze") {
+      setCheckedIds(new Set());
+    }
+  };
+
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !onLoadMore || !hasMore || isLoading || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: "200px" } // Start fetching slightly before the user hits the bottom
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, hasMore, isLoading, isLoadingMore, emails.length]);
+
   return (
     <Card className="shadow-md h-full flex flex-col">
       <CardHeader className="py-4 px-4">
         <CardTitle className="text-lg flex items-center">
           <Inbox className="mr-2 h-5 w-5 text-primary" /> {title}
         </CardTitle>
+        {onAction && emails.length > 0 && !isLoading && (
+          <div className="flex items-center gap-3 pt-2">
+            <Checkbox
+              checked={allChecked ? true : checkedEmails.length > 0 ? "indeterminate" : false}
+              onCheckedChange={() => setCheckedIds(allChecked ? new Set() : new Set(emails.map(getEmailKey)))}
+              aria-label="Select all loaded emails"
+            />
+            {checkedEmails.length > 0 ? (
+              <>
+                <span className="text-xs text-muted-foreground">{checkedEmails.length} selected</span>
+                <MailActionsToolbar emails={checkedEmails} labels={labels} onAction={handleBulkAction} />
+              </>
+            ) : (
+              <span className="text-xs text-muted-foreground">Select emails for bulk actions</span>
+            )}
+          </div>
+        )}
       </CardHeader>
       <CardContent className="p-0 flex-grow overflow-hidden">
         <ScrollArea className="h-full p-2">
@@ -47,12 +143,25 @@ export function EmailList({ emails, onSelectEmail, selectedEmailId, isLoading, t
             <div className="flex flex-col gap-2">
               {emails.map((email) => (
                 <EmailListItem
-                  key={email.id}
+                  key={getEmailKey(email)}
                   email={email}
                   onSelect={() => onSelectEmail(email)}
                   isSelected={selectedEmailId === email.id}
+                  isChecked={checkedIds.has(getEmailKey(email))}
+                  onCheckedChange={onAction ? (checked) => toggleChecked(getEmailKey(email), checked) : undefined}
+                  onAction={onAction ? (action) => onAction([email], action) : undefined}
+                  account={accounts?.find(account => account.id === email.accountId)}
                 />
               ))}
+              {onLoadMore && hasMore && (
+                <div ref={loadMoreSentinelRef} className="flex items-center justify-center py-3 text-xs text-muted-foreground">
+                  {isLoadingMore && (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading more emails...
+                    </>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </ScrollArea>
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { cn } from "@/lib/utils";
+import type { BodyHighlight, EmailAttachment, MailThread } from "@/types/mail";
+import { EmailDisplay } from "./email-display";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { ChevronsDownUp, ChevronsUpDown, Paperclip } from "lucide-react";
+
+interface EmailThreadViewProps {
+  thread: MailThread;
+  focusedEmailId?: string;
+  onDownloadAttachment?: (attachment: EmailAttachment) => void;
+  fetchAttachmentData?: (attachment: EmailAttachment) => Promise<Uint8Array>;
+  highlight?: BodyHighlight; // Marked in the focused message
+}
+
+// The latest message, the one that was opened and anything unread start expanded
+function getInitiallyExpandedIds(thread: MailThread, focusedEmailId?: string): Set<string> {
+  const ids = new Set<string>();
+  const lastMessage = thread.messages[thread.messages.length - 1];
+  if (lastMessage) ids.add(lastMessage.id);
+  if (focusedEmailId) ids.add(focusedEmailId);
+  thread.messages.forEach(message => {
+    if (!message.read) ids.add(message.id);
+  });
+  return ids;
+}
+
+export function EmailThreadView({ thread, focusedEmailId, onDownloadAttachment, fetchAttachmentData, highlight }: EmailThreadViewProps) {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(() => getInitiallyExpandedIds(thread, focusedEmailId));
+
+  // Only reset for a different conversation; label/star updates keep what the user expanded
+  useEffect(() => {
+    setExpandedIds(getInitiallyExpandedIds(thread, focusedEmailId));
+  }, [thread.id, focusedEmailId]);
+
+  const toggleMessage = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allExpanded = expandedIds.size === thread.messages.length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-xl font-semibold tracking-tight text-foreground break-words min-w-0">
+          {thread.subject}
+          <span className="ml-2 text-sm font-normal text-muted-foreground">
+            {thread.messages.length} {thread.messages.length === 1 ? "message" : "messages"}
+          </span>
+        </h2>
+        {thread.messages.length > 1 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setExpandedIds(allExpanded ? new Set() : new Set(thread.messages.map(m => m.id)))}
+          >
+            {allExpanded ? <ChevronsDownUp className="mr-2 h-4 w-4" /> : <ChevronsUpDown className="mr-2 h-4 w-4" />}
+            {allExpanded ? "Collapse all" : "Expand all"}
+          </Button>
+        )}
+      </div>
+
+      {thread.messages.map((message) => {
+        if (expandedIds.has(message.id)) {
+          return (
+            <EmailDisplay
+              key={message.id}
+              {...message}
+              onDownloadAttachment={onDownloadAttachment}
+              fetchAttachmentData={fetchAttachmentData}
+              onHeaderClick={() => toggleMessage(message.id)}
+              highlight={message.id === focusedEmailId ? highlight : undefined}
+            />
+          );
+        }
+
+        return (
+          <button
+            key={message.id}
+            onClick={() => toggleMessage(message.id)}
+            className={cn(
+              "flex w-full items-center gap-3 rounded-lg border p-3 text-left text-sm transition-all hover:bg-accent",
+              message.id === focusedEmailId && "bg-muted"
+            )}
+          >
+            <Avatar className="h-8 w-8 shrink-0">
+              <AvatarFallback>{message.sender.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className={cn("font-semibold truncate", !message.read && "text-primary")}>{message.sender}</span>
+                <span className="ml-auto shrink-0 text-xs text-muted-foreground">{message.receivedTime}</span>
+              </div>
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                {message.attachments && message.attachments.length > 0 && <Paperclip className="h-3 w-3 shrink-0" />}
+                <span className="truncate">{message.snippet}</span>
+              </div>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useRef, useState, useCallback } from "react";
+
+interface HtmlEmailFrameProps {
+  html: string; // Must already be sanitized
+  title: string;
+}
+
+// Renders sanitized email HTML in a sandboxed iframe so message styles can't leak into the app
+// and scripts can never run. The frame grows to fit its content instead of scrolling.
+export function HtmlEmailFrame({ html, title }: HtmlEmailFrameProps) {
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const [height, setHeight] = useState(200);
+
+  const resizeToContent = useCallback(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (!doc?.documentElement) return;
+    setHeight(Math.max(doc.documentElement.scrollHeight, doc.body?.scrollHeight ?? 0) + 16);
+  }, []);
+
+  const handleLoad = () => {
+    resizeToContent();
+    // Inline images decode after load; measure once more when they settle
+    iframeRef.current?.contentDocument?.querySelectorAll("img").forEach(img => {
+      if (!img.complete) img.addEventListener("load", resizeToContent, { once: true });
+    });
+  };
+
+  return (
+    <iframe
+      ref={iframeRef}
+      title={title}
+      srcDoc={html}
+      // allow-same-origin lets us measure the content height; without allow-scripts nothing executes
+      sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
+      onLoad={handleLoad}
+      className="w-full rounded-md border-0 bg-white"
+      style={{ height }}
+    />
+  );
+}
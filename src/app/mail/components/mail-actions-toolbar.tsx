@@ -0,0 +1,90 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Archive, Trash2, Star, Mail, MailOpen, Clock, Tag } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Email, MailboxAction, MailLabel } from "@/types/mail";
+
+interface MailActionsToolbarProps {
+  emails: Email[]; // The messages the actions apply to
+  labels: MailLabel[];
+  onAction: (action: MailboxAction) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Archive / delete / star / snooze / label / read-state controls for one or more messages
+export function MailActionsToolbar({ emails, labels, onAction, disabled = false, className }: MailActionsToolbarProps) {
+  const allStarred = emails.length > 0 && emails.every(email => email.starred);
+  const allRead = emails.length > 0 && emails.every(email => email.read);
+  const userLabels = labels.filter(label => label.type === "user");
+  const isDisabled = disabled || emails.length === 0;
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Button variant="ghost" size="icon" className="h-8 w-8" title="Archive" disabled={isDisabled} onClick={() => onAction({ type: "archive" })}>
+        <Archive className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" title="Delete" disabled={isDisabled} onClick={() => onAction({ type: "trash" })}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        title={allRead ? "Mark as unread" : "Mark as read"}
+        disabled={isDisabled}
+        onClick={() => onAction({ type: "markRead", read: !allRead })}
+      >
+        {allRead ? <Mail className="h-4 w-4" /> : <MailOpen className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        title={allStarred ? "Unstar" : "Star"}
+        disabled={isDisabled}
+        onClick={() => onAction({ type: "star", starred: !allStarred })}
+      >
+        <Star className={cn("h-4 w-4", allStarred && "fill-yellow-400 text-yellow-400")} />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" title="Snooze (move to the Snoozed label)" disabled={isDisabled} onClick={() => onAction({ type: "snooze" })}>
+        <Clock className="h-4 w-4" />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Labels" disabled={isDisabled}>
+            <Tag className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+          <DropdownMenuLabel>Labels</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {userLabels.length === 0 && (
+            <div className="px-2 py-1.5 text-xs text-muted-foreground">No labels yet. Create them in Gmail.</div>
+          )}
+          {userLabels.map(label => {
+            const appliedToAll = emails.every(email => email.labelIds?.includes(label.id));
+            return (
+              <DropdownMenuCheckboxItem
+                key={label.id}
+                checked={appliedToAll}
+                onCheckedChange={(checked) => onAction({ type: "label", labelId: label.id, apply: checked === true })}
+              >
+                {label.name}
+              </DropdownMenuCheckboxItem>
+            );
+          })}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Search, X, Bookmark, History } from "lucide-react";
+
+interface MailSearchBarProps {
+  activeQuery: string | null;
+  recentSearches: string[];
+  isActiveQuerySaved: boolean;
+  onSearch: (query: string) => void;
+  onClear: () => void;
+  onSaveSearch: (query: string) => void;
+  onClearRecentSearches: () => void;
+}
+
+export function MailSearchBar({
+  activeQuery,
+  recentSearches,
+  isActiveQuerySaved,
+  onSearch,
+  onClear,
+  onSaveSearch,
+  onClearRecentSearches,
+}: MailSearchBarProps) {
+  const [inputValue, setInputValue] = useState(activeQuery ?? "");
+  const [showRecent, setShowRecent] = useState(false);
+
+  useEffect(() => {
+    setInputValue(activeQuery ?? "");
+  }, [activeQuery]);
+
+  const submit = (query: string) => {
+    const trimmed = query.trim();
+    setShowRecent(false);
+    if (!trimmed) {
+      onClear();
+      return;
+    }
+    onSearch(trimmed);
+  };
+
+  return (
+    <div className="relative">
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit(inputValue);
+        }}
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            onFocus={() => setShowRecent(true)}
+            // Delay so clicks on a recent search register before the list unmounts
+            onBlur={() => setTimeout(() => setShowRecent(false), 150)}
+            placeholder='Search mail, e.g. from:alice has:attachment before:2024/01/01'
+            className="pl-9 pr-9"
+          />
+          {inputValue && (
+            <button
+              type="button"
+              onClick={() => {
+                setInputValue("");
+                onClear();
+              }}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              aria-label="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {activeQuery && (
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => onSaveSearch(activeQuery)}
+            disabled={isActiveQuerySaved}
+            title={isActiveQuerySaved ? "Search already saved" : "Save this search"}
+          >
+            <Bookmark className={cn("h-4 w-4", isActiveQuerySaved && "fill-current text-primary")} />
+          </Button>
+        )}
+      </form>
+
+      {showRecent && recentSearches.length > 0 && (
+        <div className="absolute z-20 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+          <div className="flex items-center justify-between px-2 py-1 text-xs text-muted-foreground">
+            <span>Recent searches</span>
+            <button
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={onClearRecentSearches}
+              className="hover:text-foreground"
+            >
+              Clear
+            </button>
+          </div>
+          {recentSearches.map((query) => (
+            <button
+              key={query}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                setInputValue(query);
+                submit(query);
+              }}
+              className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+            >
+              <History className="h-3.5 w-3.5 text-muted-foreground" />
+              <span className="truncate">{query}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,8 +3,8 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
-import type { EmailBoxType } from "@/types/mail";
-import { Inbox, MailOpen, Send, FileText } from "lucide-react";
+import type { EmailBoxType, MailLabel, SavedSearch, SystemBoxType } from "@/types/mail";
+import { Inbox, MailOpen, Send, FileText, SearchCheck, Tag, X } from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
@@ -14,82 +14,193 @@ import {
 
 interface MailSidebarProps {
   onSelectBox: (boxType: EmailBoxType | "all") => void;
-  activeBox: EmailBoxType | "all";
+  activeBox: EmailBoxType | "all" | null; // null while a search is showing instead of a box
   isExpanded?: boolean;
+  savedSearches?: SavedSearch[];
+  activeSavedSearchId?: string | null;
+  onSelectSavedSearch?: (search: SavedSearch) => void;
+  onRemoveSavedSearch?: (id: string) => void;
+  labels?: MailLabel[]; // With counts, from listLabelsWithCounts
 }
 
-const mailBoxItems: { name: EmailBoxType | "all"; label: string; icon: React.ElementType }[] = [
+interface SidebarNavItem {
+  key: string;
+  label: string;
+  icon: React.ElementType;
+  isActive: boolean;
+  onSelect: () => void;
+  onRemove?: () => void;
+  count?: number;
+  depth?: number; // Nesting level of "Parent/Child" labels
+}
+
+const mailBoxItems: { name: SystemBoxType; label: string; icon: React.ElementType }[] = [
   { name: "inbox", label: "Inbox", icon: Inbox },
   { name: "unread", label: "Unread", icon: MailOpen },
   { name: "sent", label: "Sent", icon: Send },
   { name: "drafts", label: "Drafts", icon: FileText },
 ];
 
-export function MailSidebar({ onSelectBox, activeBox, isExpanded = true }: MailSidebarProps) {
+// Which label count a system box shows, matching Gmail's own sidebar
+function getSystemBoxCount(box: SystemBoxType, labels: MailLabel[]): number | undefined {
+  const byId = (id: string) => labels.find(label => label.id === id);
+  switch (box) {
+    case "inbox":
+    case "unread":
+      return byId("INBOX")?.messagesUnread;
+    case "drafts":
+      return byId("DRAFT")?.messagesTotal;
+    default:
+      return undefined;
+  }
+}
+
+export function MailSidebar({
+  onSelectBox,
+  activeBox,
+  isExpanded = true,
+  savedSearches = [],
+  activeSavedSearchId = null,
+  onSelectSavedSearch,
+  onRemoveSavedSearch,
+  labels = [],
+}: MailSidebarProps) {
+  const boxNavItems: SidebarNavItem[] = mailBoxItems.map((item) => ({
+    key: item.name,
+    label: item.label,
+    icon: item.icon,
+    isActive: activeBox === item.name,
+    onSelect: () => onSelectBox(item.name),
+    count: getSystemBoxCount(item.name, labels),
+  }));
+
+  // Saved searches behave like extra boxes listed after the system ones
+  const savedSearchNavItems: SidebarNavItem[] = savedSearches.map((search) => ({
+    key: `saved-search-${search.id}`,
+    label: search.label,
+    icon: SearchCheck,
+    isActive: activeSavedSearchId === search.id,
+    onSelect: () => onSelectSavedSearch?.(search),
+    onRemove: onRemoveSavedSearch ? () => onRemoveSavedSearch(search.id) : undefined,
+  }));
+
+  const labelNavItems: SidebarNavItem[] = labels
+    .filter(label => label.type === "user" && !label.hidden)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((label) => {
+      const boxType: EmailBoxType = `label:${label.id}`;
+      const segments = label.name.split("/");
+      return {
+        key: boxType,
+        label: segments[segments.length - 1],
+        icon: Tag,
+        isActive: activeBox === boxType,
+        onSelect: () => onSelectBox(boxType),
+        count: label.messagesUnread,
+        depth: segments.length - 1,
+      };
+    });
+
+  const renderNavItem = (item: SidebarNavItem) => {
+    const isActive = item.isActive;
+    const IconComponent = item.icon;
+
+    const button = (
+      <Button
+        key={item.key}
+        variant="ghost"
+        size={isExpanded ? "default" : "icon"}
+        className={cn(
+          "smooth-transition group relative",
+          isExpanded ? "w-full justify-start" : "w-full justify-center",
+          "hover:bg-sidebar-accent/50 hover:scale-[1.02]",
+          isActive && [
+            "bg-gradient-to-r from-primary/20 to-secondary/10",
+            "glow-border border-primary/30"
+          ]
+        )}
+        onClick={item.onSelect}
+        style={isExpanded && item.depth ? { paddingLeft: `${1 + item.depth * 0.75}rem` } : undefined}
+      >
+        <IconComponent 
+          className={cn(
+            "h-4 w-4 shrink-0 smooth-transition",
+            isActive ? "text-primary glow-icon" : "text-foreground/70 group-hover:text-primary group-hover:glow-icon",
+            isExpanded ? "mr-2" : ""
+          )} 
+        />
+        {isExpanded && (
+          <span className={cn(
+            "editorial-text font-light smooth-transition truncate",
+            isActive ? "text-primary font-medium" : "text-foreground group-hover:text-primary"
+          )}>
+            {item.label}
+          </span>
+        )}
+        {isExpanded && !!item.count && (
+          <span className={cn("ml-auto pl-2 text-xs tabular-nums", isActive ? "text-primary" : "text-muted-foreground")}>
+            {item.count > 999 ? "999+" : item.count}
+          </span>
+        )}
+        {!isExpanded && !!item.count && (
+          <span className="absolute right-1 top-1 h-1.5 w-1.5 rounded-full bg-primary" />
+        )}
+        {isExpanded && item.onRemove && (
+          <span
+            role="button"
+            aria-label={`Remove ${item.label}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              item.onRemove?.();
+            }}
+            className="ml-auto opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+          >
+            <X className="h-3.5 w-3.5" />
+          </span>
+        )}
+        
+        {/* Active indicator glow */}
+        {isActive && (
+          <div className="absolute inset-0 bg-gradient-to-r from-primary/10 to-secondary/5 rounded-md -z-10" />
+        )}
+      </Button>
+    );
+
+    // Only show tooltip when collapsed
+    if (!isExpanded) {
+      return (
+        <Tooltip key={item.key}>
+          <TooltipTrigger asChild>
+            {button}
+          </TooltipTrigger>
+          <TooltipContent side="right" align="center">
+            {item.label}{item.count ? ` (${item.count})` : ""}
+          </TooltipContent>
+        </Tooltip>
+      );
+    }
+
+    return button;
+  };
+
   return (
     <TooltipProvider delayDuration={0}>
       <Card className="glow-border bg-card/80 backdrop-blur-sm h-full smooth-transition">
-        <CardContent className="p-2">
+        <CardContent className="p-2 h-full overflow-y-auto">
           <nav className="flex flex-col gap-1">
-            {mailBoxItems.map((item) => {
-              const isActive = activeBox === item.name;
-              const IconComponent = item.icon;
-              
-              const button = (
-                <Button
-                  key={item.name}
-                  variant="ghost"
-                  size={isExpanded ? "default" : "icon"}
-                  className={cn(
-                    "smooth-transition group relative",
-                    isExpanded ? "w-full justify-start" : "w-full justify-center",
-                    "hover:bg-sidebar-accent/50 hover:scale-[1.02]",
-                    isActive && [
-                      "bg-gradient-to-r from-primary/20 to-secondary/10",
-                      "glow-border border-primary/30"
-                    ]
-                  )}
-                  onClick={() => onSelectBox(item.name)}
-                >
-                  <IconComponent 
-                    className={cn(
-                      "h-4 w-4 smooth-transition",
-                      isActive ? "text-primary glow-icon" : "text-foreground/70 group-hover:text-primary group-hover:glow-icon",
-                      isExpanded ? "mr-2" : ""
-                    )} 
-                  />
-                  {isExpanded && (
-                    <span className={cn(
-                      "editorial-text font-light smooth-transition",
-                      isActive ? "text-primary font-medium" : "text-foreground group-hover:text-primary"
-                    )}>
-                      {item.label}
-                    </span>
-                  )}
-                  
-                  {/* Active indicator glow */}
-                  {isActive && (
-                    <div className="absolute inset-0 bg-gradient-to-r from-primary/10 to-secondary/5 rounded-md -z-10" />
-                  )}
-                </Button>
-              );
-
-              // Only show tooltip when collapsed
-              if (!isExpanded) {
-                return (
-                  <Tooltip key={item.name}>
-                    <TooltipTrigger asChild>
-                      {button}
-                    </TooltipTrigger>
-                    <TooltipContent side="right" align="center">
-                      {item.label}
-                    </TooltipContent>
-                  </Tooltip>
-                );
-              }
-
-              return button;
-            })}
+            {boxNavItems.map(renderNavItem)}
+            {savedSearchNavItems.length > 0 && (
+              <>
+                <div className="my-1 h-px bg-border/50" />
+                {savedSearchNavItems.map(renderNavItem)}
+              </>
+            )}
+            {labelNavItems.length > 0 && (
+              <>
+                <div className="my-1 h-px bg-border/50" />
+                {labelNavItems.map(renderNavItem)}
+              </>
+            )}
           </nav>
         </CardContent>
       </Card>
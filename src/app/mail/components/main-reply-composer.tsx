@@ -1,45 +1,179 @@
 "use client";
 
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Loader2, Send, RefreshCw } from "lucide-react";
+import { Loader2, Send, RefreshCw, Paperclip, X, Reply, ReplyAll, Forward, Save, Trash2 } from "lucide-react";
+import { formatFileSize } from "@/lib/mail-utils";
+import type { ComposeMode, EmailAttachment } from "@/types/mail";
+
+// Comma-separated address lists, as typed by the user
+export interface ComposeRecipients {
+  to: string;
+  cc: string;
+  bcc: string;
+}
 
 interface MainReplyComposerProps {
+  mode: ComposeMode;
+  onModeChange: (mode: ComposeMode) => void;
+  recipients: ComposeRecipients;
+  onRecipientsChange: (recipients: ComposeRecipients) => void;
+  forwardedAttachments?: EmailAttachment[]; // Original attachments that go along with a forward
   replyContent: string;
   onReplyContentChange: (content: string) => void;
+  attachments: File[];
+  onAttachmentsChange: (files: File[]) => void;
   onSend: () => void;
   onRegenerate: () => void;
+  onSaveDraft: () => void;
+  onDiscardDraft?: () => void; // Only set while the composer is backed by a saved Gmail draft
   isSending: boolean;
   isRegenerating: boolean;
+  isSavingDraft: boolean;
 }
 
+const MODE_LABELS: Record<ComposeMode, string> = {
+  reply: "Reply",
+  replyAll: "Reply All",
+  forward: "Forward",
+};
+
 export function MainReplyComposer({
+  mode,
+  onModeChange,
+  recipients,
+  onRecipientsChange,
+  forwardedAttachments = [],
   replyContent,
   onReplyContentChange,
+  attachments,
+  onAttachmentsChange,
   onSend,
   onRegenerate,
+  onSaveDraft,
+  onDiscardDraft,
   isSending,
   isRegenerating,
+  isSavingDraft,
 }: MainReplyComposerProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [showCcBcc, setShowCcBcc] = useState(false);
+  const ccBccVisible = showCcBcc || !!recipients.cc || !!recipients.bcc;
+  const canSend = !!recipients.to.trim() && (mode === "forward" || !!replyContent.trim());
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    if (selected.length > 0) {
+      onAttachmentsChange([...attachments, ...selected]);
+    }
+    e.target.value = ""; // Allow picking the same file again after removing it
+  };
+
   return (
     <Card className="shadow-lg">
-      <CardHeader>
-        <CardTitle>Compose Reply</CardTitle>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle>Compose {MODE_LABELS[mode]}</CardTitle>
+        <Tabs value={mode} onValueChange={(value) => onModeChange(value as ComposeMode)}>
+          <TabsList>
+            <TabsTrigger value="reply" disabled={isSending}><Reply className="mr-1 h-4 w-4" />Reply</TabsTrigger>
+            <TabsTrigger value="replyAll" disabled={isSending}><ReplyAll className="mr-1 h-4 w-4" />Reply All</TabsTrigger>
+            <TabsTrigger value="forward" disabled={isSending}><Forward className="mr-1 h-4 w-4" />Forward</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </CardHeader>
       <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="composeTo" className="w-8 shrink-0 text-sm">To</Label>
+            <Input
+              id="composeTo"
+              value={recipients.to}
+              onChange={(e) => onRecipientsChange({ ...recipients, to: e.target.value })}
+              placeholder="name@example.com, ..."
+            />
+            {!ccBccVisible && (
+              <Button variant="ghost" size="sm" onClick={() => setShowCcBcc(true)}>Cc/Bcc</Button>
+            )}
+          </div>
+          {ccBccVisible && (
+            <>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="composeCc" className="w-8 shrink-0 text-sm">Cc</Label>
+                <Input id="composeCc" value={recipients.cc} onChange={(e) => onRecipientsChange({ ...recipients, cc: e.target.value })} />
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="composeBcc" className="w-8 shrink-0 text-sm">Bcc</Label>
+                <Input id="composeBcc" value={recipients.bcc} onChange={(e) => onRecipientsChange({ ...recipients, bcc: e.target.value })} />
+              </div>
+            </>
+          )}
+        </div>
         <div>
-          <Label htmlFor="mainReplyTextarea" className="text-base font-semibold">Your Reply</Label>
+          <Label htmlFor="mainReplyTextarea" className="text-base font-semibold">{mode === "forward" ? "Your Note" : "Your Reply"}</Label>
           <Textarea
             id="mainReplyTextarea"
             value={replyContent}
             onChange={(e) => onReplyContentChange(e.target.value)}
-            placeholder="Your email reply will appear here. Edit as needed."
+            placeholder={mode === "forward" ? "Add a note above the forwarded message (optional)." : "Your email reply will appear here. Edit as needed."}
             className="w-full mt-1 min-h-[200px]"
           />
         </div>
+        {mode === "forward" && forwardedAttachments.length > 0 && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Paperclip className="h-3.5 w-3.5" />
+            Forwarding {forwardedAttachments.length} original {forwardedAttachments.length === 1 ? "attachment" : "attachments"}:{" "}
+            {forwardedAttachments.map(a => a.filename).join(", ")}
+          </p>
+        )}
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {attachments.map((file, index) => (
+              <div
+                key={`${file.name}-${index}`}
+                className="flex max-w-full items-center gap-2 rounded-md border px-2 py-1 text-sm"
+              >
+                <Paperclip className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                <span className="truncate">{file.name}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+                <button
+                  type="button"
+                  onClick={() => onAttachmentsChange(attachments.filter((_, i) => i !== index))}
+                  className="text-muted-foreground hover:text-destructive"
+                  aria-label={`Remove ${file.name}`}
+                  disabled={isSending}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
         <div className="flex flex-col sm:flex-row gap-2 justify-end">
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFilesSelected} />
+          <Button onClick={() => fileInputRef.current?.click()} disabled={isSending} variant="outline" className="sm:mr-auto">
+            <Paperclip className="mr-2 h-4 w-4" />
+            Attach Files
+          </Button>
+          {onDiscardDraft && (
+            <Button onClick={onDiscardDraft} disabled={isSending || isSavingDraft} variant="ghost">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Discard Draft
+            </Button>
+          )}
+          <Button
+            onClick={onSaveDraft}
+            disabled={isSending || isSavingDraft}
+            variant="outline"
+            title="Save to your Gmail drafts"
+          >
+            {isSavingDraft ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Draft
+          </Button>
           <Button onClick={onRegenerate} disabled={isRegenerating || isSending} variant="outline">
             {isRegenerating ? (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -48,13 +182,13 @@ export function MainReplyComposer({
             )}
             Regenerate Drafts
           </Button>
-          <Button onClick={onSend} disabled={isSending || isRegenerating || !replyContent.trim()} className="bg-muted-green hover:bg-muted-green/90 text-white">
+          <Button onClick={onSend} disabled={isSending || isRegenerating || !canSend} className="bg-muted-green hover:bg-muted-green/90 text-white">
             {isSending ? (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             ) : (
               <Send className="mr-2 h-4 w-4" />
             )}
-            Send Reply
+            Send {MODE_LABELS[mode]}
           </Button>
         </div>
       </CardContent>
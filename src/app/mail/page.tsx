@@ -1,90 +1,352 @@
 
 "use client";
 
-import { useState, useEffect, useTransition, useCallback } from "react";
+import { useState, useEffect, useTransition, useCallback, useRef, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import type { Email, EmailBoxType } from "@/types/mail";
-import { fetchEmails, markEmailAsRead as apiMarkEmailAsRead } from "@/services/gmail";
+import type {
+  Email,
+  EmailBoxType,
+  EmailPage,
+  MailAccount,
+  MailboxAction,
+  MailLabel,
+  MessageListSource,
+  SavedSearch,
+  SystemBoxType,
+} from "@/types/mail";
+import {
+  listLabelsWithCounts,
+  applyMailboxAction,
+  markEmailAsRead as apiMarkEmailAsRead,
+} from "@/services/gmail";
+import { getMailSyncEngine, type MailSyncEngine } from "@/services/mail-sync";
 import { useAuth } from "@/contexts/auth-context";
+import { useMailSearches } from "@/hooks/use-mail-searches";
 
 import { MailSidebar } from "./components/mail-sidebar";
 import { EmailList } from "./components/email-list";
+import { MailSearchBar } from "./components/mail-search-bar";
 // ChatView is no longer imported or used here
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2, AlertTriangle, Mail as MailIcon, Link as LinkIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
+// How often label unread counts in the sidebar are refreshed
+const LABEL_COUNTS_REFRESH_MS = 60_000;
+// How often the mailbox cache replays Gmail history to pick up new mail and label changes
+const MAILBOX_SYNC_INTERVAL_MS = 30_000;
+
+// A search query, when present, replaces the selected box as the source of the list
+function getListSource(boxType: EmailBoxType | "all", searchQuery: string | null): MessageListSource {
+  if (searchQuery) {
+    return { query: searchQuery };
+  }
+  return { boxType: boxType === "all" ? "inbox" : boxType };
+}
+
+// One connected account's mailbox: its token plus the history-synced cache for it
+interface AccountMailbox {
+  account: MailAccount;
+  accessToken: string;
+  sync: MailSyncEngine;
+}
+
+// Merges per-account pages newest first, tagging each message with the account it came from
+function mergeAccountPages(pages: { account: MailAccount; page: EmailPage }[]): { emails: Email[]; hasMore: boolean } {
+  const emails = pages
+    .flatMap(({ account, page }) => page.emails.map(email => ({ ...email, accountId: account.id })))
+    .sort((a, b) => Number(b.internalDate ?? 0) - Number(a.internalDate ?? 0));
+  return { emails, hasMore: pages.some(({ page }) => !!page.nextPageToken) };
+}
+
+// User labels belong to one account, so the unified inbox only shows system boxes, with summed counts
+function sumSystemLabelCounts(labelSets: MailLabel[][]): MailLabel[] {
+  const combined = new Map<string, MailLabel>();
+  for (const label of labelSets.flat()) {
+    if (label.type !== "system") continue;
+    const existing = combined.get(label.id);
+    combined.set(label.id, existing
+      ? {
+          ...existing,
+          messagesUnread: (existing.messagesUnread ?? 0) + (label.messagesUnread ?? 0),
+          messagesTotal: (existing.messagesTotal ?? 0) + (label.messagesTotal ?? 0),
+        }
+      : label);
+  }
+  return [...combined.values()];
+}
 
 export default function MailListPage() {
-  const { currentUser, googleAccessToken, loading: authLoading, handleSignIn } = useAuth();
+  const { currentUser, loading: authLoading, handleSignIn, accounts, activeAccount, connectAccount, hasScopes, ensureScopes } = useAuth();
   const router = useRouter();
   const { toast } = useToast();
 
   const [currentEmailBox, setCurrentEmailBox] = useState<EmailBoxType | "all">("inbox");
+  const [activeSearchQuery, setActiveSearchQuery] = useState<string | null>(null);
+  const {
+    recentSearches,
+    savedSearches,
+    addRecentSearch,
+    clearRecentSearches,
+    saveSearch,
+    removeSavedSearch,
+  } = useMailSearches();
   const [emails, setEmails] = useState<Email[]>([]);
+  const [labels, setLabels] = useState<MailLabel[]>([]);
+  const [hasMoreEmails, setHasMoreEmails] = useState(false);
   const [isLoadingEmails, startEmailLoadingTransition] = useTransition();
+  const [isLoadingMoreEmails, setIsLoadingMoreEmails] = useState(false);
+  // Incremented on every fresh load so late responses for a previous box are discarded
+  const listGenerationRef = useRef(0);
   const [lastSelectedEmailId, setLastSelectedEmailId] = useState<string | null>(null);
   const [isMailSidebarExpanded, setIsMailSidebarExpanded] = useState(false);
+  const [showUnifiedInbox, setShowUnifiedInbox] = useState(false);
+
+  const connectedAccounts = useMemo(() => accounts.filter(account => !!account.accessToken), [accounts]);
+  const isUnifiedInbox = showUnifiedInbox && connectedAccounts.length > 1;
 
+  // Message lists are served from per-account caches that are kept current via Gmail history
+  const mailboxes = useMemo<AccountMailbox[]>(() => {
+    if (!currentUser) return [];
+    const listed = isUnifiedInbox ? connectedAccounts : activeAccount ? [activeAccount] : [];
+    return listed
+      .filter(account => !!account.accessToken)
+      .map(account => ({
+        account,
+        accessToken: account.accessToken!,
+        sync: getMailSyncEngine(`${currentUser.uid}:${account.id}`),
+      }));
+  }, [currentUser, isUnifiedInbox, connectedAccounts, activeAccount]);
 
-  const loadEmails = useCallback((boxType: EmailBoxType | "all") => {
-    if (!googleAccessToken) {
+  const showCachedList = useCallback((source: MessageListSource): boolean => {
+    const pages: { account: MailAccount; page: EmailPage }[] = [];
+    for (const mailbox of mailboxes) {
+      const page = mailbox.sync.getCachedPage(source);
+      if (!page) return false;
+      pages.push({ account: mailbox.account, page });
+    }
+    const merged = mergeAccountPages(pages);
+    setEmails(merged.emails);
+    setHasMoreEmails(merged.hasMore);
+    return true;
+  }, [mailboxes]);
+
+  const loadEmails = useCallback((boxType: EmailBoxType | "all", searchQuery: string | null) => {
+    const generation = ++listGenerationRef.current;
+    setHasMoreEmails(false);
+    setIsLoadingMoreEmails(false);
+    if (mailboxes.length === 0) {
       setEmails([]);
       if (!authLoading && currentUser) {
-         console.warn("MailPage: loadEmails called but no googleAccessToken. User:", currentUser.email);
+         console.warn("MailPage: loadEmails called but no connected account has a token. User:", currentUser.email);
       }
       return;
     }
-    console.log(`MailPage: Loading emails for ${boxType} with token ${googleAccessToken.substring(0,10)}...`);
-    startEmailLoadingTransition(async () => {
-      try {
-        const fetchedEmails = await fetchEmails(googleAccessToken, boxType === "all" ? "inbox" : boxType);
-        setEmails(fetchedEmails);
-      } catch (error) {
-        toast({ title: "Error Loading Emails", description: (error as Error).message || "Failed to load emails.", variant: "destructive" });
-        setEmails([]);
+    const source = getListSource(boxType, searchQuery);
+
+    const loadFromGmail = () => {
+      console.log(`MailPage: Loading emails for ${searchQuery ? `search "${searchQuery}"` : boxType} from ${mailboxes.length} account(s)`);
+      startEmailLoadingTransition(async () => {
+        // One failing account shouldn't hide the others
+        const results = await Promise.allSettled(mailboxes.map(mailbox => mailbox.sync.loadList(mailbox.accessToken, source)));
+        if (generation !== listGenerationRef.current) return;
+        const pages: { account: MailAccount; page: EmailPage }[] = [];
+        results.forEach((result, index) => {
+          const { account } = mailboxes[index];
+          if (result.status === "fulfilled") {
+            pages.push({ account, page: result.value });
+          } else {
+            const message = (result.reason as Error)?.message || "Failed to load emails.";
+            toast({ title: "Error Loading Emails", description: mailboxes.length > 1 ? `${account.email}: ${message}` : message, variant: "destructive" });
+          }
+        });
+        const merged = mergeAccountPages(pages);
+        setEmails(merged.emails);
+        setHasMoreEmails(merged.hasMore);
+      });
+    };
+
+    if (!showCachedList(source)) {
+      loadFromGmail();
+      return;
+    }
+
+    // The cached list is shown immediately; catch up with whatever changed since it was fetched
+    Promise.all(mailboxes.map(mailbox => mailbox.sync.sync(mailbox.accessToken)))
+      .then(results => {
+        if (generation !== listGenerationRef.current) return;
+        if (results.includes("reset") || !showCachedList(source)) {
+          loadFromGmail();
+        }
+      })
+      .catch(error => console.warn("MailPage: Mailbox sync failed:", error));
+  }, [mailboxes, showCachedList, toast, authLoading, currentUser]);
+
+  const loadMoreEmails = useCallback(async () => {
+    if (mailboxes.length === 0 || !hasMoreEmails || isLoadingMoreEmails) return;
+    const generation = listGenerationRef.current;
+    const source = getListSource(currentEmailBox, activeSearchQuery);
+    setIsLoadingMoreEmails(true);
+    try {
+      // Accounts without further pages just return what they already have
+      await Promise.all(mailboxes.map(mailbox => mailbox.sync.loadMore(mailbox.accessToken, source)));
+      if (generation !== listGenerationRef.current) return;
+      showCachedList(source);
+    } catch (error) {
+      if (generation !== listGenerationRef.current) return;
+      toast({ title: "Error Loading More Emails", description: (error as Error).message || "Failed to load more emails.", variant: "destructive" });
+    } finally {
+      if (generation === listGenerationRef.current) {
+        setIsLoadingMoreEmails(false);
       }
-    });
-  }, [googleAccessToken, toast, authLoading, currentUser]);
+    }
+  }, [mailboxes, hasMoreEmails, isLoadingMoreEmails, currentEmailBox, activeSearchQuery, showCachedList, toast]);
 
   useEffect(() => {
-    console.log("MailPage Effect: currentUser:", currentUser?.email, "googleAccessToken:", googleAccessToken ? "present" : "null", "authLoading:", authLoading);
-    if (currentUser && googleAccessToken) {
-      loadEmails(currentEmailBox);
+    console.log("MailPage Effect: currentUser:", currentUser?.email, "mailboxes:", mailboxes.length, "authLoading:", authLoading);
+    if (currentUser && mailboxes.length > 0) {
+      loadEmails(currentEmailBox, activeSearchQuery);
     } else if (!authLoading && !currentUser) {
       setEmails([]);
     }
-  }, [currentEmailBox, currentUser, googleAccessToken, loadEmails, authLoading]);
+  }, [currentEmailBox, activeSearchQuery, currentUser, mailboxes, loadEmails, authLoading]);
+
+  useEffect(() => {
+    if (mailboxes.length === 0) return;
+    const intervalId = setInterval(async () => {
+      const generation = listGenerationRef.current;
+      try {
+        const results = await Promise.all(mailboxes.map(mailbox => mailbox.sync.sync(mailbox.accessToken)));
+        if (generation !== listGenerationRef.current || results.every(result => result === "unchanged")) return;
+        if (results.includes("reset") || !showCachedList(getListSource(currentEmailBox, activeSearchQuery))) {
+          loadEmails(currentEmailBox, activeSearchQuery);
+        }
+      } catch (error) {
+        console.warn("MailPage: Mailbox sync failed:", error);
+      }
+    }, MAILBOX_SYNC_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [mailboxes, currentEmailBox, activeSearchQuery, showCachedList, loadEmails]);
+
+  const refreshLabels = useCallback(async () => {
+    if (mailboxes.length === 0) return;
+    try {
+      const labelSets = await Promise.all(mailboxes.map(mailbox => listLabelsWithCounts(mailbox.accessToken)));
+      setLabels(labelSets.length === 1 ? labelSets[0] : sumSystemLabelCounts(labelSets));
+    } catch (error) {
+      console.warn("MailPage: Failed to load labels:", error);
+    }
+  }, [mailboxes]);
+
+  useEffect(() => {
+    if (mailboxes.length === 0) {
+      setLabels([]);
+      return;
+    }
+    refreshLabels();
+    const intervalId = setInterval(refreshLabels, LABEL_COUNTS_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, [mailboxes, refreshLabels]);
+
+  // Label boxes belong to a single account
+  useEffect(() => {
+    if (isUnifiedInbox && currentEmailBox.startsWith("label:")) {
+      setCurrentEmailBox("inbox");
+    }
+  }, [isUnifiedInbox, currentEmailBox]);
+
+  const getMailbox = (email: Email) => mailboxes.find(mailbox => mailbox.account.id === email.accountId);
+
+  // Applies the change locally first so the list reacts immediately; reloads if Gmail rejects it
+  const handleMailboxAction = async (targets: Email[], action: MailboxAction) => {
+    const groups = mailboxes
+      .map(mailbox => ({ mailbox, ids: targets.filter(email => email.accountId === mailbox.account.id).map(email => email.id) }))
+      .filter(group => group.ids.length > 0);
+    if (groups.length === 0) return;
+    // Organizing mail needs more than the read-only access accounts start with
+    const tokens = new Map<string, string>();
+    for (const { mailbox } of groups) {
+      const token = await ensureScopes(mailbox.account.id, ["gmail.modify"]);
+      if (!token) return;
+      tokens.set(mailbox.account.id, token);
+    }
+    groups.forEach(({ mailbox, ids }) => mailbox.sync.applyLocalAction(ids, action));
+    showCachedList(getListSource(currentEmailBox, activeSearchQuery));
+    try {
+      await Promise.all(groups.map(({ mailbox, ids }) => applyMailboxAction(tokens.get(mailbox.account.id)!, ids, action)));
+      refreshLabels();
+    } catch (error) {
+      toast({ title: "Action Failed", description: (error as Error).message || "Could not update the selected emails.", variant: "destructive" });
+      // The optimistic cache no longer matches Gmail
+      groups.forEach(({ mailbox }) => mailbox.sync.reset());
+      loadEmails(currentEmailBox, activeSearchQuery);
+    }
+  };
+
+  const handleSelectBox = (boxType: EmailBoxType | "all") => {
+    setActiveSearchQuery(null);
+    setCurrentEmailBox(boxType);
+  };
+
+  const handleSearch = (query: string) => {
+    addRecentSearch(query);
+    setActiveSearchQuery(query);
+  };
+
+  const handleSelectSavedSearch = (search: SavedSearch) => {
+    setActiveSearchQuery(search.query);
+  };
+
+  const activeSavedSearch = activeSearchQuery
+    ? savedSearches.find(s => s.query === activeSearchQuery) ?? null
+    : null;
 
   const handleSelectEmail = async (email: Email) => {
-    if (!googleAccessToken) {
+    const mailbox = getMailbox(email);
+    if (!mailbox) {
       toast({ title: "Connection Error", description: "Please connect to Google to open emails.", variant: "destructive"});
       return;
     }
     setLastSelectedEmailId(email.id);
-    router.push(`/mail/${email.id}`); // Navigate to detail page
-    if (!email.read && googleAccessToken) {
+    router.push(`/mail/${email.id}?account=${encodeURIComponent(mailbox.account.id)}`); // Navigate to detail page
+    // Opening mail only marks it read once the account allows changes; it's not worth a prompt
+    if (!email.read && hasScopes(mailbox.account.id, ["gmail.modify"])) {
         try {
-            await apiMarkEmailAsRead(googleAccessToken, email.id);
-            setEmails(prev => prev.map(e => e.id === email.id ? {...e, read: true} : e));
+            await apiMarkEmailAsRead(mailbox.accessToken, email.id);
+            mailbox.sync.applyLocalAction([email.id], { type: "markRead", read: true });
         } catch (error) {
             console.warn("Failed to mark email as read from list view:", error);
         }
     }
   };
 
+  const reconnectActiveAccount = () => {
+    if (activeAccount && !activeAccount.isPrimary) {
+      connectAccount(activeAccount.email);
+    } else {
+      handleSignIn();
+    }
+  };
+
   const getEmailBoxTitle = () => {
-    const titles: Record<EmailBoxType | "all", string> = {
+    if (activeSearchQuery) {
+      return activeSavedSearch ? activeSavedSearch.label : `Search results for "${activeSearchQuery}"`;
+    }
+    if (currentEmailBox.startsWith("label:")) {
+      const labelId = currentEmailBox.substring("label:".length);
+      return labels.find(label => label.id === labelId)?.name ?? "Label";
+    }
+    const titles: Record<SystemBoxType | "all", string> = {
       inbox: "Inbox",
       unread: "Unread Emails",
       sent: "Sent Emails",
       drafts: "Drafts",
       all: "All Mail"
     };
-    return titles[currentEmailBox];
+    return titles[currentEmailBox as SystemBoxType | "all"];
   };
 
   if (authLoading) {
@@ -110,16 +372,16 @@ export default function MailListPage() {
     );
   }
 
-  if (!googleAccessToken && currentUser) {
+  if (mailboxes.length === 0 && currentUser) {
      return (
       <div className="flex flex-col items-center justify-center h-full text-center p-4">
         <AlertTriangle className="h-12 w-12 text-destructive mb-4" />
         <h2 className="text-xl font-semibold mb-2">Google Connection Required</h2>
         <p className="text-muted-foreground mb-4">
-          Hello {currentUser.displayName || currentUser.email}, your Gmail access token is missing or has expired.
+          Hello {currentUser.displayName || currentUser.email}, the Gmail access token for {activeAccount?.email ?? "your account"} is missing or has expired.
         </p>
         <p className="text-muted-foreground mb-6">Please connect to your Google account to access mail features.</p>
-        <Button onClick={handleSignIn}>
+        <Button onClick={reconnectActiveAccount}>
             <LinkIcon className="mr-2 h-4 w-4" />
             Connect to Google
         </Button>
@@ -129,11 +391,24 @@ export default function MailListPage() {
 
   return (
     <div className="flex flex-col gap-6 h-full">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight text-foreground">Mail Assistant</h1>
-        <p className="text-muted-foreground">
-          View your Gmail inbox and craft replies with AI.
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">Mail Assistant</h1>
+          <p className="text-muted-foreground">
+            View your Gmail inbox and craft replies with AI.
+          </p>
+        </div>
+        {connectedAccounts.length > 1 && (
+          <div className="flex items-center gap-1 rounded-md border p-1">
+            <Button size="sm" variant={isUnifiedInbox ? "ghost" : "secondary"} onClick={() => setShowUnifiedInbox(false)}>
+              {activeAccount && <span className="mr-2 h-2 w-2 rounded-full" style={{ backgroundColor: activeAccount.color }} />}
+              {activeAccount?.email ?? "Current account"}
+            </Button>
+            <Button size="sm" variant={isUnifiedInbox ? "secondary" : "ghost"} onClick={() => setShowUnifiedInbox(true)}>
+              All accounts
+            </Button>
+          </div>
+        )}
       </div>
       <Separator />
 
@@ -155,20 +430,42 @@ export default function MailListPage() {
           onMouseLeave={() => setIsMailSidebarExpanded(false)}
         >
            <MailSidebar
-            onSelectBox={setCurrentEmailBox}
-            activeBox={currentEmailBox}
+            onSelectBox={handleSelectBox}
+            activeBox={activeSearchQuery ? null : currentEmailBox}
             isExpanded={isMailSidebarExpanded}
+            savedSearches={savedSearches}
+            activeSavedSearchId={activeSavedSearch?.id ?? null}
+            onSelectSavedSearch={handleSelectSavedSearch}
+            onRemoveSavedSearch={removeSavedSearch}
+            labels={labels}
            />
         </div>
 
-        <div className="min-h-[400px] md:min-h-0">
-          <EmailList
-            emails={emails}
-            onSelectEmail={handleSelectEmail}
-            selectedEmailId={lastSelectedEmailId}
-            isLoading={isLoadingEmails}
-            title={getEmailBoxTitle()}
+        <div className="min-h-[400px] md:min-h-0 flex flex-col gap-3">
+          <MailSearchBar
+            activeQuery={activeSearchQuery}
+            recentSearches={recentSearches}
+            isActiveQuerySaved={!!activeSavedSearch}
+            onSearch={handleSearch}
+            onClear={() => setActiveSearchQuery(null)}
+            onSaveSearch={(query) => saveSearch(query)}
+            onClearRecentSearches={clearRecentSearches}
           />
+          <div className="flex-grow min-h-0">
+            <EmailList
+              emails={emails}
+              onSelectEmail={handleSelectEmail}
+              selectedEmailId={lastSelectedEmailId}
+              isLoading={isLoadingEmails}
+              title={getEmailBoxTitle()}
+              hasMore={hasMoreEmails}
+              isLoadingMore={isLoadingMoreEmails}
+              onLoadMore={loadMoreEmails}
+              labels={labels}
+              onAction={handleMailboxAction}
+              accounts={isUnifiedInbox ? connectedAccounts : undefined}
+            />
+          </div>
         </div>
         {/* ChatView component and its container div have been removed from here */}
       </div>
@@ -0,0 +1,55 @@
+"use client";
+
+import Link from "next/link";
+import { ExternalLink, HelpCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { EvidenceSource } from "@/types/personal-context";
+
+interface EvidencePopoverProps {
+  sources?: EvidenceSource[];
+  accountId?: string; // Mailbox the profile was learned from; the quotes aren't linked without it
+}
+
+// Opens the source's message with the quote highlighted, when its position is known
+function getSourceHref(source: EvidenceSource, accountId: string): string {
+  const params = new URLSearchParams({ account: accountId });
+  if (source.start !== undefined && source.end !== undefined) {
+    params.set("highlight", `${source.start}-${source.end}`);
+  }
+  return `/mail/${source.messageId}?${params}`;
+}
+
+// "Why?" drill-down listing the quotes an insight was learned from, each opening its email. The
+// mail view only reads Gmail, so quotes learned from an IMAP mailbox aren't linked.
+export function EvidencePopover({ sources, accountId }: EvidencePopoverProps) {
+  if (!sources?.length) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground">
+          <HelpCircle className="mr-1 h-3 w-3" />
+          Why?
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <p className="text-sm font-medium">Learned from</p>
+        {sources.map((source, index) => (
+          <div key={`${source.messageId}-${index}`} className="space-y-1">
+            <blockquote className="border-l-2 pl-2 text-xs italic text-muted-foreground">"{source.excerpt}"</blockquote>
+            {accountId && source.mailbox !== "imap" && (
+              <Link
+                href={getSourceHref(source, accountId)}
+                className="inline-flex items-center text-xs text-primary hover:underline"
+              >
+                <ExternalLink className="mr-1 h-3 w-3" />
+                Open email
+              </Link>
+            )}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
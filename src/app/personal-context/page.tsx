@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
@@ -29,36 +30,50 @@ import {
   LogIn,
   Link as LinkIcon,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Pause,
+  Play,
+  XCircle,
+  Calculator
 } from "lucide-react";
 import { useToast } from '@/hooks/use-toast';
 import { usePersonalContext } from '@/hooks/usePersonalContext';
 import { useAuth } from '@/contexts/auth-context';
-import type { PersonalContextLearningInput } from '@/types/personal-context';
+import { getContextOwnerId } from '@/lib/mail-accounts';
+import { authorizedFetch } from '@/lib/api-client';
+import { ANALYSIS_DEPTHS } from '@/lib/analysis-depth';
+import { EvidencePopover } from './components/evidence-popover';
+import type { AnalysisDepth, LearningEstimate, LearningEvent, LearningJob, LearningJobMode, PersonalContextLearningInput } from '@/types/personal-context';
 
 export default function PersonalContextPage() {
   const [manualContext, setManualContext] = useState("");
   const [learningOptions, setLearningOptions] = useState({
     timeRange: 'last_3months' as PersonalContextLearningInput['options']['timeRange'],
-    analysisDepth: 'standard' as PersonalContextLearningInput['options']['analysisDepth'],
+    analysisDepth: 'standard' as AnalysisDepth,
     includePromotional: false,
     minThreadLength: 2
   });
   const [learningLogs, setLearningLogs] = useState<{ message: string; source: string }[]>([]);
   const [showDetailedLogs, setShowDetailedLogs] = useState(false);
   const [logFilter, setLogFilter] = useState<string>('all');
-  const [lastLogTimestamp, setLastLogTimestamp] = useState<string>('');
-  const [isPollingLogs, setIsPollingLogs] = useState(false);
+  const [estimate, setEstimate] = useState<LearningEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
 
   const { toast } = useToast();
-  const { currentUser, googleAccessToken, handleSignIn } = useAuth();
+  const { currentUser, googleAccessToken, handleSignIn, accounts, activeAccount, switchAccount } = useAuth();
   const {
     profile,
     progress,
+    job,
     statistics,
     isLoading,
     error,
+    estimateLearning,
     learnPersonalContext,
+    watchLearning,
+    pauseLearningJob,
+    resumeLearningJob,
+    cancelLearningJob,
     getPersonalContext,
     getUserStatistics,
     testGmailConnection,
@@ -66,8 +81,18 @@ export default function PersonalContextPage() {
     clearError
   } = usePersonalContext();
 
-  // Use actual user ID from auth
-  const userId = currentUser?.uid;
+  // Each connected mail account has its own profile; the primary one keeps the Firebase user ID
+  const userId = currentUser ? getContextOwnerId(currentUser.uid, activeAccount) : undefined;
+
+  // An estimate only holds for the options it was made with
+  useEffect(() => {
+    setEstimate(null);
+  }, [learningOptions, userId]);
+
+  // Learning runs as a background job on the server; the page follows its state
+  const isJobActive = job?.status === 'queued' || job?.status === 'running';
+  const isJobPaused = job?.status === 'paused';
+  const previousJobRef = useRef<Pick<LearningJob, 'id' | 'status'> | null>(null);
 
   // Ref for the logs container to enable auto-scrolling
   const logsContainerRef = useRef<HTMLDivElement>(null);
@@ -121,69 +146,99 @@ export default function PersonalContextPage() {
     }
   }, [userId, getPersonalContext, getUserStatistics]);
 
-  // Effect to listen for progress updates and log them
+  // Follow learning live; the stream also brings the job's log lines
   useEffect(() => {
-    if (progress && isLoading) {
-      const phase = progress.currentPhase.charAt(0).toUpperCase() + progress.currentPhase.slice(1);
-      addLog(`Phase: ${phase} - Progress: ${progress.progress}%`, 'client');
-      
-      if (progress.threadsDiscovered > 0) {
-        addLog(`Discovered ${progress.threadsDiscovered} email threads for analysis`, 'client');
-      }
-      
-      if (progress.threadsAnalyzed > 0) {
-        addLog(`Analyzed ${progress.threadsAnalyzed} threads containing ${progress.emailsAnalyzed} emails`, 'client');
-      }
-      
-      if (progress.contactsClassified > 0) {
-        addLog(`Classified ${progress.contactsClassified} contacts from your email history`, 'client');
+    if (!userId) return;
+    return watchLearning(userId, (event: LearningEvent) => {
+      switch (event.type) {
+        case 'phase': {
+          const phase = event.phase.charAt(0).toUpperCase() + event.phase.slice(1);
+          addLog(`Phase: ${phase} - Progress: ${event.progress.progress}%`, 'client');
+          if (event.phase === 'analysis' && event.progress.threadsDiscovered > 0) {
+            addLog(`Discovered ${event.progress.threadsDiscovered} email threads for analysis`, 'client');
+          }
+          break;
+        }
+        case 'batch':
+          addLog(`Analyzed batch ${event.batch}/${event.totalBatches}: ${event.progress.threadsAnalyzed} threads containing ${event.progress.emailsAnalyzed} emails so far`, 'client');
+          break;
+        case 'log':
+          addLog(event.message, event.source);
+          break;
+        case 'error':
+          addLog(`❌ ${event.message}`, 'client');
+          break;
       }
-    }
-  }, [progress, isLoading]);
+    });
+  }, [userId, watchLearning]);
 
-  // Listen for custom log events from services
+  // Report when a job this page was following finishes
   useEffect(() => {
-    const handleLogEvent = (event: CustomEvent<{message: string, source?: string}>) => {
-      if (event.detail && event.detail.message) {
-        const { message, source } = event.detail;
-        
-        // Format based on source
-        let formattedSource = source || 'client';
-        
-        // Detect source based on log message prefix if not explicitly set
-        if (source === 'console') {
-          if (message.includes('[GmailService]')) {
-            formattedSource = 'gmail';
-          } else if (message.includes('[AnalysisService]')) {
-            formattedSource = 'analysis';
-          } else if (message.includes('[PersonalContextService]')) {
-            formattedSource = 'service';
-          } else if (message.includes('[PersonalContextAPI]') || message.includes('[API]')) {
-            formattedSource = 'server';
-          } else if (message.includes('WARNING:') || message.includes('Compiling')) {
-            formattedSource = 'server';
-          } else if (message.includes('[PersonalContextStore]')) {
-            formattedSource = 'service';
-          } else if (message.includes('GET /api/') || message.includes('POST /api/')) {
-            formattedSource = 'server';
-          }
-        }
-        
-        // Add the log without filtering - capture everything
-        addLog(message, formattedSource);
+    const previous = previousJobRef.current;
+    previousJobRef.current = job ? { id: job.id, status: job.status } : null;
+    if (!job || !previous || previous.id !== job.id || previous.status === job.status) return;
+
+    if (job.status === 'completed') {
+      addLog("✅ Learning complete! Successfully analyzed your email patterns and built personal context.", 'client');
+      toast({
+        title: "Learning Complete!",
+        description: "Successfully analyzed your email patterns and built personal context.",
+      });
+      if (userId) {
+        getPersonalContext(userId);
+        getUserStatistics(userId);
       }
-    };
-    
-    // Add event listener
-    window.addEventListener('personal-context-log', handleLogEvent as EventListener);
-    
-    // Clean up
-    return () => {
-      window.removeEventListener('personal-context-log', handleLogEvent as EventListener);
-    };
-  }, []);
+    } else if (job.status === 'failed') {
+      addLog(`❌ Learning failed: ${job.error || "Unknown error"}`, 'client');
+      toast({
+        title: "Learning Failed",
+        description: job.error || "Failed to learn from Gmail.",
+        variant: "destructive"
+      });
+    } else if (job.status === 'paused') {
+      addLog(job.needsCredentials ? `⏸ Learning paused: ${job.error}` : "⏸ Learning paused", 'client');
+    } else if (job.status === 'cancelled') {
+      addLog("Learning cancelled", 'client');
+    }
+  }, [job]);
+
+  // The same input starts a job and estimates it
+  const buildLearningInput = (mode: LearningJobMode, uid: string, accessToken: string): PersonalContextLearningInput => ({
+    userId: userId ?? uid,
+    ...(activeAccount?.hasOfflineAccess
+      ? { credentials: { userId: uid, accountId: activeAccount.id } }
+      : { accessToken }),
+    mode,
+    options: learningOptions
+  });
+
+  const handleEstimate = async () => {
+    if (!currentUser || !googleAccessToken) {
+      toast({
+        title: "Gmail Access Required",
+        description: "Please connect to Google to estimate learning from your Gmail.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsEstimating(true);
+    const result = await estimateLearning(buildLearningInput('full', currentUser.uid, googleAccessToken));
+    setIsEstimating(false);
 
-  const handleStartLearning = async () => {
+    if (result.success && result.estimate) {
+      setEstimate(result.estimate);
+    } else {
+      toast({
+        title: "Estimate Failed",
+        description: result.error || "Failed to estimate learning.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Incremental runs merge mail sent since the last run into the existing profile
+  const handleStartLearning = async (mode: LearningJobMode = 'full') => {
     if (!currentUser) {
       toast({
         title: "Authentication Required",
@@ -204,36 +259,28 @@ export default function PersonalContextPage() {
 
     clearError();
     
-    // Reset logs, show log panel, and start polling
+    // Reset logs and show the log panel
     setLearningLogs([]);
     setShowDetailedLogs(true);
-    setLastLogTimestamp(''); // Reset timestamp to get all logs
-    setIsPollingLogs(true);  // Start polling for logs
     
     // Add initial logs
-    addLog(`Starting personal context learning process...`, 'client');
-    addLog(`Time range: ${getTimeRangeDisplayText(learningOptions.timeRange)}`, 'client');
+    if (mode === 'incremental') {
+      addLog(`Learning from mail sent since the last run...`, 'client');
+    } else {
+      addLog(`Starting personal context learning process...`, 'client');
+      addLog(`Time range: ${getTimeRangeDisplayText(learningOptions.timeRange)}`, 'client');
+    }
     addLog(`Analysis depth: ${learningOptions.analysisDepth}`, 'client');
     addLog(`Connecting to Gmail API...`, 'client');
     
-    const input: PersonalContextLearningInput = {
-      userId: currentUser.uid,
-      accessToken: googleAccessToken,
-      options: learningOptions
-    };
-
-    const result = await learnPersonalContext(input);
+    const result = await learnPersonalContext(buildLearningInput(mode, currentUser.uid, googleAccessToken));
     
     if (result.success) {
-      addLog("✅ Learning complete! Successfully analyzed your email patterns and built personal context.", 'client');
+      addLog("Learning started in the background. You can leave this page and come back to check on it.", 'client');
       toast({
-        title: "Learning Complete!",
-        description: "Successfully analyzed your email patterns and built personal context.",
+        title: "Learning Started",
+        description: "Your email is being analyzed in the background.",
       });
-      // Refresh statistics
-      if (userId) {
-        getUserStatistics(userId);
-      }
     } else {
       addLog(`❌ Learning failed: ${result.error || "Unknown error"}`, 'client');
       toast({
@@ -242,9 +289,37 @@ export default function PersonalContextPage() {
         variant: "destructive"
       });
     }
-    
-    // Stop polling after learning is complete
-    setIsPollingLogs(false);
+  };
+
+  const handlePauseLearning = async () => {
+    if (!job) return;
+    const result = await pauseLearningJob(job.id);
+    if (!result.success) {
+      toast({ title: "Pause Failed", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const handleResumeLearning = async () => {
+    if (!job) return;
+    // Jobs started with a popup access token lose it when the server restarts
+    const credentials = job.source.kind === 'gmail_token' && googleAccessToken ? { accessToken: googleAccessToken } : {};
+    const result = await resumeLearningJob(job.id, credentials);
+    if (result.success) {
+      addLog("Resuming learning from the last checkpoint...", 'client');
+    } else {
+      toast({ title: "Resume Failed", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const handleCancelLearning = async () => {
+    if (!job) return;
+    if (!confirm("Cancel learning? What has been analyzed so far will be discarded.")) {
+      return;
+    }
+    const result = await cancelLearningJob(job.id);
+    if (!result.success) {
+      toast({ title: "Cancel Failed", description: result.error, variant: "destructive" });
+    }
   };
 
   const handleTestConnection = async () => {
@@ -312,9 +387,9 @@ export default function PersonalContextPage() {
 
   // Add a log entry with timestamp and proper formatting
   const addLog = (message: string, source: string = 'client') => {
-    // For client-side logs that don't already have timestamps, add them
+    // For logs that don't already have timestamps, add them
     let formattedMessage = message;
-    if (source !== 'console' && source !== 'server' && !message.includes('[')) {
+    if (!message.includes('[')) {
       const timestamp = new Date().toLocaleTimeString('en-US', { 
         hour12: false,
         hour: '2-digit',
@@ -341,12 +416,6 @@ export default function PersonalContextPage() {
       case 'service':
         className = "text-green-600";
         break;
-      case 'server':
-        className = "text-slate-500";
-        break;
-      case 'console':
-        className = "text-slate-500";
-        break;
       default:
         className = "text-foreground";
     }
@@ -369,147 +438,6 @@ export default function PersonalContextPage() {
     }
   };
 
-  // Function to fetch server logs
-  const fetchServerLogs = async () => {
-    try {
-      const url = lastLogTimestamp 
-        ? `/api/personal-context/server-logs?after=${encodeURIComponent(lastLogTimestamp)}&limit=100`
-        : '/api/personal-context/server-logs?limit=100';
-        
-      const response = await fetch(url);
-      if (!response.ok) throw new Error('Failed to fetch server logs');
-      
-      const data = await response.json();
-      
-      if (data.logs && data.logs.length > 0) {
-        // Update logs with new server logs
-        const newLogs = data.logs.map((log: {timestamp: string, message: string}) => ({
-          message: log.message,
-          source: determineLogSource(log.message)
-        }));
-        
-        // Add new logs and update last timestamp
-        if (newLogs.length > 0) {
-          setLearningLogs(prev => [...prev, ...newLogs]);
-          setLastLogTimestamp(data.logs[0].timestamp);
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching server logs:', error);
-    }
-  };
-  
-  // Function to determine the source of a log based on its content
-  const determineLogSource = (message: string): string => {
-    if (message.includes('[GmailService]')) {
-      return 'gmail';
-    } else if (message.includes('[AnalysisService]')) {
-      return 'analysis';
-    } else if (message.includes('[PersonalContextService]')) {
-      return 'service';
-    } else if (message.includes('[PersonalContextAPI]') || message.includes('[API]')) {
-      return 'server';
-    } else if (message.includes('[PersonalContextStore]')) {
-      return 'service';
-    } else if (message.includes('WARNING:') || message.includes('Compiling')) {
-      return 'server';
-    } else if (message.includes('GET /api/') || message.includes('POST /api/')) {
-      return 'server';
-    }
-    return 'server';
-  };
-  
-  // Effect to start polling when learning process starts
-  useEffect(() => {
-    // Start polling when learning is in progress
-    if (isLoading && !isPollingLogs) {
-      setIsPollingLogs(true);
-    }
-    
-    // Stop polling when learning is complete
-    if (!isLoading && isPollingLogs) {
-      setIsPollingLogs(false);
-    }
-  }, [isLoading, isPollingLogs]);
-  
-  // Poll for server logs when isPollingLogs is true
-  useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    
-    if (isPollingLogs) {
-      // Fetch logs immediately
-      fetchServerLogs();
-      
-      // Then set up polling interval
-      interval = setInterval(fetchServerLogs, 1000); // Poll every second
-    }
-    
-    return () => {
-      if (interval) {
-        clearInterval(interval);
-      }
-    };
-  }, [isPollingLogs, lastLogTimestamp]);
-
-  // Function to manually process a raw server log string (like from terminal output)
-  const processRawServerLog = (logStr: string) => {
-    // First check if this is a relevant log message
-    if (logStr.includes('[PersonalContextService]') || 
-        logStr.includes('[GmailService]') || 
-        logStr.includes('[AnalysisService]') || 
-        logStr.includes('[PersonalContextStore]') ||
-        logStr.includes('[PersonalContextAPI]') || 
-        logStr.includes('[API]') || 
-        logStr.includes('WARNING:') || 
-        logStr.includes('GET /api/personal-context') || 
-        logStr.includes('POST /api/personal-context')) {
-      
-      // Determine the appropriate source
-      let source = 'server';
-      if (logStr.includes('[GmailService]')) {
-        source = 'gmail';
-      } else if (logStr.includes('[AnalysisService]')) {
-        source = 'analysis';
-      } else if (logStr.includes('[PersonalContextService]')) {
-        source = 'service';
-      } else if (logStr.includes('[PersonalContextStore]')) {
-        source = 'service';
-      }
-      
-      // Add to logs
-      addLog(logStr, source);
-    }
-  };
-
-  // Effect to override console.log on the client side to capture all logs
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      // Save the original console.log
-      const originalConsoleLog = console.log;
-      
-      // Override console.log
-      console.log = function(...args) {
-        // Call the original console.log
-        originalConsoleLog.apply(console, args);
-        
-        // Convert args to a string for processing
-        const logStr = args.map(arg => 
-          typeof arg === 'string' ? arg : 
-          typeof arg === 'object' ? JSON.stringify(arg) : 
-          String(arg)
-        ).join(' ');
-        
-        // Process as a server log (this will filter and categorize)
-        processRawServerLog(logStr);
-      };
-      
-      // Restore the original console.log on cleanup
-      return () => {
-        console.log = originalConsoleLog;
-      };
-    }
-  }, [processRawServerLog]);
-
   // Show authentication prompt if user is not signed in
   if (!currentUser) {
     return (
@@ -582,11 +510,30 @@ export default function PersonalContextPage() {
 
   return (
     <div className="flex flex-col gap-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight text-foreground">Personal Context</h1>
-        <p className="text-muted-foreground">
-          Manage your personal context to help the AI understand your communication style and preferences.
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">Personal Context</h1>
+          <p className="text-muted-foreground">
+            Manage your personal context to help the AI understand your communication style and preferences.
+          </p>
+        </div>
+        {accounts.length > 1 && activeAccount && (
+          <div className="flex flex-col gap-1">
+            <Label className="text-xs text-muted-foreground">Profile for account</Label>
+            <Select value={activeAccount.id} onValueChange={switchAccount}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.filter(account => !!account.accessToken).map(account => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </div>
 
       {error && (
@@ -754,7 +701,7 @@ export default function PersonalContextPage() {
                   <Label>Analysis Depth</Label>
                   <Select 
                     value={learningOptions.analysisDepth} 
-                    onValueChange={(value: PersonalContextLearningInput['options']['analysisDepth']) => 
+                    onValueChange={(value: AnalysisDepth) => 
                       setLearningOptions(prev => ({ ...prev, analysisDepth: value }))
                     }
                   >
@@ -762,14 +709,36 @@ export default function PersonalContextPage() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="basic">Basic</SelectItem>
-                      <SelectItem value="standard">Standard</SelectItem>
-                      <SelectItem value="comprehensive">Comprehensive</SelectItem>
+                      {(Object.keys(ANALYSIS_DEPTHS) as AnalysisDepth[]).map(depth => (
+                        <SelectItem key={depth} value={depth}>{ANALYSIS_DEPTHS[depth].label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {ANALYSIS_DEPTHS[learningOptions.analysisDepth].description}
+                  </p>
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="min-thread-length">Minimum Messages per Conversation</Label>
+                <Input
+                  id="min-thread-length"
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={learningOptions.minThreadLength}
+                  onChange={(e) => {
+                    const value = Math.min(Math.max(Math.round(Number(e.target.value)) || 1, 1), 50);
+                    setLearningOptions(prev => ({ ...prev, minThreadLength: value }));
+                  }}
+                  className="w-24"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Shorter conversations are skipped.
+                </p>
+              </div>
+
               <div className="flex gap-2">
                 <Button 
                   onClick={handleTestConnection} 
@@ -780,25 +749,83 @@ export default function PersonalContextPage() {
                   Test Connection
                 </Button>
                 <Button 
-                  onClick={handleStartLearning} 
-                  disabled={isLoading}
+                  onClick={handleEstimate} 
+                  variant="outline"
+                  disabled={isEstimating || isJobActive || isJobPaused}
+                >
+                  {isEstimating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Calculator className="mr-2 h-4 w-4" />}
+                  Estimate
+                </Button>
+                <Button 
+                  onClick={() => handleStartLearning('full')} 
+                  disabled={isLoading || isJobActive || isJobPaused}
                   className="flex-1"
                 >
-                  {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Brain className="mr-2 h-4 w-4" />}
-                  {isLoading ? 'Learning...' : 'Start Learning'}
+                  {isLoading || isJobActive ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Brain className="mr-2 h-4 w-4" />}
+                  {isJobActive ? 'Learning...' : isJobPaused ? 'Paused' : profile ? 'Relearn Everything' : 'Start Learning'}
                 </Button>
+                {profile && !isJobActive && !isJobPaused && (
+                  <Button onClick={() => handleStartLearning('incremental')} variant="outline" disabled={isLoading}>
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Learn New Mail
+                  </Button>
+                )}
+                {isJobActive && (
+                  <Button onClick={handlePauseLearning} variant="outline">
+                    <Pause className="mr-2 h-4 w-4" />
+                    Pause
+                  </Button>
+                )}
+                {isJobPaused && (
+                  <Button onClick={handleResumeLearning} variant="outline">
+                    <Play className="mr-2 h-4 w-4" />
+                    Resume
+                  </Button>
+                )}
+                {(isJobActive || isJobPaused) && (
+                  <Button onClick={handleCancelLearning} variant="outline">
+                    <XCircle className="mr-2 h-4 w-4" />
+                    Cancel
+                  </Button>
+                )}
               </div>
 
+              {estimate && (
+                <div className="space-y-1 rounded-md border p-3">
+                  <p className="text-sm font-medium">
+                    {ANALYSIS_DEPTHS[estimate.analysisDepth].label} learning would analyze up to {estimate.threadsToAnalyze} conversations
+                    {estimate.threadsToAnalyze < estimate.threadsDiscovered ? ` (the most recent of ${estimate.threadsDiscovered})` : ''}
+                  </p>
+                  <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                    <div>AI requests: up to {estimate.modelCalls}</div>
+                    <div>Tokens: about {(estimate.inputTokens + estimate.outputTokens).toLocaleString()}</div>
+                    <div>Cost: {estimate.estimatedCostUsd < 0.01 ? 'under $0.01' : `up to $${estimate.estimatedCostUsd.toFixed(2)}`}</div>
+                    <div>Time: about {estimate.estimatedMinutes} min</div>
+                  </div>
+                </div>
+              )}
+
+              {isJobPaused && job?.needsCredentials && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Learning paused</AlertTitle>
+                  <AlertDescription>{job.error}</AlertDescription>
+                </Alert>
+              )}
+
               {progress && (
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
-                    <span>Progress: {progress.currentPhase}</span>
+                    <span>Progress: {progress.currentPhase}{job && job.status !== 'running' ? ` (${job.status})` : ''}</span>
                     <span>{progress.progress}%</span>
                   </div>
                   <Progress value={progress.progress} className="w-full" />
                   <div className="grid grid-cols-2 gap-4 text-xs text-muted-foreground">
                     <div>Threads: {progress.threadsAnalyzed}/{progress.threadsDiscovered}</div>
                     <div>Contacts: {progress.contactsClassified}</div>
+                    {isJobActive && progress.estimatedCompletion && (
+                      <div>Estimated finish: {new Date(progress.estimatedCompletion).toLocaleTimeString()}</div>
+                    )}
                   </div>
                 </div>
               )}
@@ -859,14 +886,6 @@ export default function PersonalContextPage() {
                         >
                           Analysis
                         </Button>
-                        <Button 
-                          variant={logFilter === 'server' ? 'default' : 'outline'} 
-                          size="sm"
-                          className="text-slate-500"
-                          onClick={() => setLogFilter('server')}
-                        >
-                          Server
-                        </Button>
                       </div>
                       
                       {/* Auto-scroll indicator and control */}
@@ -949,9 +968,12 @@ export default function PersonalContextPage() {
             <div className="space-y-6">
               {/* Communication Style & Patterns */}
               <Card>
-                <CardHeader>
-                  <CardTitle>Communication Style & Patterns</CardTitle>
-                  <CardDescription>Your global and contextual communication preferences</CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>Communication Style & Patterns</CardTitle>
+                    <CardDescription>Your global and contextual communication preferences</CardDescription>
+                  </div>
+                  <EvidencePopover sources={profile.communicationPatterns.globalStyle.evidenceSources} accountId={activeAccount?.id} />
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -1054,9 +1076,12 @@ export default function PersonalContextPage() {
                                 Confidence: {Math.round(relationship.confidence * 100)}%
                               </p>
                             </div>
-                            <Badge variant="outline" className="text-xs">
-                              {relationship.totalInteractions} interactions
-                            </Badge>
+                            <div className="flex items-center gap-1">
+                              <EvidencePopover sources={relationship.evidenceSources} accountId={activeAccount?.id} />
+                              <Badge variant="outline" className="text-xs">
+                                {relationship.totalInteractions} interactions
+                              </Badge>
+                            </div>
                           </div>
                         ))}
                       </div>
@@ -1188,9 +1213,12 @@ export default function PersonalContextPage() {
                         <div key={index} className="p-3 bg-muted rounded border">
                           <div className="flex justify-between items-center mb-2">
                             <p className="font-medium text-sm">{area.domain}</p>
-                            <Badge variant="outline" className="text-xs">
-                              {area.expertise_level}
-                            </Badge>
+                            <div className="flex items-center gap-1">
+                              <EvidencePopover sources={area.evidenceSources} accountId={activeAccount?.id} />
+                              <Badge variant="outline" className="text-xs">
+                                {area.expertise_level}
+                              </Badge>
+                            </div>
                           </div>
                           {area.context && (
                             <p className="text-xs text-muted-foreground">{area.context}</p>
@@ -1224,9 +1252,12 @@ export default function PersonalContextPage() {
                         <div key={index} className="p-3 bg-muted rounded border">
                           <div className="flex justify-between items-start mb-2">
                             <p className="font-medium text-sm capitalize">{pattern.type.replace('_', ' ')}</p>
-                            <Badge variant="outline" className="text-xs">
-                              {Math.round(pattern.confidence * 100)}% confidence
-                            </Badge>
+                            <div className="flex items-center gap-1">
+                              <EvidencePopover sources={pattern.evidenceSources} accountId={activeAccount?.id} />
+                              <Badge variant="outline" className="text-xs">
+                                {Math.round(pattern.confidence * 100)}% confidence
+                              </Badge>
+                            </div>
                           </div>
                           <p className="text-sm text-muted-foreground mb-2">{pattern.pattern}</p>
                           {pattern.triggers && pattern.triggers.length > 0 && (
@@ -1259,7 +1290,8 @@ export default function PersonalContextPage() {
                         <div key={index} className="p-3 bg-muted rounded border">
                           <div className="flex justify-between items-start mb-2">
                             <p className="font-medium text-sm">{response.scenario}</p>
-                            <div className="flex gap-2">
+                            <div className="flex items-center gap-2">
+                              <EvidencePopover sources={response.evidenceSources} accountId={activeAccount?.id} />
                               <Badge variant="secondary" className="text-xs">
                                 {response.formality_level.replace('_', ' ')}
                               </Badge>
@@ -1299,9 +1331,12 @@ export default function PersonalContextPage() {
                         <div key={index} className="p-3 bg-muted rounded border">
                           <div className="flex justify-between items-start mb-2">
                             <p className="font-medium text-sm capitalize">{pattern.type.replace('_', ' ')}</p>
-                            <Badge variant="outline" className="text-xs">
-                              {Math.round(pattern.confidence * 100)}% confidence
-                            </Badge>
+                            <div className="flex items-center gap-1">
+                              <EvidencePopover sources={pattern.evidenceSources} accountId={activeAccount?.id} />
+                              <Badge variant="outline" className="text-xs">
+                                {Math.round(pattern.confidence * 100)}% confidence
+                              </Badge>
+                            </div>
                           </div>
                           <p className="text-sm text-muted-foreground mb-2">{pattern.pattern}</p>
                           {pattern.specific_times && pattern.specific_times.length > 0 && (
@@ -11,13 +11,25 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { LogOut, User, Settings, LogIn, Link as LinkIcon } from "lucide-react";
+import { LogOut, User, Settings, LogIn, Link as LinkIcon, Check, UserPlus, RefreshCw, X, KeyRound } from "lucide-react";
 import Link from "next/link";
 import { useAuth } from "@/contexts/auth-context";
 import { cn } from "@/lib/utils";
 
 export function UserNav() {
-  const { currentUser, loading, handleSignIn, handleSignOut, googleAccessToken } = useAuth();
+  const {
+    currentUser,
+    loading,
+    handleSignIn,
+    handleSignOut,
+    googleAccessToken,
+    accounts,
+    activeAccount,
+    switchAccount,
+    connectAccount,
+    removeAccount,
+    offlineAccessAvailable,
+  } = useAuth();
 
   if (loading) {
     return (
@@ -45,7 +57,7 @@ export function UserNav() {
 
   // If user is signed into Firebase but Google Access Token is missing,
   // show a button to re-connect/re-trigger OAuth flow.
-  if (currentUser && !googleAccessToken) {
+  if (currentUser && !googleAccessToken && accounts.length <= 1) {
     return (
       <Button 
         variant="outline" 
@@ -94,7 +106,7 @@ export function UserNav() {
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent 
-        className="w-56 glow-border bg-card/90 backdrop-blur-xl" 
+        className="w-64 glow-border bg-card/90 backdrop-blur-xl" 
         align="end" 
         forceMount
       >
@@ -109,6 +121,51 @@ export function UserNav() {
           </div>
         </DropdownMenuLabel>
         <DropdownMenuSeparator className="bg-border/30" />
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Mail accounts</DropdownMenuLabel>
+        <DropdownMenuGroup>
+          {accounts.map(account => (
+            <DropdownMenuItem
+              key={account.id}
+              onClick={() => (account.accessToken ? switchAccount(account.id) : connectAccount(account.email))}
+              className="smooth-transition hover:bg-sidebar-accent/50"
+            >
+              <span className="mr-2 h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: account.color }} />
+              <span className="min-w-0 flex-1 truncate text-xs">{account.email}</span>
+              {!account.accessToken ? (
+                <RefreshCw className="ml-2 h-3.5 w-3.5 text-muted-foreground" aria-label="Reconnect" />
+              ) : account.id === activeAccount?.id ? (
+                <Check className="ml-2 h-3.5 w-3.5 text-primary" />
+              ) : null}
+              {!account.isPrimary && (
+                <button
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    removeAccount(account.id);
+                  }}
+                  className="ml-1 text-muted-foreground hover:text-destructive"
+                  title={`Remove ${account.email}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </DropdownMenuItem>
+          ))}
+          {offlineAccessAvailable && activeAccount && !activeAccount.hasOfflineAccess && (
+            <DropdownMenuItem
+              onClick={() => connectAccount(activeAccount.email)}
+              className="smooth-transition hover:bg-sidebar-accent/50"
+              title="Lets the server refresh Google access, so it survives reloads and long learning runs"
+            >
+              <KeyRound className="mr-2 h-4 w-4 glow-icon" />
+              <span className="editorial-text font-light">Stay connected to {activeAccount.email}</span>
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => connectAccount()} className="smooth-transition hover:bg-sidebar-accent/50">
+            <UserPlus className="mr-2 h-4 w-4 glow-icon" />
+            <span className="editorial-text font-light">Add account</span>
+          </DropdownMenuItem>
+        </DropdownMenuGroup>
+        <DropdownMenuSeparator className="bg-border/30" />
         <DropdownMenuGroup>
           <DropdownMenuItem asChild className="smooth-transition hover:bg-sidebar-accent/50">
             <Link href="/settings" className="cursor-pointer"> 
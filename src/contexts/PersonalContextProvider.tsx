@@ -2,7 +2,7 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import type { PersonalContextProfile } from '@/types/personal-context';
-import { personalContextService } from '@/services/personal-context/personal-context-service';
+import { authorizedFetch } from '@/lib/api-client';
 
 interface PersonalContextState {
   profile: PersonalContextProfile | null;
@@ -55,13 +55,19 @@ export function PersonalContextProvider({
     setState(prev => ({ ...prev, isLoading: true }));
     
     try {
-      const profile = await personalContextService.getPersonalContext(state.userId);
+      // Profiles live behind the authenticated API; a 404 just means nothing was learned yet
+      const response = await authorizedFetch(`/api/personal-context/profile?userId=${encodeURIComponent(state.userId)}`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok && response.status !== 404) {
+        throw new Error(result.error || 'Failed to get profile');
+      }
+      const profile: PersonalContextProfile | null = result.profile ?? null;
       
       setState(prev => ({
         ...prev,
         profile,
         hasPersonalContext: !!profile,
-        lastUpdated: profile?.lastUpdated || null,
+        lastUpdated: profile?.lastUpdated ? new Date(profile.lastUpdated) : null,
         isLoading: false
       }));
     } catch (error) {
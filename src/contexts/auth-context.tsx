@@ -1,17 +1,52 @@
-
 "use client";
 
-import type { User } from "firebase/auth";
+import type { User, UserCredential } from "firebase/auth";
 import { onAuthStateChanged, GoogleAuthProvider, signInWithPopup, signOut as firebaseSignOut } from "firebase/auth";
 import type { ReactNode} from "react";
-import { createContext, useContext, useEffect, useState, useCallback } from "react";
-import { auth } from "@/lib/firebase";
+import { createContext, useContext, useEffect, useState, useCallback, useMemo, useRef } from "react";
+import { auth, getAccountConnectAuth } from "@/lib/firebase";
+import { pickAccountColor } from "@/lib/mail-accounts";
+import {
+  BASE_SCOPE_IDS,
+  fetchGrantedScopes,
+  getScopeDefinition,
+  getScopeUrls,
+  getScopesAfterRevoking,
+  hasGoogleScope,
+  type GoogleScopeId,
+} from "@/lib/google-scopes";
+import {
+  OfflineAccessUnavailableError,
+  connectGoogleAccountOffline,
+  revokeGoogleAccess,
+  fetchServerAccessToken,
+  isOfflineAccessConfigured,
+  type ConnectedGoogleAccount,
+} from "@/lib/google-oauth-client";
+import { setGmailTokenRefresher } from "@/services/gmail-client";
 import { useToast } from "@/hooks/use-toast"; // Added for notifications
+import type { MailAccount } from "@/types/mail";
 
 interface AuthContextType {
   currentUser: User | null;
+  // Token of the active mail account; kept for pages that only work with one mailbox
   googleAccessToken: string | null;
   setGoogleAccessToken: (token: string | null) => void;
+  accounts: MailAccount[];
+  activeAccount: MailAccount | null;
+  switchAccount: (accountId: string) => void;
+  // Resolves with the connected account, or null if connecting failed (a toast explains why)
+  connectAccount: (loginHint?: string, scopeIds?: GoogleScopeId[]) => Promise<MailAccount | null>;
+  removeAccount: (accountId: string) => void;
+  getAccessToken: (accountId: string) => string | null;
+  hasScopes: (accountId: string, scopeIds: GoogleScopeId[]) => boolean;
+  // Asks for any of `scopeIds` the account hasn't granted yet; resolves with a token that carries
+  // them, or null if the user declined
+  ensureScopes: (accountId: string, scopeIds: GoogleScopeId[]) => Promise<string | null>;
+  // Google only revokes whole grants, so the remaining scopes are re-requested afterwards
+  revokeScope: (accountId: string, scopeId: GoogleScopeId) => Promise<void>;
+  // The server can mint tokens itself, so accounts are connected with offline access
+  offlineAccessAvailable: boolean;
   loading: boolean;
   handleSignIn: () => Promise<void>;
   handleSignOut: () => Promise<void>;
@@ -19,39 +54,215 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Account list (without tokens) per signed-in user, so connected accounts survive a reload
+const ACCOUNTS_STORAGE_PREFIX = "mail.accounts.";
+const ACTIVE_ACCOUNT_STORAGE_PREFIX = "mail.activeAccount.";
+
+function readStoredAccounts(userId: string): MailAccount[] {
+  try {
+    const raw = window.localStorage.getItem(ACCOUNTS_STORAGE_PREFIX + userId);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.map((account: MailAccount) => ({ ...account, accessToken: null, accessTokenExpiresAt: null }))
+      : [];
+  } catch (error) {
+    console.warn("AuthContext: Failed to read stored accounts:", error);
+    return [];
+  }
+}
+
+function writeStoredAccounts(userId: string, accounts: MailAccount[]) {
+  try {
+    const withoutTokens = accounts.map(account => ({ ...account, accessToken: null, accessTokenExpiresAt: null }));
+    window.localStorage.setItem(ACCOUNTS_STORAGE_PREFIX + userId, JSON.stringify(withoutTokens));
+  } catch (error) {
+    console.warn("AuthContext: Failed to store accounts:", error);
+  }
+}
+
+// Asks for read-only Gmail plus `scopeIds`, keeping whatever the account granted before
+function createGoogleProvider(scopeIds: GoogleScopeId[] = [], loginHint?: string): GoogleAuthProvider {
+  const provider = new GoogleAuthProvider();
+  getScopeUrls([...BASE_SCOPE_IDS, ...scopeIds]).forEach(scope => provider.addScope(scope));
+  // Always show the chooser so a different Google account can be picked
+  provider.setCustomParameters({
+    prompt: "select_account",
+    include_granted_scopes: "true",
+    ...(loginHint ? { login_hint: loginHint } : {}),
+  });
+  return provider;
+}
+
+// What a popup token carries; falls back to what was asked for if Google can't be reached
+async function getPopupGrantedScopes(accessToken: string | null, requestedScopeIds: GoogleScopeId[]): Promise<string[]> {
+  const requested = getScopeUrls([...BASE_SCOPE_IDS, ...requestedScopeIds]);
+  if (!accessToken) return [];
+  try {
+    return await fetchGrantedScopes(accessToken);
+  } catch (error) {
+    console.warn("AuthContext: Failed to look up granted scopes:", error);
+    return requested;
+  }
+}
+
+function accountFromCredential(result: UserCredential, existing: MailAccount[], isPrimary: boolean, grantedScopes: string[]): MailAccount | null {
+  const email = result.user.email;
+  if (!email) return null;
+  const id = email.toLowerCase();
+  const previous = existing.find(account => account.id === id);
+  return {
+    id,
+    email,
+    displayName: result.user.displayName,
+    photoURL: result.user.photoURL,
+    color: previous?.color ?? pickAccountColor(existing),
+    isPrimary: previous?.isPrimary ?? isPrimary,
+    accessToken: GoogleAuthProvider.credentialFromResult(result)?.accessToken ?? null,
+    // Popup tokens last about an hour and can't be renewed without another popup
+    accessTokenExpiresAt: null,
+    hasOfflineAccess: previous?.hasOfflineAccess ?? false,
+    grantedScopes,
+  };
+}
+
+function accountFromOfflineConnection(connected: ConnectedGoogleAccount, existing: MailAccount[], isPrimary: boolean): MailAccount {
+  const id = connected.email.toLowerCase();
+  const previous = existing.find(account => account.id === id);
+  return {
+    id,
+    email: connected.email,
+    displayName: connected.displayName,
+    photoURL: connected.photoURL,
+    color: previous?.color ?? pickAccountColor(existing),
+    isPrimary: previous?.isPrimary ?? isPrimary,
+    accessToken: connected.accessToken,
+    accessTokenExpiresAt: connected.expiresAt,
+    hasOfflineAccess: true,
+    grantedScopes: connected.scopes,
+  };
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [googleAccessToken, setGoogleAccessTokenState] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<MailAccount[]>([]);
+  // Mirrors `accounts` so handlers can read the latest list synchronously
+  const accountsRef = useRef<MailAccount[]>([]);
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [offlineAccessAvailable, setOfflineAccessAvailable] = useState(false);
   const { toast } = useToast(); // Added
 
+  const activeAccount = useMemo(
+    () => accounts.find(account => account.id === activeAccountId) ?? accounts.find(account => account.isPrimary) ?? null,
+    [accounts, activeAccountId]
+  );
+  const googleAccessToken = activeAccount?.accessToken ?? null;
+
+  const replaceAccounts = useCallback((next: MailAccount[], userId?: string) => {
+    accountsRef.current = next;
+    setAccounts(next);
+    if (userId) {
+      writeStoredAccounts(userId, next);
+    }
+  }, []);
+
+  const updateAccounts = useCallback((userId: string, update: (previous: MailAccount[]) => MailAccount[]) => {
+    replaceAccounts(update(accountsRef.current), userId);
+  }, [replaceAccounts]);
+
+  // Adds the account or refreshes its token and profile details
+  const putAccount = useCallback((userId: string, account: MailAccount) => {
+    updateAccounts(userId, previous =>
+      previous.some(existing => existing.id === account.id)
+        ? previous.map(existing => (existing.id === account.id ? account : existing))
+        : [...previous, account]
+    );
+  }, [updateAccounts]);
+
+  const upsertAccount = useCallback(async (userId: string, result: UserCredential, isPrimary: boolean, requestedScopeIds: GoogleScopeId[] = []): Promise<MailAccount | null> => {
+    const token = GoogleAuthProvider.credentialFromResult(result)?.accessToken ?? null;
+    const grantedScopes = await getPopupGrantedScopes(token, requestedScopeIds);
+    const account = accountFromCredential(result, accountsRef.current, isPrimary, grantedScopes);
+    if (!account) return null;
+    putAccount(userId, account);
+    return account;
+  }, [putAccount]);
+
+  /**
+   * Asks the server for a fresh token from the account's stored refresh token. Returns null (and
+   * marks the account as lacking offline access) when there is none, so callers fall back to a popup.
+   */
+  const refreshAccountToken = useCallback(async (userId: string, accountId: string): Promise<string | null> => {
+    try {
+      const { accessToken, expiresAt, scopes } = await fetchServerAccessToken(userId, accountId);
+      updateAccounts(userId, previous =>
+        previous.map(account =>
+          account.id === accountId
+            ? { ...account, accessToken, accessTokenExpiresAt: expiresAt, hasOfflineAccess: true, grantedScopes: scopes }
+            : account
+        )
+      );
+      return accessToken;
+    } catch (error) {
+      if (error instanceof OfflineAccessUnavailableError) {
+        updateAccounts(userId, previous =>
+          previous.map(account => (account.id === accountId ? { ...account, hasOfflineAccess: false } : account))
+        );
+        return null;
+      }
+      console.warn(`AuthContext: Failed to refresh the token for ${accountId}:`, error);
+      return null;
+    }
+  }, [updateAccounts]);
+
+  const switchAccount = useCallback((accountId: string) => {
+    setActiveAccountId(accountId);
+    if (currentUser) {
+      window.localStorage.setItem(ACTIVE_ACCOUNT_STORAGE_PREFIX + currentUser.uid, accountId);
+    }
+  }, [currentUser]);
+
   const setGoogleAccessToken = useCallback((token: string | null) => {
     console.log("AuthContext: setGoogleAccessToken called with token:", token ? token.substring(0, 20) + "..." : token);
-    setGoogleAccessTokenState(token);
-  }, []);
+    if (!currentUser || !activeAccount) return;
+    updateAccounts(currentUser.uid, previous =>
+      previous.map(account => (account.id === activeAccount.id ? { ...account, accessToken: token } : account))
+    );
+  }, [currentUser, activeAccount, updateAccounts]);
+
+  const getAccessToken = useCallback(
+    (accountId: string) => accounts.find(account => account.id === accountId)?.accessToken ?? null,
+    [accounts]
+  );
+
+  const hasScopes = useCallback((accountId: string, scopeIds: GoogleScopeId[]) => {
+    const account = accounts.find(candidate => candidate.id === accountId);
+    return !!account?.accessToken && scopeIds.every(id => hasGoogleScope(account.grantedScopes, id));
+  }, [accounts]);
 
   const handleSignIn = useCallback(async () => {
-    const provider = new GoogleAuthProvider();
-    provider.addScope('https://mail.google.com/');
-    provider.addScope('https://www.googleapis.com/auth/drive');
-    provider.addScope('https://www.googleapis.com/auth/calendar');
-    
     try {
       console.log("AuthContext: Initiating sign-in with popup...");
-      const result = await signInWithPopup(auth, provider);
+      const result = await signInWithPopup(auth, createGoogleProvider());
       console.log("AuthContext: signInWithPopup result (user object):", result.user);
-      // console.log("AuthContext: result.user.providerData[0]:", result.user.providerData[0]); // Can be useful for debugging specific provider info
 
-      const credential = GoogleAuthProvider.credentialFromResult(result);
-      console.log("AuthContext: Credential from result:", credential);
-      const token = credential?.accessToken;
+      const token = GoogleAuthProvider.credentialFromResult(result)?.accessToken;
       console.log("AuthContext: Extracted access token:", token ? token.substring(0, 20) + "..." : token);
-      
-      if (token) {
-        setGoogleAccessToken(token);
-      } else {
-        setGoogleAccessToken(null);
-        console.error("AuthContext: Google OAuth access token NOT FOUND after sign-in. Credential object:", credential);
+
+      // onAuthStateChanged may not have run yet, so the stored list is read here directly
+      if (accountsRef.current.length === 0) {
+        replaceAccounts(readStoredAccounts(result.user.uid));
+      }
+      const account = await upsertAccount(result.user.uid, result, true);
+      if (account) {
+        switchAccount(account.id);
+        // Finds out whether the server already holds a refresh token for this account
+        if (offlineAccessAvailable) {
+          void refreshAccountToken(result.user.uid, account.id);
+        }
+      }
+      if (!token) {
+        console.error("AuthContext: Google OAuth access token NOT FOUND after sign-in.");
         toast({
           title: "Sign In Warning",
           description: "Could not retrieve Google access token. Some features might not work.",
@@ -60,25 +271,128 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
       toast({
         title: "Signed In",
-        description: `Successfully signed in as ${result.user.email}. Requested permissions for Gmail, Drive, and Calendar.`,
+        description: `Successfully signed in as ${result.user.email}. Further permissions are requested when a feature first needs them.`,
         variant: "default",
       });
     } catch (error) {
       console.error("AuthContext: Error signing in with Google: ", error);
-      setGoogleAccessToken(null);
       toast({
         title: "Sign In Failed",
         description: (error as Error).message || "An unexpected error occurred.",
         variant: "destructive",
       });
     }
-  }, [setGoogleAccessToken, toast]);
+  }, [replaceAccounts, upsertAccount, switchAccount, offlineAccessAvailable, refreshAccountToken, toast]);
+
+  // Runs the consent popup for `scopeIds` and stores the result; throws if the user backs out
+  const authorizeAccount = useCallback(async (user: User, scopeIds: GoogleScopeId[], loginHint?: string): Promise<MailAccount | null> => {
+    if (offlineAccessAvailable) {
+      // The server keeps a refresh token, so this account stays connected across reloads
+      const connected = await connectGoogleAccountOffline(scopeIds, loginHint);
+      const isPrimary = connected.email.toLowerCase() === user.email?.toLowerCase();
+      const account = accountFromOfflineConnection(connected, accountsRef.current, isPrimary);
+      putAccount(user.uid, account);
+      return account;
+    }
+    const connectAuth = getAccountConnectAuth();
+    try {
+      const result = await signInWithPopup(connectAuth, createGoogleProvider(scopeIds, loginHint));
+      const isPrimary = result.user.email?.toLowerCase() === user.email?.toLowerCase();
+      return await upsertAccount(user.uid, result, isPrimary, scopeIds);
+    } finally {
+      // Only the token was needed; don't keep a second Firebase session around
+      await firebaseSignOut(connectAuth).catch(() => undefined);
+    }
+  }, [offlineAccessAvailable, putAccount, upsertAccount]);
+
+  // Connects another Google account (or reconnects a known one) without changing the signed-in user
+  const connectAccount = useCallback(async (loginHint?: string, scopeIds: GoogleScopeId[] = []): Promise<MailAccount | null> => {
+    if (!currentUser) {
+      await handleSignIn();
+      return null;
+    }
+    try {
+      const account = await authorizeAccount(currentUser, scopeIds, loginHint);
+      if (account && scopeIds.length === 0) {
+        toast({ title: "Account Connected", description: `${account.email} is now available in Mail.` });
+      }
+      return account;
+    } catch (error) {
+      console.error("AuthContext: Error connecting Google account: ", error);
+      toast({
+        title: "Could Not Connect Account",
+        description: (error as Error).message || "An unexpected error occurred.",
+        variant: "destructive",
+      });
+      return null;
+    }
+  }, [currentUser, handleSignIn, authorizeAccount, toast]);
+
+  const ensureScopes = useCallback(async (accountId: string, scopeIds: GoogleScopeId[]): Promise<string | null> => {
+    const account = accountsRef.current.find(candidate => candidate.id === accountId);
+    if (!account) return null;
+    const missing = scopeIds.filter(id => !hasGoogleScope(account.grantedScopes, id));
+    if (missing.length === 0 && account.accessToken) return account.accessToken;
+
+    console.log(`AuthContext: Requesting ${missing.join(", ")} for ${account.email}`);
+    const updated = await connectAccount(account.email, missing);
+    if (!updated) return null;
+    const stillMissing = scopeIds.filter(id => !hasGoogleScope(updated.grantedScopes, id));
+    if (stillMissing.length > 0) {
+      toast({
+        title: "Permission Not Granted",
+        description: `${stillMissing.map(id => getScopeDefinition(id).label).join(", ")} is needed for this action.`,
+        variant: "destructive",
+      });
+      return null;
+    }
+    return updated.accessToken;
+  }, [connectAccount, toast]);
+
+  const revokeScope = useCallback(async (accountId: string, scopeId: GoogleScopeId) => {
+    const account = accountsRef.current.find(candidate => candidate.id === accountId);
+    if (!currentUser || !account) return;
+    if (getScopeDefinition(scopeId).required) {
+      toast({ title: "Permission Required", description: "Remove the account instead to stop reading its mail.", variant: "destructive" });
+      return;
+    }
+    const remaining = getScopesAfterRevoking(account.grantedScopes, scopeId);
+    try {
+      await revokeGoogleAccess(currentUser.uid, accountId, account.accessToken);
+    } catch (error) {
+      console.error("AuthContext: Error revoking Google access: ", error);
+      toast({ title: "Could Not Revoke", description: (error as Error).message || "An unexpected error occurred.", variant: "destructive" });
+      return;
+    }
+    updateAccounts(currentUser.uid, previous =>
+      previous.map(candidate =>
+        candidate.id === accountId
+          ? { ...candidate, accessToken: null, accessTokenExpiresAt: null, hasOfflineAccess: false, grantedScopes: [] }
+          : candidate
+      )
+    );
+    toast({ title: "Permission Revoked", description: `${getScopeDefinition(scopeId).label} was removed for ${account.email}. Approve the remaining permissions to stay connected.` });
+    await connectAccount(account.email, remaining.filter(id => !getScopeDefinition(id).required));
+  }, [currentUser, updateAccounts, connectAccount, toast]);
+
+  const removeAccount = useCallback((accountId: string) => {
+    if (!currentUser) return;
+    const removed = accountsRef.current.find(account => account.id === accountId && !account.isPrimary);
+    if (removed?.hasOfflineAccess) {
+      revokeGoogleAccess(currentUser.uid, accountId).catch(error =>
+        console.warn("AuthContext: Failed to remove stored credentials:", error)
+      );
+    }
+    updateAccounts(currentUser.uid, previous => previous.filter(account => account.id !== accountId || account.isPrimary));
+    if (activeAccountId === accountId) {
+      setActiveAccountId(null);
+    }
+  }, [currentUser, activeAccountId, updateAccounts]);
 
   const handleSignOut = useCallback(async () => {
     try {
       await firebaseSignOut(auth);
-      setGoogleAccessToken(null); 
-      // currentUser will be set to null by onAuthStateChanged
+      // currentUser and accounts will be cleared by onAuthStateChanged
       toast({
         title: "Signed Out",
         description: "Successfully signed out.",
@@ -92,28 +406,77 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         variant: "destructive",
       });
     }
-  }, [setGoogleAccessToken, toast]);
+  }, [toast]);
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
       console.log("AuthContext: onAuthStateChanged triggered. User:", user?.email);
       setCurrentUser(user);
       if (!user) {
-        console.log("AuthContext: User signed out or no user, clearing Google access token.");
-        setGoogleAccessTokenState(null); // Explicitly clear token if no Firebase user
+        console.log("AuthContext: User signed out or no user, clearing connected accounts.");
+        replaceAccounts([]);
+        setActiveAccountId(null);
+      } else {
+        // Restores the account list; tokens come back from the server for accounts with offline
+        // access, the rest stay null until reconnected through a popup
+        if (accountsRef.current.length === 0) {
+          replaceAccounts(readStoredAccounts(user.uid));
+        }
+        setActiveAccountId(previous => previous ?? window.localStorage.getItem(ACTIVE_ACCOUNT_STORAGE_PREFIX + user.uid));
       }
-      // IMPORTANT: Do not try to re-fetch Google Access Token here directly from onAuthStateChanged
-      // It must be obtained via an explicit OAuth flow like signInWithPopup.
-      // If a user session is restored but token is needed, user must re-trigger the flow (e.g. via a button).
       setLoading(false);
       console.log("AuthContext: auth loading state set to false.");
     });
 
     return () => unsubscribe();
-  }, []); // Removed setGoogleAccessToken from dependency array as it's stable via useCallback
+  }, [replaceAccounts]);
+
+  const currentUserId = currentUser?.uid;
+  // The API only answers signed-in users
+  useEffect(() => {
+    if (!currentUserId) return;
+    isOfflineAccessConfigured().then(setOfflineAccessAvailable);
+  }, [currentUserId]);
+
+  useEffect(() => {
+    if (!currentUserId || !offlineAccessAvailable) return;
+    accountsRef.current
+      .filter(account => !account.accessToken)
+      .forEach(account => refreshAccountToken(currentUserId, account.id));
+  }, [currentUserId, offlineAccessAvailable, refreshAccountToken]);
+
+  // Gmail calls that hit an expired token get a new one from the server and retry
+  useEffect(() => {
+    if (!currentUserId) return;
+    setGmailTokenRefresher(async (expiredToken) => {
+      const account = accountsRef.current.find(candidate => candidate.accessToken === expiredToken);
+      if (!account?.hasOfflineAccess) return null;
+      return refreshAccountToken(currentUserId, account.id);
+    });
+    return () => setGmailTokenRefresher(null);
+  }, [currentUserId, refreshAccountToken]);
 
   return (
-    <AuthContext.Provider value={{ currentUser, loading, googleAccessToken, setGoogleAccessToken, handleSignIn, handleSignOut }}>
+    <AuthContext.Provider
+      value={{
+        currentUser,
+        loading,
+        googleAccessToken,
+        setGoogleAccessToken,
+        accounts,
+        activeAccount,
+        switchAccount,
+        connectAccount,
+        removeAccount,
+        getAccessToken,
+        hasScopes,
+        ensureScopes,
+        revokeScope,
+        offlineAccessAvailable,
+        handleSignIn,
+        handleSignOut,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { SavedSearch } from "@/types/mail";
+
+const RECENT_SEARCHES_KEY = "mail.recentSearches";
+const SAVED_SEARCHES_KEY = "mail.savedSearches";
+const MAX_RECENT_SEARCHES = 8;
+
+function readStoredList<T>(key: string): T[] {
+  try {
+    const raw = window.localStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn(`useMailSearches: Failed to read ${key} from localStorage:`, error);
+    return [];
+  }
+}
+
+function writeStoredList<T>(key: string, value: T[]) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`useMailSearches: Failed to write ${key} to localStorage:`, error);
+  }
+}
+
+/**
+ * Recent and saved Gmail searches, persisted in localStorage for this browser.
+ */
+export function useMailSearches() {
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  useEffect(() => {
+    setRecentSearches(readStoredList<string>(RECENT_SEARCHES_KEY));
+    setSavedSearches(readStoredList<SavedSearch>(SAVED_SEARCHES_KEY));
+  }, []);
+
+  const addRecentSearch = useCallback((query: string) => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    setRecentSearches(prev => {
+      const next = [trimmed, ...prev.filter(q => q !== trimmed)].slice(0, MAX_RECENT_SEARCHES);
+      writeStoredList(RECENT_SEARCHES_KEY, next);
+      return next;
+    });
+  }, []);
+
+  const clearRecentSearches = useCallback(() => {
+    setRecentSearches([]);
+    writeStoredList(RECENT_SEARCHES_KEY, []);
+  }, []);
+
+  const saveSearch = useCallback((query: string, label?: string) => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    setSavedSearches(prev => {
+      if (prev.some(s => s.query === trimmed)) return prev;
+      const next = [...prev, { id: Date.now().toString(36), label: label?.trim() || trimmed, query: trimmed }];
+      writeStoredList(SAVED_SEARCHES_KEY, next);
+      return next;
+    });
+  }, []);
+
+  const removeSavedSearch = useCallback((id: string) => {
+    setSavedSearches(prev => {
+      const next = prev.filter(s => s.id !== id);
+      writeStoredList(SAVED_SEARCHES_KEY, next);
+      return next;
+    });
+  }, []);
+
+  return {
+    recentSearches,
+    savedSearches,
+    addRecentSearch,
+    clearRecentSearches,
+    saveSearch,
+    removeSavedSearch,
+  };
+}
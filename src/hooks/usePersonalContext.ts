@@ -2,13 +2,20 @@ import { useState, useCallback } from 'react';
 import type { 
   PersonalContextProfile, 
   LearningProgress, 
+  LearningJob,
+  LearningEstimate,
+  LearningEvent,
   PersonalContextLearningInput,
-  PersonalContextUpdateInput
+  PersonalContextUpdateInput,
+  ReplyOrigin
 } from '@/types/personal-context';
+import type { ImapAccountConfig } from '@/types/mail';
+import { authorizedFetch } from '@/lib/api-client';
 
 interface PersonalContextState {
   profile: PersonalContextProfile | null;
   progress: LearningProgress | null;
+  job: LearningJob | null; // Latest learning job of the profile
   statistics: {
     hasPersonalContext: boolean;
     contactCount: number;
@@ -24,6 +31,7 @@ export function usePersonalContext() {
   const [state, setState] = useState<PersonalContextState>({
     profile: null,
     progress: null,
+    job: null,
     statistics: null,
     isLoading: false,
     error: null
@@ -37,18 +45,41 @@ export function usePersonalContext() {
     setState(prev => ({ ...prev, error }));
   }, []);
 
-  // Start learning personal context from Gmail
+  // What a learning job with this input would analyze and cost, before starting it
+  const estimateLearning = useCallback(async (input: PersonalContextLearningInput) => {
+    try {
+      const response = await authorizedFetch('/api/personal-context/learn/estimate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to estimate learning');
+      }
+
+      return { success: true, estimate: result.estimate as LearningEstimate };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }, []);
+
+  // Start a background learning job; follow it with watchLearning
   const learnPersonalContext = useCallback(async (input: PersonalContextLearningInput) => {
     setLoading(true);
     setError(null);
 
     try {
       // Validate that we have the required authentication
-      if (!input.userId || !input.accessToken) {
-        throw new Error('Authentication required: Missing user ID or access token');
+      if (!input.userId || (!input.accessToken && !input.credentials)) {
+        throw new Error('Authentication required: Missing user ID or Google credentials');
       }
 
-      const response = await fetch('/api/personal-context/learn', {
+      const response = await authorizedFetch('/api/personal-context/learn', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -64,11 +95,12 @@ export function usePersonalContext() {
 
       setState(prev => ({
         ...prev,
-        profile: result.profile,
+        job: result.job,
+        progress: result.job.progress,
         isLoading: false
       }));
 
-      return { success: true, profile: result.profile };
+      return { success: true, job: result.job as LearningJob };
     } catch (error) {
       const errorMessage = (error as Error).message;
       setError(errorMessage);
@@ -77,13 +109,141 @@ export function usePersonalContext() {
     }
   }, [setLoading, setError]);
 
+  // Follow the owner's learning jobs over the server's event stream. Keeps `job` and `progress`
+  // current, hands every event to `onEvent` and reconnects when the stream drops. Returns the
+  // function that stops watching.
+  const watchLearning = useCallback((userId: string, onEvent?: (event: LearningEvent) => void) => {
+    const controller = new AbortController();
+
+    const applyEvent = (event: LearningEvent) => {
+      setState(prev => {
+        switch (event.type) {
+          case 'snapshot':
+            return { ...prev, job: event.job, progress: event.progress };
+          case 'status':
+            return { ...prev, job: event.job, progress: event.job.progress };
+          case 'phase':
+          case 'batch':
+            return {
+              ...prev,
+              progress: event.progress,
+              job: prev.job?.id === event.jobId ? { ...prev.job, progress: event.progress } : prev.job
+            };
+          default:
+            return prev;
+        }
+      });
+      onEvent?.(event);
+    };
+
+    const connect = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const response = await authorizedFetch(`/api/personal-context/learn/events?userId=${encodeURIComponent(userId)}`, {
+            signal: controller.signal,
+          });
+          if (!response.ok || !response.body) {
+            throw new Error(`Event stream failed with status ${response.status}`);
+          }
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            // Events end with a blank line; only their `data:` lines matter here
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary !== -1) {
+              const data = buffer
+                .slice(0, boundary)
+                .split('\n')
+                .filter(line => line.startsWith('data:'))
+                .map(line => line.slice(5).trimStart())
+                .join('\n');
+              buffer = buffer.slice(boundary + 2);
+              if (data) {
+                applyEvent(JSON.parse(data) as LearningEvent);
+              }
+              boundary = buffer.indexOf('\n\n');
+            }
+          }
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.warn('Learning event stream interrupted:', error);
+        }
+        // Reconnect after a pause; the snapshot on reconnect catches up on anything missed
+        await new Promise(resolve => setTimeout(resolve, 3000));
+      }
+    };
+
+    connect();
+    return () => controller.abort();
+  }, []);
+
+  // Pause, resume or cancel a learning job
+  const controlLearningJob = useCallback(async (
+    jobId: string,
+    action: 'pause' | 'resume' | 'cancel',
+    body: object = {}
+  ) => {
+    setError(null);
+
+    try {
+      const response = await authorizedFetch(`/api/personal-context/jobs/${jobId}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action} learning`);
+      }
+
+      setState(prev => ({
+        ...prev,
+        job: result.job,
+        progress: result.job.progress
+      }));
+
+      return { success: true, job: result.job as LearningJob };
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [setError]);
+
+  const pauseLearningJob = useCallback(
+    (jobId: string) => controlLearningJob(jobId, 'pause'),
+    [controlLearningJob]
+  );
+
+  // Jobs started with an access token or IMAP account need it again after a server restart
+  const resumeLearningJob = useCallback(
+    (jobId: string, credentials: { accessToken?: string; imapAccount?: ImapAccountConfig } = {}) =>
+      controlLearningJob(jobId, 'resume', credentials),
+    [controlLearningJob]
+  );
+
+  const cancelLearningJob = useCallback(
+    (jobId: string) => controlLearningJob(jobId, 'cancel'),
+    [controlLearningJob]
+  );
+
   // Get personal context profile
   const getPersonalContext = useCallback(async (userId: string) => {
     setLoading(true);
     setError(null);
 
     try {
-      const response = await fetch(`/api/personal-context/profile?userId=${userId}`);
+      const response = await authorizedFetch(`/api/personal-context/profile?userId=${encodeURIComponent(userId)}`);
       const result = await response.json();
 
       if (!response.ok) {
@@ -111,7 +271,7 @@ export function usePersonalContext() {
     setError(null);
 
     try {
-      const response = await fetch('/api/personal-context/profile', {
+      const response = await authorizedFetch('/api/personal-context/profile', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -126,7 +286,7 @@ export function usePersonalContext() {
       }
 
       setLoading(false);
-      return { success: true, updates: result.updates };
+      return { success: true, updates: result.updates, replyOrigin: result.replyOrigin as ReplyOrigin | undefined };
     } catch (error) {
       const errorMessage = (error as Error).message;
       setError(errorMessage);
@@ -141,7 +301,7 @@ export function usePersonalContext() {
     setError(null);
 
     try {
-      const response = await fetch(`/api/personal-context/learn?userId=${userId}`);
+      const response = await authorizedFetch(`/api/personal-context/learn?userId=${encodeURIComponent(userId)}`);
       const result = await response.json();
 
       if (!response.ok) {
@@ -151,6 +311,7 @@ export function usePersonalContext() {
       setState(prev => ({
         ...prev,
         progress: result.progress,
+        job: result.job,
         isLoading: false
       }));
 
@@ -169,7 +330,7 @@ export function usePersonalContext() {
     setError(null);
 
     try {
-      const response = await fetch(`/api/personal-context/statistics?userId=${userId}`);
+      const response = await authorizedFetch(`/api/personal-context/statistics?userId=${encodeURIComponent(userId)}`);
       const result = await response.json();
 
       if (!response.ok) {
@@ -201,7 +362,7 @@ export function usePersonalContext() {
         throw new Error('Access token is required for Gmail connection test');
       }
 
-      const response = await fetch('/api/personal-context/test-connection', {
+      const response = await authorizedFetch('/api/personal-context/test-connection', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -231,7 +392,7 @@ export function usePersonalContext() {
     setError(null);
 
     try {
-      const response = await fetch(`/api/personal-context/profile?userId=${userId}`, {
+      const response = await authorizedFetch(`/api/personal-context/profile?userId=${encodeURIComponent(userId)}`, {
         method: 'DELETE',
       });
 
@@ -245,6 +406,7 @@ export function usePersonalContext() {
         ...prev,
         profile: null,
         progress: null,
+        job: null,
         statistics: null,
         isLoading: false
       }));
@@ -262,12 +424,18 @@ export function usePersonalContext() {
     // State
     profile: state.profile,
     progress: state.progress,
+    job: state.job,
     statistics: state.statistics,
     isLoading: state.isLoading,
     error: state.error,
 
     // Actions
+    estimateLearning,
     learnPersonalContext,
+    watchLearning,
+    pauseLearningJob,
+    resumeLearningJob,
+    cancelLearningJob,
     getPersonalContext,
     updatePersonalContext,
     getLearningProgress,
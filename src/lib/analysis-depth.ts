@@ -0,0 +1,96 @@
+import type { AnalysisDepth, LearningEstimate } from "@/types/personal-context";
+
+// What each analysis depth reads and extracts. Basic samples recent threads for communication
+// style and relationships only; standard extracts everything from every thread; comprehensive
+// then revisits each frequent contact and synthesizes patterns across threads.
+
+export interface AnalysisDepthTier {
+  label: string;
+  description: string;
+  maxThreads: number; // Most recent threads analyzed at most
+  batchSize: number; // Threads analyzed, and checkpointed, together
+  styleOnly: boolean; // Only communication style and relationships are extracted
+  synthesis: boolean; // Per-contact passes and a cross-thread synthesis after the threads
+  // Rough model usage of one thread's analysis, for estimates
+  threadTokens: { input: number; output: number };
+  secondsPerThread: number;
+}
+
+export const ANALYSIS_DEPTHS: Record<AnalysisDepth, AnalysisDepthTier> = {
+  basic: {
+    label: "Basic",
+    description: "Communication style and relationships, from your 50 most recent conversations.",
+    maxThreads: 50,
+    batchSize: 10,
+    styleOnly: true,
+    synthesis: false,
+    threadTokens: { input: 2000, output: 500 },
+    secondsPerThread: 4,
+  },
+  standard: {
+    label: "Standard",
+    description: "Style, relationships, work, preferences and habits from every conversation in the time range.",
+    maxThreads: 500,
+    batchSize: 5,
+    styleOnly: false,
+    synthesis: false,
+    threadTokens: { input: 4500, output: 1500 },
+    secondsPerThread: 10,
+  },
+  comprehensive: {
+    label: "Comprehensive",
+    description: "Everything in Standard, plus a second look at each frequent contact and patterns that hold across conversations.",
+    maxThreads: 500,
+    batchSize: 5,
+    styleOnly: false,
+    synthesis: true,
+    threadTokens: { input: 4500, output: 1500 },
+    secondsPerThread: 10,
+  },
+};
+
+// Comprehensive learning revisits at most this many contacts, those seen in the most threads
+export const MAX_CONTACT_PASSES = 15;
+// Model calls run this many at a time
+export const MODEL_CALL_CONCURRENCY = 5;
+
+const CONTACT_PASS = { input: 2000, output: 400, seconds: 5 };
+const SYNTHESIS_PASS = { input: 12000, output: 2500, seconds: 30 };
+// Fetching a batch and the pause between batches
+const BATCH_OVERHEAD_SECONDS = 1.5;
+// List prices of gemini-2.0-flash (src/ai/genkit.ts), in US dollars per million tokens
+const INPUT_PRICE_PER_MILLION = 0.1;
+const OUTPUT_PRICE_PER_MILLION = 0.4;
+
+/**
+ * Estimates the model calls, tokens, cost and time of learning from the given number of
+ * discovered threads. Upper bounds: threads turn out too short or automated only once fetched,
+ * and contacts are only revisited when they appear in more than one thread.
+ */
+export function estimateLearning(threadsDiscovered: number, analysisDepth: AnalysisDepth): LearningEstimate {
+  const tier = ANALYSIS_DEPTHS[analysisDepth];
+  const threadsToAnalyze = Math.min(threadsDiscovered, tier.maxThreads);
+  const contactPasses = tier.synthesis ? Math.min(threadsToAnalyze, MAX_CONTACT_PASSES) : 0;
+  const synthesisPasses = tier.synthesis && threadsToAnalyze > 0 ? 1 : 0;
+
+  const inputTokens =
+    threadsToAnalyze * tier.threadTokens.input + contactPasses * CONTACT_PASS.input + synthesisPasses * SYNTHESIS_PASS.input;
+  const outputTokens =
+    threadsToAnalyze * tier.threadTokens.output + contactPasses * CONTACT_PASS.output + synthesisPasses * SYNTHESIS_PASS.output;
+  const seconds =
+    Math.ceil(threadsToAnalyze / tier.batchSize) * (tier.secondsPerThread + BATCH_OVERHEAD_SECONDS) +
+    Math.ceil(contactPasses / MODEL_CALL_CONCURRENCY) * CONTACT_PASS.seconds +
+    synthesisPasses * SYNTHESIS_PASS.seconds;
+
+  return {
+    analysisDepth,
+    threadsDiscovered,
+    threadsToAnalyze,
+    modelCalls: threadsToAnalyze + contactPasses + synthesisPasses,
+    inputTokens,
+    outputTokens,
+    estimatedCostUsd:
+      Math.round(((inputTokens * INPUT_PRICE_PER_MILLION + outputTokens * OUTPUT_PRICE_PER_MILLION) / 1000000) * 10000) / 10000,
+    estimatedMinutes: Math.ceil(seconds / 60),
+  };
+}
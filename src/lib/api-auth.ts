@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminAuth } from "@/lib/firebase-admin";
+
+// Server-only: authentication for API routes. Callers send their Firebase ID token as
+// `Authorization: Bearer <token>`; the user is taken from the verified token, never from the request.
+
+export interface AuthenticatedUser {
+  uid: string;
+  email: string | null;
+}
+
+export class ApiAuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 403) {
+    super(message);
+    this.name = "ApiAuthError";
+  }
+}
+
+export async function authenticateRequest(request: NextRequest): Promise<AuthenticatedUser> {
+  const header = request.headers.get("authorization");
+  const idToken = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!idToken) {
+    throw new ApiAuthError("Missing Firebase ID token", 401);
+  }
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken);
+    return { uid: decoded.uid, email: decoded.email ?? null };
+  } catch (error) {
+    console.warn("[ApiAuth] Rejected ID token:", (error as Error).message);
+    throw new ApiAuthError("Invalid or expired Firebase ID token", 401);
+  }
+}
+
+/**
+ * The personal-context owner a request may act on. Owners are the user's own ID, or
+ * `${uid}:${accountId}` for profiles learned from their other connected mail accounts
+ * (see getContextOwnerId). Defaults to the user's own profile when none is requested.
+ */
+export function resolveOwnerId(user: AuthenticatedUser, requestedOwnerId?: string | null): string {
+  if (!requestedOwnerId) return user.uid;
+  if (requestedOwnerId === user.uid || requestedOwnerId.startsWith(`${user.uid}:`)) {
+    return requestedOwnerId;
+  }
+  throw new ApiAuthError("Not allowed to access another user's data", 403);
+}
+
+// Firebase user IDs on other resources (e.g. stored OAuth credentials) must match exactly
+export function assertSameUser(user: AuthenticatedUser, requestedUserId?: string | null): string {
+  if (requestedUserId && requestedUserId !== user.uid) {
+    throw new ApiAuthError("Not allowed to access another user's data", 403);
+  }
+  return user.uid;
+}
+
+export type RouteContext = { params: Promise<Record<string, string | string[]>> };
+type AuthenticatedHandler = (request: NextRequest, user: AuthenticatedUser, context: RouteContext) => Promise<Response>;
+
+/**
+ * Wraps a route handler so it only runs for a verified user. Missing or invalid tokens get a 401,
+ * ApiAuthErrors thrown by the handler (e.g. from resolveOwnerId) become a 401/403 with the same
+ * `{ error }` body shape the routes already use.
+ */
+export function withAuth(handler: AuthenticatedHandler) {
+  return async (request: NextRequest, context: RouteContext): Promise<Response> => {
+    try {
+      const user = await authenticateRequest(request);
+      return await handler(request, user, context);
+    } catch (error) {
+      if (error instanceof ApiAuthError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      throw error;
+    }
+  };
+}
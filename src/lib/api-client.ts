@@ -0,0 +1,12 @@
+import { auth } from "@/lib/firebase";
+
+// fetch() for the app's own API routes, which require the signed-in user's Firebase ID token
+export async function authorizedFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) {
+    throw new Error("Please sign in to continue.");
+  }
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${idToken}`);
+  return fetch(input, { ...init, headers });
+}
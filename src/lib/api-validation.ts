@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { z } from "zod";
+import type { RouteContext } from "@/lib/api-auth";
+
+// Server-only: validates API input against the shared schemas in src/lib/schemas/api.ts. Invalid
+// input gets a 400 with the usual `{ error }` body plus the individual `issues`.
+
+export type ParseResult<T> = { success: true; data: T } | { success: false; response: NextResponse };
+
+function invalidRequest(error: z.ZodError): NextResponse {
+  const issues = error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message }));
+  const summary = issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join("; ");
+  return NextResponse.json({ error: `Invalid request: ${summary}`, issues }, { status: 400 });
+}
+
+function toResult<T>(parsed: z.SafeParseReturnType<unknown, T>): ParseResult<T> {
+  return parsed.success ? { success: true, data: parsed.data } : { success: false, response: invalidRequest(parsed.error) };
+}
+
+export async function parseJsonBody<S extends z.ZodTypeAny>(request: NextRequest, schema: S): Promise<ParseResult<z.output<S>>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      success: false,
+      response: NextResponse.json({ error: "Invalid request: body must be JSON", issues: [{ path: "", message: "Body must be JSON" }] }, { status: 400 }),
+    };
+  }
+  return toResult(schema.safeParse(body));
+}
+
+export function parseSearchParams<S extends z.ZodTypeAny>(request: NextRequest, schema: S): ParseResult<z.output<S>> {
+  return toResult(schema.safeParse(Object.fromEntries(request.nextUrl.searchParams)));
+}
+
+export async function parseRouteParams<S extends z.ZodTypeAny>(context: RouteContext, schema: S): Promise<ParseResult<z.output<S>>> {
+  return toResult(schema.safeParse(await context.params));
+}
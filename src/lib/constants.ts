@@ -19,3 +19,4 @@ export const NAV_ITEMS: NavItem[] = [
   { href: "/personal-context", label: "Personal Context", icon: UserCog },
   { href: "/settings", label: "Settings", icon: SettingsIcon },
 ];
+
@@ -0,0 +1,34 @@
+import { applicationDefault, cert, getApp, getApps, initializeApp, type App } from "firebase-admin/app";
+import { getAuth, type Auth } from "firebase-admin/auth";
+import { getFirestore, type Firestore } from "firebase-admin/firestore";
+import { firebaseConfig } from "@/lib/firebase";
+
+// Server-only Firebase access. API routes verify callers' ID tokens with it, and server-side
+// stores read and write Firestore through it; as a privileged client it isn't subject to
+// firestore.rules, which only has to cover direct access from browsers.
+//
+// Credentials come from FIREBASE_CLIENT_EMAIL / FIREBASE_PRIVATE_KEY when set, otherwise from
+// Application Default Credentials (as on App Hosting). FIRESTORE_EMULATOR_HOST and
+// FIREBASE_AUTH_EMULATOR_HOST point it at the local emulators.
+
+function createAdminApp(): App {
+  if (getApps().length) {
+    return getApp();
+  }
+  const projectId = process.env.FIREBASE_PROJECT_ID || firebaseConfig.projectId;
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+  // Private keys pasted into .env usually have their newlines escaped
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n");
+
+  if (clientEmail && privateKey) {
+    return initializeApp({ credential: cert({ projectId, clientEmail, privateKey }), projectId });
+  }
+  const usingEmulators = !!process.env.FIRESTORE_EMULATOR_HOST || !!process.env.FIREBASE_AUTH_EMULATOR_HOST;
+  return initializeApp(usingEmulators ? { projectId } : { credential: applicationDefault(), projectId });
+}
+
+const adminApp: App = createAdminApp();
+const adminAuth: Auth = getAuth(adminApp);
+const adminDb: Firestore = getFirestore(adminApp);
+
+export { adminApp, adminAuth, adminDb };
@@ -1,5 +1,5 @@
 import { initializeApp, getApps, getApp, type FirebaseApp, type FirebaseOptions } from "firebase/app";
-import { getAuth, type Auth } from "firebase/auth";
+import { browserPopupRedirectResolver, getAuth, inMemoryPersistence, initializeAuth, type Auth } from "firebase/auth";
 import { getFirestore, type Firestore } from "firebase/firestore";
 
 // Your web app's Firebase configuration
@@ -26,4 +26,21 @@ if (!getApps().length) {
 const auth: Auth = getAuth(app);
 const db: Firestore = getFirestore(app);
 
-export { app, auth, db, firebaseConfig };
+// Separate, non-persisted auth instance used only to obtain tokens for additional Google
+// accounts, so connecting one doesn't replace the signed-in user on `auth`.
+const ACCOUNT_CONNECT_APP_NAME = "account-connect";
+let accountConnectAuth: Auth | null = null;
+
+function getAccountConnectAuth(): Auth {
+  if (!accountConnectAuth) {
+    const connectApp = getApps().find(existing => existing.name === ACCOUNT_CONNECT_APP_NAME)
+      ?? initializeApp(firebaseConfig, ACCOUNT_CONNECT_APP_NAME);
+    accountConnectAuth = initializeAuth(connectApp, {
+      persistence: inMemoryPersistence,
+      popupRedirectResolver: browserPopupRedirectResolver,
+    });
+  }
+  return accountConnectAuth;
+}
+
+export { app, auth, db, firebaseConfig, getAccountConnectAuth };
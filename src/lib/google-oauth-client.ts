@@ -0,0 +1,131 @@
+// Browser side of the server-held Google credentials: the consent popup that stores a refresh
+// token on the server, and the endpoint that turns it back into short-lived access tokens.
+
+import type { GoogleScopeId } from "@/lib/google-scopes";
+import { authorizedFetch } from "@/lib/api-client";
+
+export const GOOGLE_OAUTH_MESSAGE_TYPE = "google-oauth-result";
+
+export interface ServerAccessToken {
+  accessToken: string;
+  expiresAt: number; // Epoch milliseconds
+  scopes: string[]; // Everything the account has granted, not only what was last requested
+}
+
+// Posted by /api/auth/google/callback to the window that opened the consent popup
+export type GoogleOAuthResultMessage =
+  | ({
+      type: typeof GOOGLE_OAUTH_MESSAGE_TYPE;
+      ok: true;
+      email: string;
+      displayName: string | null;
+      photoURL: string | null;
+    } & ServerAccessToken)
+  | { type: typeof GOOGLE_OAUTH_MESSAGE_TYPE; ok: false; error: string };
+
+export type ConnectedGoogleAccount = Extract<GoogleOAuthResultMessage, { ok: true }>;
+
+// The server has no refresh token for the account (never granted, or revoked since)
+export class OfflineAccessUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OfflineAccessUnavailableError";
+  }
+}
+
+const POPUP_FEATURES = "width=500,height=650,menubar=no,toolbar=no";
+const POPUP_POLL_MS = 500;
+
+/**
+ * Runs Google's consent screen in a popup through the server's authorization-code flow, asking for
+ * `scopeIds` on top of what the account already granted. Resolves with the connected account and
+ * its first access token; the refresh token never leaves the server.
+ */
+export async function connectGoogleAccountOffline(scopeIds: GoogleScopeId[], loginHint?: string): Promise<ConnectedGoogleAccount> {
+  // Opened before any await so browsers still treat it as user-initiated; it is pointed at Google
+  // once the server has issued the consent URL for the signed-in user
+  const popup = window.open("", "google-oauth", POPUP_FEATURES);
+  if (!popup) {
+    throw new Error("The sign-in popup was blocked. Allow popups for this site and try again.");
+  }
+
+  try {
+    const response = await authorizedFetch("/api/auth/google/start", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ scopes: scopeIds, loginHint }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.url) {
+      throw new Error(result.error || `Failed to start Google sign-in: ${response.status}`);
+    }
+    popup.location.href = result.url;
+  } catch (error) {
+    popup.close();
+    throw error;
+  }
+
+  return new Promise((resolve, reject) => {
+    const cleanUp = () => {
+      window.removeEventListener("message", onMessage);
+      window.clearInterval(closedPoll);
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== GOOGLE_OAUTH_MESSAGE_TYPE) return;
+      cleanUp();
+      const result = event.data as GoogleOAuthResultMessage;
+      if (result.ok) {
+        resolve(result);
+      } else {
+        reject(new Error(result.error));
+      }
+    };
+    // Closing the popup without finishing sends no message
+    const closedPoll = window.setInterval(() => {
+      if (popup.closed) {
+        cleanUp();
+        reject(new Error("The sign-in window was closed before access was granted."));
+      }
+    }, POPUP_POLL_MS);
+    window.addEventListener("message", onMessage);
+  });
+}
+
+export async function fetchServerAccessToken(userId: string, accountId: string): Promise<ServerAccessToken> {
+  const response = await authorizedFetch("/api/auth/google/refresh", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId, accountId }),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (response.status === 404 || response.status === 401) {
+    throw new OfflineAccessUnavailableError(result.error || "Offline access is not set up for this account");
+  }
+  if (!response.ok) {
+    throw new Error(result.error || `Token refresh failed: ${response.status}`);
+  }
+  return { accessToken: result.accessToken, expiresAt: result.expiresAt, scopes: result.scopes ?? [] };
+}
+
+export async function isOfflineAccessConfigured(): Promise<boolean> {
+  try {
+    const response = await authorizedFetch("/api/auth/google/credentials");
+    const result = await response.json();
+    return response.ok && result.configured === true;
+  } catch {
+    return false;
+  }
+}
+
+// Ends the account's Google grant: the stored refresh token and, if given, a popup access token
+export async function revokeGoogleAccess(userId: string, accountId: string, accessToken?: string | null): Promise<void> {
+  const response = await authorizedFetch("/api/auth/google/credentials", {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId, accountId, accessToken: accessToken ?? undefined }),
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || `Failed to revoke Google access: ${response.status}`);
+  }
+}
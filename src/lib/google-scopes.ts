@@ -0,0 +1,100 @@
+// Google API permissions the app can ask for. Accounts start with read-only Gmail; the rest are
+// requested the first time a feature needs them and can be revoked from the Integrations page.
+
+export type GoogleScopeId = "gmail.readonly" | "gmail.modify" | "gmail.compose" | "calendar" | "drive";
+
+export interface GoogleScopeDefinition {
+  id: GoogleScopeId;
+  scope: string;
+  label: string;
+  description: string;
+  // Broader grants that already include this one
+  impliedBy: string[];
+  required?: boolean; // Needed for the account to be usable at all
+}
+
+// Full Gmail access granted by earlier versions of the app; covers every Gmail scope below
+const LEGACY_FULL_GMAIL_SCOPE = "https://mail.google.com/";
+
+export const GOOGLE_SCOPES: GoogleScopeDefinition[] = [
+  {
+    id: "gmail.readonly",
+    scope: "https://www.googleapis.com/auth/gmail.readonly",
+    label: "Read Gmail",
+    description: "List and open your mail, and learn your personal context from it.",
+    impliedBy: [LEGACY_FULL_GMAIL_SCOPE, "https://www.googleapis.com/auth/gmail.modify"],
+    required: true,
+  },
+  {
+    id: "gmail.modify",
+    scope: "https://www.googleapis.com/auth/gmail.modify",
+    label: "Organize Gmail",
+    description: "Mark as read, star, archive, snooze, label and move mail to Trash.",
+    impliedBy: [LEGACY_FULL_GMAIL_SCOPE],
+  },
+  {
+    id: "gmail.compose",
+    scope: "https://www.googleapis.com/auth/gmail.compose",
+    label: "Send Gmail",
+    description: "Send replies and forwards, and save drafts.",
+    impliedBy: [LEGACY_FULL_GMAIL_SCOPE, "https://www.googleapis.com/auth/gmail.modify"],
+  },
+  {
+    id: "calendar",
+    scope: "https://www.googleapis.com/auth/calendar",
+    label: "Google Calendar",
+    description: "See and manage events on your calendars.",
+    impliedBy: [],
+  },
+  {
+    id: "drive",
+    scope: "https://www.googleapis.com/auth/drive",
+    label: "Google Drive",
+    description: "See and manage files in your Drive.",
+    impliedBy: [],
+  },
+];
+
+export const BASE_SCOPE_IDS: GoogleScopeId[] = GOOGLE_SCOPES.filter(definition => definition.required).map(definition => definition.id);
+
+export function getScopeDefinition(id: GoogleScopeId): GoogleScopeDefinition {
+  return GOOGLE_SCOPES.find(definition => definition.id === id)!;
+}
+
+export function isGoogleScopeId(value: string): value is GoogleScopeId {
+  return GOOGLE_SCOPES.some(definition => definition.id === value);
+}
+
+export function getScopeUrls(ids: GoogleScopeId[]): string[] {
+  return Array.from(new Set(ids.map(id => getScopeDefinition(id).scope)));
+}
+
+export function hasGoogleScope(grantedScopes: string[] | undefined, id: GoogleScopeId): boolean {
+  if (!grantedScopes) return false;
+  const { scope, impliedBy } = getScopeDefinition(id);
+  return grantedScopes.includes(scope) || impliedBy.some(broader => grantedScopes.includes(broader));
+}
+
+// The scope IDs a set of granted scope URLs covers
+export function getGrantedScopeIds(grantedScopes: string[] | undefined): GoogleScopeId[] {
+  return GOOGLE_SCOPES.filter(definition => hasGoogleScope(grantedScopes, definition.id)).map(definition => definition.id);
+}
+
+/**
+ * What stays granted after revoking `id`. Broader scopes that include it have to go too, or the
+ * permission would effectively remain (e.g. revoking "Send Gmail" also drops "Organize Gmail").
+ */
+export function getScopesAfterRevoking(grantedScopes: string[] | undefined, id: GoogleScopeId): GoogleScopeId[] {
+  const { impliedBy } = getScopeDefinition(id);
+  return getGrantedScopeIds(grantedScopes).filter(other => other !== id && !impliedBy.includes(getScopeDefinition(other).scope));
+}
+
+// Asks Google which scopes an access token carries (the Firebase popup doesn't report them)
+export async function fetchGrantedScopes(accessToken: string): Promise<string[]> {
+  const response = await fetch(`https://oauth2.googleapis.com/tokeninfo?access_token=${encodeURIComponent(accessToken)}`);
+  if (!response.ok) {
+    throw new Error(`Failed to look up granted scopes: ${response.status}`);
+  }
+  const data = await response.json();
+  return typeof data.scope === "string" ? data.scope.split(" ") : [];
+}
@@ -0,0 +1,17 @@
+import type { MailAccount } from "@/types/mail";
+
+// Distinguishable on both light and dark backgrounds
+export const ACCOUNT_COLORS = ["#3b82f6", "#f97316", "#10b981", "#a855f7", "#ef4444", "#eab308"];
+
+export function pickAccountColor(existing: MailAccount[]): string {
+  const used = new Set(existing.map(account => account.color));
+  return ACCOUNT_COLORS.find(color => !used.has(color)) ?? ACCOUNT_COLORS[existing.length % ACCOUNT_COLORS.length];
+}
+
+/**
+ * Owner ID for personal-context data learned from `account`. The primary account keeps the
+ * Firebase user ID so existing profiles stay attached; other accounts get their own profile.
+ */
+export function getContextOwnerId(userId: string, account: MailAccount | null | undefined): string {
+  return !account || account.isPrimary ? userId : `${userId}:${account.id}`;
+}
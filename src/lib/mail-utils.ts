@@ -0,0 +1,213 @@
+import type { ComposeMode, Email, EmailBoxType, MailboxAction, MailThread, OutgoingAttachment } from "@/types/mail";
+
+// Gmail rejects messages above 25 MB including attachments (before base64 overhead)
+export const MAX_ATTACHMENT_TOTAL_BYTES = 25 * 1024 * 1024;
+
+const ATTRIBUTION_LINE = /^On\b.*\bwrote:\s*$/;
+const ORIGINAL_MESSAGE_LINE = /^-{2,}\s*(Original Message|Forwarded message)\s*-{2,}/i;
+const OUTLOOK_DIVIDER_LINE = /^_{10,}\s*$/;
+
+/**
+ * Splits a plain-text body into the new content and the trailing quoted history
+ * ("On ... wrote:" blocks, "> " quotes, Outlook "Original Message" dividers).
+ * Inline replies interleaved with quotes are left untouched.
+ */
+export function splitQuotedText(body: string): { visible: string; quoted: string } {
+  const lines = body.split("\n");
+
+  const quoteStart = lines.findIndex((line, index) => {
+    const trimmed = line.trim();
+    if (ATTRIBUTION_LINE.test(trimmed)) return true;
+    // Gmail wraps long attributions: "On Mon, 1 Jan 2024 at 10:00, Jane Doe <" / "jane@example.com> wrote:"
+    if (/^On\b/.test(trimmed) && ATTRIBUTION_LINE.test(`${trimmed} ${(lines[index + 1] ?? "").trim()}`)) return true;
+    if (ORIGINAL_MESSAGE_LINE.test(trimmed)) return true;
+    if (OUTLOOK_DIVIDER_LINE.test(trimmed) && /^From:/i.test((lines[index + 1] ?? "").trim())) return true;
+    if (trimmed.startsWith(">")) {
+      return lines.slice(index).every(rest => rest.trim() === "" || rest.trim().startsWith(">"));
+    }
+    return false;
+  });
+
+  if (quoteStart <= 0) {
+    // Nothing quoted, or the whole message is a quote (e.g. a bare forward) - show it all
+    return { visible: body, quoted: "" };
+  }
+
+  return {
+    visible: lines.slice(0, quoteStart).join("\n").trimEnd(),
+    quoted: lines.slice(quoteStart).join("\n"),
+  };
+}
+
+/**
+ * Renders a conversation as a transcript for the draft-generation prompts.
+ * Quoted history is dropped from each message since the earlier messages are already included.
+ */
+export function formatThreadForPrompt(thread: MailThread): string {
+  const transcript = thread.messages.map((message, index) => {
+    const { visible } = splitQuotedText(message.body);
+    return [
+      `--- Message ${index + 1} of ${thread.messages.length} ---`,
+      `From: ${message.sender} <${message.senderEmail}>`,
+      `Received: ${message.receivedTime}`,
+      `Subject: ${message.subject}`,
+      "",
+      visible || message.snippet,
+    ].join("\n");
+  });
+
+  return `Conversation "${thread.subject}" (oldest message first; the reply should answer the latest message):\n\n${transcript.join("\n\n")}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export async function fileToOutgoingAttachment(file: File): Promise<OutgoingAttachment> {
+  const buffer = await file.arrayBuffer();
+  return {
+    filename: file.name,
+    mimeType: file.type || "application/octet-stream",
+    data: Buffer.from(buffer).toString("base64"),
+  };
+}
+
+/**
+ * Splits an address header ("Jane <jane@x.com>, \"Doe, John\" <john@x.com>") into entries,
+ * ignoring commas inside quoted display names and angle brackets.
+ */
+export function parseAddressList(header?: string): string[] {
+  if (!header) return [];
+  const entries: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inBrackets = false;
+  for (const char of header) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === "<" && !inQuotes) inBrackets = true;
+    else if (char === ">" && !inQuotes) inBrackets = false;
+
+    if (char === "," && !inQuotes && !inBrackets) {
+      if (current.trim()) entries.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) entries.push(current.trim());
+  return entries;
+}
+
+export function extractEmailAddress(entry: string): string {
+  const match = entry.match(/<([^>]+)>/);
+  return (match ? match[1] : entry).trim().toLowerCase();
+}
+
+export function prefixSubject(subject: string, mode: ComposeMode): string {
+  if (mode === "forward") {
+    return /^(fwd?|fw):/i.test(subject) ? subject : `Fwd: ${subject}`;
+  }
+  return /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+// Plain-text body of a forward: the user's note followed by the original message
+export function buildForwardedBody(note: string, original: Email): string {
+  const sentAt = original.internalDate ? new Date(parseInt(original.internalDate, 10)).toUTCString() : original.receivedTime;
+  return [
+    note,
+    "",
+    "---------- Forwarded message ---------",
+    `From: ${original.sender} <${original.senderEmail}>`,
+    `Date: ${sentAt}`,
+    `Subject: ${original.subject}`,
+    ...(original.to?.length ? [`To: ${original.to.join(', ')}`] : []),
+    ...(original.cc?.length ? [`Cc: ${original.cc.join(', ')}`] : []),
+    "",
+    original.body,
+  ].join("\n");
+}
+
+/**
+ * Default To/Cc for answering `original`. Replies go to Reply-To (or the sender); replying to
+ * something we sent goes back to its recipients. Reply-all adds everyone else except ourselves.
+ */
+export function getReplyRecipients(original: Email, mode: ComposeMode, selfEmail?: string | null): { to: string[]; cc: string[] } {
+  if (mode === "forward") return { to: [], cc: [] };
+
+  const self = selfEmail?.toLowerCase();
+  const sentBySelf = !!self && original.senderEmail.toLowerCase() === self;
+  const to = sentBySelf
+    ? original.to ?? []
+    : original.replyTo?.length ? original.replyTo : [`${original.sender} <${original.senderEmail}>`];
+  if (mode === "reply") return { to, cc: [] };
+
+  const seen = new Set(to.map(extractEmailAddress));
+  if (self) seen.add(self);
+  const cc = [...(original.to ?? []), ...(original.cc ?? [])].filter(entry => {
+    const address = extractEmailAddress(entry);
+    if (seen.has(address)) return false;
+    seen.add(address);
+    return true;
+  });
+  return { to, cc };
+}
+
+// The labels a message must carry to be listed in a box
+export function getBoxLabelIds(boxType: EmailBoxType): string[] {
+  if (boxType.startsWith("label:")) {
+    return [boxType.substring("label:".length)];
+  }
+  switch (boxType) {
+    case "inbox": return ["INBOX"];
+    case "unread": return ["INBOX", "UNREAD"];
+    case "sent": return ["SENT"];
+    case "drafts": return ["DRAFT"];
+    default: return ["INBOX"];
+  }
+}
+
+export function isInBox(boxType: EmailBoxType, labelIds: string[]): boolean {
+  return getBoxLabelIds(boxType).every(labelId => labelIds.includes(labelId));
+}
+
+// A message's labels once a mailbox action is applied; trash moves the message rather than relabelling it
+export function getLabelIdsAfterAction(labelIds: string[], action: MailboxAction): string[] {
+  const withLabel = (id: string, present: boolean) =>
+    present ? Array.from(new Set([...labelIds, id])) : labelIds.filter(labelId => labelId !== id);
+
+  switch (action.type) {
+    case "trash":
+      return labelIds;
+    case "archive":
+    case "snooze":
+      return withLabel("INBOX", false);
+    case "star":
+      return withLabel("STARRED", action.starred);
+    case "markRead":
+      return withLabel("UNREAD", !action.read);
+    case "label":
+      return withLabel(action.labelId, action.apply);
+  }
+}
+
+/**
+ * The local result of a mailbox action, for optimistic updates. Returns null when the message
+ * leaves the view: trashed, or no longer matching the given box (marked read in Unread, its label
+ * removed in that label's box, archived out of the inbox). Without a box, as for search results,
+ * archived and snoozed messages leave too.
+ */
+export function applyMailboxActionToEmail(email: Email, action: MailboxAction, boxType?: EmailBoxType): Email | null {
+  if (action.type === "trash") return null;
+  if (!boxType && (action.type === "archive" || action.type === "snooze")) return null;
+
+  const labelIds = getLabelIdsAfterAction(email.labelIds ?? [], action);
+  if (boxType && !isInBox(boxType, labelIds)) return null;
+  return {
+    ...email,
+    labelIds,
+    ...(action.type === "star" ? { starred: action.starred } : {}),
+    ...(action.type === "markRead" ? { read: action.read } : {}),
+  };
+}
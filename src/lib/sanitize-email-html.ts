@@ -0,0 +1,100 @@
+import DOMPurify from "dompurify";
+
+export interface SanitizeEmailHtmlOptions {
+  allowRemoteImages: boolean;
+  // Content-ID (without angle brackets) -> data: URL for inline image parts
+  inlineImages?: Record<string, string>;
+}
+
+export interface SanitizedEmailHtml {
+  html: string;
+  blockedRemoteImages: number;
+}
+
+const REMOTE_URL = /^\s*(https?:)?\/\//i;
+const CSS_REMOTE_URL = /url\(\s*(['"]?)\s*(https?:)?\/\/[^)]*\)/gi;
+
+function stripRemoteCssUrls(css: string): { css: string; removed: number } {
+  let removed = 0;
+  const stripped = css.replace(CSS_REMOTE_URL, () => {
+    removed += 1;
+    return "none";
+  });
+  return { css: stripped, removed };
+}
+
+/**
+ * Sanitizes untrusted email HTML for display: scripts, forms, embeds and event handlers are
+ * removed, links open in a new tab, `cid:` references are swapped for their inline parts and,
+ * unless allowed, remote images (including tracking pixels and CSS backgrounds) are dropped.
+ * Browser only - returns an empty document when there is no DOM to sanitize with.
+ */
+export function sanitizeEmailHtml(dirtyHtml: string, options: SanitizeEmailHtmlOptions): SanitizedEmailHtml {
+  if (typeof window === "undefined" || !DOMPurify.isSupported) {
+    return { html: "", blockedRemoteImages: 0 };
+  }
+
+  let blockedRemoteImages = 0;
+  const inlineImages = options.inlineImages ?? {};
+
+  DOMPurify.addHook("uponSanitizeAttribute", (_node, data) => {
+    const name = data.attrName;
+    const value = data.attrValue ?? "";
+
+    if ((name === "src" || name === "background") && /^\s*cid:/i.test(value)) {
+      const contentId = value.trim().substring(4).replace(/^<|>$/g, "");
+      const dataUrl = inlineImages[contentId];
+      if (dataUrl) {
+        data.attrValue = dataUrl;
+      } else {
+        data.keepAttr = false;
+      }
+      return;
+    }
+
+    if (!options.allowRemoteImages) {
+      if ((name === "src" || name === "background" || name === "srcset" || name === "poster") && REMOTE_URL.test(value)) {
+        blockedRemoteImages += 1;
+        data.keepAttr = false;
+      } else if (name === "style") {
+        const { css, removed } = stripRemoteCssUrls(value);
+        blockedRemoteImages += removed;
+        data.attrValue = css;
+      }
+    }
+  });
+
+  DOMPurify.addHook("uponSanitizeElement", (node, data) => {
+    if (!options.allowRemoteImages && data.tagName === "style" && node.textContent) {
+      const { css, removed } = stripRemoteCssUrls(node.textContent);
+      if (removed > 0) {
+        blockedRemoteImages += removed;
+        node.textContent = css;
+      }
+    }
+  });
+
+  DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+    if (node.tagName === "A" && node.hasAttribute("href")) {
+      node.setAttribute("target", "_blank");
+      node.setAttribute("rel", "noopener noreferrer");
+    }
+  });
+
+  try {
+    const html = DOMPurify.sanitize(dirtyHtml, {
+      WHOLE_DOCUMENT: true,
+      FORBID_TAGS: ["script", "iframe", "frame", "frameset", "object", "embed", "form", "input", "button", "textarea", "select", "meta", "link", "base"],
+      FORBID_ATTR: ["srcdoc", "formaction", "ping"],
+      ALLOW_DATA_ATTR: false,
+    });
+    // Defense in depth for the sandboxed frame: no scripts, and remote loads only when allowed
+    const imgSources = options.allowRemoteImages ? "data: https: http:" : "data:";
+    const csp = `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${imgSources}; style-src 'unsafe-inline'; font-src data:">`;
+    return { html: html.replace(/<head>/i, `<head>${csp}`), blockedRemoteImages };
+  } finally {
+    DOMPurify.removeHooks("uponSanitizeAttribute");
+    DOMPurify.removeHooks("uponSanitizeElement");
+    DOMPurify.removeHooks("afterSanitizeAttributes");
+  }
+}
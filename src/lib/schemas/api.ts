@@ -0,0 +1,228 @@
+import { z } from "@/lib/schemas/zod";
+import { GOOGLE_SCOPES, type GoogleScopeId } from "@/lib/google-scopes";
+import {
+  emailThreadSchema,
+  imapAccountConfigSchema,
+  learningEstimateSchema,
+  learningEventSchema,
+  learningJobModeSchema,
+  learningJobSchema,
+  learningOptionsSchema,
+  learningProgressSchema,
+  personalContextProfileSchema,
+  replyOriginSchema,
+  userStatisticsSchema,
+} from "@/lib/schemas/personal-context";
+
+// Request and response bodies of the API routes. Routes parse their input with these (see
+// parseJsonBody / parseSearchParams); the responses are described here for the OpenAPI document
+// and for typing what the routes return.
+
+// A personal-context owner: the signed-in user's ID or `${uid}:${accountId}`. Optional everywhere,
+// since it defaults to the user in the ID token.
+const ownerIdSchema = z.string().min(1).openapi({
+  description: "Profile owner: the signed-in user's ID, or `<uid>:<accountId>` for another connected account. Defaults to the signed-in user.",
+});
+
+const googleScopeIdSchema = z
+  .enum(GOOGLE_SCOPES.map(definition => definition.id) as [GoogleScopeId, ...GoogleScopeId[]])
+  .openapi("GoogleScopeId");
+
+// Errors
+
+export const validationIssueSchema = z
+  .object({
+    path: z.string().openapi({ description: "Dotted path of the offending field; empty for the body as a whole" }),
+    message: z.string(),
+  })
+  .openapi("ValidationIssue");
+
+export const errorResponseSchema = z
+  .object({
+    error: z.string(),
+    // Only on 400s from request validation
+    issues: z.array(validationIssueSchema).optional(),
+  })
+  .openapi("ErrorResponse");
+
+// Personal context
+
+export const learnRequestSchema = z
+  .object({
+    userId: ownerIdSchema.optional(),
+    accessToken: z.string().min(1).optional(),
+    credentials: z
+      .object({ userId: z.string().min(1), accountId: z.string().min(1) })
+      .optional()
+      .openapi({ description: "Learn with the refresh token the server holds for this account" }),
+    imapAccount: imapAccountConfigSchema.optional(),
+    mode: learningJobModeSchema.default("full"),
+    options: learningOptionsSchema.default({}),
+  })
+  .refine(body => body.accessToken || body.credentials || body.imapAccount, {
+    message: "One of credentials, accessToken or imapAccount is required",
+  })
+  .openapi("LearnRequest");
+
+export const learnResponseSchema = z
+  .object({ success: z.literal(true), job: learningJobSchema })
+  .openapi("LearnResponse");
+
+export const learnEstimateResponseSchema = z
+  .object({ success: z.literal(true), estimate: learningEstimateSchema })
+  .openapi("LearnEstimateResponse");
+
+export const ownerQuerySchema = z.object({
+  userId: ownerIdSchema.optional(),
+});
+
+export const learningProgressResponseSchema = z
+  .object({
+    success: z.literal(true),
+    progress: learningProgressSchema.nullable(),
+    job: learningJobSchema.nullable().openapi({ description: "The owner's most recent learning job" }),
+  })
+  .openapi("LearningProgressResponse");
+
+export const learningEventStreamSchema = learningEventSchema.openapi({
+  description:
+    "One Server-Sent Event: `event:` carries the type and `data:` the JSON of the whole event. The stream opens with a `snapshot` and sends `: heartbeat` comments while quiet.",
+});
+
+export const learningJobParamsSchema = z.object({
+  jobId: z.string().min(1),
+});
+
+export const learningJobResponseSchema = z
+  .object({ success: z.literal(true), job: learningJobSchema })
+  .openapi("LearningJobResponse");
+
+export const resumeLearningJobRequestSchema = z
+  .object({
+    accessToken: z.string().min(1).optional(),
+    imapAccount: imapAccountConfigSchema.optional(),
+  })
+  .openapi("ResumeLearningJobRequest", {
+    description: "Mailbox credentials for jobs that need them again. Jobs using server-held Google credentials take an empty body.",
+  });
+
+export const profileResponseSchema = z
+  .object({ success: z.literal(true), profile: personalContextProfileSchema })
+  .openapi("ProfileResponse");
+
+export const profileUpdateRequestSchema = z
+  .object({
+    userId: ownerIdSchema.optional(),
+    emailContent: z.string().min(1),
+    recipientEmail: z.string().min(1),
+    userReply: z.string().min(1),
+    aiDraft: z.string().optional().openapi({ description: "The AI draft the reply was started from, if any" }),
+    threadContext: emailThreadSchema.optional(),
+  })
+  .openapi("ProfileUpdateRequest");
+
+export const profileUpdateResponseSchema = z
+  .object({
+    success: z.literal(true),
+    message: z.string(),
+    updates: z.array(z.string()).optional(),
+    replyOrigin: replyOriginSchema.optional(),
+  })
+  .openapi("ProfileUpdateResponse");
+
+export const successMessageResponseSchema = z
+  .object({ success: z.literal(true), message: z.string().optional() })
+  .openapi("SuccessResponse");
+
+export const statisticsResponseSchema = z
+  .object({ success: z.literal(true), statistics: userStatisticsSchema })
+  .openapi("StatisticsResponse");
+
+export const draftContextResponseSchema = z
+  .object({
+    success: z.literal(true),
+    userContext: z.string().openapi({ description: "The profile summarised for the draft generator" }),
+    hasProfile: z.boolean(),
+    error: z.string().optional().openapi({ description: "Why the fallback context was used, if loading the profile failed" }),
+  })
+  .openapi("DraftContextResponse");
+
+export const testConnectionRequestSchema = z
+  .object({ accessToken: z.string().min(1) })
+  .openapi("TestConnectionRequest");
+
+export const testConnectionResponseSchema = z
+  .object({ success: z.boolean(), message: z.string(), error: z.string().optional() })
+  .openapi("TestConnectionResponse");
+
+// Chat
+
+export const chatRequestSchema = z
+  .object({
+    message: z.string().min(1),
+    userId: ownerIdSchema.optional(),
+  })
+  .openapi("ChatRequest");
+
+export const chatResponseSchema = z
+  .object({
+    response: z.string(),
+    timestamp: z.string().openapi({ format: "date-time" }),
+    hasPersonalContext: z.boolean(),
+  })
+  .openapi("ChatResponse");
+
+// Google OAuth
+
+export const oauthStartRequestSchema = z
+  .object({
+    scopes: z.array(googleScopeIdSchema).default([]).openapi({ description: "Scopes to request on top of the base ones" }),
+    loginHint: z.string().optional(),
+  })
+  .openapi("OAuthStartRequest");
+
+export const oauthStartResponseSchema = z
+  .object({ url: z.string().url().openapi({ description: "Google consent screen to open in the popup" }) })
+  .openapi("OAuthStartResponse");
+
+export const oauthCallbackQuerySchema = z.object({
+  code: z.string().optional(),
+  state: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export const oauthAccountRequestSchema = z
+  .object({
+    userId: z.string().min(1).optional().openapi({ description: "Must be the signed-in user when given" }),
+    accountId: z.string().min(1),
+  })
+  .openapi("OAuthAccountRequest");
+
+export const oauthRefreshResponseSchema = z
+  .object({
+    accessToken: z.string(),
+    expiresAt: z.number().openapi({ description: "Epoch milliseconds" }),
+    scopes: z.array(z.string()),
+  })
+  .openapi("OAuthRefreshResponse");
+
+export const oauthRevokeRequestSchema = oauthAccountRequestSchema
+  .extend({
+    accessToken: z.string().optional().openapi({ description: "Popup-issued token to revoke as well" }),
+  })
+  .openapi("OAuthRevokeRequest");
+
+export const oauthConfigurationResponseSchema = z
+  .object({ configured: z.boolean() })
+  .openapi("OAuthConfigurationResponse");
+
+export type LearnResponse = z.infer<typeof learnResponseSchema>;
+export type LearnEstimateResponse = z.infer<typeof learnEstimateResponseSchema>;
+export type LearningProgressResponse = z.infer<typeof learningProgressResponseSchema>;
+export type LearningJobResponse = z.infer<typeof learningJobResponseSchema>;
+export type ProfileResponse = z.infer<typeof profileResponseSchema>;
+export type StatisticsResponse = z.infer<typeof statisticsResponseSchema>;
+export type DraftContextResponse = z.infer<typeof draftContextResponseSchema>;
+export type ChatResponse = z.infer<typeof chatResponseSchema>;
+export type OAuthStartResponse = z.infer<typeof oauthStartResponseSchema>;
+export type OAuthRefreshResponse = z.infer<typeof oauthRefreshResponseSchema>;
@@ -0,0 +1,321 @@
+import { OpenAPIRegistry, OpenApiGeneratorV3, type RouteConfig } from "@asteasolutions/zod-to-openapi";
+import type { z } from "zod";
+import {
+  chatRequestSchema,
+  chatResponseSchema,
+  draftContextResponseSchema,
+  errorResponseSchema,
+  learnEstimateResponseSchema,
+  learnRequestSchema,
+  learnResponseSchema,
+  learningEventStreamSchema,
+  learningJobParamsSchema,
+  learningJobResponseSchema,
+  learningProgressResponseSchema,
+  oauthAccountRequestSchema,
+  oauthCallbackQuerySchema,
+  oauthConfigurationResponseSchema,
+  oauthRefreshResponseSchema,
+  oauthRevokeRequestSchema,
+  oauthStartRequestSchema,
+  oauthStartResponseSchema,
+  ownerQuerySchema,
+  profileResponseSchema,
+  profileUpdateRequestSchema,
+  profileUpdateResponseSchema,
+  resumeLearningJobRequestSchema,
+  statisticsResponseSchema,
+  successMessageResponseSchema,
+  testConnectionRequestSchema,
+  testConnectionResponseSchema,
+} from "@/lib/schemas/api";
+
+// Builds the OpenAPI document of the app's API from the same schemas the routes validate with.
+// `npm run openapi` writes it to docs/openapi.json.
+
+const registry = new OpenAPIRegistry();
+
+const bearerAuth = registry.registerComponent("securitySchemes", "firebaseIdToken", {
+  type: "http",
+  scheme: "bearer",
+  description: "Firebase ID token of the signed-in user",
+});
+
+function jsonContent(schema: z.ZodTypeAny) {
+  return { content: { "application/json": { schema } } };
+}
+
+function errorResponse(description: string) {
+  return { description, ...jsonContent(errorResponseSchema) };
+}
+
+// Every authenticated route can answer these
+const authErrors = {
+  401: errorResponse("Missing, invalid or expired Firebase ID token"),
+  403: errorResponse("The request names another user's data"),
+};
+
+function registerRoute(config: Omit<RouteConfig, "security"> & { public?: boolean }) {
+  const { public: isPublic, ...route } = config;
+  registry.registerPath({
+    ...route,
+    security: isPublic ? [] : [{ [bearerAuth.name]: [] }],
+    responses: isPublic ? route.responses : { ...authErrors, ...route.responses },
+  });
+}
+
+const badRequest = { 400: errorResponse("The request failed validation; `issues` lists each problem") };
+const serverError = { 500: errorResponse("Unexpected server error") };
+
+// Personal context
+
+registerRoute({
+  method: "post",
+  path: "/api/personal-context/learn",
+  summary: "Start learning the personal context from a mailbox",
+  description:
+    "Queues a background learning job and returns it straight away. Follow it with GET /api/personal-context/learn or /api/personal-context/jobs/{jobId}.",
+  tags: ["Personal context"],
+  request: { body: jsonContent(learnRequestSchema) },
+  responses: {
+    202: { description: "Job queued", ...jsonContent(learnResponseSchema) },
+    ...badRequest,
+    409: errorResponse("The profile already has a learning job in progress"),
+    ...serverError,
+  },
+});
+
+registerRoute({
+  method: "post",
+  path: "/api/personal-context/learn/estimate",
+  summary: "Estimate what learning would cost before starting it",
+  description:
+    "Discovers the threads a learning job with the same body would analyze, without analyzing them, and estimates its model calls, tokens, cost and duration for the chosen analysis depth.",
+  tags: ["Personal context"],
+  request: { body: jsonContent(learnRequestSchema) },
+  responses: {
+    200: { description: "The estimate", ...jsonContent(learnEstimateResponseSchema) },
+    ...badRequest,
+    ...serverError,
+  },
+});
+
+registerRoute({
+  method: "get",
+  path: "/api/personal-context/learn",
+  summary: "Progress of the latest learning job",
+  tags: ["Personal context"],
+  request: { query: ownerQuerySchema },
+  responses: { 200: { description: "Progress", ...jsonContent(learningProgressResponseSchema) }, ...badRequest, ...serverError },
+});
+
+registerRoute({
+  method: "get",
+  path: "/api/personal-context/learn/events",
+  summary: "Live learning progress",
+  description:
+    "Server-Sent Events for the owner's learning jobs: a snapshot on connect, then status, phase and batch changes, log lines and errors. Read it with fetch so the ID token can be sent.",
+  tags: ["Personal context"],
+  request: { query: ownerQuerySchema },
+  responses: {
+    200: { description: "Event stream", content: { "text/event-stream": { schema: learningEventStreamSchema } } },
+    ...badRequest,
+  },
+});
+
+const jobNotFound = { 404: errorResponse("No such learning job") };
+
+registerRoute({
+  method: "get",
+  path: "/api/personal-context/jobs/{jobId}",
+  summary: "Get a learning job",
+  tags: ["Learning jobs"],
+  request: { params: learningJobParamsSchema },
+  responses: { 200: { description: "The job", ...jsonContent(learningJobResponseSchema) }, ...jobNotFound },
+});
+
+registerRoute({
+  method: "post",
+  path: "/api/personal-context/jobs/{jobId}/pause",
+  summary: "Pause a learning job",
+  description: "A running job stops once the batch it's working on is checkpointed.",
+  tags: ["Learning jobs"],
+  request: { params: learningJobParamsSchema },
+  responses: {
+    200: { description: "Paused", ...jsonContent(learningJobResponseSchema) },
+    ...jobNotFound,
+    409: errorResponse("The job has already finished"),
+    ...serverError,
+  },
+});
+
+registerRoute({
+  method: "post",
+  path: "/api/personal-context/jobs/{jobId}/resume",
+  summary: "Resume a paused learning job from its last checkpoint",
+  tags: ["Learning jobs"],
+  request: { params: learningJobParamsSchema, body: jsonContent(resumeLearningJobRequestSchema) },
+  responses: {
+    200: { description: "Queued again", ...jsonContent(learningJobResponseSchema) },
+    ...badRequest,
+    ...jobNotFound,
+    409: errorResponse("The job isn't paused, or it needs its mailbox credentials again"),
+    ...serverError,
+  },
+});
+
+registerRoute({
+  method: "post",
+  path: "/api/personal-context/jobs/{jobId}/cancel",
+  summary: "Cancel a learning job",
+  description: "Discards what the job has analyzed so far; the existing profile is kept.",
+  tags: ["Learning jobs"],
+  request: { params: learningJobParamsSchema },
+  responses: {
+    200: { description: "Cancelled", ...jsonContent(learningJobResponseSchema) },
+    ...jobNotFound,
+    409: errorResponse("The job has already finished"),
+    ...serverError,
+  },
+});
+
+registerRoute({
+  method: "get",
+  path: "/api/personal-context/profile",
+  summary: "Get the learned profile",
+  tags: ["Personal context"],
+  request: { query: ownerQuerySchema },
+  responses: {
+    200: { description: "The profile", ...jsonContent(profileResponseSchema) },
+    ...badRequest,
+    404: errorResponse("Nothing learned yet"),
+    ...serverError,
+  },
+});
+
+registerRoute({
+  method: "post",
+  path: "/api/personal-context/profile",
+  summary: "Update the profile from a reply the user wrote",
+  tags: ["Personal context"],
+  request: { body: jsonContent(profileUpdateRequestSchema) },
+  responses: { 200: { description: "Profile updated", ...jsonContent(profileUpdateResponseSchema) }, ...badRequest, ...serverError },
+});
+
+registerRoute({
+  method: "delete",
+  path: "/api/personal-context/profile",
+  summary: "Delete the profile and everything learned for it",
+  tags: ["Personal context"],
+  request: { query: ownerQuerySchema },
+  responses: { 200: { description: "Deleted", ...jsonContent(successMessageResponseSchema) }, ...badRequest, ...serverError },
+});
+
+registerRoute({
+  method: "get",
+  path: "/api/personal-context/statistics",
+  summary: "Counts of what has been learned",
+  tags: ["Personal context"],
+  request: { query: ownerQuerySchema },
+  responses: { 200: { description: "Statistics", ...jsonContent(statisticsResponseSchema) }, ...badRequest, ...serverError },
+});
+
+registerRoute({
+  method: "get",
+  path: "/api/personal-context/get-for-draft",
+  summary: "The profile summarised for drafting replies",
+  description: "Falls back to a generic description of the user when nothing has been learned.",
+  tags: ["Personal context"],
+  request: { query: ownerQuerySchema },
+  responses: { 200: { description: "Context for the draft generator", ...jsonContent(draftContextResponseSchema) }, ...badRequest, ...serverError },
+});
+
+registerRoute({
+  method: "post",
+  path: "/api/personal-context/test-connection",
+  summary: "Check that a Gmail access token works",
+  tags: ["Personal context"],
+  request: { body: jsonContent(testConnectionRequestSchema) },
+  responses: { 200: { description: "Result of the check", ...jsonContent(testConnectionResponseSchema) }, ...badRequest, ...serverError },
+});
+
+// Chat
+
+registerRoute({
+  method: "post",
+  path: "/api/chat",
+  summary: "Chat with the assistant, personalised with the user's profile",
+  tags: ["Chat"],
+  request: { body: jsonContent(chatRequestSchema) },
+  responses: { 200: { description: "The assistant's reply", ...jsonContent(chatResponseSchema) }, ...badRequest, ...serverError },
+});
+
+// Google OAuth
+
+registerRoute({
+  method: "post",
+  path: "/api/auth/google/start",
+  summary: "Start connecting a Google account for offline access",
+  description: "Sets a state cookie for the signed-in user and returns Google's consent URL to open in a popup.",
+  tags: ["Google OAuth"],
+  request: { body: jsonContent(oauthStartRequestSchema) },
+  responses: {
+    200: { description: "Consent URL", ...jsonContent(oauthStartResponseSchema) },
+    ...badRequest,
+    501: errorResponse("Offline access is not configured on this server"),
+  },
+});
+
+registerRoute({
+  method: "get",
+  path: "/api/auth/google/callback",
+  summary: "Google's redirect target after consent",
+  description: "Stores the refresh token and posts the result to the window that opened the popup. Authenticated by the state cookie from /start.",
+  tags: ["Google OAuth"],
+  public: true,
+  request: { query: oauthCallbackQuerySchema },
+  responses: { 200: { description: "HTML page that reports the result to the opener and closes", content: { "text/html": { schema: { type: "string" } } } } },
+});
+
+registerRoute({
+  method: "post",
+  path: "/api/auth/google/refresh",
+  summary: "Fresh access token for a connected account",
+  tags: ["Google OAuth"],
+  request: { body: jsonContent(oauthAccountRequestSchema) },
+  responses: {
+    200: { description: "Access token", ...jsonContent(oauthRefreshResponseSchema) },
+    ...badRequest,
+    401: errorResponse("Missing or invalid ID token, or Google revoked the account's access"),
+    404: errorResponse("No refresh token stored for the account, or offline access is not configured"),
+    ...serverError,
+  },
+});
+
+registerRoute({
+  method: "get",
+  path: "/api/auth/google/credentials",
+  summary: "Whether offline access is configured on this server",
+  tags: ["Google OAuth"],
+  responses: { 200: { description: "Configuration", ...jsonContent(oauthConfigurationResponseSchema) } },
+});
+
+registerRoute({
+  method: "delete",
+  path: "/api/auth/google/credentials",
+  summary: "Revoke an account's Google access and forget its refresh token",
+  tags: ["Google OAuth"],
+  request: { body: jsonContent(oauthRevokeRequestSchema) },
+  responses: { 200: { description: "Revoked", ...jsonContent(successMessageResponseSchema) }, ...badRequest, ...serverError },
+});
+
+export function buildOpenApiDocument() {
+  return new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: "3.0.3",
+    info: {
+      title: "Mahasen API",
+      version: "1.0.0",
+      description: "Personal context, chat and Google account endpoints of Mahasen. All bodies are JSON.",
+    },
+  });
+}
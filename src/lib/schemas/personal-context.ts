@@ -0,0 +1,609 @@
+import { z } from "@/lib/schemas/zod";
+import type {
+  AnalysisDepth,
+  BehavioralPattern,
+  CommunicationInsight,
+  CommunicationStyle,
+  ContactCategory,
+  ContactCommunicationStyle,
+  ContactRelationship,
+  ContextualResponse,
+  EmailThread,
+  EvidenceSource,
+  KnowledgeArea,
+  LearningEstimate,
+  LearningEvent,
+  LearningJob,
+  LearningJobCheckpoint,
+  LearningJobMode,
+  LearningJobSource,
+  LearningMetadata,
+  LearningProgress,
+  PersonalContextLearningInput,
+  PersonalContextProfile,
+  PersonalInsight,
+  PersonalPreferences,
+  ProfessionalInsight,
+  ProfessionalProfile,
+  RelationshipInsight,
+  ReplyOrigin,
+  ReplyStyleStats,
+  TemporalPattern,
+  ThreadAnalysisResult,
+  ThreadMessage,
+} from "@/types/personal-context";
+import type { ImapAccountConfig, MailServerConfig } from "@/types/mail";
+
+// Zod mirrors of the personal-context types, used to validate API input at the boundary and to
+// describe the API in OpenAPI. Each schema is checked against its interface with `satisfies`, so
+// the two can't drift apart silently.
+
+// Schema whose parsed value is a T, whatever it accepts as input (defaults, coercion)
+type SchemaOf<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Dates travel as ISO strings and are revived on the way in
+const dateSchema = z.coerce.date().openapi({ type: "string", format: "date-time" });
+const confidenceSchema = z.number().min(0).max(1);
+
+export const timeRangeSchema = z
+  .enum(["last_month", "last_3months", "last_6months", "last_year", "last_2years", "last_3years", "last_5years", "all_time"])
+  .openapi("LearningTimeRange") satisfies SchemaOf<PersonalContextLearningInput["options"]["timeRange"]>;
+
+export const analysisDepthSchema = z
+  .enum(["basic", "standard", "comprehensive"])
+  .openapi("AnalysisDepth") satisfies SchemaOf<AnalysisDepth>;
+
+export const contactCategorySchema = z
+  .enum([
+    "family",
+    "close_friends",
+    "work_colleagues",
+    "clients_customers",
+    "executives_bosses",
+    "vendors_service_providers",
+    "unknown_cold_outreach",
+    "academic_contacts",
+    "community_organization",
+    "government_official",
+  ])
+  .openapi("ContactCategory") satisfies SchemaOf<ContactCategory>;
+
+export const learningOptionsSchema = z
+  .object({
+    timeRange: timeRangeSchema.default("last_3months"),
+    analysisDepth: analysisDepthSchema.default("standard"),
+    includePromotional: z.boolean().default(false),
+    minThreadLength: z.number().int().min(1).max(50).default(2),
+  })
+  .strict()
+  .openapi("LearningOptions") satisfies SchemaOf<PersonalContextLearningInput["options"]>;
+
+// Standard ports only, so posted accounts can't aim the server at arbitrary services
+export const IMAP_PORTS = [143, 993];
+export const SMTP_PORTS = [25, 465, 587];
+
+const mailServerConfigSchema = (ports: number[]) =>
+  z.object({
+    host: z.string().min(1),
+    port: z
+      .number()
+      .int()
+      .refine(port => ports.includes(port), { message: `Port must be one of ${ports.join(", ")}` })
+      .openapi({ enum: ports }),
+    secure: z.boolean(),
+  }) satisfies SchemaOf<MailServerConfig>;
+
+export const imapAccountConfigSchema = z
+  .object({
+    emailAddress: z.string().email(),
+    displayName: z.string().optional(),
+    username: z.string().min(1),
+    password: z.string().min(1),
+    imap: mailServerConfigSchema(IMAP_PORTS),
+    smtp: mailServerConfigSchema(SMTP_PORTS),
+  })
+  .openapi("ImapAccountConfig") satisfies SchemaOf<ImapAccountConfig>;
+
+const evidenceSourceSchema = z
+  .object({
+    excerpt: z.string(),
+    threadId: z.string(),
+    messageId: z.string().openapi({ description: "ID of the message in the mail view" }),
+    start: z.number().int().optional().openapi({ description: "Offset of the excerpt in the message's plain-text body" }),
+    end: z.number().int().optional(),
+    mailbox: z
+      .enum(["gmail", "imap"])
+      .optional()
+      .openapi({ description: "Kind of mailbox the message is in; only Gmail messages open in the mail view" }),
+  })
+  .openapi("EvidenceSource", { description: "Where a piece of evidence was quoted from" }) satisfies SchemaOf<EvidenceSource>;
+
+// Traced by the analysis service once the model has answered, so the schemas the model answers
+// with leave it out
+const evidenceSourcesSchema = z.array(evidenceSourceSchema).optional();
+
+export const communicationStyleSchema = z
+  .object({
+    tone: z.enum(["formal", "casual", "friendly", "professional", "direct", "diplomatic"]),
+    formality: z.number().min(1).max(10),
+    greetingStyle: z.array(z.string()),
+    closingStyle: z.array(z.string()),
+    sentenceStructure: z.enum(["short", "medium", "long", "mixed"]),
+    emojiUsage: z.enum(["none", "minimal", "moderate", "frequent"]),
+    punctuationStyle: z.string(),
+    responseLength: z.enum(["brief", "moderate", "detailed"]),
+    languagePreferences: z.array(z.string()),
+    evidenceSources: evidenceSourcesSchema,
+  })
+  .openapi("CommunicationStyle") satisfies SchemaOf<CommunicationStyle>;
+
+export const replyOriginSchema = z
+  .enum(["ai_draft", "edited_ai_draft", "written"])
+  .openapi("ReplyOrigin", { description: "Whether a sent reply was an AI draft as-is, an edited AI draft, or written by the user" }) satisfies SchemaOf<ReplyOrigin>;
+
+const replyStyleStatsSchema = z
+  .object({
+    replies: z.number().int(),
+    origins: z.object({ ai_draft: z.number().int(), edited_ai_draft: z.number().int(), written: z.number().int() }),
+    styleSamples: z.number().int().openapi({ description: "Replies the averages cover: those the user wrote or edited" }),
+    averageWordCount: z.number(),
+    averageSentenceLength: z.number(),
+    averageEmojiCount: z.number(),
+    averageFormality: z.number(),
+  })
+  .openapi("ReplyStyleStats") satisfies SchemaOf<ReplyStyleStats>;
+
+export const contactCommunicationStyleSchema = z
+  .object({
+    contactEmail: z.string(),
+    style: communicationStyleSchema,
+    confidence: confidenceSchema,
+    lastUpdated: dateSchema,
+    sampleCount: z.number().int(),
+    replyStats: replyStyleStatsSchema.optional(),
+  })
+  .openapi("ContactCommunicationStyle") satisfies SchemaOf<ContactCommunicationStyle>;
+
+export const contactRelationshipSchema = z
+  .object({
+    contactEmail: z.string(),
+    contactName: z.string().optional(),
+    relationshipType: contactCategorySchema,
+    confidence: confidenceSchema,
+    communicationFrequency: z.enum(["daily", "weekly", "monthly", "occasional", "rare"]),
+    responseTimePattern: z.enum(["immediate", "business_hours", "delayed", "weekend_ok"]),
+    communicationInitiator: z.enum(["user", "contact", "mutual"]),
+    sharedContexts: z.array(z.string()),
+    lastInteraction: dateSchema,
+    totalInteractions: z.number().int(),
+    averageResponseTime: z.number().openapi({ description: "Minutes" }),
+    evidenceSources: evidenceSourcesSchema,
+  })
+  .openapi("ContactRelationship") satisfies SchemaOf<ContactRelationship>;
+
+const professionalProfileSchema = z
+  .object({
+    jobTitle: z.string().optional(),
+    company: z.string().optional(),
+    industry: z.string().optional(),
+    department: z.string().optional(),
+    managementLevel: z.enum(["individual", "team_lead", "manager", "director", "executive"]),
+    expertise: z.array(z.string()),
+    workingHours: z
+      .object({
+        timezone: z.string(),
+        startHour: z.number(),
+        endHour: z.number(),
+        workDays: z.array(z.number().int().min(0).max(6)).openapi({ description: "0-6, Sunday-Saturday" }),
+      })
+      .optional(),
+    meetingPatterns: z.object({
+      preferredDuration: z.number().openapi({ description: "Minutes" }),
+      preferredTimes: z.array(z.string()),
+      meetingStyle: z.enum(["formal", "casual", "mixed"]),
+    }),
+    projectsAndResponsibilities: z.array(z.string()),
+    networkingStyle: z.enum(["active", "passive", "selective"]),
+    decisionMakingAuthority: z.array(z.string()),
+  })
+  .openapi("ProfessionalProfile") satisfies SchemaOf<ProfessionalProfile>;
+
+const personalPreferencesSchema = z
+  .object({
+    responseTimingPatterns: z.object({
+      businessHours: z.boolean(),
+      eveningEmails: z.boolean(),
+      weekendEmails: z.boolean(),
+      urgentResponseTime: z.number().openapi({ description: "Hours" }),
+      normalResponseTime: z.number().openapi({ description: "Hours" }),
+    }),
+    communicationPreferences: z.object({
+      preferredChannels: z.array(z.string()),
+      formalityByContext: z.record(z.number()),
+      topicPreferences: z.array(z.string()),
+      avoidanceTopics: z.array(z.string()),
+    }),
+    decisionMakingStyle: z.enum(["quick", "deliberate", "collaborative", "independent", "data_driven"]),
+    conflictResolutionApproach: z.enum(["direct", "diplomatic", "avoidance", "collaborative"]),
+    schedulingPreferences: z.object({
+      preferredMeetingTimes: z.array(z.string()),
+      bufferTimeNeeded: z.number().openapi({ description: "Minutes" }),
+      backToBackTolerance: z.boolean(),
+    }),
+    personalInterests: z.array(z.string()),
+    valuesAndBeliefs: z.array(z.string()),
+  })
+  .openapi("PersonalPreferences") satisfies SchemaOf<PersonalPreferences>;
+
+const extractedBehavioralPatternSchema = z
+  .object({
+    type: z.enum([
+      "delegation_comfort",
+      "request_handling",
+      "invitation_response",
+      "urgency_handling",
+      "information_sharing",
+      "boundary_setting",
+      "escalation_trigger",
+      "group_dynamics",
+      "leadership_style",
+      "collaboration_preference",
+    ]),
+    pattern: z.string(),
+    triggers: z.array(z.string()),
+    evidence: z.array(z.string()),
+    confidence: confidenceSchema,
+  }) satisfies SchemaOf<BehavioralPattern>;
+
+const behavioralPatternSchema = extractedBehavioralPatternSchema
+  .extend({ evidenceSources: evidenceSourcesSchema })
+  .openapi("BehavioralPattern") satisfies SchemaOf<BehavioralPattern>;
+
+const extractedContextualResponseSchema = z
+  .object({
+    scenario: z.string(),
+    typical_response_style: z.string(),
+    formality_level: z.enum(["very_low", "low", "medium", "high", "very_high"]),
+    key_phrases: z.array(z.string()),
+    evidence: z.array(z.string()),
+    confidence: confidenceSchema,
+  }) satisfies SchemaOf<ContextualResponse>;
+
+const contextualResponseSchema = extractedContextualResponseSchema
+  .extend({ evidenceSources: evidenceSourcesSchema })
+  .openapi("ContextualResponse") satisfies SchemaOf<ContextualResponse>;
+
+const extractedTemporalPatternSchema = z
+  .object({
+    type: z.enum(["response_timing", "availability_hours", "seasonal_behavior", "deadline_handling", "time_sensitivity"]),
+    pattern: z.string(),
+    specific_times: z.array(z.string()).optional(),
+    evidence: z.array(z.string()),
+    confidence: confidenceSchema,
+  }) satisfies SchemaOf<TemporalPattern>;
+
+const temporalPatternSchema = extractedTemporalPatternSchema
+  .extend({ evidenceSources: evidenceSourcesSchema })
+  .openapi("TemporalPattern") satisfies SchemaOf<TemporalPattern>;
+
+const extractedKnowledgeAreaSchema = z
+  .object({
+    domain: z.string(),
+    expertise_level: z.enum(["novice", "intermediate", "advanced", "expert"]),
+    evidence: z.array(z.string()),
+    confidence: confidenceSchema,
+    context: z.string().optional(),
+  }) satisfies SchemaOf<KnowledgeArea>;
+
+const knowledgeAreaSchema = extractedKnowledgeAreaSchema
+  .extend({ evidenceSources: evidenceSourcesSchema })
+  .openapi("KnowledgeArea") satisfies SchemaOf<KnowledgeArea>;
+
+const learningMetadataSchema = z
+  .object({
+    emailsAnalyzed: z.number().int(),
+    threadsAnalyzed: z.number().int(),
+    contactsClassified: z.number().int(),
+    lastFullAnalysis: dateSchema.optional(),
+    lastIncrementalAnalysis: dateSchema.optional(),
+    lastHistoryId: z.string().optional().openapi({ description: "Gmail history ID the profile is up to date with" }),
+    analysisTimeRange: z.object({ startDate: dateSchema, endDate: dateSchema }),
+    confidenceScores: z.object({
+      overall: confidenceSchema,
+      communicationStyle: confidenceSchema,
+      relationships: confidenceSchema,
+      professionalProfile: confidenceSchema,
+      personalPreferences: confidenceSchema,
+    }),
+    learningSource: z.enum(["historical_analysis", "real_time_learning", "manual_input", "hybrid"]),
+  })
+  .openapi("LearningMetadata") satisfies SchemaOf<LearningMetadata>;
+
+export const personalContextProfileSchema = z
+  .object({
+    id: z.string(),
+    userId: z.string(),
+    version: z.number().int(),
+    confidence: confidenceSchema,
+    lastAnalyzed: dateSchema,
+    lastUpdated: dateSchema,
+    communicationPatterns: z.object({
+      globalStyle: communicationStyleSchema,
+      contactSpecificStyles: z.record(contactCommunicationStyleSchema),
+    }),
+    relationships: z.object({
+      contacts: z.record(contactRelationshipSchema),
+      relationshipTypes: z.array(contactCategorySchema),
+    }),
+    professionalProfile: professionalProfileSchema,
+    personalPreferences: personalPreferencesSchema,
+    behavioralPatterns: z.array(behavioralPatternSchema),
+    contextualResponses: z.array(contextualResponseSchema),
+    temporalPatterns: z.array(temporalPatternSchema),
+    knowledgeAreas: z.array(knowledgeAreaSchema),
+    learningMetadata: learningMetadataSchema,
+  })
+  .openapi("PersonalContextProfile") satisfies SchemaOf<PersonalContextProfile>;
+
+export const learningProgressSchema = z
+  .object({
+    userId: z.string(),
+    currentPhase: z.enum(["discovery", "analysis", "learning", "complete", "error"]),
+    progress: z.number().min(0).max(100),
+    threadsDiscovered: z.number().int(),
+    threadsAnalyzed: z.number().int(),
+    emailsAnalyzed: z.number().int(),
+    contactsClassified: z.number().int(),
+    startTime: dateSchema,
+    estimatedCompletion: dateSchema.optional(),
+    lastError: z.string().optional(),
+    status: z.enum(["idle", "running", "paused", "completed", "failed"]),
+    jobId: z.string().optional(),
+  })
+  .openapi("LearningProgress") satisfies SchemaOf<LearningProgress>;
+
+export const learningEstimateSchema = z
+  .object({
+    analysisDepth: analysisDepthSchema,
+    threadsDiscovered: z.number().int(),
+    threadsToAnalyze: z.number().int(),
+    modelCalls: z.number().int(),
+    inputTokens: z.number().int(),
+    outputTokens: z.number().int(),
+    estimatedCostUsd: z.number().openapi({ description: "At the model's list prices; an upper bound" }),
+    estimatedMinutes: z.number().int(),
+  })
+  .openapi("LearningEstimate") satisfies SchemaOf<LearningEstimate>;
+
+export const learningJobSourceSchema = z
+  .discriminatedUnion("kind", [
+    z.object({ kind: z.literal("gmail_credentials"), userId: z.string(), accountId: z.string() }),
+    z.object({ kind: z.literal("gmail_token") }),
+    z.object({ kind: z.literal("imap"), emailAddress: z.string() }),
+  ])
+  .openapi("LearningJobSource", {
+    description: "Where the job reads mail from. Only gmail_credentials jobs can carry on after a server restart by themselves.",
+  }) satisfies SchemaOf<LearningJobSource>;
+
+export const learningJobCheckpointSchema = z
+  .object({
+    userEmail: z.string(),
+    threadIds: z.array(z.string()),
+    batchSize: z.number().int(),
+    nextBatch: z.number().int().openapi({ description: "First batch that hasn't been analyzed yet" }),
+    totalBatches: z.number().int(),
+    historyId: z.string().optional().openapi({ description: "Mailbox history ID taken at discovery" }),
+  })
+  .openapi("LearningJobCheckpoint") satisfies SchemaOf<LearningJobCheckpoint>;
+
+export const learningJobModeSchema = z.enum(["full", "incremental"]).openapi("LearningJobMode", {
+  description: "`full` rebuilds the profile from the time range; `incremental` merges in only threads sent in since the last run",
+}) satisfies SchemaOf<LearningJobMode>;
+
+export const learningJobSchema = z
+  .object({
+    id: z.string(),
+    userId: z.string(),
+    requestedBy: z.string(),
+    status: z.enum(["queued", "running", "paused", "completed", "failed", "cancelled"]),
+    mode: learningJobModeSchema,
+    options: learningOptionsSchema,
+    source: learningJobSourceSchema,
+    checkpoint: learningJobCheckpointSchema.optional().openapi({ description: "Set once thread discovery has finished" }),
+    progress: learningProgressSchema,
+    needsCredentials: z
+      .boolean()
+      .optional()
+      .openapi({ description: "The job is paused until resumed with the access token or IMAP account again" }),
+    error: z.string().optional(),
+    createdAt: dateSchema,
+    updatedAt: dateSchema,
+    finishedAt: dateSchema.optional(),
+  })
+  .openapi("LearningJob") satisfies SchemaOf<LearningJob>;
+
+const learningPhaseSchema = learningProgressSchema.shape.currentPhase;
+
+export const learningEventSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("snapshot"), job: learningJobSchema.nullable(), progress: learningProgressSchema.nullable() }),
+    z.object({ type: z.literal("status"), job: learningJobSchema }),
+    z.object({ type: z.literal("phase"), jobId: z.string(), phase: learningPhaseSchema, progress: learningProgressSchema }),
+    z.object({
+      type: z.literal("batch"),
+      jobId: z.string(),
+      batch: z.number().int().openapi({ description: "Batches done so far" }),
+      totalBatches: z.number().int(),
+      progress: learningProgressSchema,
+    }),
+    z.object({
+      type: z.literal("log"),
+      jobId: z.string(),
+      source: z.enum(["gmail", "analysis", "service"]),
+      message: z.string(),
+      timestamp: z.string().openapi({ format: "date-time" }),
+    }),
+    z.object({ type: z.literal("error"), jobId: z.string().optional(), message: z.string() }),
+  ])
+  .openapi("LearningEvent") satisfies SchemaOf<LearningEvent>;
+
+const threadMessageSchema = z
+  .object({
+    messageId: z.string(),
+    from: z.string(),
+    to: z.array(z.string()),
+    cc: z.array(z.string()).optional(),
+    bcc: z.array(z.string()).optional(),
+    subject: z.string(),
+    body: z.string(),
+    timestamp: dateSchema,
+    isFromUser: z.boolean(),
+    headers: z.record(z.string()),
+  })
+  .openapi("ThreadMessage") satisfies SchemaOf<ThreadMessage>;
+
+export const emailThreadSchema = z
+  .object({
+    threadId: z.string(),
+    subject: z.string(),
+    participants: z.array(z.string()),
+    messageCount: z.number().int(),
+    userParticipation: z.boolean(),
+    firstMessageDate: dateSchema,
+    lastMessageDate: dateSchema,
+    messages: z.array(threadMessageSchema),
+    threadCategory: z.enum(["work", "personal", "commercial", "automated", "unknown"]),
+    mailbox: z.enum(["gmail", "imap"]).optional(),
+  })
+  .openapi("EmailThread") satisfies SchemaOf<EmailThread>;
+
+// What the model extracts from one thread. The enums are checked field by field, so an answer
+// with an unknown category or insight type is rejected and sent back for repair. The thread ID,
+// overall confidence and evidence sources are added by the analysis service.
+
+export const communicationInsightSchema = z
+  .object({
+    type: z.enum([
+      "tone",
+      "formality",
+      "greeting_style",
+      "sign_off_style",
+      "response_timing",
+      "sentence_structure",
+      "emoji_usage",
+      "punctuation_style",
+      "language_preference",
+      "style_variation",
+    ]),
+    description: z.string(),
+    evidence: z.array(z.string()),
+    confidence: confidenceSchema,
+    contactEmail: z.string().optional(),
+    contextual_factors: z.array(z.string()).optional(),
+  })
+  .openapi("CommunicationInsight") satisfies SchemaOf<CommunicationInsight>;
+
+export const relationshipInsightSchema = z
+  .object({
+    contactEmail: z.string(),
+    suggestedCategory: contactCategorySchema,
+    relationshipDynamics: z.string().optional(),
+    communicationFrequency: z.enum(["daily", "weekly", "monthly", "occasional", "rare"]).optional(),
+    responseTimePattern: z.enum(["immediate", "within_hours", "business_hours", "delayed", "varies"]).optional(),
+    initiationPattern: z.enum(["user_initiates", "contact_initiates", "mutual", "unknown"]).optional(),
+    evidence: z.array(z.string()),
+    confidence: confidenceSchema,
+    sharedContexts: z.array(z.string()).optional(),
+    addressingStyle: z.string().optional(),
+  })
+  .openapi("RelationshipInsight") satisfies SchemaOf<RelationshipInsight>;
+
+const professionalInsightSchema = z
+  .object({
+    type: z.enum([
+      "role",
+      "company",
+      "department",
+      "responsibilities",
+      "expertise",
+      "authority_level",
+      "decision_making",
+      "meeting_preferences",
+      "work_schedule",
+      "project_involvement",
+      "industry_knowledge",
+      "networking_style",
+      "management_level",
+      "reporting_structure",
+    ]),
+    value: z.string(),
+    evidence: z.array(z.string()),
+    confidence: confidenceSchema,
+    context: z.string().optional(),
+  })
+  .openapi("ProfessionalInsight") satisfies SchemaOf<ProfessionalInsight>;
+
+// The legacy types PersonalInsight keeps for old analyses are left out: the model isn't asked for them
+const personalInsightSchema = z
+  .object({
+    type: z.enum([
+      "schedule_preference",
+      "availability_pattern",
+      "family_information",
+      "hobby_interest",
+      "travel_preference",
+      "food_preference",
+      "entertainment_choice",
+      "value_belief",
+      "decision_making_style",
+      "conflict_resolution",
+      "stress_indicator",
+      "privacy_boundary",
+      "seasonal_pattern",
+      "routine_habit",
+      "brand_preference",
+      "location_preference",
+      "restaurant_preference",
+      "shopping_habit",
+      "daily_routine",
+      "cultural_preference",
+      "learning_preference",
+      "information_consumption",
+      "leisure_activity",
+      "sports_team",
+      "music_preference",
+      "book_preference",
+      "movie_preference",
+      "technology_preference",
+      "social_media_usage",
+      "communication_channel_preference",
+    ]),
+    value: z.string(),
+    evidence: z.array(z.string()),
+    confidence: confidenceSchema,
+    category: z
+      .enum(["personal", "family", "lifestyle", "preferences", "behavioral", "temporal", "cultural", "entertainment", "consumption"])
+      .optional(),
+  })
+  .openapi("PersonalInsight") satisfies SchemaOf<PersonalInsight>;
+
+export const extractedThreadAnalysisSchema = z.object({
+  communicationInsights: z.array(communicationInsightSchema),
+  relationshipInsights: z.array(relationshipInsightSchema),
+  professionalInsights: z.array(professionalInsightSchema),
+  personalInsights: z.array(personalInsightSchema),
+  behavioralPatterns: z.array(extractedBehavioralPatternSchema),
+  contextualResponses: z.array(extractedContextualResponseSchema),
+  temporalPatterns: z.array(extractedTemporalPatternSchema),
+  knowledgeAreas: z.array(extractedKnowledgeAreaSchema),
+}) satisfies SchemaOf<Omit<ThreadAnalysisResult, "threadId" | "confidence">>;
+
+export const userStatisticsSchema = z
+  .object({
+    hasPersonalContext: z.boolean(),
+    contactCount: z.number().int(),
+    patternCount: z.number().int(),
+    lastUpdated: dateSchema.optional(),
+    confidence: confidenceSchema.optional(),
+  })
+  .openapi("UserStatistics");
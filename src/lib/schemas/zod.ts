@@ -0,0 +1,7 @@
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { z } from "zod";
+
+// zod with `.openapi()` metadata; schemas that feed the OpenAPI document import z from here
+extendZodWithOpenApi(z);
+
+export { z };
@@ -0,0 +1,331 @@
+// Low-level Gmail REST transport shared by the mail UI (src/services/gmail.ts) and the
+// personal-context learner: typed errors, retries with backoff and multipart batch requests.
+
+const GMAIL_API_ORIGIN = 'https://gmail.googleapis.com';
+const GMAIL_USER_PATH = '/gmail/v1/users/me';
+const GMAIL_BATCH_URL = `${GMAIL_API_ORIGIN}/batch/gmail/v1`;
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+const MAX_CONCURRENT_REQUESTS = 8;
+// Gmail accepts up to 100 calls per batch but starts rate limiting well before that
+const MAX_BATCH_SIZE = 50;
+
+export class GmailApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly reason?: string) {
+    super(message);
+    this.name = 'GmailApiError';
+  }
+}
+
+// The access token expired or lacks a required scope; the user has to reconnect Google
+export class GmailAuthError extends GmailApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super(message, status, reason);
+    this.name = 'GmailAuthError';
+  }
+}
+
+// Rate or daily quota exceeded and retries did not get through
+export class GmailQuotaError extends GmailApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super(message, status, reason);
+    this.name = 'GmailQuotaError';
+  }
+}
+
+export class GmailNotFoundError extends GmailApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super(message, status, reason);
+    this.name = 'GmailNotFoundError';
+  }
+}
+
+const QUOTA_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded', 'dailyLimitExceeded', 'quotaExceeded'];
+
+function createGmailApiError(status: number, errorData: any): GmailApiError {
+  const message = errorData?.error?.message || `Gmail API request failed: ${status}`;
+  const reason: string | undefined = errorData?.error?.errors?.[0]?.reason ?? errorData?.error?.status;
+  if (status === 401 || (status === 403 && reason && /insufficient|PERMISSION_DENIED|forbidden/i.test(reason) && !QUOTA_REASONS.includes(reason))) {
+    return new GmailAuthError(message, status, reason);
+  }
+  if (status === 429 || (status === 403 && reason && QUOTA_REASONS.includes(reason))) {
+    return new GmailQuotaError(message, status, reason);
+  }
+  if (status === 404) {
+    return new GmailNotFoundError(message, status, reason);
+  }
+  return new GmailApiError(message, status, reason);
+}
+
+function isRetryable(error: GmailApiError): boolean {
+  return error instanceof GmailQuotaError || error.status >= 500;
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function getBackoffMs(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_BACKOFF_MS);
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.min(exponential + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS);
+}
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Caps how many Gmail requests are in flight at once across the whole app
+let activeRequests = 0;
+const waitingRequests: (() => void)[] = [];
+
+// A finishing request hands its slot straight to the next waiter, so a caller arriving in between
+// can't take it as well
+async function withConcurrencyLimit<T>(task: () => Promise<T>): Promise<T> {
+  if (activeRequests >= MAX_CONCURRENT_REQUESTS) {
+    await new Promise<void>(resolve => waitingRequests.push(resolve));
+  } else {
+    activeRequests += 1;
+  }
+  try {
+    return await task();
+  } finally {
+    const next = waitingRequests.shift();
+    if (next) {
+      next();
+    } else {
+      activeRequests -= 1;
+    }
+  }
+}
+
+// Exchanges an access token Gmail rejected for a fresh one, or null when it can't be refreshed
+export type GmailTokenRefresher = (expiredToken: string) => Promise<string | null>;
+
+let tokenRefresher: GmailTokenRefresher | null = null;
+// Expired token -> its replacement, so callers still holding the old token skip the failed request
+const replacedTokens = new Map<string, string>();
+const MAX_REPLACED_TOKENS = 50;
+const pendingRefreshes = new Map<string, Promise<string | null>>();
+
+/**
+ * Installs the hook used to refresh an expired access token: the browser asks the token-refresh
+ * endpoint, the server uses the stored refresh token. Requests that fail with a 401 are retried
+ * once with the refreshed token.
+ */
+export function setGmailTokenRefresher(refresher: GmailTokenRefresher | null): void {
+  tokenRefresher = refresher;
+}
+
+function resolveAccessToken(accessToken: string): string {
+  let token = accessToken;
+  for (let hops = 0; replacedTokens.has(token) && hops < MAX_REPLACED_TOKENS; hops++) {
+    token = replacedTokens.get(token)!;
+  }
+  return token;
+}
+
+// Concurrent 401s for the same token share one refresh
+function refreshAccessToken(expiredToken: string): Promise<string | null> {
+  if (!tokenRefresher) return Promise.resolve(null);
+  let pending = pendingRefreshes.get(expiredToken);
+  if (!pending) {
+    pending = tokenRefresher(expiredToken)
+      .then(freshToken => {
+        if (freshToken && freshToken !== expiredToken) {
+          if (replacedTokens.size >= MAX_REPLACED_TOKENS) {
+            replacedTokens.delete(replacedTokens.keys().next().value!);
+          }
+          replacedTokens.set(expiredToken, freshToken);
+          return freshToken;
+        }
+        return null;
+      })
+      .catch(error => {
+        console.warn('[GmailClient] Token refresh failed:', error);
+        return null;
+      })
+      .finally(() => pendingRefreshes.delete(expiredToken));
+    pendingRefreshes.set(expiredToken, pending);
+  }
+  return pending;
+}
+
+export type GmailHttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * Calls a Gmail endpoint relative to /gmail/v1/users/me. 429s, quota 403s and 5xx responses
+ * are retried with exponential backoff (honouring Retry-After), a 401 is retried once after
+ * refreshing the token; other failures throw a typed GmailApiError subclass.
+ */
+export async function gmailRequest<T>(
+  endpoint: string,
+  accessToken: string,
+  method: GmailHttpMethod = 'GET',
+  body?: unknown
+): Promise<T> {
+  let token = resolveAccessToken(accessToken);
+  let refreshed = false;
+  for (let attempt = 0; ; attempt++) {
+    const response = await withConcurrencyLimit(() => fetch(`${GMAIL_API_ORIGIN}${GMAIL_USER_PATH}${endpoint}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    }));
+
+    if (response.ok) {
+      if (response.status === 204) {
+        return undefined as T; // e.g. drafts.delete has no response body
+      }
+      return response.json() as Promise<T>;
+    }
+
+    const errorData = await response.json().catch(() => ({ error: { message: 'Unknown API error (failed to parse error JSON)' } }));
+    const error = createGmailApiError(response.status, errorData);
+    if (response.status === 401 && !refreshed) {
+      refreshed = true;
+      const freshToken = await refreshAccessToken(token);
+      if (freshToken) {
+        console.log(`[GmailClient] Access token refreshed; retrying ${method} ${endpoint}`);
+        token = freshToken;
+        continue;
+      }
+    }
+    if (isRetryable(error) && attempt < MAX_RETRIES) {
+      const waitMs = getBackoffMs(attempt, parseRetryAfter(response.headers.get('Retry-After')));
+      console.warn(`[GmailClient] ${response.status} for ${method} ${endpoint}; retrying in ${Math.round(waitMs)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      await delay(waitMs);
+      continue;
+    }
+    console.error(`[GmailClient] API Error: ${response.status} ${response.statusText} for ${method} ${endpoint}. Response:`, errorData);
+    throw error;
+  }
+}
+
+export type GmailBatchResult<T> = { ok: true; data: T } | { ok: false; error: GmailApiError };
+
+interface ParsedBatchPart {
+  index: number;
+  status: number;
+  body: unknown;
+}
+
+function parseBatchResponse(text: string, boundary: string): ParsedBatchPart[] {
+  const parts: ParsedBatchPart[] = [];
+  for (const rawPart of text.split(`--${boundary}`)) {
+    const contentIdMatch = rawPart.match(/Content-ID:\s*<?response-item-(\d+)>?/i);
+    const statusMatch = rawPart.match(/HTTP\/[\d.]+\s+(\d{3})/);
+    if (!contentIdMatch || !statusMatch) continue;
+
+    // The embedded HTTP response's body follows the first blank line after its status line
+    const afterStatus = rawPart.substring(rawPart.indexOf(statusMatch[0]));
+    const bodyStart = afterStatus.search(/\r?\n\r?\n/);
+    const rawBody = bodyStart === -1 ? '' : afterStatus.substring(bodyStart).trim();
+    let body: unknown = undefined;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : undefined;
+    } catch {
+      body = { error: { message: 'Failed to parse batch part JSON' } };
+    }
+    parts.push({ index: Number(contentIdMatch[1]), status: Number(statusMatch[1]), body });
+  }
+  return parts;
+}
+
+async function sendBatch(accessToken: string, endpoints: string[], allowRefresh = true): Promise<{ parts: ParsedBatchPart[]; retryAfterMs?: number }> {
+  const token = resolveAccessToken(accessToken);
+  const boundary = `batch_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+  const requestBody = endpoints.map((endpoint, index) => [
+    `--${boundary}`,
+    'Content-Type: application/http',
+    `Content-ID: <item-${index}>`,
+    '',
+    `GET ${GMAIL_USER_PATH}${endpoint}`,
+    '',
+  ].join('\r\n')).join('\r\n') + `\r\n--${boundary}--`;
+
+  const response = await withConcurrencyLimit(() => fetch(GMAIL_BATCH_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': `multipart/mixed; boundary=${boundary}`,
+    },
+    body: requestBody,
+  }));
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error = createGmailApiError(response.status, errorData);
+    if (response.status === 401 && allowRefresh) {
+      const freshToken = await refreshAccessToken(token);
+      if (freshToken) return sendBatch(freshToken, endpoints, false);
+    }
+    if (!isRetryable(error)) throw error;
+    // Treat a failed envelope like every part failing, so the caller's retry loop handles it
+    return {
+      parts: endpoints.map((_, index) => ({ index, status: response.status, body: errorData })),
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    };
+  }
+
+  const responseBoundary = response.headers.get('Content-Type')?.match(/boundary=("?)([^";]+)\1/)?.[2];
+  if (!responseBoundary) {
+    throw new GmailApiError('Gmail batch response had no multipart boundary', response.status);
+  }
+  return { parts: parseBatchResponse(await response.text(), responseBoundary) };
+}
+
+/**
+ * Runs many GET requests through Gmail's multipart batch endpoint, MAX_BATCH_SIZE per HTTP call.
+ * Parts that fail with a retryable error are re-sent with backoff; results keep the input order
+ * and carry per-request errors instead of rejecting the whole batch.
+ */
+export async function gmailBatchGet<T>(accessToken: string, endpoints: string[]): Promise<GmailBatchResult<T>[]> {
+  const results: GmailBatchResult<T>[] = new Array(endpoints.length);
+
+  const chunks: number[][] = [];
+  for (let start = 0; start < endpoints.length; start += MAX_BATCH_SIZE) {
+    chunks.push(endpoints.slice(start, start + MAX_BATCH_SIZE).map((_, offset) => start + offset));
+  }
+
+  await Promise.all(chunks.map(async (chunk) => {
+    let pending = chunk;
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      const { parts, retryAfterMs } = await sendBatch(accessToken, pending.map(index => endpoints[index]));
+      const retry: number[] = [];
+
+      pending.forEach((endpointIndex, position) => {
+        const part = parts.find(p => p.index === position);
+        if (part && part.status >= 200 && part.status < 300) {
+          results[endpointIndex] = { ok: true, data: part.body as T };
+          return;
+        }
+        const error = part
+          ? createGmailApiError(part.status, part.body)
+          : new GmailApiError('Missing response in Gmail batch', 500);
+        if (isRetryable(error) && attempt < MAX_RETRIES) {
+          retry.push(endpointIndex);
+        } else {
+          results[endpointIndex] = { ok: false, error };
+        }
+      });
+
+      if (retry.length > 0) {
+        const waitMs = getBackoffMs(attempt, retryAfterMs);
+        console.warn(`[GmailClient] Retrying ${retry.length} batched requests in ${Math.round(waitMs)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+        await delay(waitMs);
+      }
+      pending = retry;
+    }
+  }));
+
+  return results;
+}
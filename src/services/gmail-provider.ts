@@ -0,0 +1,72 @@
+import type { Email, EmailPage, MailThread, MessageListSource, OutgoingEmail } from '@/types/mail';
+import type { MailProvider, MailProviderProfile, SentMessage, ThreadBatch } from '@/services/mail-provider';
+import {
+  fetchEmails,
+  getEmailById,
+  getProfile,
+  getThreadById,
+  getThreadsByIds,
+  GmailNotFoundError,
+  listSentThreadIdsSince,
+  listThreadIds,
+  searchEmails,
+  sendEmail,
+} from '@/services/gmail';
+
+// Gmail search date format: after:YYYY/MM/DD
+function formatGmailDate(date: Date): string {
+  return `${date.getFullYear()}/${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getDate().toString().padStart(2, '0')}`;
+}
+
+// MailProvider backed by the Gmail REST API and a Google OAuth access token
+export class GmailMailProvider implements MailProvider {
+  readonly kind = 'gmail' as const;
+
+  constructor(private readonly accessToken: string) {}
+
+  listEmails(source: MessageListSource, maxResults = 20, pageToken?: string): Promise<EmailPage> {
+    return 'query' in source
+      ? searchEmails(this.accessToken, source.query, maxResults, pageToken)
+      : fetchEmails(this.accessToken, source.boxType, maxResults, pageToken);
+  }
+
+  getEmail(id: string): Promise<Email | null> {
+    return getEmailById(this.accessToken, id);
+  }
+
+  getThread(threadId: string): Promise<MailThread | null> {
+    return getThreadById(this.accessToken, threadId);
+  }
+
+  sendEmail(message: OutgoingEmail): Promise<SentMessage> {
+    return sendEmail(this.accessToken, message);
+  }
+
+  async getProfile(): Promise<MailProviderProfile> {
+    const { emailAddress, messagesTotal, threadsTotal, historyId } = await getProfile(this.accessToken);
+    return { emailAddress, messagesTotal, threadsTotal, historyId };
+  }
+
+  async listSentThreadIds(since: Date, maxThreads: number): Promise<string[]> {
+    // Gmail's categories already separate out most promotional and automated threads
+    const query = `from:me after:${formatGmailDate(since)} -category:promotions -category:social -category:updates`;
+    const { ids } = await listThreadIds(this.accessToken, { query }, maxThreads);
+    return ids;
+  }
+
+  async listSentThreadIdsSince(historyId: string, maxThreads: number): Promise<string[] | null> {
+    try {
+      return await listSentThreadIdsSince(this.accessToken, historyId, maxThreads);
+    } catch (error) {
+      // Gmail only keeps about a week of history
+      if (error instanceof GmailNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  getThreadsByIds(threadIds: string[]): Promise<ThreadBatch> {
+    return getThreadsByIds(this.accessToken, threadIds);
+  }
+}
@@ -1,8 +1,25 @@
 
-import type { Email, EmailBoxType } from '@/types/mail';
+/**
+ * Gmail provider: the single place the app talks to Gmail. Messages, threads, labels, drafts,
+ * send and profile all go through here, for both the mail UI and the personal-context learner,
+ * so MIME parsing (headers, base64url bodies, HTML fallbacks, attachments) behaves the same
+ * everywhere. Transport concerns (retries, batching, typed errors) live in ./gmail-client.
+ */
+import type {
+  Email,
+  EmailAttachment,
+  EmailBoxType,
+  EmailPage,
+  MailboxAction,
+  MailLabel,
+  MailThread,
+  MessageListSource,
+  OutgoingAttachment,
+  OutgoingEmail,
+} from '@/types/mail';
 import { formatDistanceToNowStrict } from 'date-fns';
-
-const GMAIL_API_BASE_URL = 'https://gmail.googleapis.com/gmail/v1/users/me';
+import { buildForwardedBody, getBoxLabelIds, parseAddressList } from '@/lib/mail-utils';
+import { GmailAuthError, gmailBatchGet, gmailRequest, type GmailHttpMethod } from '@/services/gmail-client';
 
 interface GmailHeader {
   name: string;
@@ -36,29 +53,16 @@ interface GmailMessage {
   raw?: string; // base64url encoded
 }
 
-async function makeGmailApiCall<T>(
+export { GmailApiError, GmailAuthError, GmailQuotaError, GmailNotFoundError } from '@/services/gmail-client';
+
+// Retries, backoff and typed errors live in the shared client
+function makeGmailApiCall<T>(
   endpoint: string,
   accessToken: string,
-  method: 'GET' | 'POST' = 'GET',
+  method: GmailHttpMethod = 'GET',
   body?: any
 ): Promise<T> {
-  const headers: HeadersInit = {
-    'Authorization': `Bearer ${accessToken}`,
-    'Content-Type': 'application/json',
-  };
-
-  const response = await fetch(`${GMAIL_API_BASE_URL}${endpoint}`, {
-    method,
-    headers,
-    body: body ? JSON.stringify(body) : undefined,
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: { message: 'Unknown API error (failed to parse error JSON)' } }));
-    console.error(`[GmailService] API Error: ${response.status} ${response.statusText} for ${method} ${endpoint}. Response:`, errorData);
-    throw new Error(errorData.error?.message || `Gmail API request failed: ${response.status}`);
-  }
-  return response.json() as T;
+  return gmailRequest<T>(endpoint, accessToken, method, body);
 }
 
 function getHeader(headers: GmailHeader[] | undefined, name: string): string | undefined {
@@ -76,6 +80,16 @@ function base64UrlToBase64(base64Url: string): string {
   return base64;
 }
 
+function decodeBasicEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
 function parseMessageBodyContent(payload?: GmailMessagePart): string {
   if (!payload) return '';
 
@@ -157,14 +171,72 @@ function parseMessageBodyContent(payload?: GmailMessagePart): string {
                            .replace(/\s+/g, ' ').trim(); 
       }
     } else {
-      // Fallback for environments without DOMParser (e.g., some Node.js contexts if not polyfilled)
-      return decodedBody.replace(/<[^>]*>?/gm, '').replace(/\s+/g, ' ').trim();
+      // Fallback for environments without DOMParser (server-side learning runs here)
+      return decodeBasicEntities(
+        decodedBody
+          .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+          .replace(/<(br|\/p|\/div|\/li|\/tr)[^>]*>/gi, '\n')
+          .replace(/<[^>]*>?/gm, '')
+      ).replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n\n').trim();
     }
   }
   return decodedBody.replace(/\r\n/g, '\n').trim();
 }
 
 
+// Returns the raw text/html alternative of a message (unsanitized), if there is one.
+function extractHtmlBody(payload?: GmailMessagePart): string | undefined {
+  if (!payload) return undefined;
+
+  const findHtmlPart = (part: GmailMessagePart): GmailMessagePart | undefined => {
+    if (part.mimeType === 'text/html' && part.body?.data && !part.filename) {
+      return part;
+    }
+    for (const subPart of part.parts || []) {
+      const found = findHtmlPart(subPart);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  const htmlPart = findHtmlPart(payload);
+  if (!htmlPart?.body?.data) return undefined;
+
+  try {
+    return Buffer.from(base64UrlToBase64(htmlPart.body.data), 'base64').toString('utf-8');
+  } catch (e) {
+    console.error("[GmailService] Error decoding base64 HTML body data:", e);
+    return undefined;
+  }
+}
+
+function collectAttachments(messageId: string, payload?: GmailMessagePart): EmailAttachment[] {
+  if (!payload) return [];
+
+  const attachments: EmailAttachment[] = [];
+  const visit = (part: GmailMessagePart) => {
+    const hasContent = !!(part.body?.attachmentId || part.body?.data);
+    const contentId = getHeader(part.headers, 'Content-ID');
+    // Inline images referenced by cid: don't always carry a filename
+    const isInlineImage = !!contentId && part.mimeType.startsWith('image/');
+    if ((part.filename || isInlineImage) && hasContent) {
+      attachments.push({
+        messageId,
+        partId: part.partId,
+        attachmentId: part.body?.attachmentId,
+        data: part.body?.attachmentId ? undefined : part.body?.data,
+        filename: part.filename || `inline-${part.partId}.${part.mimeType.split('/')[1] || 'img'}`,
+        mimeType: part.mimeType,
+        size: part.body?.size ?? 0,
+        contentId: contentId ? contentId.replace(/^<|>$/g, '') : undefined,
+      });
+    }
+    part.parts?.forEach(visit);
+  };
+  visit(payload);
+  return attachments;
+}
+
 function mapGmailMessageToEmail(message: GmailMessage, parseBody: boolean): Email {
   // This function now expects 'message' to be a complete Message resource,
   // especially payload.headers if called for list view (after a messages.get format=METADATA)
@@ -237,92 +309,256 @@ function mapGmailMessageToEmail(message: GmailMessage, parseBody: boolean): Emai
   
   return {
     id: message.id,
+    threadId: message.threadId,
     sender: senderName,
     senderEmail: senderEmail,
     subject: subject,
     snippet: message.snippet || '', // Snippet should be available from format=METADATA
     body: parseBody ? parseMessageBodyContent(message.payload) : '',
+    htmlBody: parseBody ? extractHtmlBody(message.payload) : undefined,
     receivedTime: receivedTime,
     read: !(message.labelIds?.includes('UNREAD') ?? false), 
+    isDraft: message.labelIds?.includes('DRAFT') ?? false,
+    starred: message.labelIds?.includes('STARRED') ?? false,
+    labelIds: message.labelIds,
+    attachments: parseBody ? collectAttachments(message.id, message.payload) : undefined,
+    internalDate: message.internalDate,
+    messageIdHeader: getHeader(headers, 'Message-ID'),
+    references: getHeader(headers, 'References'),
+    replyTo: parseAddressList(getHeader(headers, 'Reply-To')),
+    to: parseAddressList(getHeader(headers, 'To')),
+    cc: parseAddressList(getHeader(headers, 'Cc')),
+    bcc: parseAddressList(getHeader(headers, 'Bcc')),
+    inReplyTo: getHeader(headers, 'In-Reply-To'),
+    headers: parseBody && headers
+      ? Object.fromEntries(headers.map(header => [header.name.toLowerCase(), header.value]))
+      : undefined,
   };
 }
 
 
-export async function fetchEmails(accessToken: string, boxType: EmailBoxType, maxResults = 20): Promise<Email[]> {
-  // Phase 1: Get only message IDs
+
+function buildListParams(source: MessageListSource, maxResults: number, pageToken?: string): URLSearchParams {
   const listParams = new URLSearchParams({
     maxResults: maxResults.toString(),
     fields: 'nextPageToken,messages/id', 
   });
+  if (pageToken) {
+    listParams.append('pageToken', pageToken);
+  }
 
-  let labelIdsQuery: string;
-  switch (boxType) {
-    case 'inbox': labelIdsQuery = 'INBOX'; break;
-    case 'unread': labelIdsQuery = 'UNREAD'; break; 
-    case 'sent': labelIdsQuery = 'SENT'; break;
-    case 'drafts': labelIdsQuery = 'DRAFT'; break;
-    default: labelIdsQuery = 'INBOX';
+  if ('query' in source) {
+    // `q` accepts the same syntax as the Gmail search box (from:, has:attachment, before:, label:, ...)
+    listParams.append('q', source.query);
+    return listParams;
   }
-  
-  if (boxType === 'unread') {
-    listParams.append('labelIds', 'INBOX'); 
-    listParams.append('labelIds', 'UNREAD');
-  } else {
-    listParams.append('labelIds', labelIdsQuery);
+
+  for (const labelId of getBoxLabelIds(source.boxType)) {
+    listParams.append('labelIds', labelId);
   }
-  
-  console.log(`[GmailService] fetchEmails (Phase 1: List IDs) - Requesting with params: ${listParams.toString()}`);
+  return listParams;
+}
+
+export async function fetchEmails(
+  accessToken: string,
+  boxType: EmailBoxType,
+  maxResults = 20,
+  pageToken?: string
+): Promise<EmailPage> {
+  return listEmailPage(accessToken, { boxType }, maxResults, pageToken);
+}
+
+export async function searchEmails(
+  accessToken: string,
+  query: string,
+  maxResults = 20,
+  pageToken?: string
+): Promise<EmailPage> {
+  return listEmailPage(accessToken, { query }, maxResults, pageToken);
+}
+
+// Phase 1 of listing: only message IDs, newest first
+export async function listMessageIds(
+  accessToken: string,
+  source: MessageListSource,
+  maxResults = 20,
+  pageToken?: string
+): Promise<{ ids: string[]; nextPageToken?: string }> {
+  const listParams = buildListParams(source, maxResults, pageToken);
+  console.log(`[GmailService] listMessageIds - Requesting with params: ${listParams.toString()}`);
   const listResponse = await makeGmailApiCall<{ messages?: { id: string }[], nextPageToken?: string }>(
     `/messages?${listParams.toString()}`,
     accessToken
   );
-  
-  // This log is critical to confirm what messages.list returns
-  console.log('[GmailService] fetchEmails (Phase 1: List IDs) - Raw listResponse from API:', JSON.stringify(listResponse, null, 2));
+  const ids = (listResponse.messages ?? []).map(msg => msg.id).filter(Boolean);
+  return { ids, nextPageToken: listResponse.nextPageToken };
+}
 
-  if (!listResponse.messages || listResponse.messages.length === 0) {
-    console.log('[GmailService] fetchEmails - No messages found in initial list response.');
-    return [];
-  }
+// Phase 2 of listing: hydrate IDs with the headers the list view needs, via batched
+// messages.get calls. IDs that still fail after retries are skipped.
+export async function getMessagesMetadata(accessToken: string, ids: string[]): Promise<Email[]> {
+  if (ids.length === 0) return [];
 
-  // Phase 2: For each ID, get its metadata using messages.get with format=METADATA
-  console.log(`[GmailService] fetchEmails (Phase 2: Get Metadata) - Fetching details for ${listResponse.messages.length} messages.`);
-  
-  const emailDetailsPromises = listResponse.messages.map(async (msg) => {
-    if (!msg.id) {
-        console.warn('[GmailService] fetchEmails - Found a message object without an ID in listResponse:', msg);
-        return null;
-    }
-    try {
-      const detailParams = new URLSearchParams();
-      detailParams.append('format', 'METADATA');
-      // Request specific headers by appending metadataHeaders multiple times
-      detailParams.append('metadataHeaders', 'From');
-      detailParams.append('metadataHeaders', 'Subject');
-      detailParams.append('metadataHeaders', 'Date'); // The 'Date' header can also be useful
-
-      const detail = await makeGmailApiCall<GmailMessage>(
-        `/messages/${msg.id}?${detailParams.toString()}`, // Use the constructed params
-        accessToken
-      );
-      
-      // This log is CRITICAL - shows what messages.get(format=METADATA) returns for each email
-      console.log(`[GmailService] fetchEmails (Phase 2) - Metadata received for ${msg.id}:`, JSON.stringify(detail, null, 2));
-      
-      return mapGmailMessageToEmail(detail, false); // parseBody is false for list view metadata
-    } catch (error) {
-      console.error(`[GmailService] fetchEmails (Phase 2) - Error fetching metadata for message ${msg.id}:`, error);
-      return null; 
+  const detailParams = new URLSearchParams();
+  detailParams.append('format', 'METADATA');
+  // Request specific headers by appending metadataHeaders multiple times
+  detailParams.append('metadataHeaders', 'From');
+  detailParams.append('metadataHeaders', 'Subject');
+  detailParams.append('metadataHeaders', 'Date'); // The 'Date' header can also be useful
+
+  const results = await gmailBatchGet<GmailMessage>(
+    accessToken,
+    ids.map(id => `/messages/${id}?${detailParams.toString()}`)
+  );
+
+  const emails: Email[] = [];
+  results.forEach((result, index) => {
+    if (result.ok) {
+      emails.push(mapGmailMessageToEmail(result.data, false)); // parseBody is false for list view metadata
+    } else if (result.error instanceof GmailAuthError) {
+      throw result.error; // Every other message would fail the same way
+    } else {
+      console.error(`[GmailService] getMessagesMetadata - Error fetching metadata for message ${ids[index]}:`, result.error);
     }
   });
+  return emails;
+}
 
-  const resolvedEmailDetails = await Promise.all(emailDetailsPromises);
-  const validEmails = resolvedEmailDetails.filter((email): email is Email => email !== null);
-  
-  console.log(`[GmailService] fetchEmails (Phase 3: Mapping Complete) - Successfully mapped ${validEmails.length} emails.`);
-  return validEmails;
+// Lists message IDs for the given source, then hydrates each with its metadata.
+async function listEmailPage(
+  accessToken: string,
+  source: MessageListSource,
+  maxResults: number,
+  pageToken?: string
+): Promise<EmailPage> {
+  const { ids, nextPageToken } = await listMessageIds(accessToken, source, maxResults, pageToken);
+  if (ids.length === 0) {
+    console.log('[GmailService] listEmailPage - No messages found in initial list response.');
+    return { emails: [], nextPageToken };
+  }
+
+  const emails = await getMessagesMetadata(accessToken, ids);
+  console.log(`[GmailService] listEmailPage - Successfully mapped ${emails.length} emails.`);
+  return { emails, nextPageToken };
+}
+
+export interface MailProfile {
+  emailAddress: string;
+  messagesTotal: number;
+  threadsTotal: number;
+  historyId: string;
+}
+
+export async function getProfile(accessToken: string): Promise<MailProfile> {
+  return makeGmailApiCall<MailProfile>(`/profile`, accessToken);
+}
+
+// Current mailbox history ID; changes after this point can be replayed with listHistory
+export async function getMailboxHistoryId(accessToken: string): Promise<string> {
+  const profile = await getProfile(accessToken);
+  return profile.historyId;
+}
+
+export interface MailboxHistory {
+  historyId: string; // Resume point for the next call
+  messageLabels: Record<string, string[]>; // Added or relabelled messages -> their current labels
+  deletedIds: string[];
+}
+
+interface GmailHistoryMessage {
+  message: { id: string; threadId: string; labelIds?: string[] };
+}
+
+interface GmailHistoryRecord {
+  id: string;
+  messagesAdded?: GmailHistoryMessage[];
+  messagesDeleted?: GmailHistoryMessage[];
+  labelsAdded?: (GmailHistoryMessage & { labelIds: string[] })[];
+  labelsRemoved?: (GmailHistoryMessage & { labelIds: string[] })[];
+}
+
+/**
+ * Collapses every mailbox change since `startHistoryId` into the latest label set per message
+ * plus the deleted IDs. Throws a GmailApiError with status 404 when the history ID is too old
+ * (Gmail keeps roughly a week), in which case the caller must resync from scratch.
+ */
+export async function listHistory(accessToken: string, startHistoryId: string): Promise<MailboxHistory> {
+  const messageLabels: Record<string, string[]> = {};
+  const deletedIds = new Set<string>();
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ startHistoryId, maxResults: '500' });
+    ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'].forEach(type => params.append('historyTypes', type));
+    if (pageToken) params.append('pageToken', pageToken);
+
+    const response = await makeGmailApiCall<{ history?: GmailHistoryRecord[]; historyId: string; nextPageToken?: string }>(
+      `/history?${params.toString()}`,
+      accessToken
+    );
+
+    for (const record of response.history ?? []) {
+      const changed = [
+        ...(record.messagesAdded ?? []),
+        ...(record.labelsAdded ?? []),
+        ...(record.labelsRemoved ?? []),
+      ];
+      // Each entry carries the message's full label set at that point; later records win
+      for (const { message } of changed) {
+        messageLabels[message.id] = message.labelIds ?? [];
+        deletedIds.delete(message.id);
+      }
+      for (const { message } of record.messagesDeleted ?? []) {
+        delete messageLabels[message.id];
+        deletedIds.add(message.id);
+      }
+    }
+
+    historyId = response.historyId;
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+
+  return { historyId, messageLabels, deletedIds: [...deletedIds] };
 }
 
+/**
+ * Threads the user has sent messages in since `startHistoryId`, most recently changed first.
+ * Throws a GmailApiError with status 404 when the history ID has expired, like listHistory.
+ */
+export async function listSentThreadIdsSince(
+  accessToken: string,
+  startHistoryId: string,
+  maxThreads: number
+): Promise<string[]> {
+  // Later records overwrite earlier ones, so insertion order ends up oldest change first
+  const threadIds = new Set<string>();
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ startHistoryId, maxResults: '500', historyTypes: 'messageAdded' });
+    if (pageToken) params.append('pageToken', pageToken);
+
+    const response = await makeGmailApiCall<{ history?: GmailHistoryRecord[]; nextPageToken?: string }>(
+      `/history?${params.toString()}`,
+      accessToken
+    );
+
+    for (const record of response.history ?? []) {
+      for (const { message } of record.messagesAdded ?? []) {
+        const labels = message.labelIds ?? [];
+        if (labels.includes('SENT') && !labels.includes('DRAFT')) {
+          threadIds.delete(message.threadId);
+          threadIds.add(message.threadId);
+        }
+      }
+    }
+
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+
+  return [...threadIds].reverse().slice(0, maxThreads);
+}
 
 export async function getEmailById(accessToken: string, id: string): Promise<Email | null> {
   try {
@@ -337,41 +573,327 @@ export async function getEmailById(accessToken: string, id: string): Promise<Ema
   }
 }
 
-export async function markEmailAsRead(accessToken: string, id: string): Promise<void> {
+export async function getThreadById(accessToken: string, threadId: string): Promise<MailThread | null> {
+  try {
+    const thread = await makeGmailApiCall<{ id: string; messages?: GmailMessage[] }>(
+      `/threads/${threadId}?format=FULL`,
+      accessToken
+    );
+    const messages = (thread.messages || []).map(message => mapGmailMessageToEmail(message, true));
+    if (messages.length === 0) {
+      console.warn(`[GmailService] Thread ${threadId} returned no messages.`);
+      return null;
+    }
+    return {
+      id: thread.id,
+      subject: messages[0].subject,
+      messages,
+    };
+  } catch (error) {
+    console.error(`[GmailService] Error fetching thread by ID ${threadId}:`, error);
+    return null;
+  }
+}
+
+// Thread IDs for a box or search, newest first (threads.list matches on any message in the thread)
+export async function listThreadIds(
+  accessToken: string,
+  source: MessageListSource,
+  maxResults = 100,
+  pageToken?: string
+): Promise<{ ids: string[]; nextPageToken?: string }> {
+  const listParams = buildListParams(source, maxResults, pageToken);
+  listParams.set('fields', 'nextPageToken,threads/id');
+  const response = await makeGmailApiCall<{ threads?: { id: string }[]; nextPageToken?: string }>(
+    `/threads?${listParams.toString()}`,
+    accessToken
+  );
+  return { ids: (response.threads ?? []).map(thread => thread.id), nextPageToken: response.nextPageToken };
+}
+
+/**
+ * Fetches full threads in batched requests. Threads that fail are reported rather than thrown,
+ * except for auth failures, which would fail every remaining request too.
+ */
+export async function getThreadsByIds(
+  accessToken: string,
+  threadIds: string[]
+): Promise<{ threads: MailThread[]; failed: { id: string; error: Error }[] }> {
+  const results = await gmailBatchGet<{ id: string; messages?: GmailMessage[] }>(
+    accessToken,
+    threadIds.map(threadId => `/threads/${threadId}?format=FULL`)
+  );
+
+  const threads: MailThread[] = [];
+  const failed: { id: string; error: Error }[] = [];
+  results.forEach((result, index) => {
+    if (!result.ok) {
+      if (result.error instanceof GmailAuthError) throw result.error;
+      failed.push({ id: threadIds[index], error: result.error });
+      return;
+    }
+    const messages = (result.data.messages || []).map(message => mapGmailMessageToEmail(message, true));
+    if (messages.length > 0) {
+      threads.push({ id: result.data.id, subject: messages[0].subject, messages });
+    }
+  });
+  return { threads, failed };
+}
+
+// Resolves the conversation a message belongs to, so message links can open the whole thread.
+export async function getThreadForMessage(accessToken: string, messageId: string): Promise<MailThread | null> {
+  try {
+    const message = await makeGmailApiCall<GmailMessage>(
+      `/messages/${messageId}?format=MINIMAL`,
+      accessToken
+    );
+    return getThreadById(accessToken, message.threadId);
+  } catch (error) {
+    console.error(`[GmailService] Error resolving thread for message ${messageId}:`, error);
+    return null;
+  }
+}
+
+export interface LabelChanges {
+  addLabelIds?: string[];
+  removeLabelIds?: string[];
+}
+
+export async function modifyMessage(accessToken: string, id: string, changes: LabelChanges): Promise<void> {
   await makeGmailApiCall(
     `/messages/${id}/modify`,
     accessToken,
     'POST',
-    { removeLabelIds: ['UNREAD'] }
+    changes
   );
 }
 
-export async function sendEmail(
+// messages.batchModify accepts at most 1000 IDs per call
+const BATCH_MODIFY_LIMIT = 1000;
+
+export async function batchModifyMessages(accessToken: string, ids: string[], changes: LabelChanges): Promise<void> {
+  for (let start = 0; start < ids.length; start += BATCH_MODIFY_LIMIT) {
+    await makeGmailApiCall<void>(
+      `/messages/batchModify`,
+      accessToken,
+      'POST',
+      { ids: ids.slice(start, start + BATCH_MODIFY_LIMIT), ...changes }
+    );
+  }
+}
+
+export async function markEmailAsRead(accessToken: string, id: string): Promise<void> {
+  await modifyMessage(accessToken, id, { removeLabelIds: ['UNREAD'] });
+}
+
+export async function trashMessages(accessToken: string, ids: string[]): Promise<void> {
+  await Promise.all(ids.map(id => makeGmailApiCall(`/messages/${id}/trash`, accessToken, 'POST')));
+}
+
+interface GmailLabel {
+  id: string;
+  name: string;
+  type: 'system' | 'user';
+  labelListVisibility?: 'labelShow' | 'labelShowIfUnread' | 'labelHide';
+  messagesTotal?: number;
+  messagesUnread?: number;
+}
+
+function mapGmailLabel(label: GmailLabel): MailLabel {
+  return {
+    id: label.id,
+    name: label.name,
+    type: label.type,
+    hidden: label.labelListVisibility === 'labelHide',
+    messagesUnread: label.messagesUnread,
+    messagesTotal: label.messagesTotal,
+  };
+}
+
+export async function listLabels(accessToken: string): Promise<MailLabel[]> {
+  const response = await makeGmailApiCall<{ labels?: GmailLabel[] }>(`/labels`, accessToken);
+  return (response.labels ?? []).map(mapGmailLabel);
+}
+
+// System labels whose counts back the sidebar boxes (Inbox/Unread use INBOX, Drafts uses DRAFT)
+const COUNTED_SYSTEM_LABEL_IDS = ['INBOX', 'DRAFT'];
+
+/**
+ * Lists labels with message counts. labels.list omits counts, so each user label (plus the
+ * system labels the sidebar shows counts for) is fetched with labels.get.
+ */
+export async function listLabelsWithCounts(accessToken: string): Promise<MailLabel[]> {
+  const labels = await listLabels(accessToken);
+  return Promise.all(labels.map(async (label) => {
+    if (label.type !== 'user' && !COUNTED_SYSTEM_LABEL_IDS.includes(label.id)) return label;
+    try {
+      return mapGmailLabel(await makeGmailApiCall<GmailLabel>(`/labels/${encodeURIComponent(label.id)}`, accessToken));
+    } catch (error) {
+      console.warn(`[GmailService] listLabelsWithCounts - Could not load counts for label ${label.name}:`, error);
+      return label;
+    }
+  }));
+}
+
+export const SNOOZED_LABEL_NAME = 'Snoozed';
+
+async function getOrCreateLabelId(accessToken: string, name: string): Promise<string> {
+  const existing = (await listLabels(accessToken)).find(label => label.name === name);
+  if (existing) return existing.id;
+  const created = await makeGmailApiCall<{ id: string }>(
+    `/labels`,
+    accessToken,
+    'POST',
+    { name, labelListVisibility: 'labelShow', messageListVisibility: 'show' }
+  );
+  return created.id;
+}
+
+// Applies a mailbox action to the given messages in as few API calls as possible.
+export async function applyMailboxAction(accessToken: string, ids: string[], action: MailboxAction): Promise<void> {
+  if (ids.length === 0) return;
+
+  switch (action.type) {
+    case 'trash':
+      return trashMessages(accessToken, ids);
+    case 'archive':
+      return batchModifyMessages(accessToken, ids, { removeLabelIds: ['INBOX'] });
+    case 'star':
+      return batchModifyMessages(accessToken, ids, action.starred ? { addLabelIds: ['STARRED'] } : { removeLabelIds: ['STARRED'] });
+    case 'markRead':
+      return batchModifyMessages(accessToken, ids, action.read ? { removeLabelIds: ['UNREAD'] } : { addLabelIds: ['UNREAD'] });
+    case 'snooze': {
+      const snoozedLabelId = await getOrCreateLabelId(accessToken, SNOOZED_LABEL_NAME);
+      return batchModifyMessages(accessToken, ids, { addLabelIds: [snoozedLabelId], removeLabelIds: ['INBOX'] });
+    }
+    case 'label':
+      return batchModifyMessages(accessToken, ids, action.apply ? { addLabelIds: [action.labelId] } : { removeLabelIds: [action.labelId] });
+  }
+}
+
+export async function getAttachmentData(accessToken: string, attachment: EmailAttachment): Promise<Uint8Array> {
+  let base64UrlData = attachment.data;
+  if (!base64UrlData) {
+    if (!attachment.attachmentId) {
+      throw new Error(`Attachment "${attachment.filename}" has no data to download.`);
+    }
+    const response = await makeGmailApiCall<{ data: string; size: number }>(
+      `/messages/${attachment.messageId}/attachments/${attachment.attachmentId}`,
+      accessToken
+    );
+    base64UrlData = response.data;
+  }
+  return new Uint8Array(Buffer.from(base64UrlToBase64(base64UrlData), 'base64'));
+}
+
+// RFC 2047 encoded-word for header values (subjects, filenames) that are not plain ASCII
+function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+}
+
+function wrapBase64(data: string): string {
+  return data.match(/.{1,76}/g)?.join('\r\n') ?? '';
+}
+
+function buildMultipartBody(body: string, attachments: OutgoingAttachment[]): { contentType: string; lines: string[] } {
+  const boundary = `mahasen_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+  const lines: string[] = [
+    `--${boundary}`,
+    `Content-Type: text/plain; charset="UTF-8"`,
+    `Content-Transfer-Encoding: base64`,
+    '',
+    wrapBase64(Buffer.from(body, 'utf-8').toString('base64')),
+  ];
+
+  for (const attachment of attachments) {
+    const filename = encodeHeaderValue(attachment.filename).replace(/"/g, '');
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${attachment.mimeType || 'application/octet-stream'}; name="${filename}"`,
+      `Content-Disposition: attachment; filename="${filename}"`,
+      `Content-Transfer-Encoding: base64`,
+      '',
+      wrapBase64(attachment.data)
+    );
+  }
+  lines.push(`--${boundary}--`);
+
+  return { contentType: `multipart/mixed; boundary="${boundary}"`, lines };
+}
+
+// Encodes only the display name so the address itself stays parseable. Line breaks are
+// dropped so an address can't add headers of its own to the message.
+function encodeAddress(rawEntry: string): string {
+  const entry = rawEntry.replace(/[\r\n]+/g, ' ');
+  const match = entry.match(/^\s*"?(.*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return entry.trim();
+  const name = encodeHeaderValue(match[1]);
+  return `${name === match[1] ? `"${name.replace(/"/g, '')}"` : name} <${match[2]}>`;
+}
+
+/**
+ * Builds the Gmail `message` resource for a new message, or a reply/reply-all/forward of
+ * `message.original`. Replies carry In-Reply-To/References and the original threadId so they
+ * stay in the same conversation for every recipient; forwards include the original body and
+ * attachments.
+ */
+async function buildMessageResource(
   accessToken: string,
-  to: string,
-  subject: string,
-  body: string,
-  inReplyTo?: string,
-  references?: string
-): Promise<{ id: string; threadId: string }> {
-  
+  message: OutgoingEmail
+): Promise<{ raw: string; threadId?: string }> {
+  const { mode, original } = message;
+  const isReply = !!original && (mode === 'reply' || mode === 'replyAll');
+  const isForward = !!original && mode === 'forward';
+
+  let body = message.body;
+  const attachments = [...(message.attachments ?? [])];
+  if (isForward) {
+    body = buildForwardedBody(message.body, original);
+    for (const attachment of original.attachments ?? []) {
+      const data = await getAttachmentData(accessToken, attachment);
+      attachments.push({
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        data: Buffer.from(data).toString('base64'),
+      });
+    }
+  }
+
+  const multipart = attachments.length > 0 ? buildMultipartBody(body, attachments) : null;
+  const cc = message.cc ?? [];
+  const bcc = message.bcc ?? [];
+
   let rawEmailLines = [
-    `To: ${to}`,
-    `Subject: ${subject}`,
-    `Content-Type: text/plain; charset="UTF-8"`,
+    // Drafts may not have recipients yet
+    ...(message.to.length > 0 ? [`To: ${message.to.map(encodeAddress).join(', ')}`] : []),
+    ...(cc.length > 0 ? [`Cc: ${cc.map(encodeAddress).join(', ')}`] : []),
+    ...(bcc.length > 0 ? [`Bcc: ${bcc.map(encodeAddress).join(', ')}`] : []),
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Content-Type: ${multipart ? multipart.contentType : 'text/plain; charset="UTF-8"'}`,
     `MIME-Version: 1.0`,
-    `Content-Transfer-Encoding: 7bit`,
   ];
-
-  if (inReplyTo) {
-    rawEmailLines.push(`In-Reply-To: ${inReplyTo.startsWith('<') ? inReplyTo : `<${inReplyTo}>`}`);
+  if (!multipart) {
+    // Non-ASCII bodies (smart quotes, names) need base64 rather than 7bit
+    const isAscii = /^[\x00-\x7f]*$/.test(body);
+    rawEmailLines.push(`Content-Transfer-Encoding: ${isAscii ? '7bit' : 'base64'}`);
+    if (!isAscii) {
+      body = wrapBase64(Buffer.from(body, 'utf-8').toString('base64'));
+    }
   }
-  if (references) {
-     rawEmailLines.push(`References: ${references.split(' ').map(ref => ref.startsWith('<') ? ref : `<${ref}>`).join(' ')}`);
+
+  if (isReply && original.messageIdHeader) {
+    rawEmailLines.push(`In-Reply-To: ${original.messageIdHeader}`);
+    // References is the parent's chain plus the parent itself
+    const references = [original.references, original.messageIdHeader].filter(Boolean).join(' ');
+    rawEmailLines.push(`References: ${references}`);
   }
   
   rawEmailLines.push(''); 
-  rawEmailLines.push(body);
+  if (multipart) {
+    rawEmailLines.push(...multipart.lines);
+  } else {
+    rawEmailLines.push(body);
+  }
 
   const rawEmail = rawEmailLines.join('\r\n');
 
@@ -381,12 +903,81 @@ export async function sendEmail(
     .replace(/\//g, '_')
     .replace(/=+$/, ''); 
 
+  return isReply && original.threadId
+    ? { raw: base64UrlEncodedEmail, threadId: original.threadId }
+    : { raw: base64UrlEncodedEmail };
+}
+
+export async function sendEmail(
+  accessToken: string,
+  message: OutgoingEmail
+): Promise<{ id: string; threadId: string }> {
   const response = await makeGmailApiCall<{ id: string; threadId: string }>(
     `/messages/send`,
     accessToken,
     'POST',
-    { raw: base64UrlEncodedEmail }
+    await buildMessageResource(accessToken, message)
   );
   return response;
 }
 
+interface GmailDraft {
+  id: string;
+  message: { id: string; threadId: string };
+}
+
+// Saves `message` as a Gmail draft; replies are attached to the original conversation, while
+// forwards start their own and carry the original's body and attachments.
+export async function createDraft(accessToken: string, message: OutgoingEmail): Promise<GmailDraft> {
+  return makeGmailApiCall<GmailDraft>(
+    `/drafts`,
+    accessToken,
+    'POST',
+    { message: await buildMessageResource(accessToken, message) }
+  );
+}
+
+// Replaces the draft's content. Gmail assigns the draft a new message ID on every update.
+export async function updateDraft(accessToken: string, draftId: string, message: OutgoingEmail): Promise<GmailDraft> {
+  return makeGmailApiCall<GmailDraft>(
+    `/drafts/${draftId}`,
+    accessToken,
+    'PUT',
+    { id: draftId, message: await buildMessageResource(accessToken, message) }
+  );
+}
+
+export async function deleteDraft(accessToken: string, draftId: string): Promise<void> {
+  await makeGmailApiCall<void>(`/drafts/${draftId}`, accessToken, 'DELETE');
+}
+
+// Sends the draft with the given content, which also removes it from the drafts box.
+export async function sendDraft(
+  accessToken: string,
+  draftId: string,
+  message: OutgoingEmail
+): Promise<{ id: string; threadId: string }> {
+  return makeGmailApiCall<{ id: string; threadId: string }>(
+    `/drafts/send`,
+    accessToken,
+    'POST',
+    { id: draftId, message: await buildMessageResource(accessToken, message) }
+  );
+}
+
+// The drafts box lists draft *messages*; this maps one back to its draft ID.
+export async function getDraftIdForMessage(accessToken: string, messageId: string): Promise<string | null> {
+  let pageToken: string | undefined;
+  do {
+    const params = new URLSearchParams({ maxResults: '100', fields: 'nextPageToken,drafts(id,message/id)' });
+    if (pageToken) params.append('pageToken', pageToken);
+    const response = await makeGmailApiCall<{ drafts?: GmailDraft[]; nextPageToken?: string }>(
+      `/drafts?${params.toString()}`,
+      accessToken
+    );
+    const draft = response.drafts?.find(d => d.message.id === messageId);
+    if (draft) return draft.id;
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+  return null;
+}
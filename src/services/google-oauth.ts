@@ -0,0 +1,183 @@
+// Google OAuth 2.0 authorization-code flow, run server-side so the app receives a refresh token
+// (the Firebase popup only hands out hour-long access tokens). Needs GMAIL_CLIENT_ID and
+// GMAIL_CLIENT_SECRET; the redirect URI must be registered on that OAuth client.
+
+import { createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'crypto';
+import { BASE_SCOPE_IDS, getScopeUrls, type GoogleScopeId } from '@/lib/google-scopes';
+
+const AUTHORIZATION_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const USERINFO_URL = 'https://openidconnect.googleapis.com/v1/userinfo';
+const REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+
+const IDENTITY_SCOPES = ['openid', 'email', 'profile'];
+
+// Ties the callback to the browser and user that started the flow
+export const OAUTH_STATE_COOKIE = 'google_oauth_state';
+export const OAUTH_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+export class GoogleOAuthError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = 'GoogleOAuthError';
+  }
+
+  // Google no longer honours the refresh token (revoked, expired or the password changed)
+  get isInvalidGrant(): boolean {
+    return this.code === 'invalid_grant';
+  }
+}
+
+export interface GoogleTokenResponse {
+  accessToken: string;
+  expiresAt: number; // Epoch milliseconds
+  refreshToken?: string; // Only returned by the code exchange
+  scopes: string[];
+}
+
+export interface GoogleUserInfo {
+  email: string;
+  name: string | null;
+  picture: string | null;
+}
+
+function getClientCredentials(): { clientId: string; clientSecret: string } {
+  const clientId = process.env.GMAIL_CLIENT_ID;
+  const clientSecret = process.env.GMAIL_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new GoogleOAuthError('GMAIL_CLIENT_ID and GMAIL_CLIENT_SECRET must be set for offline Google access', 'not_configured');
+  }
+  return { clientId, clientSecret };
+}
+
+export function isGoogleOAuthConfigured(): boolean {
+  return !!process.env.GMAIL_CLIENT_ID && !!process.env.GMAIL_CLIENT_SECRET && !!process.env.TOKEN_ENCRYPTION_KEY;
+}
+
+// The callback route of this app unless GMAIL_OAUTH_REDIRECT_URI overrides it (e.g. behind a proxy)
+export function getRedirectUri(origin: string): string {
+  return process.env.GMAIL_OAUTH_REDIRECT_URI || `${origin}/api/auth/google/callback`;
+}
+
+// Signs state cookies with a key derived from TOKEN_ENCRYPTION_KEY, so the key that seals refresh
+// tokens is never used for anything else
+function getStateSigningKey(): Buffer {
+  const secret = Buffer.from(process.env.TOKEN_ENCRYPTION_KEY ?? '', 'base64');
+  if (secret.length === 0) {
+    throw new GoogleOAuthError('TOKEN_ENCRYPTION_KEY must be set for offline Google access', 'not_configured');
+  }
+  return Buffer.from(hkdfSync('sha256', secret, '', 'google-oauth-state', 32));
+}
+
+function signState(payload: string): Buffer {
+  return createHmac('sha256', getStateSigningKey()).update(payload).digest();
+}
+
+// The `state` sent to Google is a nonce; the cookie remembers it alongside the user it belongs to.
+// The cookie is signed, since the callback trusts the user ID in it.
+export function createOAuthState(userId: string): { state: string; cookieValue: string } {
+  const nonce = randomBytes(16).toString('base64url');
+  const payload = Buffer.from(JSON.stringify({ nonce, userId, issuedAt: Date.now() })).toString('base64url');
+  return { state: nonce, cookieValue: `${payload}.${signState(payload).toString('base64url')}` };
+}
+
+// The user ID the flow was started for, or null when the cookie wasn't signed by this server, has
+// expired or doesn't match the state
+export function verifyOAuthState(cookieValue: string | undefined, state: string | null): string | null {
+  if (!cookieValue || !state) return null;
+  const [payload, signature] = cookieValue.split('.');
+  if (!payload || !signature) return null;
+  try {
+    const expected = signState(payload);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    const { nonce, userId, issuedAt } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof issuedAt !== 'number' || Date.now() - issuedAt > OAUTH_STATE_MAX_AGE_SECONDS * 1000) return null;
+    return nonce === state && typeof userId === 'string' && userId ? userId : null;
+  } catch {
+    return null;
+  }
+}
+
+// `scopeIds` are added to whatever the account already granted (incremental authorization)
+export function buildAuthorizationUrl(redirectUri: string, state: string, scopeIds: GoogleScopeId[], loginHint?: string): string {
+  const { clientId } = getClientCredentials();
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: [...IDENTITY_SCOPES, ...getScopeUrls([...BASE_SCOPE_IDS, ...scopeIds])].join(' '),
+    // offline + consent makes Google issue a refresh token even if the app was approved before
+    access_type: 'offline',
+    prompt: 'consent',
+    include_granted_scopes: 'true',
+    state,
+  });
+  if (loginHint) params.set('login_hint', loginHint);
+  return `${AUTHORIZATION_URL}?${params.toString()}`;
+}
+
+async function postTokenRequest(params: Record<string, string>): Promise<GoogleTokenResponse> {
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params).toString(),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new GoogleOAuthError(data.error_description || data.error || `Token request failed: ${response.status}`, data.error);
+  }
+  return {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + Number(data.expires_in ?? 3600) * 1000,
+    refreshToken: data.refresh_token,
+    scopes: typeof data.scope === 'string' ? data.scope.split(' ') : [],
+  };
+}
+
+export function exchangeAuthorizationCode(code: string, redirectUri: string): Promise<GoogleTokenResponse> {
+  const { clientId, clientSecret } = getClientCredentials();
+  return postTokenRequest({
+    code,
+    client_id: clientId,
+    client_secret: clientSecret,
+    redirect_uri: redirectUri,
+    grant_type: 'authorization_code',
+  });
+}
+
+export function refreshGoogleAccessToken(refreshToken: string): Promise<GoogleTokenResponse> {
+  const { clientId, clientSecret } = getClientCredentials();
+  return postTokenRequest({
+    refresh_token: refreshToken,
+    client_id: clientId,
+    client_secret: clientSecret,
+    grant_type: 'refresh_token',
+  });
+}
+
+export async function getGoogleUserInfo(accessToken: string): Promise<GoogleUserInfo> {
+  const response = await fetch(USERINFO_URL, { headers: { 'Authorization': `Bearer ${accessToken}` } });
+  if (!response.ok) {
+    throw new GoogleOAuthError(`Failed to read the Google account profile: ${response.status}`);
+  }
+  const data = await response.json();
+  if (!data.email) {
+    throw new GoogleOAuthError('Google did not return an email address for this account');
+  }
+  return { email: data.email, name: data.name ?? null, picture: data.picture ?? null };
+}
+
+// Revoking a refresh token also invalidates the access tokens issued from it
+export async function revokeGoogleToken(token: string): Promise<void> {
+  const response = await fetch(REVOKE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ token }).toString(),
+  });
+  if (!response.ok && response.status !== 400) {
+    // 400 means the token was already invalid, which is the outcome we wanted
+    throw new GoogleOAuthError(`Failed to revoke Google token: ${response.status}`);
+  }
+}
@@ -0,0 +1,478 @@
+/**
+ * IMAP/SMTP mail provider for mailboxes outside Gmail. Server-only: it opens raw TCP
+ * connections, so it must be used from API routes rather than client components.
+ *
+ * IMAP has no stable cross-folder thread IDs, so conversations are rebuilt from headers: a
+ * thread is identified by the first Message-ID in its References chain (or In-Reply-To, or the
+ * message's own Message-ID) and gathered from the inbox and the Sent folder.
+ */
+import { ImapFlow, type FetchMessageObject, type ListResponse, type MessageAddressObject, type SearchObject } from 'imapflow';
+import nodemailer from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import type Mail from 'nodemailer/lib/mailer';
+import { simpleParser, type AddressObject, type ParsedMail } from 'mailparser';
+import { formatDistanceToNowStrict } from 'date-fns';
+import type {
+  Email,
+  EmailAttachment,
+  EmailBoxType,
+  EmailPage,
+  ImapAccountConfig,
+  MailThread,
+  MessageListSource,
+  OutgoingEmail,
+} from '@/types/mail';
+import type { MailProvider, MailProviderProfile, SentMessage, ThreadBatch } from '@/services/mail-provider';
+import { resolveMailServer } from '@/services/mail-server-guard';
+import { buildForwardedBody } from '@/lib/mail-utils';
+
+const INBOX = 'INBOX';
+// Used when the server doesn't advertise SPECIAL-USE folders
+const FALLBACK_FOLDERS: Record<'\\Sent' | '\\Drafts', string> = {
+  '\\Sent': 'Sent',
+  '\\Drafts': 'Drafts',
+};
+
+// Message IDs encode the folder and UID so a message can be fetched again without searching
+function encodeMessageId(path: string, uid: number): string {
+  return Buffer.from(JSON.stringify([path, uid]), 'utf-8').toString('base64url');
+}
+
+function decodeMessageId(id: string): { path: string; uid: number } {
+  const [path, uid] = JSON.parse(Buffer.from(id, 'base64url').toString('utf-8')) as [string, number];
+  return { path, uid };
+}
+
+function encodeThreadId(rootMessageId: string): string {
+  return Buffer.from(rootMessageId, 'utf-8').toString('base64url');
+}
+
+function decodeThreadId(threadId: string): string {
+  return Buffer.from(threadId, 'base64url').toString('utf-8');
+}
+
+function getThreadRoot(references: string | undefined, inReplyTo: string | undefined, messageId: string | undefined): string | undefined {
+  const firstReference = references?.match(/<[^>]+>/)?.[0];
+  return firstReference ?? inReplyTo?.match(/<[^>]+>/)?.[0] ?? messageId;
+}
+
+// Pulls one header out of a raw header block, unfolding continuation lines
+function readRawHeader(rawHeaders: Buffer | undefined, name: string): string | undefined {
+  if (!rawHeaders) return undefined;
+  const unfolded = rawHeaders.toString('utf-8').replace(/\r?\n[ \t]+/g, ' ');
+  const match = unfolded.match(new RegExp(`^${name}:\\s*(.*)$`, 'im'));
+  return match?.[1].trim();
+}
+
+function formatEnvelopeAddress(address: MessageAddressObject): string {
+  return address.name ? `${address.name} <${address.address}>` : address.address ?? '';
+}
+
+function formatParsedAddresses(field: AddressObject | AddressObject[] | undefined): string[] {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  return objects
+    .flatMap(object => object.value)
+    .filter(address => !!address.address)
+    .map(address => (address.name ? `${address.name} <${address.address}>` : address.address!));
+}
+
+function formatReceivedTime(date: Date | undefined): string {
+  if (!date || Number.isNaN(date.getTime())) return 'Unknown time';
+  return formatDistanceToNowStrict(date, { addSuffix: true });
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(br|\/p|\/div|\/li|\/tr)[^>]*>/gi, '\n')
+    .replace(/<[^>]*>?/gm, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Gmail-style label IDs derived from the folder and IMAP flags, so list filtering, optimistic
+ * updates and the learner treat IMAP messages the same way as Gmail ones.
+ */
+function getLabelIds(path: string, specialUse: string | undefined, flags: Set<string> | undefined): string[] {
+  const labelIds: string[] = [];
+  if (path === INBOX) labelIds.push('INBOX');
+  if (specialUse === '\\Sent') labelIds.push('SENT');
+  if (specialUse === '\\Drafts' || flags?.has('\\Draft')) labelIds.push('DRAFT');
+  if (!flags?.has('\\Seen')) labelIds.push('UNREAD');
+  if (flags?.has('\\Flagged')) labelIds.push('STARRED');
+  return labelIds;
+}
+
+function withLabelFlags(email: Omit<Email, 'read' | 'starred' | 'isDraft'>): Email {
+  const labelIds = email.labelIds ?? [];
+  return {
+    ...email,
+    read: !labelIds.includes('UNREAD'),
+    starred: labelIds.includes('STARRED'),
+    isDraft: labelIds.includes('DRAFT'),
+  };
+}
+
+// MailProvider for a standard IMAP mailbox, sending through SMTP
+export class ImapMailProvider implements MailProvider {
+  readonly kind = 'imap' as const;
+  private mailboxes: ListResponse[] | null = null;
+
+  constructor(private readonly account: ImapAccountConfig) {}
+
+  async listEmails(source: MessageListSource, maxResults = 20, pageToken?: string): Promise<EmailPage> {
+    return this.withClient(async (client) => {
+      const { path, search } = await this.resolveSource(client, source);
+      return this.withMailbox(client, path, async () => {
+        const uids = await this.searchUids(client, search);
+        // Page tokens are offsets into the newest-first UID list
+        const offset = pageToken ? parseInt(pageToken, 10) : 0;
+        const pageUids = uids.slice(offset, offset + maxResults);
+        if (pageUids.length === 0) return { emails: [] };
+
+        const messages = await client.fetchAll(
+          pageUids,
+          { uid: true, envelope: true, flags: true, internalDate: true, headers: ['references'] },
+          { uid: true }
+        );
+        const specialUse = await this.getSpecialUse(client, path);
+        const emails = messages
+          .map(message => this.mapEnvelopeToEmail(path, specialUse, message))
+          .sort((a, b) => Number(b.internalDate ?? 0) - Number(a.internalDate ?? 0));
+
+        const nextOffset = offset + maxResults;
+        return { emails, nextPageToken: nextOffset < uids.length ? String(nextOffset) : undefined };
+      });
+    });
+  }
+
+  async getEmail(id: string): Promise<Email | null> {
+    try {
+      const { path, uid } = decodeMessageId(id);
+      return await this.withClient(client => this.withMailbox(client, path, () => this.fetchFullMessage(client, path, uid)));
+    } catch (error) {
+      console.error(`[ImapProvider] Error fetching message ${id}:`, error);
+      return null;
+    }
+  }
+
+  async getThread(threadId: string): Promise<MailThread | null> {
+    try {
+      return await this.withClient(client => this.fetchThread(client, threadId));
+    } catch (error) {
+      console.error(`[ImapProvider] Error fetching thread ${threadId}:`, error);
+      return null;
+    }
+  }
+
+  async sendEmail(message: OutgoingEmail): Promise<SentMessage> {
+    const { mode, original } = message;
+    const isReply = !!original && (mode === 'reply' || mode === 'replyAll');
+    const isForward = !!original && mode === 'forward';
+
+    const attachments: Mail.Attachment[] = (message.attachments ?? []).map(attachment => ({
+      filename: attachment.filename,
+      contentType: attachment.mimeType,
+      content: attachment.data,
+      encoding: 'base64',
+    }));
+    if (isForward) {
+      for (const attachment of original.attachments ?? []) {
+        if (!attachment.data) continue; // Only attachments fetched with the message can be forwarded
+        attachments.push({
+          filename: attachment.filename,
+          contentType: attachment.mimeType,
+          content: Buffer.from(attachment.data, 'base64url'),
+        });
+      }
+    }
+
+    const references = isReply ? [original.references, original.messageIdHeader].filter(Boolean).join(' ') : undefined;
+    const mimeMessage = new MailComposer({
+      from: this.account.displayName
+        ? { name: this.account.displayName, address: this.account.emailAddress }
+        : this.account.emailAddress,
+      to: message.to,
+      cc: message.cc,
+      bcc: message.bcc,
+      subject: message.subject,
+      text: isForward ? buildForwardedBody(message.body, original) : message.body,
+      inReplyTo: isReply ? original.messageIdHeader : undefined,
+      references: references || undefined,
+      attachments,
+    }).compile();
+
+    const envelope = mimeMessage.getEnvelope();
+    const raw = await mimeMessage.build();
+    const smtpServer = await resolveMailServer(this.account.smtp, 'smtp');
+    const transport = nodemailer.createTransport({
+      host: smtpServer.host,
+      port: this.account.smtp.port,
+      secure: this.account.smtp.secure,
+      tls: smtpServer.servername ? { servername: smtpServer.servername } : undefined,
+      auth: { user: this.account.username, pass: this.account.password },
+    });
+    await transport.sendMail({ envelope, raw });
+
+    const messageIdHeader = mimeMessage.messageId();
+    const threadId = encodeThreadId(getThreadRoot(references, undefined, messageIdHeader) ?? messageIdHeader);
+
+    // Unlike Gmail, SMTP servers don't keep a copy; store one so the reply shows up in the thread
+    try {
+      const stored = await this.withClient(async (client) => {
+        const sentPath = await this.getSpecialUsePath(client, '\\Sent');
+        const appended = await client.append(sentPath, raw, ['\\Seen']);
+        return appended && appended.uid ? encodeMessageId(sentPath, appended.uid) : null;
+      });
+      return { id: stored ?? messageIdHeader, threadId };
+    } catch (error) {
+      console.warn('[ImapProvider] Message sent but could not be saved to the Sent folder:', error);
+      return { id: messageIdHeader, threadId };
+    }
+  }
+
+  async getProfile(): Promise<MailProviderProfile> {
+    return this.withClient(async (client) => {
+      const status = await client.status(INBOX, { messages: true });
+      return {
+        emailAddress: this.account.emailAddress,
+        messagesTotal: status ? status.messages : undefined,
+      };
+    });
+  }
+
+  async listSentThreadIds(since: Date, maxThreads: number): Promise<string[]> {
+    return this.withClient(async (client) => {
+      const sentPath = await this.getSpecialUsePath(client, '\\Sent');
+      return this.withMailbox(client, sentPath, async () => {
+        const uids = await this.searchUids(client, { since });
+        const threadIds: string[] = [];
+        const seen = new Set<string>();
+
+        // Walk newest first until enough distinct conversations are found
+        for (let start = 0; start < uids.length && threadIds.length < maxThreads; start += 200) {
+          const messages = await client.fetchAll(
+            uids.slice(start, start + 200),
+            { uid: true, envelope: true, internalDate: true, headers: ['references'] },
+            { uid: true }
+          );
+          messages.sort((a, b) => new Date(b.internalDate ?? 0).getTime() - new Date(a.internalDate ?? 0).getTime());
+          for (const message of messages) {
+            const root = getThreadRoot(
+              readRawHeader(message.headers, 'references'),
+              message.envelope?.inReplyTo,
+              message.envelope?.messageId
+            );
+            if (!root || seen.has(root)) continue;
+            seen.add(root);
+            threadIds.push(encodeThreadId(root));
+            if (threadIds.length >= maxThreads) break;
+          }
+        }
+        return threadIds;
+      });
+    });
+  }
+
+  async getThreadsByIds(threadIds: string[]): Promise<ThreadBatch> {
+    // Connection and login failures throw; per-thread failures are collected
+    return this.withClient(async (client) => {
+      const threads: MailThread[] = [];
+      const failed: { id: string; error: Error }[] = [];
+      for (const threadId of threadIds) {
+        try {
+          const thread = await this.fetchThread(client, threadId);
+          if (thread) threads.push(thread);
+        } catch (error) {
+          failed.push({ id: threadId, error: error as Error });
+        }
+      }
+      return { threads, failed };
+    });
+  }
+
+  private async withClient<T>(task: (client: ImapFlow) => Promise<T>): Promise<T> {
+    const imapServer = await resolveMailServer(this.account.imap, 'imap');
+    const client = new ImapFlow({
+      host: imapServer.host,
+      servername: imapServer.servername,
+      port: this.account.imap.port,
+      secure: this.account.imap.secure,
+      auth: { user: this.account.username, pass: this.account.password },
+      logger: false,
+      disableAutoIdle: true,
+    });
+    await client.connect();
+    try {
+      return await task(client);
+    } finally {
+      await client.logout().catch(() => undefined);
+    }
+  }
+
+  private async withMailbox<T>(client: ImapFlow, path: string, task: () => Promise<T>): Promise<T> {
+    const lock = await client.getMailboxLock(path, { readOnly: true });
+    try {
+      return await task();
+    } finally {
+      lock.release();
+    }
+  }
+
+  private async listMailboxes(client: ImapFlow): Promise<ListResponse[]> {
+    if (!this.mailboxes) {
+      this.mailboxes = await client.list();
+    }
+    return this.mailboxes;
+  }
+
+  private async getSpecialUse(client: ImapFlow, path: string): Promise<string | undefined> {
+    const mailboxes = await this.listMailboxes(client);
+    return mailboxes.find(mailbox => mailbox.path === path)?.specialUse;
+  }
+
+  private async getSpecialUsePath(client: ImapFlow, specialUse: '\\Sent' | '\\Drafts'): Promise<string> {
+    const mailboxes = await this.listMailboxes(client);
+    return mailboxes.find(mailbox => mailbox.specialUse === specialUse)?.path ?? FALLBACK_FOLDERS[specialUse];
+  }
+
+  // Boxes map to folders; user "labels" are folder paths. Searches run against the inbox.
+  private async resolveSource(client: ImapFlow, source: MessageListSource): Promise<{ path: string; search: SearchObject }> {
+    if ('query' in source) {
+      return { path: INBOX, search: { text: source.query } };
+    }
+    const boxType: EmailBoxType = source.boxType;
+    if (boxType.startsWith('label:')) {
+      return { path: boxType.substring('label:'.length), search: { all: true } };
+    }
+    switch (boxType) {
+      case 'unread': return { path: INBOX, search: { seen: false } };
+      case 'sent': return { path: await this.getSpecialUsePath(client, '\\Sent'), search: { all: true } };
+      case 'drafts': return { path: await this.getSpecialUsePath(client, '\\Drafts'), search: { all: true } };
+      default: return { path: INBOX, search: { all: true } };
+    }
+  }
+
+  // UIDs grow with arrival order, so descending UIDs approximate newest first
+  private async searchUids(client: ImapFlow, search: SearchObject): Promise<number[]> {
+    const uids = await client.search(search, { uid: true });
+    return (uids || []).sort((a, b) => b - a);
+  }
+
+  private mapEnvelopeToEmail(path: string, specialUse: string | undefined, message: FetchMessageObject): Email {
+    const envelope = message.envelope;
+    const from = envelope?.from?.[0];
+    const senderEmail = from?.address ?? 'unknown@example.com';
+    const receivedAt = message.internalDate ? new Date(message.internalDate) : undefined;
+    const references = readRawHeader(message.headers, 'references');
+    const root = getThreadRoot(references, envelope?.inReplyTo, envelope?.messageId);
+
+    return withLabelFlags({
+      id: encodeMessageId(path, message.uid),
+      threadId: root ? encodeThreadId(root) : undefined,
+      sender: from?.name || senderEmail.split('@')[0],
+      senderEmail,
+      subject: envelope?.subject || '(No Subject)',
+      body: '',
+      snippet: '',
+      receivedTime: formatReceivedTime(receivedAt),
+      labelIds: getLabelIds(path, specialUse, message.flags),
+      internalDate: receivedAt ? String(receivedAt.getTime()) : undefined,
+      messageIdHeader: envelope?.messageId,
+      references,
+      inReplyTo: envelope?.inReplyTo,
+      to: envelope?.to?.map(formatEnvelopeAddress),
+      cc: envelope?.cc?.map(formatEnvelopeAddress),
+    });
+  }
+
+  private async fetchFullMessage(client: ImapFlow, path: string, uid: number): Promise<Email | null> {
+    const message = await client.fetchOne(String(uid), { uid: true, source: true, flags: true, internalDate: true }, { uid: true });
+    if (!message || !message.source) return null;
+
+    const parsed = await simpleParser(message.source);
+    const specialUse = await this.getSpecialUse(client, path);
+    return this.mapParsedToEmail(encodeMessageId(path, uid), parsed, message, getLabelIds(path, specialUse, message.flags));
+  }
+
+  private mapParsedToEmail(id: string, parsed: ParsedMail, message: FetchMessageObject, labelIds: string[]): Email {
+    const from = parsed.from?.value[0];
+    const senderEmail = from?.address ?? 'unknown@example.com';
+    const receivedAt = message.internalDate ? new Date(message.internalDate) : parsed.date;
+    const references = Array.isArray(parsed.references) ? parsed.references.join(' ') : parsed.references;
+    const root = getThreadRoot(references, parsed.inReplyTo, parsed.messageId);
+    const htmlBody = parsed.html || undefined;
+    const body = (parsed.text ?? (htmlBody ? stripHtml(htmlBody) : '')).replace(/\r\n/g, '\n').trim();
+
+    const headers: Record<string, string> = {};
+    for (const { key, line } of parsed.headerLines) {
+      headers[key] = line.substring(line.indexOf(':') + 1).replace(/\r?\n[ \t]+/g, ' ').trim();
+    }
+
+    const attachments: EmailAttachment[] = parsed.attachments.map((attachment, index) => ({
+      messageId: id,
+      partId: attachment.partId ?? String(index),
+      data: attachment.content.toString('base64url'),
+      filename: attachment.filename || `attachment-${index + 1}`,
+      mimeType: attachment.contentType,
+      size: attachment.size,
+      contentId: attachment.contentId?.replace(/^<|>$/g, ''),
+    }));
+
+    return withLabelFlags({
+      id,
+      threadId: root ? encodeThreadId(root) : undefined,
+      sender: from?.name || senderEmail.split('@')[0],
+      senderEmail,
+      subject: parsed.subject || '(No Subject)',
+      body,
+      htmlBody,
+      snippet: body.substring(0, 200),
+      receivedTime: formatReceivedTime(receivedAt),
+      labelIds,
+      attachments,
+      internalDate: receivedAt ? String(receivedAt.getTime()) : undefined,
+      messageIdHeader: parsed.messageId,
+      references,
+      replyTo: formatParsedAddresses(parsed.replyTo),
+      to: formatParsedAddresses(parsed.to),
+      cc: formatParsedAddresses(parsed.cc),
+      bcc: formatParsedAddresses(parsed.bcc),
+      inReplyTo: parsed.inReplyTo,
+      headers,
+    });
+  }
+
+  // Collects every message in the inbox and Sent folder that belongs to the conversation
+  private async fetchThread(client: ImapFlow, threadId: string): Promise<MailThread | null> {
+    const root = decodeThreadId(threadId);
+    const search: SearchObject = {
+      or: [
+        { header: { 'message-id': root } },
+        { header: { references: root } },
+        { header: { 'in-reply-to': root } },
+      ],
+    };
+
+    const messages: Email[] = [];
+    const seenMessageIds = new Set<string>();
+    for (const path of [INBOX, await this.getSpecialUsePath(client, '\\Sent')]) {
+      await this.withMailbox(client, path, async () => {
+        for (const uid of await this.searchUids(client, search)) {
+          const email = await this.fetchFullMessage(client, path, uid);
+          // Mail sent to yourself sits in both folders
+          if (!email || (email.messageIdHeader && seenMessageIds.has(email.messageIdHeader))) continue;
+          if (email.messageIdHeader) seenMessageIds.add(email.messageIdHeader);
+          messages.push(email);
+        }
+      });
+    }
+
+    if (messages.length === 0) return null;
+    messages.sort((a, b) => Number(a.internalDate ?? 0) - Number(b.internalDate ?? 0));
+    return { id: threadId, subject: messages[0].subject, messages };
+  }
+}
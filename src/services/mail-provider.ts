@@ -0,0 +1,47 @@
+import type { Email, EmailPage, MailThread, MessageListSource, OutgoingEmail } from '@/types/mail';
+
+export type MailProviderKind = 'gmail' | 'imap';
+
+export interface MailProviderProfile {
+  emailAddress: string;
+  messagesTotal?: number;
+  threadsTotal?: number;
+  // Point in the mailbox's change history, for providers that keep one (Gmail)
+  historyId?: string;
+}
+
+export interface SentMessage {
+  id: string;
+  threadId?: string;
+}
+
+export interface ThreadBatch {
+  threads: MailThread[];
+  failed: { id: string; error: Error }[];
+}
+
+/**
+ * What the personal-context learner needs from a mailbox, shaped after the Gmail calls the mail
+ * UI makes. Only the learner goes through it so far: /mail and its sync engine still call
+ * src/services/gmail.ts directly, so IMAP mailboxes can't be browsed there. Each instance is
+ * bound to one account's credentials. IDs (message and thread) are opaque strings owned by the
+ * provider that issued them; they are only meaningful when passed back to the same provider.
+ */
+export interface MailProvider {
+  readonly kind: MailProviderKind;
+
+  listEmails(source: MessageListSource, maxResults?: number, pageToken?: string): Promise<EmailPage>;
+  // Full message (body, HTML alternative, attachments); null when it no longer exists
+  getEmail(id: string): Promise<Email | null>;
+  getThread(threadId: string): Promise<MailThread | null>;
+  sendEmail(message: OutgoingEmail): Promise<SentMessage>;
+  getProfile(): Promise<MailProviderProfile>;
+
+  // Threads the account owner sent at least one message in since `since`, newest first
+  listSentThreadIds(since: Date, maxThreads: number): Promise<string[]>;
+  // Threads the owner sent messages in after `historyId` (from getProfile), most recent first.
+  // Null when the provider no longer has that history. Only providers with a history implement it.
+  listSentThreadIdsSince?(historyId: string, maxThreads: number): Promise<string[] | null>;
+  // Full threads; failures are reported per thread, auth failures throw
+  getThreadsByIds(threadIds: string[]): Promise<ThreadBatch>;
+}
@@ -0,0 +1,101 @@
+// Server-only: vets the IMAP/SMTP servers users post before the server connects to them, so an
+// account can't be used to reach hosts inside the server's own network. Hosts are resolved here
+// and the connection goes to the checked address, which keeps a second DNS answer from
+// switching it to another one.
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import type { ImapAccountConfig, MailServerConfig } from '@/types/mail';
+import { IMAP_PORTS, SMTP_PORTS } from '@/lib/schemas/personal-context';
+
+export class MailServerRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailServerRejectedError';
+  }
+}
+
+// Where to connect, and the name to present for TLS when the host isn't an IP address
+export interface MailServerTarget {
+  host: string;
+  servername?: string;
+}
+
+// Loopback, private, shared, link-local (cloud metadata lives at 169.254.169.254), multicast
+// and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host they embed
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// MAIL_SERVER_ALLOWED_HOSTS exempts trusted hosts from the checks, e.g. a self-hosted server on
+// the local network or a GreenMail test server on localhost
+function isAllowedHost(host: string): boolean {
+  const allowed = (process.env.MAIL_SERVER_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return allowed.includes(host.toLowerCase());
+}
+
+/**
+ * Resolves a user-supplied mail server and checks it may be connected to: a standard port for
+ * the protocol and only public addresses. Throws MailServerRejectedError otherwise.
+ */
+export async function resolveMailServer(server: MailServerConfig, protocol: 'imap' | 'smtp'): Promise<MailServerTarget> {
+  const host = server.host.trim();
+  if (isAllowedHost(host)) {
+    return { host };
+  }
+
+  const ports = protocol === 'imap' ? IMAP_PORTS : SMTP_PORTS;
+  if (!ports.includes(server.port)) {
+    throw new MailServerRejectedError(`${protocol.toUpperCase()} port ${server.port} isn't allowed; use ${ports.join(', ')}`);
+  }
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      throw new MailServerRejectedError(`Couldn't resolve the ${protocol.toUpperCase()} server ${host}`);
+    }
+  }
+  // Every answer is checked, since the connection could otherwise land on any of them
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new MailServerRejectedError(`The ${protocol.toUpperCase()} server ${host} isn't a public address`);
+  }
+  return isIP(host) ? { host } : { host: addresses[0], servername: host };
+}
+
+// Checks both servers of an account up front, so a bad one is reported before a job is queued
+export async function checkImapAccount(account: ImapAccountConfig): Promise<void> {
+  await Promise.all([resolveMailServer(account.imap, 'imap'), resolveMailServer(account.smtp, 'smtp')]);
+}
@@ -0,0 +1,224 @@
+import type { Email, EmailPage, MailboxAction, MessageListSource } from '@/types/mail';
+import {
+  GmailNotFoundError,
+  getMailboxHistoryId,
+  getMessagesMetadata,
+  listHistory,
+  listMessageIds,
+} from '@/services/gmail';
+import { applyMailboxActionToEmail, getLabelIdsAfterAction, isInBox } from '@/lib/mail-utils';
+
+export type SyncResult = 'unchanged' | 'updated' | 'reset';
+
+interface CachedList {
+  source: MessageListSource;
+  ids: string[]; // Newest first, as Gmail lists them
+  nextPageToken?: string;
+}
+
+function getListKey(source: MessageListSource): string {
+  return 'query' in source ? `q:${source.query}` : `box:${source.boxType}`;
+}
+
+function withLabelState(email: Email, labelIds: string[]): Email {
+  return {
+    ...email,
+    labelIds,
+    read: !labelIds.includes('UNREAD'),
+    starred: labelIds.includes('STARRED'),
+    isDraft: labelIds.includes('DRAFT'),
+  };
+}
+
+/**
+ * Client-side mailbox cache kept current with Gmail's history API. Lists are fetched once;
+ * afterwards `sync` replays only what changed since the last known history ID (new mail,
+ * deletions, label changes) and only fetches metadata for messages it hasn't seen.
+ * When Gmail no longer has the history (it expires after about a week) the cache is dropped
+ * and callers reload from scratch.
+ */
+export class MailSyncEngine {
+  private messages = new Map<string, Email>();
+  private lists = new Map<string, CachedList>();
+  private historyId: string | null = null;
+  private pendingSync: Promise<SyncResult> | null = null;
+
+  getCachedPage(source: MessageListSource): EmailPage | null {
+    const list = this.lists.get(getListKey(source));
+    if (!list) return null;
+    return {
+      emails: list.ids.map(id => this.messages.get(id)).filter((email): email is Email => !!email),
+      nextPageToken: list.nextPageToken,
+    };
+  }
+
+  // Fetches the first page of a list from Gmail, replacing whatever was cached for it
+  async loadList(accessToken: string, source: MessageListSource, pageSize = 20): Promise<EmailPage> {
+    if (!this.historyId) {
+      // Taken before listing so nothing that happens meanwhile is missed by the next sync
+      this.historyId = await getMailboxHistoryId(accessToken);
+    }
+    const { ids, nextPageToken } = await listMessageIds(accessToken, source, pageSize);
+    await this.hydrate(accessToken, ids);
+    this.lists.set(getListKey(source), { source, ids: ids.filter(id => this.messages.has(id)), nextPageToken });
+    return this.getCachedPage(source)!;
+  }
+
+  async loadMore(accessToken: string, source: MessageListSource, pageSize = 20): Promise<EmailPage> {
+    const list = this.lists.get(getListKey(source));
+    if (!list?.nextPageToken) return this.getCachedPage(source) ?? { emails: [] };
+
+    const { ids, nextPageToken } = await listMessageIds(accessToken, source, pageSize, list.nextPageToken);
+    await this.hydrate(accessToken, ids);
+    // Mail that arrives between page requests shifts Gmail's result window, so pages can overlap
+    const seen = new Set(list.ids);
+    list.ids.push(...ids.filter(id => !seen.has(id) && this.messages.has(id)));
+    list.nextPageToken = nextPageToken;
+    return this.getCachedPage(source)!;
+  }
+
+  // Concurrent callers share one in-flight sync
+  sync(accessToken: string): Promise<SyncResult> {
+    if (!this.pendingSync) {
+      this.pendingSync = this.runSync(accessToken).finally(() => {
+        this.pendingSync = null;
+      });
+    }
+    return this.pendingSync;
+  }
+
+  // Optimistically reflects a mailbox action in the cache before Gmail confirms it. Every cached
+  // list drops the messages that no longer belong in it, and box lists take in the ones that now do.
+  applyLocalAction(ids: string[], action: MailboxAction): void {
+    for (const id of ids) {
+      const email = this.messages.get(id);
+      if (!email) continue;
+
+      if (action.type === 'trash') {
+        this.removeMessage(id);
+        continue;
+      }
+      for (const list of this.lists.values()) {
+        const index = list.ids.indexOf(id);
+        // Searches can't be re-run locally; archived mail still matches most of them, but it has
+        // left the view the user acted on
+        const boxType = 'boxType' in list.source ? list.source.boxType : undefined;
+        if (index !== -1 && !applyMailboxActionToEmail(email, action, boxType)) {
+          list.ids.splice(index, 1);
+        }
+      }
+      this.setLabels(email, getLabelIdsAfterAction(email.labelIds ?? [], action));
+    }
+  }
+
+  reset(): void {
+    this.messages.clear();
+    this.lists.clear();
+    this.historyId = null;
+  }
+
+  private async runSync(accessToken: string): Promise<SyncResult> {
+    if (!this.historyId) return 'unchanged';
+
+    let history;
+    try {
+      history = await listHistory(accessToken, this.historyId);
+    } catch (error) {
+      if (error instanceof GmailNotFoundError) {
+        console.warn('[MailSync] History ID expired; dropping the cache for a full resync.');
+        this.reset();
+        return 'reset';
+      }
+      throw error;
+    }
+
+    const changedIds = Object.keys(history.messageLabels);
+    if (changedIds.length === 0 && history.deletedIds.length === 0) {
+      this.historyId = history.historyId;
+      return 'unchanged';
+    }
+
+    history.deletedIds.forEach(id => this.removeMessage(id));
+
+    // New messages can only be placed in box lists once their metadata is known
+    const unseenIds = changedIds.filter(id => !this.messages.has(id) && this.wouldJoinAnyBox(history.messageLabels[id]));
+    await this.hydrate(accessToken, unseenIds);
+    if (changedIds.some(id => !this.messages.has(id))) {
+      // Search results can't be evaluated locally; refetch them on next view
+      for (const [key, list] of this.lists) {
+        if ('query' in list.source) this.lists.delete(key);
+      }
+    }
+
+    for (const id of changedIds) {
+      const email = this.messages.get(id);
+      if (email) this.setLabels(email, history.messageLabels[id]);
+    }
+
+    this.historyId = history.historyId;
+    console.log(`[MailSync] Applied ${changedIds.length} changed and ${history.deletedIds.length} deleted messages.`);
+    return 'updated';
+  }
+
+  private async hydrate(accessToken: string, ids: string[]): Promise<void> {
+    const missing = ids.filter(id => !this.messages.has(id));
+    if (missing.length === 0) return;
+    const emails = await getMessagesMetadata(accessToken, missing);
+    emails.forEach(email => this.messages.set(email.id, email));
+  }
+
+  private wouldJoinAnyBox(labelIds: string[]): boolean {
+    for (const list of this.lists.values()) {
+      if ('boxType' in list.source && isInBox(list.source.boxType, labelIds)) return true;
+    }
+    return false;
+  }
+
+  // Updates a cached message's labels and moves it in or out of the cached box lists
+  private setLabels(email: Email, labelIds: string[]): void {
+    const updated = withLabelState(email, labelIds);
+    this.messages.set(updated.id, updated);
+
+    for (const list of this.lists.values()) {
+      if (!('boxType' in list.source)) continue;
+      const index = list.ids.indexOf(updated.id);
+      const belongs = isInBox(list.source.boxType, labelIds);
+      if (!belongs && index !== -1) {
+        list.ids.splice(index, 1);
+      } else if (belongs && index === -1) {
+        this.insertByDate(list, updated);
+      }
+    }
+  }
+
+  private insertByDate(list: CachedList, email: Email): void {
+    const date = Number(email.internalDate ?? 0);
+    const position = list.ids.findIndex(id => Number(this.messages.get(id)?.internalDate ?? 0) < date);
+    if (position === -1) {
+      // Older than everything loaded: only append if there is no unloaded tail it belongs in
+      if (!list.nextPageToken) list.ids.push(email.id);
+      return;
+    }
+    list.ids.splice(position, 0, email.id);
+  }
+
+  private removeMessage(id: string): void {
+    this.messages.delete(id);
+    for (const list of this.lists.values()) {
+      const index = list.ids.indexOf(id);
+      if (index !== -1) list.ids.splice(index, 1);
+    }
+  }
+}
+
+// One cache per signed-in account, kept for the lifetime of the browser tab
+const engines = new Map<string, MailSyncEngine>();
+
+export function getMailSyncEngine(accountKey: string): MailSyncEngine {
+  let engine = engines.get(accountKey);
+  if (!engine) {
+    engine = new MailSyncEngine();
+    engines.set(accountKey, engine);
+  }
+  return engine;
+}
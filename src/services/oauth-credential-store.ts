@@ -0,0 +1,190 @@
+// Server-only: encrypted Google refresh tokens per user and connected account, and the access
+// tokens minted from them. Refresh tokens are sealed with AES-256-GCM under TOKEN_ENCRYPTION_KEY
+// (32 bytes, base64) before they reach Firestore, so a leaked document is useless on its own.
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { setGmailTokenRefresher } from '@/services/gmail-client';
+import { GoogleOAuthError, refreshGoogleAccessToken, revokeGoogleToken } from '@/services/google-oauth';
+
+const COLLECTION = 'oauth_credentials';
+const CIPHER = 'aes-256-gcm';
+const IV_BYTES = 12;
+// Refresh a little early so a token never expires halfway through a request
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+export type OAuthCredentialErrorCode = 'missing' | 'revoked';
+
+export class OAuthCredentialError extends Error {
+  constructor(message: string, public readonly code: OAuthCredentialErrorCode) {
+    super(message);
+    this.name = 'OAuthCredentialError';
+  }
+}
+
+export interface IssuedAccessToken {
+  accessToken: string;
+  expiresAt: number;
+  scopes: string[];
+}
+
+interface StoredCredentialDocument {
+  userId: string;
+  accountId: string;
+  email: string;
+  encryptedRefreshToken: string;
+  scopes: string[];
+}
+
+function getEncryptionKey(): Buffer {
+  const key = Buffer.from(process.env.TOKEN_ENCRYPTION_KEY ?? '', 'base64');
+  if (key.length !== 32) {
+    throw new Error('TOKEN_ENCRYPTION_KEY must be 32 bytes encoded as base64 (e.g. `openssl rand -base64 32`)');
+  }
+  return key;
+}
+
+// iv.authTag.ciphertext, each base64url
+function encryptToken(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+function decryptToken(sealed: string): string {
+  const [iv, authTag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv(CIPHER, getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+function getCredentialKey(userId: string, accountId: string): string {
+  return `${userId}:${accountId.toLowerCase()}`;
+}
+
+export class OAuthCredentialStore {
+  private static instance: OAuthCredentialStore;
+
+  private accessTokens = new Map<string, IssuedAccessToken>();
+  // Access token -> credential it was minted from, so an expired one can be traced back and renewed.
+  // Only each credential's latest token is kept: an entry goes when its token is replaced.
+  private issuedBy = new Map<string, { userId: string; accountId: string }>();
+  private pendingRefreshes = new Map<string, Promise<IssuedAccessToken>>();
+
+  private constructor() {}
+
+  public static getInstance(): OAuthCredentialStore {
+    if (!OAuthCredentialStore.instance) {
+      OAuthCredentialStore.instance = new OAuthCredentialStore();
+    }
+    return OAuthCredentialStore.instance;
+  }
+
+  async saveCredentials(userId: string, accountId: string, email: string, refreshToken: string, scopes: string[]): Promise<void> {
+    const data: StoredCredentialDocument = {
+      userId,
+      accountId: accountId.toLowerCase(),
+      email,
+      encryptedRefreshToken: encryptToken(refreshToken),
+      scopes,
+    };
+    await adminDb.collection(COLLECTION).doc(getCredentialKey(userId, accountId)).set({
+      ...data,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    this.forgetAccessToken(getCredentialKey(userId, accountId));
+    console.log(`[OAuthCredentialStore] Stored refresh token for ${email} (user ${userId})`);
+  }
+
+  async hasCredentials(userId: string, accountId: string): Promise<boolean> {
+    const snapshot = await adminDb.collection(COLLECTION).doc(getCredentialKey(userId, accountId)).get();
+    return snapshot.exists;
+  }
+
+  /**
+   * A valid access token for the account, refreshed from the stored refresh token when the cached
+   * one is close to expiring. Throws OAuthCredentialError when there is nothing stored or Google
+   * has revoked the grant (the stored token is deleted then, and the user has to reconnect).
+   */
+  async getAccessToken(userId: string, accountId: string, forceRefresh = false): Promise<IssuedAccessToken> {
+    const key = getCredentialKey(userId, accountId);
+    const cached = this.accessTokens.get(key);
+    if (!forceRefresh && cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return cached;
+    }
+
+    let pending = this.pendingRefreshes.get(key);
+    if (!pending) {
+      pending = this.refresh(userId, accountId).finally(() => this.pendingRefreshes.delete(key));
+      this.pendingRefreshes.set(key, pending);
+    }
+    return pending;
+  }
+
+  // Renews a token this store issued; null for tokens it doesn't know (e.g. popup tokens)
+  async refreshIssuedToken(expiredToken: string): Promise<string | null> {
+    const owner = this.issuedBy.get(expiredToken);
+    if (!owner) return null;
+    const { accessToken } = await this.getAccessToken(owner.userId, owner.accountId, true);
+    return accessToken;
+  }
+
+  /**
+   * Forgets the stored refresh token. With `revoke` Google is told as well, which ends the whole
+   * grant for the account: every scope and every access token issued from it.
+   */
+  async deleteCredentials(userId: string, accountId: string, revoke = true): Promise<void> {
+    const key = getCredentialKey(userId, accountId);
+    const docRef = adminDb.collection(COLLECTION).doc(key);
+    if (revoke) {
+      const snapshot = await docRef.get();
+      if (snapshot.exists) {
+        const { encryptedRefreshToken } = snapshot.data() as StoredCredentialDocument;
+        await revokeGoogleToken(decryptToken(encryptedRefreshToken)).catch(error =>
+          console.warn(`[OAuthCredentialStore] Failed to revoke token for ${key}:`, error)
+        );
+      }
+    }
+    await docRef.delete();
+    this.forgetAccessToken(key);
+    console.log(`[OAuthCredentialStore] Deleted credentials for ${key}`);
+  }
+
+  private forgetAccessToken(key: string): void {
+    const issued = this.accessTokens.get(key);
+    if (issued) this.issuedBy.delete(issued.accessToken);
+    this.accessTokens.delete(key);
+  }
+
+  private async refresh(userId: string, accountId: string): Promise<IssuedAccessToken> {
+    const key = getCredentialKey(userId, accountId);
+    const snapshot = await adminDb.collection(COLLECTION).doc(key).get();
+    if (!snapshot.exists) {
+      throw new OAuthCredentialError(`No offline access stored for ${accountId}`, 'missing');
+    }
+
+    const { encryptedRefreshToken } = snapshot.data() as StoredCredentialDocument;
+    try {
+      const { accessToken, expiresAt, scopes } = await refreshGoogleAccessToken(decryptToken(encryptedRefreshToken));
+      const issued = { accessToken, expiresAt, scopes };
+      this.forgetAccessToken(key);
+      this.accessTokens.set(key, issued);
+      this.issuedBy.set(accessToken, { userId, accountId });
+      return issued;
+    } catch (error) {
+      if (error instanceof GoogleOAuthError && error.isInvalidGrant) {
+        console.warn(`[OAuthCredentialStore] Refresh token for ${key} was revoked; removing it.`);
+        await this.deleteCredentials(userId, accountId, false);
+        throw new OAuthCredentialError(`Google access for ${accountId} was revoked; reconnect the account`, 'revoked');
+      }
+      throw error;
+    }
+  }
+}
+
+export const oauthCredentialStore = OAuthCredentialStore.getInstance();
+
+// Server-side Gmail calls made with a token from this store recover from expiry on their own
+setGmailTokenRefresher(expiredToken => oauthCredentialStore.refreshIssuedToken(expiredToken));
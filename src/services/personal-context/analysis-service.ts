@@ -1,6 +1,9 @@
-import { ai } from '@/ai/genkit';
-import { z } from 'genkit';
+import { analyzeEmailThread, type AnalyzeEmailThreadInput, type AnalyzeEmailThreadOutput } from '@/ai/flows/analyze-email-thread';
+import { analyzeContact } from '@/ai/flows/analyze-contact';
+import { synthesizeThreadAnalyses } from '@/ai/flows/synthesize-thread-analyses';
+import { ANALYSIS_DEPTHS, MAX_CONTACT_PASSES, MODEL_CALL_CONCURRENCY } from '@/lib/analysis-depth';
 import type {
+  AnalysisDepth,
   EmailThread,
   ThreadAnalysisResult,
   CommunicationInsight,
@@ -9,26 +12,92 @@ import type {
   PersonalInsight,
   CommunicationStyle,
   ContactCategory,
+  EvidenceSource,
   PersonalContextProfile,
   BehavioralPattern,
   ContextualResponse,
   TemporalPattern,
-  KnowledgeArea
+  KnowledgeArea,
+  ReplyStyleFeatures,
+  SentReplyAnalysis
 } from '@/types/personal-context';
+import { locateEvidence, mergeEvidenceSources, traceEvidence } from './evidence-sources';
+import { learningEvents } from './learning-events';
 
-// Helper function to emit logs to the UI
+// Helper function to emit logs to the learning job's live event stream
 const emitLog = (message: string) => {
   // Log to console first
   console.log(`[AnalysisService] ${message}`);
-  
-  if (typeof window !== 'undefined') {
-    const event = new CustomEvent('personal-context-log', {
-      detail: { message, source: 'analysis' }
-    });
-    window.dispatchEvent(event);
-  }
+  learningEvents.log('analysis', message);
 };
 
+// Openers and sign-offs recognised in sent replies, with how they shift the formality estimate
+const GREETING_PATTERN = /^(good (?:morning|afternoon|evening)|dear|hello|hiya|hi|hey|greetings|yo)\b/i;
+const CLOSING_PATTERN = /^(kind regards|best regards|warm regards|all the best|thank you|talk soon|take care|sincerely|regards|cheers|thanks|best)\b/i;
+const FORMALITY_SHIFTS: Record<string, number> = {
+  dear: 2,
+  'good morning': 1,
+  'good afternoon': 1,
+  'good evening': 1,
+  greetings: 1,
+  hey: -2,
+  hiya: -2,
+  yo: -3,
+  sincerely: 2,
+  'kind regards': 2,
+  'best regards': 2,
+  regards: 1,
+  cheers: -1,
+  'talk soon': -1,
+  'take care': -1
+};
+// Emoji outside the basic multilingual plane, plus the common symbols and dingbats block
+const EMOJI_PATTERN = /[\uD83C-\uD83E][\uDC00-\uDFFF]|[\u2600-\u27BF]/g;
+const CONTRACTION_PATTERN = /\b\w+'(?:s|re|ve|ll|d|m|t)\b/gi;
+// Below this share of the AI draft's words kept, the reply counts as written from scratch
+const EDITED_DRAFT_MIN_SIMILARITY = 0.3;
+// Per-thread observations of each kind given to the cross-thread synthesis, to bound its prompt
+const SYNTHESIS_ITEMS_PER_KIND = 60;
+// Sources kept for the communication style and for each contact
+const MAX_EVIDENCE_SOURCES = 5;
+const STYLE_INSIGHT_TYPES: CommunicationInsight['type'][] = ['tone', 'formality', 'greeting_style', 'sign_off_style'];
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function getWords(text: string): string[] {
+  return text.toLowerCase().match(/[\w']+/g) ?? [];
+}
+
+// What the learner takes from a set of analysed threads
+export interface AggregatedAnalysis {
+  communicationStyle: CommunicationStyle;
+  contactRelationships: Array<{
+    contactEmail: string;
+    category: ContactCategory;
+    confidence: number;
+    evidenceSources: EvidenceSource[];
+  }>;
+  professionalProfile: Partial<PersonalContextProfile['professionalProfile']>;
+  personalPreferences: Partial<PersonalContextProfile['personalPreferences']>;
+  behavioralPatterns: BehavioralPattern[];
+  contextualResponses: ContextualResponse[];
+  temporalPatterns: TemporalPattern[];
+  knowledgeAreas: KnowledgeArea[];
+  confidence: number;
+}
+
+// What comprehensive learning adds on top of the per-thread analyses
+export interface AnalysisSynthesis {
+  contactRelationships: RelationshipInsight[]; // One reconciled insight per frequent contact
+  communicationInsights: CommunicationInsight[];
+  behavioralPatterns: BehavioralPattern[];
+  contextualResponses: ContextualResponse[];
+  temporalPatterns: TemporalPattern[];
+  knowledgeAreas: KnowledgeArea[];
+}
+
 export class PersonalContextAnalysisService {
   private static instance: PersonalContextAnalysisService;
   
@@ -46,30 +115,21 @@ export class PersonalContextAnalysisService {
    */
   async analyzeEmailThreads(
     threads: EmailThread[], 
-    userEmail: string
-  ): Promise<{
-    communicationStyle: CommunicationStyle;
-    contactRelationships: Array<{ contactEmail: string; category: ContactCategory; confidence: number }>;
-    professionalProfile: Partial<PersonalContextProfile['professionalProfile']>;
-    personalPreferences: Partial<PersonalContextProfile['personalPreferences']>;
-    behavioralPatterns: BehavioralPattern[];
-    contextualResponses: ContextualResponse[];
-    temporalPatterns: TemporalPattern[];
-    knowledgeAreas: KnowledgeArea[];
-    confidence: number;
-  }> {
+    userEmail: string,
+    analysisDepth: AnalysisDepth = 'standard'
+  ): Promise<AggregatedAnalysis> {
     try {
       console.log(`[AnalysisService] Starting analysis of ${threads.length} threads for ${userEmail}`);
-      emitLog(`Starting AI analysis of ${threads.length} email threads...`);
+      emitLog(`Starting ${analysisDepth} AI analysis of ${threads.length} email threads...`);
       
       // Analyze threads in batches for efficiency
-      const batchSize = 5;
+      const { batchSize, synthesis } = ANALYSIS_DEPTHS[analysisDepth];
       const threadAnalyses: ThreadAnalysisResult[] = [];
       
       for (let i = 0; i < threads.length; i += batchSize) {
         const batch = threads.slice(i, i + batchSize);
         emitLog(`Analyzing batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(threads.length/batchSize)} (${batch.length} threads)`);
-        const batchResults = await this.analyzeBatchThreads(batch, userEmail);
+        const batchResults = await this.analyzeBatchThreads(batch, userEmail, analysisDepth);
         threadAnalyses.push(...batchResults);
         
         // Small delay between batches to avoid rate limits
@@ -80,7 +140,10 @@ export class PersonalContextAnalysisService {
       
       // Aggregate insights from all thread analyses
       emitLog(`Aggregating insights from ${threadAnalyses.length} analyzed threads...`);
-      const aggregatedInsights = this.aggregateInsights(threadAnalyses);
+      const aggregatedInsights = this.aggregateInsights(
+        threadAnalyses,
+        synthesis ? await this.synthesizeAnalyses(threadAnalyses) : undefined
+      );
       
       // Log summary of findings
       emitLog(`Analysis complete - Identified communication style: ${aggregatedInsights.communicationStyle.tone}`);
@@ -99,7 +162,11 @@ export class PersonalContextAnalysisService {
   /**
    * Analyzes a single email thread for insights
    */
-  async analyzeSingleThread(thread: EmailThread, userEmail: string): Promise<ThreadAnalysisResult> {
+  async analyzeSingleThread(
+    thread: EmailThread,
+    userEmail: string,
+    analysisDepth: AnalysisDepth = 'standard'
+  ): Promise<ThreadAnalysisResult> {
     try {
       const userMessages = thread.messages.filter(m => m.isFromUser);
       const otherMessages = thread.messages.filter(m => !m.isFromUser);
@@ -111,18 +178,12 @@ export class PersonalContextAnalysisService {
       const threadSubject = thread.subject.substring(0, 30) + (thread.subject.length > 30 ? '...' : '');
       emitLog(`Analyzing thread: "${threadSubject}" (${thread.messages.length} messages)`);
 
-      const analysisPrompt = this.buildThreadAnalysisPrompt(thread, userEmail);
-      
-      const threadAnalysisPrompt = ai.definePrompt({
-        name: 'threadAnalysisPrompt',
-        input: { schema: z.object({ content: z.string() }) },
-        output: { schema: z.object({ analysis: z.string() }) },
-        prompt: analysisPrompt
-      });
-
-      const { output } = await threadAnalysisPrompt({ content: '' });
-      
-      const result = this.parseAnalysisResult(output?.analysis || '', thread.threadId);
+      const output = await analyzeEmailThread(this.buildThreadAnalysisInput(thread, userEmail, analysisDepth));
+      const result: ThreadAnalysisResult = {
+        threadId: thread.threadId,
+        ...this.locateThreadEvidence(output, thread),
+        confidence: this.calculateOverallConfidence(output)
+      };
       
       // Log some insights found
       if (result.relationshipInsights.length > 0) {
@@ -139,21 +200,157 @@ export class PersonalContextAnalysisService {
     }
   }
 
+  /**
+   * Records which message of the thread each piece of evidence was quoted from
+   */
+  private locateThreadEvidence(
+    output: AnalyzeEmailThreadOutput,
+    thread: EmailThread
+  ): Omit<ThreadAnalysisResult, 'threadId' | 'confidence'> {
+    const locate = <T extends { evidence: string[] }>(insights: T[]): T[] =>
+      insights.map(insight => ({
+        ...insight,
+        evidenceSources: insight.evidence.map(excerpt => locateEvidence(excerpt, thread))
+      }));
+
+    return {
+      communicationInsights: locate(output.communicationInsights),
+      relationshipInsights: locate(output.relationshipInsights),
+      professionalInsights: locate(output.professionalInsights),
+      personalInsights: locate(output.personalInsights),
+      behavioralPatterns: locate(output.behavioralPatterns),
+      contextualResponses: locate(output.contextualResponses),
+      temporalPatterns: locate(output.temporalPatterns),
+      knowledgeAreas: locate(output.knowledgeAreas)
+    };
+  }
+
   /**
    * Analyzes a batch of threads concurrently
    */
-  private async analyzeBatchThreads(
+  async analyzeBatchThreads(
     threads: EmailThread[], 
-    userEmail: string
+    userEmail: string,
+    analysisDepth: AnalysisDepth = 'standard'
   ): Promise<ThreadAnalysisResult[]> {
-    const promises = threads.map(thread => this.analyzeSingleThread(thread, userEmail));
+    const promises = threads.map(thread => this.analyzeSingleThread(thread, userEmail, analysisDepth));
     return Promise.all(promises);
   }
 
   /**
-   * Builds the analysis prompt for a thread
+   * Comprehensive learning's second stage: takes another look at the contacts seen in the most
+   * threads, then synthesizes the patterns that hold across threads. Whatever fails is left to
+   * the per-thread results.
+   */
+  async synthesizeAnalyses(analyses: ThreadAnalysisResult[]): Promise<AnalysisSynthesis> {
+    const contactRelationships = await this.analyzeFrequentContacts(analyses);
+
+    emitLog(`Synthesizing patterns across ${analyses.length} threads...`);
+    try {
+      const crossThread = await synthesizeThreadAnalyses({
+        threadCount: analyses.length,
+        observations: JSON.stringify(this.buildSynthesisObservations(analyses), null, 2)
+      });
+      emitLog(`Synthesis kept ${crossThread.behavioralPatterns.length} behavioral patterns and ${crossThread.contextualResponses.length} contextual responses`);
+
+      // Synthesized evidence is quoted from the observations, so its sources are the per-thread ones
+      const trace = <T extends { evidence: string[] }>(items: T[], observed: Array<{ evidenceSources?: EvidenceSource[] }>): T[] =>
+        items.map(item => ({ ...item, evidenceSources: traceEvidence(item.evidence, observed) }));
+      return {
+        contactRelationships,
+        communicationInsights: trace(crossThread.communicationInsights, analyses.flatMap(a => a.communicationInsights)),
+        behavioralPatterns: trace(crossThread.behavioralPatterns, analyses.flatMap(a => a.behavioralPatterns)),
+        contextualResponses: trace(crossThread.contextualResponses, analyses.flatMap(a => a.contextualResponses)),
+        temporalPatterns: trace(crossThread.temporalPatterns, analyses.flatMap(a => a.temporalPatterns)),
+        knowledgeAreas: trace(crossThread.knowledgeAreas, analyses.flatMap(a => a.knowledgeAreas))
+      };
+    } catch (error) {
+      console.error('[AnalysisService] Error synthesizing thread analyses:', error);
+      emitLog(`Cross-thread synthesis failed: ${(error as Error).message}`);
+      return {
+        contactRelationships,
+        communicationInsights: [],
+        behavioralPatterns: [],
+        contextualResponses: [],
+        temporalPatterns: [],
+        knowledgeAreas: []
+      };
+    }
+  }
+
+  /**
+   * Reconciles the per-thread relationship insights of each contact seen in more than one thread
+   */
+  private async analyzeFrequentContacts(analyses: ThreadAnalysisResult[]): Promise<RelationshipInsight[]> {
+    const observationsByContact = new Map<string, Array<{
+      relationship: RelationshipInsight;
+      communication: Array<Pick<CommunicationInsight, 'type' | 'description'>>;
+    }>>();
+    analyses.forEach(analysis => {
+      analysis.relationshipInsights.forEach(insight => {
+        const observations = observationsByContact.get(insight.contactEmail) || [];
+        observations.push({
+          // The model only needs the quotes; their sources are traced back when aggregating
+          relationship: { ...insight, evidence: insight.evidence.slice(0, 3), evidenceSources: undefined },
+          communication: analysis.communicationInsights
+            .filter(i => i.contactEmail === insight.contactEmail)
+            .map(i => ({ type: i.type, description: i.description }))
+        });
+        observationsByContact.set(insight.contactEmail, observations);
+      });
+    });
+
+    const contacts = Array.from(observationsByContact.entries())
+      .filter(([, observations]) => observations.length > 1)
+      .sort((a, b) => b[1].length - a[1].length)
+      .slice(0, MAX_CONTACT_PASSES);
+    emitLog(`Taking a second look at ${contacts.length} contacts seen in several threads`);
+
+    const relationships: RelationshipInsight[] = [];
+    for (let i = 0; i < contacts.length; i += MODEL_CALL_CONCURRENCY) {
+      const results = await Promise.all(contacts.slice(i, i + MODEL_CALL_CONCURRENCY).map(async ([contactEmail, observations]) => {
+        try {
+          return await analyzeContact({
+            contactEmail,
+            threadCount: observations.length,
+            observations: JSON.stringify(observations, null, 2)
+          });
+        } catch (error) {
+          console.error(`[AnalysisService] Error analyzing contact ${contactEmail}:`, error);
+          emitLog(`Failed to analyze contact ${contactEmail}: ${(error as Error).message}`);
+          return null;
+        }
+      }));
+      results.forEach(relationship => {
+        if (relationship) relationships.push(relationship);
+      });
+    }
+    return relationships;
+  }
+
+  private buildSynthesisObservations(analyses: ThreadAnalysisResult[]) {
+    const limit = <T extends { evidence: string[] }>(items: T[]): T[] =>
+      items
+        .slice(0, SYNTHESIS_ITEMS_PER_KIND)
+        .map(item => ({ ...item, evidence: item.evidence.slice(0, 2), evidenceSources: undefined }));
+
+    return {
+      communicationInsights: limit(analyses.flatMap(a => a.communicationInsights).filter(i => !i.contactEmail)),
+      behavioralPatterns: limit(analyses.flatMap(a => a.behavioralPatterns)),
+      contextualResponses: limit(analyses.flatMap(a => a.contextualResponses)),
+      temporalPatterns: limit(analyses.flatMap(a => a.temporalPatterns)),
+      knowledgeAreas: limit(analyses.flatMap(a => a.knowledgeAreas))
+    };
+  }
+
+  /**
+   * Builds the analysis prompt's input for a thread
    */
-  private buildThreadAnalysisPrompt(thread: EmailThread, userEmail: string): string {
+  private buildThreadAnalysisInput(
+    thread: EmailThread,
+    userEmail: string,
+    analysisDepth: AnalysisDepth
+  ): AnalyzeEmailThreadInput {
     const userMessages = thread.messages.filter(m => m.isFromUser);
     const participants = thread.participants.filter(p => p !== userEmail);
     
@@ -179,219 +376,100 @@ export class PersonalContextAnalysisService {
       timestamp: m.timestamp.toISOString()
     }));
 
-    return `You are an expert at analyzing communication patterns and extracting comprehensive personal context from email threads. 
-
-Analyze this email thread to extract detailed insights about the user's communication style, relationships, professional context, personal preferences, and behavioral patterns.
-
-Thread Summary:
-${JSON.stringify(threadSummary, null, 2)}
-
-User's Messages:
-${JSON.stringify(sampleUserMessages, null, 2)}
-
-Other Participants' Messages:
-${JSON.stringify(sampleOtherMessages, null, 2)}
+    return {
+      threadSummary: JSON.stringify(threadSummary, null, 2),
+      userMessages: JSON.stringify(sampleUserMessages, null, 2),
+      otherMessages: JSON.stringify(sampleOtherMessages, null, 2),
+      analysisDepth
+    };
+  }
 
-Please analyze and provide comprehensive insights in the following JSON format:
+  /**
+   * Measures the style of one reply the user sent and works out whether it was an AI draft sent
+   * as-is, an edited AI draft or the user's own writing. Runs locally, without the AI, so it can
+   * follow every send.
+   */
+  analyzeSentReply(userReply: string, aiDraft?: string): SentReplyAnalysis {
+    const features = this.extractReplyStyle(userReply);
 
-{
-  "communicationInsights": [
-    {
-      "type": "tone|formality|greeting_style|sign_off_style|response_timing|sentence_structure|emoji_usage|punctuation_style|language_preference|style_variation",
-      "description": "Detailed description of the communication pattern observed",
-      "evidence": ["specific examples from messages"],
-      "confidence": 0.0-1.0,
-      "contactEmail": "email if contact-specific, null if general pattern",
-      "contextual_factors": ["factors that influence this communication style"]
-    }
-  ],
-  "relationshipInsights": [
-    {
-      "contactEmail": "email address",
-      "suggestedCategory": "family|close_friends|work_colleagues|clients_customers|executives_bosses|vendors_service_providers|unknown_cold_outreach|academic_contacts|community_organization|government_official",
-      "relationshipDynamics": "description of how they interact (formal, casual, friendly, respectful, etc.)",
-      "communicationFrequency": "daily|weekly|monthly|occasional|rare",
-      "responseTimePattern": "immediate|within_hours|business_hours|delayed|varies",
-      "initiationPattern": "user_initiates|contact_initiates|mutual|unknown",
-      "evidence": ["indicators that support this categorization"],
-      "confidence": 0.0-1.0,
-      "sharedContexts": ["work projects", "personal interests", "family connections", etc.],
-      "addressingStyle": "how the user addresses this contact (first name, title, nickname, etc.)"
-    }
-  ],
-  "professionalInsights": [
-    {
-      "type": "role|company|department|responsibilities|expertise|authority_level|decision_making|meeting_preferences|work_schedule|project_involvement|industry_knowledge|networking_style|management_level|reporting_structure",
-      "value": "extracted value or description",
-      "evidence": ["supporting evidence from messages"],
-      "confidence": 0.0-1.0,
-      "context": "additional context about this professional aspect"
-    }
-  ],
-  "personalInsights": [
-    {
-      "type": "schedule_preference|availability_pattern|family_information|hobby_interest|travel_preference|food_preference|entertainment_choice|value_belief|decision_making_style|conflict_resolution|stress_indicator|privacy_boundary|seasonal_pattern|routine_habit|brand_preference|location_preference|restaurant_preference|shopping_habit|daily_routine|cultural_preference|learning_preference|information_consumption|leisure_activity|sports_team|music_preference|book_preference|movie_preference|technology_preference|social_media_usage|communication_channel_preference",
-      "value": "extracted value or description",
-      "evidence": ["supporting evidence from messages"],
-      "confidence": 0.0-1.0,
-      "category": "personal|family|lifestyle|preferences|behavioral|temporal|cultural|entertainment|consumption"
-    }
-  ],
-  "behavioralPatterns": [
-    {
-      "type": "delegation_comfort|request_handling|invitation_response|urgency_handling|information_sharing|boundary_setting|escalation_trigger|group_dynamics|leadership_style|collaboration_preference",
-      "pattern": "description of the behavioral pattern observed",
-      "triggers": ["situations that trigger this behavior"],
-      "evidence": ["examples from the conversation"],
-      "confidence": 0.0-1.0
-    }
-  ],
-  "contextualResponses": [
-    {
-      "scenario": "description of common scenario (meeting requests, project updates, etc.)",
-      "typical_response_style": "how they typically respond to this type of situation",
-      "formality_level": "very_low|low|medium|high|very_high",
-      "key_phrases": ["common phrases or expressions they use"],
-      "evidence": ["examples from messages"],
-      "confidence": 0.0-1.0
+    if (!aiDraft?.trim()) {
+      return { origin: 'written', features };
     }
-  ],
-  "temporalPatterns": [
-    {
-      "type": "response_timing|availability_hours|seasonal_behavior|deadline_handling|time_sensitivity",
-      "pattern": "description of the temporal pattern",
-      "specific_times": ["if applicable, specific times mentioned"],
-      "evidence": ["supporting evidence"],
-      "confidence": 0.0-1.0
+    if (normalizeWhitespace(aiDraft) === normalizeWhitespace(userReply)) {
+      return { origin: 'ai_draft', features, draftSimilarity: 1 };
     }
-  ],
-  "knowledgeAreas": [
-    {
-      "domain": "specific area of knowledge (technology, industry, hobby, etc.)",
-      "expertise_level": "novice|intermediate|advanced|expert",
-      "evidence": ["examples showing knowledge in this area"],
-      "confidence": 0.0-1.0,
-      "context": "how this knowledge is demonstrated"
+
+    // Share of the draft's words (counted with repeats) still in the reply
+    const draftWords = getWords(aiDraft);
+    const remaining = new Map<string, number>();
+    getWords(userReply).forEach(word => remaining.set(word, (remaining.get(word) ?? 0) + 1));
+    let kept = 0;
+    for (const word of draftWords) {
+      const count = remaining.get(word) ?? 0;
+      if (count > 0) {
+        kept += 1;
+        remaining.set(word, count - 1);
+      }
     }
-  ]
-}
+    const draftSimilarity = draftWords.length > 0 ? Math.round((kept / draftWords.length) * 100) / 100 : 0;
 
-Focus on extracting:
-
-**Communication Style & Patterns:**
-- Tone variation with different contacts (formal, casual, friendly, direct)
-- Greeting patterns ("Hi", "Hello", "Hey", professional titles)
-- Sign-off preferences ("Best", "Thanks", "Regards", casual endings)
-- Response timing patterns and urgency handling
-- Sentence structure (short vs long, complexity)
-- Emoji and punctuation usage patterns
-- Language preferences and regional expressions
-
-**Relationship & Social Context:**
-- How they address different people (first names, titles, nicknames)
-- Relationship dynamics and communication formality levels
-- Shared contexts and common topics of discussion
-- Communication frequency and initiation patterns
-- Professional vs personal relationship boundaries
-
-**Professional Information:**
-- Current role, responsibilities, and authority levels
-- Work schedule patterns and availability
-- Meeting preferences and scheduling patterns
-- Project involvement and professional goals
-- Industry knowledge and technical expertise
-- Decision-making patterns and delegation comfort
-- Management style and team interactions
-
-**Personal Preferences & Habits:**
-- Daily routines mentioned in emails
-- Travel patterns and location preferences
-- Family information and personal relationships
-- Hobbies, interests, and entertainment preferences
-- Values and beliefs that influence communication
-- Stress indicators and busy period behaviors
-- Food preferences, favorite restaurants mentioned
-- Shopping habits and brand preferences mentioned
-- Entertainment choices (movies, music, books, sports teams mentioned)
-- Cultural preferences and background indicators
-- Learning preferences and information consumption habits
-- Technology preferences and social media usage patterns
-- Daily routines and lifestyle patterns
-- Leisure activities and recreational interests
-
-**Behavioral Patterns:**
-- How they handle different types of requests
-- Conflict resolution and diplomatic communication
-- Privacy boundaries and information sharing comfort
-- Group email dynamics vs private communication
-- Escalation triggers and when they involve others
-
-**Contextual Adaptations:**
-- How communication style changes based on:
-  - Recipient type (family, colleagues, clients, executives)
-  - Email context (urgent, casual, formal business)
-  - Group vs individual communication
-  - First contact vs ongoing relationship
-
-Be thorough and extract as much meaningful personal context as possible. Look for subtle patterns in word choice, formality shifts, topics discussed, and relationship dynamics. The goal is to build a comprehensive understanding of how this person communicates and interacts in different contexts.
-
-Assign confidence scores conservatively - only use high confidence (>0.8) when there is clear, repeated evidence across multiple messages.`;
+    return {
+      origin: draftSimilarity >= EDITED_DRAFT_MIN_SIMILARITY ? 'edited_ai_draft' : 'written',
+      features,
+      draftSimilarity
+    };
   }
 
-  /**
-   * Parses AI analysis result into structured format
-   */
-  private parseAnalysisResult(analysisText: string, threadId: string): ThreadAnalysisResult {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = analysisText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.warn(`[AnalysisService] No JSON found in analysis result for thread ${threadId}`);
-        return this.createEmptyAnalysisResult(threadId);
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      return {
-        threadId,
-        communicationInsights: parsed.communicationInsights || [],
-        relationshipInsights: parsed.relationshipInsights || [],
-        professionalInsights: parsed.professionalInsights || [],
-        personalInsights: parsed.personalInsights || [],
-        behavioralPatterns: parsed.behavioralPatterns || [],
-        contextualResponses: parsed.contextualResponses || [],
-        temporalPatterns: parsed.temporalPatterns || [],
-        knowledgeAreas: parsed.knowledgeAreas || [],
-        confidence: this.calculateOverallConfidence(parsed)
-      };
-      
-    } catch (error) {
-      console.error(`[AnalysisService] Error parsing analysis result for thread ${threadId}:`, error);
-      return this.createEmptyAnalysisResult(threadId);
+  private extractReplyStyle(userReply: string): ReplyStyleFeatures {
+    // Drop the quoted conversation below the reply
+    const replyLines: string[] = [];
+    for (const line of userReply.split('\n')) {
+      if (/^On .+wrote:\s*$/.test(line.trim()) || line.trim().startsWith('-----Original Message')) break;
+      if (!line.trim().startsWith('>')) replyLines.push(line.trim());
     }
+    const lines = replyLines.filter(line => line.length > 0);
+    const text = lines.join('\n');
+
+    const greeting = lines.length > 0 ? lines[0].match(GREETING_PATTERN)?.[1] : undefined;
+    const closing = lines.slice(-3).map(line => line.match(CLOSING_PATTERN)?.[1]).find(Boolean);
+
+    const wordCount = text.split(/\s+/).filter(Boolean).length;
+    const sentenceCount = Math.max(text.split(/[.!?]+(?:\s|$)/).filter(sentence => sentence.trim()).length, 1);
+    const emojiCount = text.match(EMOJI_PATTERN)?.length ?? 0;
+    const exclamationCount = text.match(/!/g)?.length ?? 0;
+    const contractionCount = text.match(CONTRACTION_PATTERN)?.length ?? 0;
+
+    // Starts neutral and moves with the opener, sign-off and informal markers
+    let formality = 5;
+    formality += FORMALITY_SHIFTS[greeting?.toLowerCase() ?? ''] ?? 0;
+    formality += FORMALITY_SHIFTS[closing?.toLowerCase() ?? ''] ?? 0;
+    formality -= Math.min(contractionCount * 0.5, 2);
+    if (emojiCount > 0) formality -= 1;
+    if (exclamationCount > 1) formality -= 1;
+
+    return {
+      wordCount,
+      averageSentenceLength: Math.round((wordCount / sentenceCount) * 10) / 10,
+      emojiCount,
+      exclamationCount,
+      greeting,
+      closing,
+      formality: Math.min(Math.max(Math.round(formality), 1), 10)
+    };
   }
 
   /**
-   * Aggregates insights from multiple thread analyses
+   * Aggregates insights from multiple thread analyses. A synthesis from comprehensive learning
+   * takes precedence over the per-thread results it covers.
    */
-  private aggregateInsights(analyses: ThreadAnalysisResult[]): {
-    communicationStyle: CommunicationStyle;
-    contactRelationships: Array<{ contactEmail: string; category: ContactCategory; confidence: number }>;
-    professionalProfile: Partial<PersonalContextProfile['professionalProfile']>;
-    personalPreferences: Partial<PersonalContextProfile['personalPreferences']>;
-    behavioralPatterns: BehavioralPattern[];
-    contextualResponses: ContextualResponse[];
-    temporalPatterns: TemporalPattern[];
-    knowledgeAreas: KnowledgeArea[];
-    confidence: number;
-  } {
+  aggregateInsights(analyses: ThreadAnalysisResult[], synthesis?: AnalysisSynthesis): AggregatedAnalysis {
     console.log(`[AnalysisService] Aggregating insights from ${analyses.length} thread analyses`);
 
     // Aggregate communication insights
-    const communicationStyle = this.aggregateCommunicationStyle(analyses);
+    const communicationStyle = this.aggregateCommunicationStyle(analyses, synthesis?.communicationInsights);
     
     // Aggregate relationship insights
-    const contactRelationships = this.aggregateContactRelationships(analyses);
+    const contactRelationships = this.aggregateContactRelationships(analyses, synthesis?.contactRelationships);
     
     // Aggregate professional insights (enhanced)
     const professionalProfile = this.aggregateEnhancedProfessionalProfile(analyses);
@@ -400,10 +478,18 @@ Assign confidence scores conservatively - only use high confidence (>0.8) when t
     const personalPreferences = this.aggregateEnhancedPersonalPreferences(analyses);
     
     // Aggregate new enhanced data types
-    const behavioralPatterns = this.aggregateBehavioralPatterns(analyses);
-    const contextualResponses = this.aggregateContextualResponses(analyses);
-    const temporalPatterns = this.aggregateTemporalPatterns(analyses);
-    const knowledgeAreas = this.aggregateKnowledgeAreas(analyses);
+    const behavioralPatterns = synthesis?.behavioralPatterns.length
+      ? synthesis.behavioralPatterns
+      : this.aggregateBehavioralPatterns(analyses);
+    const contextualResponses = synthesis?.contextualResponses.length
+      ? synthesis.contextualResponses
+      : this.aggregateContextualResponses(analyses);
+    const temporalPatterns = synthesis?.temporalPatterns.length
+      ? synthesis.temporalPatterns
+      : this.aggregateTemporalPatterns(analyses);
+    const knowledgeAreas = synthesis?.knowledgeAreas.length
+      ? synthesis.knowledgeAreas
+      : this.aggregateKnowledgeAreas(analyses);
     
     // Calculate overall confidence
     const overallConfidence = this.calculateAggregatedConfidence(analyses);
@@ -430,8 +516,11 @@ Assign confidence scores conservatively - only use high confidence (>0.8) when t
   /**
    * Aggregates communication style insights
    */
-  private aggregateCommunicationStyle(analyses: ThreadAnalysisResult[]): CommunicationStyle {
-    const allCommunicationInsights = analyses.flatMap(a => a.communicationInsights);
+  private aggregateCommunicationStyle(
+    analyses: ThreadAnalysisResult[],
+    synthesizedInsights: CommunicationInsight[] = []
+  ): CommunicationStyle {
+    const allCommunicationInsights = [...analyses.flatMap(a => a.communicationInsights), ...synthesizedInsights];
     
     // Determine dominant tone
     const toneInsights = allCommunicationInsights.filter(i => i.type === 'tone');
@@ -444,6 +533,12 @@ Assign confidence scores conservatively - only use high confidence (>0.8) when t
     // Extract greeting and closing styles
     const greetingStyles = this.extractPatterns(allCommunicationInsights, 'greeting');
     const closingStyles = this.extractPatterns(allCommunicationInsights, 'closing');
+
+    // The messages behind the tone, formality and greetings, most confident first
+    const styleSources = allCommunicationInsights
+      .filter(i => STYLE_INSIGHT_TYPES.includes(i.type))
+      .sort((a, b) => b.confidence - a.confidence)
+      .flatMap(i => i.evidenceSources ?? []);
     
     return {
       tone: dominantTone,
@@ -454,35 +549,55 @@ Assign confidence scores conservatively - only use high confidence (>0.8) when t
       emojiUsage: 'minimal', // Default, could be enhanced
       punctuationStyle: 'standard', // Default, could be enhanced
       responseLength: 'moderate', // Default, could be enhanced
-      languagePreferences: ['English'] // Default, could be enhanced
+      languagePreferences: ['English'], // Default, could be enhanced
+      evidenceSources: mergeEvidenceSources(styleSources, [], MAX_EVIDENCE_SOURCES)
     };
   }
 
   /**
    * Aggregates contact relationship insights
    */
-  private aggregateContactRelationships(analyses: ThreadAnalysisResult[]): Array<{ contactEmail: string; category: ContactCategory; confidence: number }> {
-    const relationshipMap = new Map<string, { categories: ContactCategory[]; confidences: number[] }>();
+  private aggregateContactRelationships(
+    analyses: ThreadAnalysisResult[],
+    reconciled: RelationshipInsight[] = []
+  ): AggregatedAnalysis['contactRelationships'] {
+    const relationshipMap = new Map<string, { categories: ContactCategory[]; confidences: number[]; insights: RelationshipInsight[] }>();
     
     analyses.forEach(analysis => {
       analysis.relationshipInsights.forEach(insight => {
-        const existing = relationshipMap.get(insight.contactEmail) || { categories: [], confidences: [] };
+        const existing = relationshipMap.get(insight.contactEmail) || { categories: [], confidences: [], insights: [] };
         existing.categories.push(insight.suggestedCategory);
         existing.confidences.push(insight.confidence);
+        existing.insights.push(insight);
         relationshipMap.set(insight.contactEmail, existing);
       });
     });
     
-    const relationships: Array<{ contactEmail: string; category: ContactCategory; confidence: number }> = [];
+    const relationships: AggregatedAnalysis['contactRelationships'] = [];
     
+    const reconciledByContact = new Map(reconciled.map(insight => [insight.contactEmail, insight]));
     relationshipMap.forEach((data, contactEmail) => {
+      const threadSources = [...data.insights]
+        .sort((a, b) => b.confidence - a.confidence)
+        .flatMap(insight => insight.evidenceSources ?? []);
+      const reconciledInsight = reconciledByContact.get(contactEmail);
+      if (reconciledInsight) {
+        relationships.push({
+          contactEmail,
+          category: reconciledInsight.suggestedCategory,
+          confidence: reconciledInsight.confidence,
+          evidenceSources: mergeEvidenceSources(traceEvidence(reconciledInsight.evidence, data.insights), threadSources, MAX_EVIDENCE_SOURCES)
+        });
+        return;
+      }
       const dominantCategory = this.findDominantValue(data.categories) as ContactCategory;
       const avgConfidence = data.confidences.reduce((sum, conf) => sum + conf, 0) / data.confidences.length;
       
       relationships.push({
         contactEmail,
         category: dominantCategory || 'unknown_cold_outreach',
-        confidence: avgConfidence
+        confidence: avgConfidence,
+        evidenceSources: mergeEvidenceSources(threadSources, [], MAX_EVIDENCE_SOURCES)
       });
     });
     
@@ -563,12 +678,14 @@ Assign confidence scores conservatively - only use high confidence (>0.8) when t
         const allEvidence = Array.from(new Set(patterns.flatMap(p => p.evidence)));
         const allTriggers = Array.from(new Set(patterns.flatMap(p => p.triggers)));
         const avgConfidence = patterns.reduce((sum, p) => sum + p.confidence, 0) / patterns.length;
+        const evidence = allEvidence.slice(0, 3); // Top 3 evidence
         
         aggregatedPatterns.push({
           type: bestPattern.type,
           pattern: bestPattern.pattern,
           triggers: allTriggers.slice(0, 5), // Top 5 triggers
-          evidence: allEvidence.slice(0, 3), // Top 3 evidence
+          evidence,
+          evidenceSources: traceEvidence(evidence, patterns),
           confidence: avgConfidence
         });
       }
@@ -604,13 +721,15 @@ Assign confidence scores conservatively - only use high confidence (>0.8) when t
         const allPhrases = Array.from(new Set(responses.flatMap(r => r.key_phrases)));
         const allEvidence = Array.from(new Set(responses.flatMap(r => r.evidence)));
         const avgConfidence = responses.reduce((sum, r) => sum + r.confidence, 0) / responses.length;
+        const evidence = allEvidence.slice(0, 3); // Top 3 evidence
         
         aggregatedResponses.push({
           scenario: bestResponse.scenario,
           typical_response_style: bestResponse.typical_response_style,
           formality_level: bestResponse.formality_level,
           key_phrases: allPhrases.slice(0, 6), // Top 6 phrases
-          evidence: allEvidence.slice(0, 3), // Top 3 evidence
+          evidence,
+          evidenceSources: traceEvidence(evidence, responses),
           confidence: avgConfidence
         });
       }
@@ -645,12 +764,14 @@ Assign confidence scores conservatively - only use high confidence (>0.8) when t
         const allTimes = Array.from(new Set(patterns.flatMap(p => p.specific_times || [])));
         const allEvidence = Array.from(new Set(patterns.flatMap(p => p.evidence)));
         const avgConfidence = patterns.reduce((sum, p) => sum + p.confidence, 0) / patterns.length;
+        const evidence = allEvidence.slice(0, 3); // Top 3 evidence
         
         aggregatedPatterns.push({
           type: bestPattern.type,
           pattern: bestPattern.pattern,
           specific_times: allTimes.slice(0, 5), // Top 5 times
-          evidence: allEvidence.slice(0, 3), // Top 3 evidence
+          evidence,
+          evidenceSources: traceEvidence(evidence, patterns),
           confidence: avgConfidence
         });
       }
@@ -689,11 +810,13 @@ Assign confidence scores conservatively - only use high confidence (>0.8) when t
         
         const allEvidence = Array.from(new Set(areas.flatMap(a => a.evidence)));
         const avgConfidence = areas.reduce((sum, a) => sum + a.confidence, 0) / areas.length;
+        const evidence = allEvidence.slice(0, 3); // Top 3 evidence
         
         aggregatedAreas.push({
           domain: highestLevel.domain,
           expertise_level: highestLevel.expertise_level,
-          evidence: allEvidence.slice(0, 3), // Top 3 evidence
+          evidence,
+          evidenceSources: traceEvidence(evidence, areas),
           confidence: avgConfidence,
           context: highestLevel.context
         });
@@ -860,17 +983,17 @@ Assign confidence scores conservatively - only use high confidence (>0.8) when t
     };
   }
 
-  private calculateOverallConfidence(parsed: any): number {
+  private calculateOverallConfidence(output: AnalyzeEmailThreadOutput): number {
     const allInsights = [
-      ...(parsed.communicationInsights || []),
-      ...(parsed.relationshipInsights || []),
-      ...(parsed.professionalInsights || []),
-      ...(parsed.personalInsights || [])
+      ...output.communicationInsights,
+      ...output.relationshipInsights,
+      ...output.professionalInsights,
+      ...output.personalInsights
     ];
     
     if (allInsights.length === 0) return 0;
     
-    const avgConfidence = allInsights.reduce((sum: number, insight: any) => sum + (insight.confidence || 0), 0) / allInsights.length;
+    const avgConfidence = allInsights.reduce((sum, insight) => sum + insight.confidence, 0) / allInsights.length;
     return Math.round(avgConfidence * 100) / 100;
   }
 
@@ -1,32 +1,78 @@
-import { 
-  doc, 
-  setDoc, 
-  getDoc, 
-  updateDoc, 
-  deleteDoc, 
-  collection, 
-  query, 
-  where, 
-  orderBy, 
-  limit, 
-  getDocs,
-  writeBatch,
-  serverTimestamp,
-  type DocumentReference,
-  type CollectionReference
-} from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { FieldValue, Timestamp, type DocumentData, type UpdateData } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
 import type {
   PersonalContextProfile,
   PersonalContextDocument,
   ContactRelationshipDocument,
   CommunicationPatternDocument,
   LearningProgressDocument,
+  LearningJobBatchDocument,
   ContactRelationship,
   ContactCommunicationStyle,
-  LearningProgress
+  LearningProgress,
+  LearningJob,
+  LearningJobStatus,
+  ThreadAnalysisResult
 } from '@/types/personal-context';
 
+// The Admin SDK reports gRPC status numbers where the client SDK used names; map the ones handled below
+const GRPC_ERROR_CODES: Record<number, string> = {
+  3: 'invalid-argument',
+  5: 'not-found',
+  7: 'permission-denied',
+  14: 'unavailable'
+};
+
+function getErrorCode(error: unknown): string | undefined {
+  if (!error || typeof error !== 'object' || !('code' in error)) return undefined;
+  const { code } = error;
+  if (typeof code === 'number') return GRPC_ERROR_CODES[code];
+  return typeof code === 'string' ? code : undefined;
+}
+
+// Firestore rejects undefined values; drop them while keeping Dates and sentinels intact
+function withoutUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => withoutUndefined(item)) as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, withoutUndefined(entry)])
+    ) as T;
+  }
+  return value;
+}
+
+// Stored dates come back as Timestamps
+function toDate(value: unknown): Date | undefined {
+  return value instanceof Timestamp ? value.toDate() : (value as Date | undefined);
+}
+
+// Top-level fields set to undefined are deleted from the stored job
+function toJobUpdate(updates: Partial<LearningJob>): UpdateData<DocumentData> {
+  return Object.fromEntries(
+    Object.entries(updates).map(([key, value]) => [key, value === undefined ? FieldValue.delete() : withoutUndefined(value)])
+  );
+}
+
+function toLearningJob(data: DocumentData): LearningJob {
+  const job = data as LearningJob;
+  return {
+    ...job,
+    mode: job.mode ?? 'full', // Jobs queued before incremental learning existed
+    createdAt: toDate(job.createdAt)!,
+    updatedAt: toDate(job.updatedAt)!,
+    finishedAt: toDate(job.finishedAt),
+    progress: {
+      ...job.progress,
+      startTime: toDate(job.progress.startTime)!,
+      estimatedCompletion: toDate(job.progress.estimatedCompletion)
+    }
+  };
+}
+
 export class PersonalContextStore {
   private static instance: PersonalContextStore;
   
@@ -42,7 +88,7 @@ export class PersonalContextStore {
   // Personal Context Profile Operations
   async savePersonalContext(userId: string, profile: PersonalContextProfile): Promise<void> {
     try {
-      const docRef = doc(db, 'personal_contexts', userId);
+      const docRef = adminDb.collection('personal_contexts').doc(userId);
       
       // Sanitize the profile to remove any undefined values
       const sanitizedProfile = JSON.parse(JSON.stringify(profile));
@@ -54,17 +100,17 @@ export class PersonalContextStore {
         updatedAt: new Date()
       };
       
-      await setDoc(docRef, {
+      await docRef.set({
         ...contextDoc,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
       });
       
       console.log(`[PersonalContextStore] Saved personal context for user: ${userId}`);
     } catch (error: any) {
       console.error(`[PersonalContextStore] Error saving personal context for user ${userId}:`, error);
       
-      if (error?.code === 'invalid-argument') {
+      if (getErrorCode(error) === 'invalid-argument') {
         console.error(`[PersonalContextStore] Data validation error. Please check that your data doesn't contain undefined values:`, error.message);
       }
       
@@ -74,10 +120,10 @@ export class PersonalContextStore {
 
   async getPersonalContext(userId: string): Promise<PersonalContextProfile | null> {
     try {
-      const docRef = doc(db, 'personal_contexts', userId);
-      const docSnap = await getDoc(docRef);
+      const docRef = adminDb.collection('personal_contexts').doc(userId);
+      const docSnap = await docRef.get();
       
-      if (docSnap.exists()) {
+      if (docSnap.exists) {
         const data = docSnap.data() as PersonalContextDocument;
         console.log(`[PersonalContextStore] Retrieved personal context for user: ${userId}`);
         return data.profile;
@@ -89,12 +135,12 @@ export class PersonalContextStore {
       console.error(`[PersonalContextStore] Error retrieving personal context for user ${userId}:`, error);
       
       // Check for specific Firebase/Firestore errors
-      if (error?.code === 'permission-denied') {
+      if (getErrorCode(error) === 'permission-denied') {
         throw new Error('Access denied. Please check your authentication and database security rules.');
-      } else if (error?.code === 'unavailable') {
+      } else if (getErrorCode(error) === 'unavailable') {
         console.warn(`[PersonalContextStore] Firestore temporarily unavailable for user ${userId}, returning null`);
         return null; // Return null instead of throwing when temporarily unavailable
-      } else if (error?.code === 'not-found' || 
+      } else if (getErrorCode(error) === 'not-found' || 
                  error?.message?.includes('Cloud Firestore API has not been used') ||
                  error?.message?.includes('client is offline')) {
         console.warn(`[PersonalContextStore] Firestore database not accessible, returning null for user ${userId}`);
@@ -107,10 +153,10 @@ export class PersonalContextStore {
 
   async updatePersonalContext(userId: string, updates: Partial<PersonalContextProfile>): Promise<void> {
     try {
-      const docRef = doc(db, 'personal_contexts', userId);
-      await updateDoc(docRef, {
+      const docRef = adminDb.collection('personal_contexts').doc(userId);
+      await docRef.update({
         profile: updates,
-        updatedAt: serverTimestamp()
+        updatedAt: FieldValue.serverTimestamp()
       });
       
       console.log(`[PersonalContextStore] Updated personal context for user: ${userId}`);
@@ -124,7 +170,7 @@ export class PersonalContextStore {
   async saveContactRelationship(userId: string, contactEmail: string, relationship: ContactRelationship): Promise<void> {
     try {
       const docId = `${userId}_${contactEmail.replace(/[.#$[\]]/g, '_')}`;
-      const docRef = doc(db, 'contact_relationships', docId);
+      const docRef = adminDb.collection('contact_relationships').doc(docId);
       
       const relationshipDoc: Omit<ContactRelationshipDocument, 'id'> = {
         userId,
@@ -134,10 +180,10 @@ export class PersonalContextStore {
         updatedAt: new Date()
       };
       
-      await setDoc(docRef, {
+      await docRef.set({
         ...relationshipDoc,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
       });
       
       console.log(`[PersonalContextStore] Saved contact relationship for ${contactEmail}`);
@@ -149,9 +195,7 @@ export class PersonalContextStore {
 
   async getContactRelationships(userId: string): Promise<ContactRelationship[]> {
     try {
-      const relationshipsRef = collection(db, 'contact_relationships');
-      const q = query(relationshipsRef, where('userId', '==', userId));
-      const querySnapshot = await getDocs(q);
+      const querySnapshot = await adminDb.collection('contact_relationships').where('userId', '==', userId).get();
       
       const relationships: ContactRelationship[] = [];
       querySnapshot.forEach((doc) => {
@@ -165,7 +209,7 @@ export class PersonalContextStore {
       console.error(`[PersonalContextStore] Error retrieving contact relationships:`, error);
       
       // Handle permission errors gracefully in development
-      if (error?.code === 'permission-denied') {
+      if (getErrorCode(error) === 'permission-denied') {
         console.warn(`[PersonalContextStore] Permission denied when retrieving contact relationships for user ${userId}`);
         return [];
       }
@@ -177,10 +221,10 @@ export class PersonalContextStore {
   async getContactRelationship(userId: string, contactEmail: string): Promise<ContactRelationship | null> {
     try {
       const docId = `${userId}_${contactEmail.replace(/[.#$[\]]/g, '_')}`;
-      const docRef = doc(db, 'contact_relationships', docId);
-      const docSnap = await getDoc(docRef);
+      const docRef = adminDb.collection('contact_relationships').doc(docId);
+      const docSnap = await docRef.get();
       
-      if (docSnap.exists()) {
+      if (docSnap.exists) {
         const data = docSnap.data() as ContactRelationshipDocument;
         return data.relationship;
       }
@@ -195,7 +239,7 @@ export class PersonalContextStore {
   async saveCommunicationPattern(userId: string, contactEmail: string, pattern: ContactCommunicationStyle): Promise<void> {
     try {
       const docId = `${userId}_${contactEmail.replace(/[.#$[\]]/g, '_')}`;
-      const docRef = doc(db, 'communication_patterns', docId);
+      const docRef = adminDb.collection('communication_patterns').doc(docId);
       
       const patternDoc: Omit<CommunicationPatternDocument, 'id'> = {
         userId,
@@ -205,10 +249,10 @@ export class PersonalContextStore {
         updatedAt: new Date()
       };
       
-      await setDoc(docRef, {
+      await docRef.set({
         ...patternDoc,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
       });
       
       console.log(`[PersonalContextStore] Saved communication pattern for ${contactEmail}`);
@@ -220,9 +264,7 @@ export class PersonalContextStore {
 
   async getCommunicationPatterns(userId: string): Promise<ContactCommunicationStyle[]> {
     try {
-      const patternsRef = collection(db, 'communication_patterns');
-      const q = query(patternsRef, where('userId', '==', userId));
-      const querySnapshot = await getDocs(q);
+      const querySnapshot = await adminDb.collection('communication_patterns').where('userId', '==', userId).get();
       
       const patterns: ContactCommunicationStyle[] = [];
       querySnapshot.forEach((doc) => {
@@ -236,7 +278,7 @@ export class PersonalContextStore {
       console.error(`[PersonalContextStore] Error retrieving communication patterns:`, error);
       
       // Handle permission errors gracefully in development
-      if (error?.code === 'permission-denied') {
+      if (getErrorCode(error) === 'permission-denied') {
         console.warn(`[PersonalContextStore] Permission denied when retrieving communication patterns for user ${userId}`);
         return [];
       }
@@ -248,7 +290,7 @@ export class PersonalContextStore {
   // Learning Progress Operations
   async saveLearningProgress(userId: string, progress: LearningProgress): Promise<void> {
     try {
-      const docRef = doc(db, 'learning_progress', userId);
+      const docRef = adminDb.collection('learning_progress').doc(userId);
       const progressDoc: Omit<LearningProgressDocument, 'id'> = {
         userId,
         progress,
@@ -256,10 +298,10 @@ export class PersonalContextStore {
         updatedAt: new Date()
       };
       
-      await setDoc(docRef, {
+      await docRef.set({
         ...progressDoc,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
       });
       
       console.log(`[PersonalContextStore] Saved learning progress for user: ${userId}`);
@@ -267,10 +309,10 @@ export class PersonalContextStore {
       console.error(`[PersonalContextStore] Error saving learning progress:`, error);
       
       // Check for specific Firebase/Firestore errors
-      if (error?.code === 'permission-denied') {
+      if (getErrorCode(error) === 'permission-denied') {
         throw new Error('Access denied. Please check your authentication and database security rules.');
-      } else if (error?.code === 'unavailable' ||
-                 error?.code === 'not-found' ||
+      } else if (getErrorCode(error) === 'unavailable' ||
+                 getErrorCode(error) === 'not-found' ||
                  error?.message?.includes('Cloud Firestore API has not been used') ||
                  error?.message?.includes('client is offline')) {
         console.warn(`[PersonalContextStore] Firestore not available, progress not saved for user ${userId}`);
@@ -283,10 +325,10 @@ export class PersonalContextStore {
 
   async getLearningProgress(userId: string): Promise<LearningProgress | null> {
     try {
-      const docRef = doc(db, 'learning_progress', userId);
-      const docSnap = await getDoc(docRef);
+      const docRef = adminDb.collection('learning_progress').doc(userId);
+      const docSnap = await docRef.get();
       
-      if (docSnap.exists()) {
+      if (docSnap.exists) {
         const data = docSnap.data() as LearningProgressDocument;
         return data.progress;
       }
@@ -295,7 +337,7 @@ export class PersonalContextStore {
       console.error(`[PersonalContextStore] Error retrieving learning progress:`, error);
       
       // Handle permission errors gracefully in development
-      if (error?.code === 'permission-denied') {
+      if (getErrorCode(error) === 'permission-denied') {
         console.warn(`[PersonalContextStore] Permission denied when retrieving learning progress for user ${userId}`);
         return null;
       }
@@ -306,10 +348,10 @@ export class PersonalContextStore {
 
   async updateLearningProgress(userId: string, updates: Partial<LearningProgress>): Promise<void> {
     try {
-      const docRef = doc(db, 'learning_progress', userId);
-      await updateDoc(docRef, {
+      const docRef = adminDb.collection('learning_progress').doc(userId);
+      await docRef.update({
         progress: updates,
-        updatedAt: serverTimestamp()
+        updatedAt: FieldValue.serverTimestamp()
       });
       
       console.log(`[PersonalContextStore] Updated learning progress for user: ${userId}`);
@@ -319,21 +361,150 @@ export class PersonalContextStore {
     }
   }
 
+  // Learning Job Operations
+  newLearningJobId(): string {
+    return adminDb.collection('learning_jobs').doc().id;
+  }
+
+  async saveLearningJob(job: LearningJob): Promise<void> {
+    try {
+      await adminDb.collection('learning_jobs').doc(job.id).set(withoutUndefined(job));
+      console.log(`[PersonalContextStore] Saved learning job ${job.id} for user: ${job.userId}`);
+    } catch (error) {
+      console.error(`[PersonalContextStore] Error saving learning job:`, error);
+      throw new Error(`Failed to save learning job: ${(error as Error).message}`);
+    }
+  }
+
+  async getLearningJob(jobId: string): Promise<LearningJob | null> {
+    try {
+      const docSnap = await adminDb.collection('learning_jobs').doc(jobId).get();
+      return docSnap.exists ? toLearningJob(docSnap.data()!) : null;
+    } catch (error) {
+      console.error(`[PersonalContextStore] Error retrieving learning job ${jobId}:`, error);
+      throw new Error(`Failed to retrieve learning job: ${(error as Error).message}`);
+    }
+  }
+
+  async updateLearningJob(jobId: string, updates: Partial<LearningJob>): Promise<void> {
+    try {
+      await adminDb.collection('learning_jobs').doc(jobId).update(toJobUpdate(updates));
+    } catch (error) {
+      console.error(`[PersonalContextStore] Error updating learning job ${jobId}:`, error);
+      throw new Error(`Failed to update learning job: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Applies `updates` atomically, provided `canApply` accepts the job as currently stored. The
+   * updates can be worked out from that stored job. Returns the job as it is afterwards and
+   * whether the update was applied, or null if there's no such job.
+   */
+  async transitionLearningJob(
+    jobId: string,
+    canApply: (job: LearningJob) => boolean,
+    updates: Partial<LearningJob> | ((job: LearningJob) => Partial<LearningJob>)
+  ): Promise<{ job: LearningJob; applied: boolean } | null> {
+    try {
+      const docRef = adminDb.collection('learning_jobs').doc(jobId);
+      return await adminDb.runTransaction(async (transaction) => {
+        const docSnap = await transaction.get(docRef);
+        if (!docSnap.exists) {
+          return null;
+        }
+        const job = toLearningJob(docSnap.data()!);
+        if (!canApply(job)) {
+          return { job, applied: false };
+        }
+        const changes = typeof updates === 'function' ? updates(job) : updates;
+        transaction.update(docRef, toJobUpdate(changes));
+        return { job: { ...job, ...changes }, applied: true };
+      });
+    } catch (error) {
+      console.error(`[PersonalContextStore] Error updating learning job ${jobId}:`, error);
+      throw new Error(`Failed to update learning job: ${(error as Error).message}`);
+    }
+  }
+
+  async getLatestLearningJob(userId: string): Promise<LearningJob | null> {
+    try {
+      const snapshot = await adminDb.collection('learning_jobs')
+        .where('userId', '==', userId)
+        .orderBy('createdAt', 'desc')
+        .limit(1)
+        .get();
+      return snapshot.empty ? null : toLearningJob(snapshot.docs[0].data());
+    } catch (error) {
+      console.error(`[PersonalContextStore] Error retrieving latest learning job for user ${userId}:`, error);
+      throw new Error(`Failed to retrieve learning job: ${(error as Error).message}`);
+    }
+  }
+
+  async getLearningJobsByStatus(statuses: LearningJobStatus[]): Promise<LearningJob[]> {
+    try {
+      const snapshot = await adminDb.collection('learning_jobs').where('status', 'in', statuses).get();
+      return snapshot.docs.map(doc => toLearningJob(doc.data()));
+    } catch (error) {
+      console.error(`[PersonalContextStore] Error retrieving learning jobs:`, error);
+      throw new Error(`Failed to retrieve learning jobs: ${(error as Error).message}`);
+    }
+  }
+
+  async saveLearningJobBatch(jobId: string, batch: number, analyses: ThreadAnalysisResult[]): Promise<void> {
+    try {
+      const batchDoc: LearningJobBatchDocument = {
+        jobId,
+        batch,
+        analyses: JSON.parse(JSON.stringify(analyses)),
+        createdAt: new Date()
+      };
+      // Keyed by batch number, so a batch that's redone after a restart replaces the earlier try
+      await adminDb.collection('learning_jobs').doc(jobId).collection('batches').doc(String(batch)).set(batchDoc);
+    } catch (error) {
+      console.error(`[PersonalContextStore] Error saving batch ${batch} of learning job ${jobId}:`, error);
+      throw new Error(`Failed to save learning job batch: ${(error as Error).message}`);
+    }
+  }
+
+  async getLearningJobAnalyses(jobId: string): Promise<ThreadAnalysisResult[]> {
+    try {
+      const snapshot = await adminDb.collection('learning_jobs').doc(jobId).collection('batches').orderBy('batch').get();
+      return snapshot.docs.flatMap(doc => (doc.data() as LearningJobBatchDocument).analyses);
+    } catch (error) {
+      console.error(`[PersonalContextStore] Error retrieving analyses of learning job ${jobId}:`, error);
+      throw new Error(`Failed to retrieve learning job analyses: ${(error as Error).message}`);
+    }
+  }
+
+  async deleteLearningJobBatches(jobId: string): Promise<void> {
+    try {
+      const snapshot = await adminDb.collection('learning_jobs').doc(jobId).collection('batches').get();
+      const batch = adminDb.batch();
+      snapshot.forEach((doc) => {
+        batch.delete(doc.ref);
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error(`[PersonalContextStore] Error deleting batches of learning job ${jobId}:`, error);
+      throw new Error(`Failed to delete learning job batches: ${(error as Error).message}`);
+    }
+  }
+
   // Batch Operations for Efficiency
   async saveBatchContactRelationships(userId: string, relationships: Array<{ contactEmail: string; relationship: ContactRelationship }>): Promise<void> {
     try {
-      const batch = writeBatch(db);
+      const batch = adminDb.batch();
       
       for (const { contactEmail, relationship } of relationships) {
         const docId = `${userId}_${contactEmail.replace(/[.#$[\]]/g, '_')}`;
-        const docRef = doc(db, 'contact_relationships', docId);
+        const docRef = adminDb.collection('contact_relationships').doc(docId);
         
         const relationshipDoc = {
           userId,
           contactEmail,
           relationship,
-          createdAt: serverTimestamp(),
-          updatedAt: serverTimestamp()
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp()
         };
         
         batch.set(docRef, relationshipDoc);
@@ -349,18 +520,18 @@ export class PersonalContextStore {
 
   async saveBatchCommunicationPatterns(userId: string, patterns: Array<{ contactEmail: string; pattern: ContactCommunicationStyle }>): Promise<void> {
     try {
-      const batch = writeBatch(db);
+      const batch = adminDb.batch();
       
       for (const { contactEmail, pattern } of patterns) {
         const docId = `${userId}_${contactEmail.replace(/[.#$[\]]/g, '_')}`;
-        const docRef = doc(db, 'communication_patterns', docId);
+        const docRef = adminDb.collection('communication_patterns').doc(docId);
         
         const patternDoc = {
           userId,
           contactEmail,
           pattern,
-          createdAt: serverTimestamp(),
-          updatedAt: serverTimestamp()
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp()
         };
         
         batch.set(docRef, patternDoc);
@@ -377,28 +548,24 @@ export class PersonalContextStore {
   // Cleanup Operations
   async deletePersonalContextData(userId: string): Promise<void> {
     try {
-      const batch = writeBatch(db);
+      const batch = adminDb.batch();
       
       // Delete personal context
-      const contextRef = doc(db, 'personal_contexts', userId);
+      const contextRef = adminDb.collection('personal_contexts').doc(userId);
       batch.delete(contextRef);
       
       // Delete learning progress
-      const progressRef = doc(db, 'learning_progress', userId);
+      const progressRef = adminDb.collection('learning_progress').doc(userId);
       batch.delete(progressRef);
       
       // Delete contact relationships
-      const relationshipsRef = collection(db, 'contact_relationships');
-      const relationshipsQuery = query(relationshipsRef, where('userId', '==', userId));
-      const relationshipsSnapshot = await getDocs(relationshipsQuery);
+      const relationshipsSnapshot = await adminDb.collection('contact_relationships').where('userId', '==', userId).get();
       relationshipsSnapshot.forEach((doc) => {
         batch.delete(doc.ref);
       });
       
       // Delete communication patterns
-      const patternsRef = collection(db, 'communication_patterns');
-      const patternsQuery = query(patternsRef, where('userId', '==', userId));
-      const patternsSnapshot = await getDocs(patternsQuery);
+      const patternsSnapshot = await adminDb.collection('communication_patterns').where('userId', '==', userId).get();
       patternsSnapshot.forEach((doc) => {
         batch.delete(doc.ref);
       });
@@ -0,0 +1,86 @@
+import type { EmailThread, EvidenceSource } from '@/types/personal-context';
+
+// Excerpts of longer messages come back shortened with an ellipsis
+const ELLIPSIS_PATTERN = /\.{3}|…/;
+const SURROUNDING_QUOTES_PATTERN = /^["'“‘]+|["'”’]+$/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Restated excerpts are matched by their words, regardless of case, spacing, quote marks and ellipses
+function excerptKey(excerpt: string): string {
+  return (excerpt.replace(/\\n/g, ' ').toLowerCase().match(/[\w']+/g) ?? []).join(' ');
+}
+
+/**
+ * Finds the message a quote given as evidence was taken from, looking at the user's messages
+ * first. The model reads message bodies as JSON strings, so escaped line breaks and quotes are
+ * undone, and a shortened quote is located by its longest part. A quote that can't be found is
+ * credited to the user's first message in the thread, without offsets.
+ */
+export function locateEvidence(excerpt: string, thread: EmailThread): EvidenceSource {
+  const fragment = excerpt
+    .replace(/\\n/g, ' ')
+    .replace(/\\"/g, '"')
+    .split(ELLIPSIS_PATTERN)
+    .map(part => part.trim().replace(SURROUNDING_QUOTES_PATTERN, '').trim())
+    .reduce((longest, part) => (part.length > longest.length ? part : longest), '');
+  const words = fragment.split(/\s+/).filter(Boolean);
+  const messages = [...thread.messages.filter(m => m.isFromUser), ...thread.messages.filter(m => !m.isFromUser)];
+  const mailbox = thread.mailbox ? { mailbox: thread.mailbox } : {};
+
+  if (words.length > 0) {
+    const pattern = new RegExp(words.map(escapeRegExp).join('\\s+'), 'i');
+    for (const message of messages) {
+      const match = pattern.exec(message.body);
+      if (match) {
+        return {
+          excerpt,
+          threadId: thread.threadId,
+          messageId: message.messageId,
+          start: match.index,
+          end: match.index + match[0].length,
+          ...mailbox
+        };
+      }
+    }
+  }
+  return { excerpt, threadId: thread.threadId, messageId: messages[0].messageId, ...mailbox };
+}
+
+/**
+ * Looks up the sources of the given evidence among the insights it was pooled from, for
+ * evidence that was merged or restated across threads. Evidence that can't be matched is left
+ * without a source.
+ */
+export function traceEvidence(
+  evidence: string[],
+  insights: Array<{ evidenceSources?: EvidenceSource[] }>
+): EvidenceSource[] {
+  const sources = new Map<string, EvidenceSource>();
+  insights.forEach(insight => {
+    insight.evidenceSources?.forEach(source => {
+      const key = excerptKey(source.excerpt);
+      if (!sources.has(key)) sources.set(key, source);
+    });
+  });
+  return evidence.flatMap(excerpt => sources.get(excerptKey(excerpt)) ?? []);
+}
+
+// Unique sources of both lists, the first list's first
+export function mergeEvidenceSources(
+  first: EvidenceSource[] = [],
+  second: EvidenceSource[] = [],
+  limit: number
+): EvidenceSource[] {
+  const seen = new Set<string>();
+  return [...first, ...second]
+    .filter(source => {
+      const key = `${source.messageId}:${excerptKey(source.excerpt)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
@@ -1,20 +1,19 @@
 import type { 
   EmailThread, 
   ThreadMessage, 
+  LearningMetadata,
   PersonalContextLearningInput 
 } from '@/types/personal-context';
+import type { Email, MailThread } from '@/types/mail';
+import type { MailProvider, MailProviderKind } from '@/services/mail-provider';
+import { extractEmailAddress } from '@/lib/mail-utils';
+import { learningEvents } from './learning-events';
 
-// Helper function to emit logs to the UI
+// Helper function to emit logs to the learning job's live event stream
 const emitLog = (message: string) => {
   // Log to console first
   console.log(`[GmailService] ${message}`);
-  
-  if (typeof window !== 'undefined') {
-    const event = new CustomEvent('personal-context-log', {
-      detail: { message, source: 'gmail' }
-    });
-    window.dispatchEvent(event);
-  }
+  learningEvents.log('gmail', message);
 };
 
 export interface GmailThreadsResponse {
@@ -24,29 +23,6 @@ export interface GmailThreadsResponse {
   nextPageToken?: string;
 }
 
-export interface GmailMessage {
-  id: string;
-  threadId: string;
-  snippet: string;
-  payload: {
-    headers: { name: string; value: string }[];
-    parts?: Array<{
-      mimeType: string;
-      body: { data?: string; size: number };
-      parts?: any[];
-    }>;
-    body: { data?: string; size: number };
-    mimeType: string;
-  };
-  internalDate: string;
-}
-
-export interface GmailThread {
-  id: string;
-  messages: GmailMessage[];
-  snippet: string;
-}
-
 export class GmailService {
   private static instance: GmailService;
   
@@ -60,39 +36,26 @@ export class GmailService {
   }
 
   /**
-   * Fetches email threads where the user has participated (sent at least one reply)
+   * Fetches email threads where the user has participated (sent at least one reply).
+   * Works against any MailProvider; Gmail and IMAP accounts go through the same filtering.
    */
   async fetchInteractiveThreads(
-    accessToken: string, 
+    provider: MailProvider, 
     userEmail: string, 
     options: PersonalContextLearningInput['options']
   ): Promise<GmailThreadsResponse> {
     try {
-      console.log(`[GmailService] Starting thread discovery for ${userEmail}`);
-      emitLog(`Starting thread discovery for ${userEmail}`);
-      
-      const timeFilter = this.getTimeFilter(options.timeRange);
-      emitLog(`Searching for emails ${options.timeRange} (${timeFilter})`);
-      
-      // First, get threads where user has sent messages
-      const sentThreadIds = await this.getUserSentThreadIds(accessToken, userEmail, timeFilter);
-      console.log(`[GmailService] Found ${sentThreadIds.length} threads with user participation`);
-      emitLog(`Found ${sentThreadIds.length} threads with user participation`);
+      const sentThreadIds = await this.discoverInteractiveThreadIds(provider, userEmail, options);
       
-      // Then fetch full thread details for each
+      // Then fetch full thread details, several threads per batched HTTP request
       const threads: EmailThread[] = [];
-      const batchSize = 10; // Process threads in batches to avoid rate limits
+      const batchSize = 25;
       
       for (let i = 0; i < sentThreadIds.length; i += batchSize) {
         const batch = sentThreadIds.slice(i, i + batchSize);
         emitLog(`Processing batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(sentThreadIds.length/batchSize)} (${batch.length} threads)`);
-        const batchThreads = await this.fetchThreadBatch(accessToken, userEmail, batch, options);
+        const batchThreads = await this.fetchThreadBatch(provider, userEmail, batch, options);
         threads.push(...batchThreads);
-        
-        // Small delay to respect rate limits
-        if (i + batchSize < sentThreadIds.length) {
-          await this.delay(100);
-        }
       }
       
       console.log(`[GmailService] Successfully processed ${threads.length} interactive threads`);
@@ -106,52 +69,66 @@ export class GmailService {
     } catch (error) {
       console.error('[GmailService] Error fetching interactive threads:', error);
       emitLog(`Error fetching threads: ${(error as Error).message}`);
-      throw new Error(`Failed to fetch Gmail threads: ${(error as Error).message}`);
+      throw new Error(`Failed to fetch mail threads: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Gets thread IDs where the user has sent messages
+   * Lists the IDs of threads the user sent messages in during the learning time range,
+   * without fetching them. Learning jobs fetch these a batch at a time.
    */
-  private async getUserSentThreadIds(
-    accessToken: string, 
-    userEmail: string, 
-    timeFilter: string
+  async discoverInteractiveThreadIds(
+    provider: MailProvider,
+    userEmail: string,
+    options: PersonalContextLearningInput['options']
   ): Promise<string[]> {
-    try {
-      let query = `from:${userEmail} ${timeFilter}`;
-      
-      // Exclude automated messages and promotions
-      query += ' -category:promotions -category:social -category:updates';
-      query += ' -from:noreply -from:no-reply -from:donotreply';
-      
-      emitLog(`Searching Gmail with query: ${query}`);
-      
-      const response = await fetch(
-        `https://gmail.googleapis.com/gmail/v1/users/me/messages?q=${encodeURIComponent(query)}&maxResults=500`,
-        {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+    console.log(`[GmailService] Starting thread discovery for ${userEmail}`);
+    emitLog(`Starting thread discovery for ${userEmail}`);
+    
+    const since = this.getTimeRangeStart(options.timeRange);
+    emitLog(`Searching for emails ${options.timeRange} (since ${since.toDateString()})`);
+    
+    const sentThreadIds = await this.getUserSentThreadIds(provider, since);
+    console.log(`[GmailService] Found ${sentThreadIds.length} threads with user participation`);
+    emitLog(`Found ${sentThreadIds.length} threads with user participation`);
+    return sentThreadIds;
+  }
 
-      if (!response.ok) {
-        throw new Error(`Gmail API error: ${response.status} ${response.statusText}`);
+  /**
+   * Lists the threads the user has sent messages in since the profile was last learned. Uses the
+   * mailbox history when the provider keeps one that reaches back far enough, otherwise searches
+   * by the date of the last run.
+   */
+  async discoverNewThreadIds(provider: MailProvider, learningMetadata: LearningMetadata): Promise<string[]> {
+    const { lastHistoryId } = learningMetadata;
+    if (lastHistoryId && provider.listSentThreadIdsSince) {
+      emitLog(`Reading mailbox history since ${lastHistoryId}`);
+      const threadIds = await provider.listSentThreadIdsSince(lastHistoryId, 500);
+      if (threadIds) {
+        emitLog(`Found ${threadIds.length} threads with new messages from the user`);
+        return threadIds;
       }
+      emitLog(`Mailbox history since ${lastHistoryId} has expired; searching by date instead`);
+    }
+
+    // Dates come back from storage as strings
+    const lastRun = learningMetadata.lastIncrementalAnalysis ?? learningMetadata.lastFullAnalysis ?? learningMetadata.analysisTimeRange.endDate;
+    const since = new Date(lastRun);
+    emitLog(`Searching for emails since the last run (${since.toDateString()})`);
+    return this.getUserSentThreadIds(provider, since);
+  }
 
-      const data = await response.json();
-      const threadIds = new Set<string>();
+  /**
+   * Gets thread IDs where the user has sent messages
+   */
+  private async getUserSentThreadIds(provider: MailProvider, since: Date): Promise<string[]> {
+    try {
+      emitLog(`Searching ${provider.kind} mailbox for threads the user sent messages in`);
       
-      if (data.messages) {
-        for (const message of data.messages) {
-          threadIds.add(message.threadId);
-        }
-      }
+      const threadIds = await provider.listSentThreadIds(since, 500);
       
-      emitLog(`Found ${threadIds.size} unique thread IDs from sent messages`);
-      return Array.from(threadIds);
+      emitLog(`Found ${threadIds.length} unique thread IDs from sent messages`);
+      return threadIds;
     } catch (error) {
       console.error('[GmailService] Error getting user sent thread IDs:', error);
       emitLog(`Error getting sent threads: ${(error as Error).message}`);
@@ -160,27 +137,30 @@ export class GmailService {
   }
 
   /**
-   * Fetches a batch of thread details
+   * Fetches a batch of thread details in one batched request, dropping threads that aren't
+   * useful for learning
    */
-  private async fetchThreadBatch(
-    accessToken: string,
+  async fetchThreadBatch(
+    provider: MailProvider,
     userEmail: string,
     threadIds: string[],
     options: PersonalContextLearningInput['options']
   ): Promise<EmailThread[]> {
     const threads: EmailThread[] = [];
+    // Auth failures throw; anything else is reported per thread
+    const { threads: mailThreads, failed } = await provider.getThreadsByIds(threadIds);
     
-    for (const threadId of threadIds) {
-      try {
-        const thread = await this.fetchSingleThread(accessToken, userEmail, threadId, options);
-        if (thread) {
-          threads.push(thread);
-          emitLog(`Processed thread: "${thread.subject.substring(0, 30)}${thread.subject.length > 30 ? '...' : ''}" (${thread.messageCount} messages)`);
-        }
-      } catch (error) {
-        console.warn(`[GmailService] Failed to fetch thread ${threadId}:`, error);
-        emitLog(`Failed to process thread ${threadId.substring(0, 8)}: ${(error as Error).message}`);
-        // Continue with other threads
+    for (const { id, error } of failed) {
+      console.warn(`[GmailService] Failed to fetch thread ${id}:`, error);
+      emitLog(`Failed to process thread ${id.substring(0, 8)}: ${error.message}`);
+      // Continue with other threads
+    }
+
+    for (const mailThread of mailThreads) {
+      const thread = this.processThread(mailThread, provider.kind, userEmail, options);
+      if (thread) {
+        threads.push(thread);
+        emitLog(`Processed thread: "${thread.subject.substring(0, 30)}${thread.subject.length > 30 ? '...' : ''}" (${thread.messageCount} messages)`);
       }
     }
     
@@ -188,44 +168,32 @@ export class GmailService {
   }
 
   /**
-   * Fetches a single thread with all messages
+   * Filters and converts a fetched thread; returns null when it isn't useful for learning
    */
-  private async fetchSingleThread(
-    accessToken: string,
+  private processThread(
+    mailThread: MailThread,
+    mailbox: MailProviderKind,
     userEmail: string,
-    threadId: string,
     options: PersonalContextLearningInput['options']
-  ): Promise<EmailThread | null> {
+  ): EmailThread | null {
+    const threadId = mailThread.id;
     try {
-      const response = await fetch(
-        `https://gmail.googleapis.com/gmail/v1/users/me/threads/${threadId}?format=full`,
-        {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Gmail API error: ${response.status} ${response.statusText}`);
-      }
+      // Drafts aren't part of the conversation the user actually had
+      const messages = mailThread.messages.filter(message => !message.isDraft);
 
-      const gmailThread: GmailThread = await response.json();
-      
       // Filter out threads that are too short
-      if (gmailThread.messages.length < options.minThreadLength) {
+      if (messages.length < options.minThreadLength) {
         return null;
       }
       
       // Check if user actually participated in conversation
-      const userParticipation = this.checkUserParticipation(gmailThread.messages, userEmail);
+      const userParticipation = this.checkUserParticipation(messages, userEmail);
       if (!userParticipation.hasParticipated || !userParticipation.hasReplied) {
         return null;
       }
       
       // Convert to our EmailThread format
-      const thread = await this.convertGmailThread(gmailThread, userEmail);
+      const thread = this.convertMailThread(threadId, messages, mailbox, userEmail);
       
       // Filter promotional or automated content
       if (!options.includePromotional && this.isPromotionalThread(thread)) {
@@ -234,31 +202,31 @@ export class GmailService {
       
       return thread;
     } catch (error) {
-      console.error(`[GmailService] Error fetching single thread ${threadId}:`, error);
+      console.error(`[GmailService] Error processing thread ${threadId}:`, error);
       return null;
     }
   }
 
   /**
-   * Converts Gmail thread format to our internal format
+   * Converts a provider thread to the learner's format
    */
-  private async convertGmailThread(gmailThread: GmailThread, userEmail: string): Promise<EmailThread> {
+  private convertMailThread(threadId: string, emails: Email[], mailbox: MailProviderKind, userEmail: string): EmailThread {
     const messages: ThreadMessage[] = [];
     const participants = new Set<string>();
     
-    for (const gmailMessage of gmailThread.messages) {
-      const message = await this.convertGmailMessage(gmailMessage, userEmail);
+    for (const email of emails) {
+      const message = this.convertEmail(email, userEmail);
       messages.push(message);
       
       participants.add(message.from);
-      message.to.forEach(email => participants.add(email));
+      message.to.forEach(address => participants.add(address));
     }
     
     const firstMessage = messages[0];
     const lastMessage = messages[messages.length - 1];
     
     return {
-      threadId: gmailThread.id,
+      threadId,
       subject: firstMessage.subject,
       participants: Array.from(participants),
       messageCount: messages.length,
@@ -266,121 +234,34 @@ export class GmailService {
       firstMessageDate: firstMessage.timestamp,
       lastMessageDate: lastMessage.timestamp,
       messages,
-      threadCategory: this.categorizeThread(messages, userEmail)
+      threadCategory: this.categorizeThread(messages, userEmail),
+      mailbox
     };
   }
 
-  /**
-   * Converts Gmail message format to our internal format
-   */
-  private async convertGmailMessage(gmailMessage: GmailMessage, userEmail: string): Promise<ThreadMessage> {
-    const headers = gmailMessage.payload.headers;
-    const from = this.getHeaderValue(headers, 'From');
-    const to = this.getHeaderValue(headers, 'To');
-    const cc = this.getHeaderValue(headers, 'Cc');
-    const bcc = this.getHeaderValue(headers, 'Bcc');
-    const subject = this.getHeaderValue(headers, 'Subject');
-    
-    const body = await this.extractMessageBody(gmailMessage.payload);
-    
-    const headerMap: Record<string, string> = {};
-    headers.forEach(header => {
-      headerMap[header.name.toLowerCase()] = header.value;
-    });
-    
+  private convertEmail(email: Email, userEmail: string): ThreadMessage {
+    const from = extractEmailAddress(email.senderEmail);
     return {
-      messageId: gmailMessage.id,
-      from: this.extractEmailAddress(from),
-      to: this.parseEmailList(to),
-      cc: cc ? this.parseEmailList(cc) : undefined,
-      bcc: bcc ? this.parseEmailList(bcc) : undefined,
-      subject: subject || '',
-      body: body || '',
-      timestamp: new Date(parseInt(gmailMessage.internalDate)),
-      isFromUser: this.extractEmailAddress(from).toLowerCase() === userEmail.toLowerCase(),
-      headers: headerMap
+      messageId: email.id,
+      from,
+      to: (email.to ?? []).map(extractEmailAddress),
+      cc: email.cc?.length ? email.cc.map(extractEmailAddress) : undefined,
+      bcc: email.bcc?.length ? email.bcc.map(extractEmailAddress) : undefined,
+      subject: email.headers?.subject ?? '',
+      body: email.body.trim(),
+      timestamp: new Date(parseInt(email.internalDate ?? '0', 10)),
+      isFromUser: from === userEmail.toLowerCase(),
+      headers: email.headers ?? {}
     };
   }
 
-  /**
-   * Extracts message body from Gmail payload
-   */
-  private async extractMessageBody(payload: GmailMessage['payload']): Promise<string> {
-    try {
-      // Try to get plain text first
-      let body = '';
-      
-      if (payload.parts) {
-        for (const part of payload.parts) {
-          if (part.mimeType === 'text/plain' && part.body.data) {
-            body = this.decodeBase64Url(part.body.data);
-            break;
-          }
-        }
-        
-        // If no plain text, try HTML
-        if (!body) {
-          for (const part of payload.parts) {
-            if (part.mimeType === 'text/html' && part.body.data) {
-              body = this.stripHtml(this.decodeBase64Url(part.body.data));
-              break;
-            }
-          }
-        }
-      } else if (payload.body.data) {
-        body = this.decodeBase64Url(payload.body.data);
-        if (payload.mimeType === 'text/html') {
-          body = this.stripHtml(body);
-        }
-      }
-      
-      return body.trim();
-    } catch (error) {
-      console.warn('[GmailService] Error extracting message body:', error);
-      return '';
-    }
-  }
-
-  /**
-   * Utility functions
-   */
-  private getHeaderValue(headers: { name: string; value: string }[], name: string): string {
-    const header = headers.find(h => h.name.toLowerCase() === name.toLowerCase());
-    return header?.value || '';
-  }
-
-  private extractEmailAddress(emailString: string): string {
-    const match = emailString.match(/<([^>]+)>/);
-    return match ? match[1] : emailString.trim();
-  }
-
-  private parseEmailList(emailString: string): string[] {
-    if (!emailString) return [];
-    return emailString.split(',').map(email => this.extractEmailAddress(email.trim()));
-  }
-
-  private decodeBase64Url(data: string): string {
-    try {
-      const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
-      return atob(base64);
-    } catch (error) {
-      console.warn('[GmailService] Error decoding base64:', error);
-      return '';
-    }
-  }
-
-  private stripHtml(html: string): string {
-    return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>');
-  }
-
-  private checkUserParticipation(messages: GmailMessage[], userEmail: string): { hasParticipated: boolean; hasReplied: boolean } {
+  private checkUserParticipation(messages: Email[], userEmail: string): { hasParticipated: boolean; hasReplied: boolean } {
     let hasParticipated = false;
     let hasReplied = false;
     let foundNonUserMessage = false;
     
     for (const message of messages) {
-      const from = this.extractEmailAddress(this.getHeaderValue(message.payload.headers, 'From'));
-      const isFromUser = from.toLowerCase() === userEmail.toLowerCase();
+      const isFromUser = message.senderEmail.toLowerCase() === userEmail.toLowerCase();
       
       if (isFromUser) {
         hasParticipated = true;
@@ -433,7 +314,7 @@ export class GmailService {
     return promotionalKeywords.some(keyword => subject.includes(keyword));
   }
 
-  private getTimeFilter(timeRange: PersonalContextLearningInput['options']['timeRange']): string {
+  private getTimeRangeStart(timeRange: PersonalContextLearningInput['options']['timeRange']): Date {
     const now = new Date();
     let date: Date;
     
@@ -467,29 +348,16 @@ export class GmailService {
         date = new Date(now.getFullYear(), now.getMonth() - 3, now.getDate());
     }
     
-    return `after:${date.getFullYear()}/${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getDate().toString().padStart(2, '0')}`;
-  }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return date;
   }
 
   /**
-   * Test connection to Gmail API
+   * Test connection to the mailbox
    */
-  async testConnection(accessToken: string): Promise<boolean> {
+  async testConnection(provider: MailProvider): Promise<boolean> {
     try {
-      const response = await fetch(
-        'https://gmail.googleapis.com/gmail/v1/users/me/profile',
-        {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      return response.ok;
+      await provider.getProfile();
+      return true;
     } catch (error) {
       console.error('[GmailService] Connection test failed:', error);
       return false;
@@ -497,28 +365,15 @@ export class GmailService {
   }
 
   /**
-   * Get user's Gmail profile information
+   * Get the mailbox owner's profile information
    */
-  async getUserProfile(accessToken: string): Promise<{ emailAddress: string; threadsTotal: number } | null> {
+  async getUserProfile(provider: MailProvider): Promise<{ emailAddress: string; threadsTotal?: number; historyId?: string } | null> {
     try {
-      const response = await fetch(
-        'https://gmail.googleapis.com/gmail/v1/users/me/profile',
-        {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Gmail API error: ${response.status} ${response.statusText}`);
-      }
-
-      const profile = await response.json();
+      const profile = await provider.getProfile();
       return {
         emailAddress: profile.emailAddress,
-        threadsTotal: profile.threadsTotal
+        threadsTotal: profile.threadsTotal,
+        historyId: profile.historyId
       };
     } catch (error) {
       console.error('[GmailService] Error getting user profile:', error);
@@ -0,0 +1,83 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LearningEvent, LearningLogSource } from '@/types/personal-context';
+
+type LearningEventListener = (event: LearningEvent) => void;
+
+interface JobScope {
+  ownerId: string;
+  jobId: string;
+}
+
+/**
+ * Hands learning events to the open event streams of the job's owner. Events only reach streams
+ * served by the process running the job; a stream starts with a snapshot read from Firestore, so
+ * reconnecting always catches up.
+ */
+export class LearningEventBus {
+  private static instance: LearningEventBus;
+
+  private listeners = new Map<string, Set<LearningEventListener>>();
+  // The job whose work is running in the current async context, for log events
+  private jobScope = new AsyncLocalStorage<JobScope>();
+
+  private constructor() {}
+
+  public static getInstance(): LearningEventBus {
+    if (!LearningEventBus.instance) {
+      LearningEventBus.instance = new LearningEventBus();
+    }
+    return LearningEventBus.instance;
+  }
+
+  /**
+   * Listens to the events of one personal-context owner. Returns the unsubscribe function.
+   */
+  subscribe(ownerId: string, listener: LearningEventListener): () => void {
+    const ownerListeners = this.listeners.get(ownerId) ?? new Set<LearningEventListener>();
+    ownerListeners.add(listener);
+    this.listeners.set(ownerId, ownerListeners);
+
+    return () => {
+      ownerListeners.delete(listener);
+      if (ownerListeners.size === 0) {
+        this.listeners.delete(ownerId);
+      }
+    };
+  }
+
+  publish(ownerId: string, event: LearningEvent): void {
+    for (const listener of this.listeners.get(ownerId) ?? []) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('[LearningEventBus] Listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Runs a job's work so that log() calls made anywhere inside it reach the job's owner
+   */
+  runInJob<T>(ownerId: string, jobId: string, work: () => Promise<T>): Promise<T> {
+    return this.jobScope.run({ ownerId, jobId }, work);
+  }
+
+  /**
+   * Streams a log line to the owner of the job running in the current context. Outside a job
+   * this does nothing.
+   */
+  log(source: LearningLogSource, message: string): void {
+    const scope = this.jobScope.getStore();
+    if (scope) {
+      this.publish(scope.ownerId, {
+        type: 'log',
+        jobId: scope.jobId,
+        source,
+        message,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+}
+
+export const learningEvents = LearningEventBus.getInstance();
@@ -0,0 +1,679 @@
+import { randomUUID } from 'crypto';
+import type {
+  LearningEstimate,
+  LearningJob,
+  LearningJobMode,
+  LearningJobSource,
+  LearningJobStatus,
+  LearningProgress,
+  PersonalContextLearningInput
+} from '@/types/personal-context';
+import type { ImapAccountConfig } from '@/types/mail';
+import type { MailProvider } from '@/services/mail-provider';
+import { GmailMailProvider } from '@/services/gmail-provider';
+import { ImapMailProvider } from '@/services/imap-provider';
+import { checkImapAccount } from '@/services/mail-server-guard';
+import { OAuthCredentialError, oauthCredentialStore } from '@/services/oauth-credential-store';
+import { ANALYSIS_DEPTHS, estimateLearning } from '@/lib/analysis-depth';
+import { gmailService } from './gmail-service';
+import { personalContextAnalysisService } from './analysis-service';
+import { personalContextService } from './personal-context-service';
+import { personalContextStore } from './context-store';
+import { learningEvents } from './learning-events';
+
+// Helper function to emit logs to the learning job's live event stream
+const emitLog = (message: string) => {
+  console.log(`[LearningJobService] ${message}`);
+  learningEvents.log('service', message);
+};
+
+// Threads are fetched, analyzed and checkpointed in batches sized by the analysis depth, so
+// pausing or a restart loses at most one batch of work.
+// Pause between batches to stay clear of AI rate limits
+const BATCH_DELAY_MS = 500;
+// Jobs left running or queued this long without an update are taken to belong to a server
+// process that has gone away
+const STALE_JOB_MS = 10 * 60 * 1000;
+// Slack after a job's stale window before it's checked again, so its last update is past the cutoff
+const RECOVERY_CHECK_MARGIN_MS = 5 * 1000;
+
+const ACTIVE_STATUSES: LearningJobStatus[] = ['queued', 'running', 'paused'];
+
+const CREDENTIALS_LOST_ERROR = 'The server restarted during learning. Resume with the mailbox credentials to continue.';
+const NO_THREADS_ERROR = 'No email threads found for analysis. Try expanding the time range or checking email activity.';
+
+export type LearningJobErrorCode = 'not_found' | 'conflict' | 'needs_credentials';
+
+export class LearningJobError extends Error {
+  constructor(message: string, public readonly code: LearningJobErrorCode) {
+    super(message);
+    this.name = 'LearningJobError';
+  }
+}
+
+// Mailbox credentials handed to a job. They are kept in memory only, never stored with the job.
+export interface LearningJobCredentials {
+  accessToken?: string;
+  imapAccount?: ImapAccountConfig;
+}
+
+export interface NewLearningJob {
+  userId: string;
+  requestedBy: string;
+  mode: LearningJobMode;
+  options: PersonalContextLearningInput['options'];
+  source: LearningJobSource;
+  credentials?: LearningJobCredentials;
+}
+
+function toProgressStatus(status: LearningJobStatus): LearningProgress['status'] {
+  switch (status) {
+    case 'queued':
+    case 'running':
+      return 'running';
+    case 'cancelled':
+      return 'idle';
+    default:
+      return status;
+  }
+}
+
+// Whether a job is still as it was when read, i.e. nothing has touched it since
+function isUnchanged(current: LearningJob, seen: LearningJob): boolean {
+  return current.status === seen.status && current.updatedAt.getTime() === seen.updatedAt.getTime();
+}
+
+/**
+ * Runs personal-context learning in the background. Jobs are queued in Firestore and processed
+ * one at a time by this server process; each batch of threads is checkpointed, so jobs can be
+ * paused and resumed, and jobs interrupted by a restart carry on from their last batch.
+ */
+export class LearningJobService {
+  private static instance: LearningJobService;
+
+  private queue: string[] = [];
+  private processing = false;
+  // Mail providers for jobs started with a posted token or IMAP password
+  private providers = new Map<string, MailProvider>();
+  // Runs of this process, so recovery never takes over a job it is working on itself
+  private activeRunIds = new Set<string>();
+  private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {
+    this.recoverInterruptedJobs().catch(error => {
+      console.error('[LearningJobService] Failed to recover interrupted jobs:', error);
+    });
+  }
+
+  public static getInstance(): LearningJobService {
+    if (!LearningJobService.instance) {
+      LearningJobService.instance = new LearningJobService();
+    }
+    return LearningJobService.instance;
+  }
+
+  /**
+   * Picks where a new job reads mail from: the IMAP account when given, otherwise the server-held
+   * Google credentials, falling back to the posted access token when the account has none.
+   * Throws OAuthCredentialError when the credentials can't be used and there is no token, and
+   * MailServerRejectedError when the IMAP account's servers may not be connected to.
+   */
+  async resolveSource(
+    input: LearningJobCredentials & { credentials?: { userId: string; accountId: string } }
+  ): Promise<LearningJobSource> {
+    const { accessToken, imapAccount, credentials } = input;
+    if (imapAccount) {
+      await checkImapAccount(imapAccount);
+      return { kind: 'imap', emailAddress: imapAccount.emailAddress };
+    }
+    if (credentials) {
+      try {
+        // Checks the account is still connected; the job fetches its own tokens as it goes
+        await oauthCredentialStore.getAccessToken(credentials.userId, credentials.accountId);
+        console.log(`[LearningJobService] Using server-held credentials for ${credentials.accountId}`);
+        return { kind: 'gmail_credentials', userId: credentials.userId, accountId: credentials.accountId };
+      } catch (error) {
+        if (!(error instanceof OAuthCredentialError) || !accessToken) {
+          throw error;
+        }
+        console.log(`[LearningJobService] No server-held credentials for ${credentials.accountId}; falling back to the posted access token`);
+      }
+    }
+    return { kind: 'gmail_token' };
+  }
+
+  /**
+   * Discovers the threads a job with these settings would analyze, without queueing it, and
+   * estimates what analyzing them would take
+   */
+  async estimate(request: Omit<NewLearningJob, 'requestedBy'>): Promise<LearningEstimate> {
+    const provider = request.source.kind === 'gmail_credentials'
+      ? await this.createCredentialsProvider(request.source)
+      : this.createProvider(request.source, request.credentials);
+    if (!provider) {
+      throw new LearningJobError('Mailbox credentials are required to estimate learning', 'needs_credentials');
+    }
+    const mailboxProfile = await gmailService.getUserProfile(provider);
+    if (!mailboxProfile) {
+      throw new Error('Failed to access mailbox profile');
+    }
+    const { threadIds } = await this.discoverThreadIds(request.userId, request.mode, request.options, provider, mailboxProfile.emailAddress);
+    return estimateLearning(threadIds.length, request.options.analysisDepth);
+  }
+
+  /**
+   * Queues a learning job. An owner can only have one job in progress at a time.
+   */
+  async enqueue(request: NewLearningJob): Promise<LearningJob> {
+    const activeJob = await this.getActiveJob(request.userId);
+    if (activeJob) {
+      throw new LearningJobError(`A learning job is already ${activeJob.status} for this profile`, 'conflict');
+    }
+
+    const provider = this.createProvider(request.source, request.credentials);
+    if (request.source.kind !== 'gmail_credentials' && !provider) {
+      throw new LearningJobError('Mailbox credentials are required to start learning', 'needs_credentials');
+    }
+
+    const now = new Date();
+    const job: LearningJob = {
+      id: personalContextStore.newLearningJobId(),
+      userId: request.userId,
+      requestedBy: request.requestedBy,
+      status: 'queued',
+      mode: request.mode,
+      options: request.options,
+      source: request.source,
+      progress: {
+        userId: request.userId,
+        currentPhase: 'discovery',
+        progress: 0,
+        threadsDiscovered: 0,
+        threadsAnalyzed: 0,
+        emailsAnalyzed: 0,
+        contactsClassified: 0,
+        startTime: now,
+        status: 'running'
+      },
+      createdAt: now,
+      updatedAt: now
+    };
+    job.progress.jobId = job.id;
+
+    await personalContextStore.saveLearningJob(job);
+    await this.mirrorProgress(job);
+    if (provider) {
+      this.providers.set(job.id, provider);
+    }
+
+    learningEvents.publish(job.userId, { type: 'status', job });
+    console.log(`[LearningJobService] Queued learning job ${job.id} for user: ${job.userId}`);
+    this.schedule(job.id);
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<LearningJob | null> {
+    return personalContextStore.getLearningJob(jobId);
+  }
+
+  /**
+   * The owner's most recent job, whatever its state
+   */
+  async getLatestJob(userId: string): Promise<LearningJob | null> {
+    return personalContextStore.getLatestLearningJob(userId);
+  }
+
+  async getActiveJob(userId: string): Promise<LearningJob | null> {
+    const job = await this.getLatestJob(userId);
+    return job && ACTIVE_STATUSES.includes(job.status) ? job : null;
+  }
+
+  /**
+   * Pauses a queued or running job. A running job stops after the batch it's working on.
+   */
+  async pause(jobId: string): Promise<LearningJob> {
+    const job = await this.transition(jobId, ['queued', 'running', 'paused'], 'paused', { runId: undefined });
+    console.log(`[LearningJobService] Paused learning job ${jobId}`);
+    return job;
+  }
+
+  /**
+   * Resumes a paused job from its last checkpoint. Jobs that don't use server-held Google
+   * credentials need their mailbox credentials again if this process doesn't have them.
+   */
+  // Throws MailServerRejectedError when a posted IMAP account's servers may not be connected to
+  async resume(jobId: string, credentials?: LearningJobCredentials): Promise<LearningJob> {
+    const job = await this.requireJob(jobId);
+    if (job.source.kind === 'imap' && credentials?.imapAccount) {
+      await checkImapAccount(credentials.imapAccount);
+    }
+    const provider = this.createProvider(job.source, credentials);
+    if (provider) {
+      this.providers.set(jobId, provider);
+    } else if (job.source.kind !== 'gmail_credentials' && !this.providers.has(jobId)) {
+      throw new LearningJobError('Provide the mailbox credentials again to resume this job', 'needs_credentials');
+    }
+
+    const resumed = await this.transition(jobId, ['paused'], 'queued', { needsCredentials: undefined, error: undefined });
+    console.log(`[LearningJobService] Resumed learning job ${jobId}`);
+    this.schedule(jobId);
+    return resumed;
+  }
+
+  /**
+   * Cancels a job and discards the batches it analyzed. The profile is left as it was.
+   */
+  async cancel(jobId: string): Promise<LearningJob> {
+    const job = await this.transition(jobId, ACTIVE_STATUSES, 'cancelled', { runId: undefined, finishedAt: new Date() });
+    this.queue = this.queue.filter(id => id !== jobId);
+    this.providers.delete(jobId);
+    await personalContextStore.deleteLearningJobBatches(jobId);
+    console.log(`[LearningJobService] Cancelled learning job ${jobId}`);
+    return job;
+  }
+
+  // Private helper methods
+
+  private async requireJob(jobId: string): Promise<LearningJob> {
+    const job = await personalContextStore.getLearningJob(jobId);
+    if (!job) {
+      throw new LearningJobError('Learning job not found', 'not_found');
+    }
+    return job;
+  }
+
+  private async discardBatchesIfCancelled(jobId: string): Promise<void> {
+    const current = await personalContextStore.getLearningJob(jobId);
+    if (!current || current.status === 'cancelled') {
+      await personalContextStore.deleteLearningJobBatches(jobId);
+    }
+  }
+
+  private async transition(
+    jobId: string,
+    from: LearningJobStatus[],
+    to: LearningJobStatus,
+    updates: Partial<LearningJob> = {}
+  ): Promise<LearningJob> {
+    const result = await personalContextStore.transitionLearningJob(jobId, current => from.includes(current.status), current => ({
+      ...updates,
+      status: to,
+      progress: { ...current.progress, status: toProgressStatus(to) },
+      updatedAt: new Date()
+    }));
+    if (!result) {
+      throw new LearningJobError('Learning job not found', 'not_found');
+    }
+    if (!result.applied) {
+      throw new LearningJobError(`Can't change a ${result.job.status} job to ${to}`, 'conflict');
+    }
+    await this.mirrorProgress(result.job);
+    learningEvents.publish(result.job.userId, { type: 'status', job: result.job });
+    return result.job;
+  }
+
+  private createProvider(source: LearningJobSource, credentials?: LearningJobCredentials): MailProvider | null {
+    if (source.kind === 'imap' && credentials?.imapAccount) {
+      return new ImapMailProvider(credentials.imapAccount);
+    }
+    if (source.kind === 'gmail_token' && credentials?.accessToken) {
+      return new GmailMailProvider(credentials.accessToken);
+    }
+    return null;
+  }
+
+  private async getProvider(job: LearningJob): Promise<MailProvider | null> {
+    if (job.source.kind === 'gmail_credentials') {
+      return this.createCredentialsProvider(job.source);
+    }
+    return this.providers.get(job.id) ?? null;
+  }
+
+  private async createCredentialsProvider(source: Extract<LearningJobSource, { kind: 'gmail_credentials' }>): Promise<MailProvider> {
+    // Tokens from the store are renewed automatically if they expire during the run
+    const { accessToken } = await oauthCredentialStore.getAccessToken(source.userId, source.accountId);
+    return new GmailMailProvider(accessToken);
+  }
+
+  /**
+   * Lists the threads to learn from, newest first: the whole time range, or only mail since the
+   * last run for incremental jobs. Incremental jobs need a profile to build on; without one they
+   * learn the whole time range.
+   */
+  private async discoverThreadIds(
+    userId: string,
+    mode: LearningJobMode,
+    options: PersonalContextLearningInput['options'],
+    provider: MailProvider,
+    userEmail: string
+  ): Promise<{ mode: LearningJobMode; threadIds: string[] }> {
+    const existingProfile = mode === 'incremental' ? await personalContextService.getPersonalContext(userId) : null;
+    if (mode === 'incremental' && !existingProfile) {
+      emitLog(`No saved profile to update yet, learning the whole time range instead`);
+    }
+    const threadIds = existingProfile
+      ? await gmailService.discoverNewThreadIds(provider, existingProfile.learningMetadata)
+      : await gmailService.discoverInteractiveThreadIds(provider, userEmail, options);
+    return { mode: existingProfile ? 'incremental' : 'full', threadIds };
+  }
+
+  private schedule(jobId: string): void {
+    if (!this.queue.includes(jobId)) {
+      this.queue.push(jobId);
+    }
+    void this.processQueue();
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      while (this.queue.length > 0) {
+        await this.runJob(this.queue.shift()!);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Takes a queued job and works through it from its checkpoint. Every update checks that this
+   * run still owns the job, so a pause or cancel from another request stops it after the
+   * current batch.
+   */
+  private async runJob(jobId: string): Promise<void> {
+    const runId = randomUUID();
+    let job: LearningJob;
+    try {
+      const claimed = await personalContextStore.transitionLearningJob(jobId, current => current.status === 'queued', {
+        status: 'running',
+        runId,
+        updatedAt: new Date()
+      });
+      if (!claimed?.applied) {
+        return;
+      }
+      job = claimed.job;
+      learningEvents.publish(job.userId, { type: 'status', job });
+    } catch (error) {
+      console.error(`[LearningJobService] Failed to start learning job ${jobId}:`, error);
+      return;
+    }
+
+    this.activeRunIds.add(runId);
+    try {
+      await learningEvents.runInJob(job.userId, jobId, () => this.processJob(job, runId));
+    } finally {
+      this.activeRunIds.delete(runId);
+    }
+  }
+
+  private async processJob(job: LearningJob, runId: string): Promise<void> {
+    const jobId = job.id;
+    emitLog(`Running learning job ${jobId}`);
+    try {
+      const provider = await this.getProvider(job);
+      if (!provider) {
+        await this.update(job, runId, { status: 'paused', runId: undefined, needsCredentials: true, error: CREDENTIALS_LOST_ERROR });
+        return;
+      }
+
+      const depth = ANALYSIS_DEPTHS[job.options.analysisDepth];
+      let checkpoint = job.checkpoint;
+      if (!checkpoint) {
+        if (!(await this.update(job, runId, { progress: { ...job.progress, currentPhase: 'discovery', progress: 10 } }))) {
+          return;
+        }
+        const mailboxProfile = await gmailService.getUserProfile(provider);
+        if (!mailboxProfile) {
+          throw new Error('Failed to access mailbox profile');
+        }
+        const discovered = await this.discoverThreadIds(job.userId, job.mode, job.options, provider, mailboxProfile.emailAddress);
+        const { mode } = discovered;
+        if (discovered.threadIds.length === 0 && mode === 'full') {
+          throw new Error(NO_THREADS_ERROR);
+        }
+        const threadIds = discovered.threadIds.slice(0, depth.maxThreads);
+        if (threadIds.length < discovered.threadIds.length) {
+          emitLog(`${depth.label} analysis covers the ${threadIds.length} most recent of ${discovered.threadIds.length} threads`);
+        }
+        checkpoint = {
+          userEmail: mailboxProfile.emailAddress,
+          threadIds,
+          batchSize: depth.batchSize,
+          nextBatch: 0,
+          totalBatches: Math.ceil(threadIds.length / depth.batchSize),
+          historyId: mailboxProfile.historyId
+        };
+        const saved = await this.update(job, runId, {
+          mode,
+          checkpoint,
+          progress: { ...job.progress, currentPhase: 'analysis', progress: 20, threadsDiscovered: threadIds.length }
+        });
+        if (!saved) {
+          return;
+        }
+      }
+
+      // The ETA is extrapolated from the batches this run has done
+      const runStartedAt = Date.now();
+      const runFirstBatch = checkpoint.nextBatch;
+
+      while (checkpoint.nextBatch < checkpoint.totalBatches) {
+        const start = checkpoint.nextBatch * checkpoint.batchSize;
+        const threadIds = checkpoint.threadIds.slice(start, start + checkpoint.batchSize);
+        const threads = await gmailService.fetchThreadBatch(provider, checkpoint.userEmail, threadIds, job.options);
+        const analyses = await personalContextAnalysisService.analyzeBatchThreads(threads, checkpoint.userEmail, job.options.analysisDepth);
+        await personalContextStore.saveLearningJobBatch(jobId, checkpoint.nextBatch, analyses);
+
+        checkpoint = { ...checkpoint, nextBatch: checkpoint.nextBatch + 1 };
+        const msPerBatch = (Date.now() - runStartedAt) / (checkpoint.nextBatch - runFirstBatch);
+        const saved = await this.update(job, runId, {
+          checkpoint,
+          progress: {
+            ...job.progress,
+            currentPhase: 'analysis',
+            progress: 20 + Math.round((checkpoint.nextBatch / checkpoint.totalBatches) * 70),
+            threadsAnalyzed: job.progress.threadsAnalyzed + threads.length,
+            emailsAnalyzed: job.progress.emailsAnalyzed + threads.reduce((sum, t) => sum + t.messageCount, 0),
+            estimatedCompletion: new Date(Date.now() + msPerBatch * (checkpoint.totalBatches - checkpoint.nextBatch))
+          }
+        });
+        if (!saved) {
+          emitLog(`Learning job ${jobId} stopped after batch ${checkpoint.nextBatch}/${checkpoint.totalBatches}`);
+          // Cancelling deletes the saved batches, possibly before this one was written
+          await this.discardBatchesIfCancelled(jobId);
+          return;
+        }
+
+        if (checkpoint.nextBatch < checkpoint.totalBatches) {
+          await new Promise(resolve => setTimeout(resolve, BATCH_DELAY_MS));
+        }
+      }
+
+      const analyses = await personalContextStore.getLearningJobAnalyses(jobId);
+      if (analyses.length === 0 && job.mode === 'full') {
+        throw new Error(NO_THREADS_ERROR);
+      }
+      if (!(await this.update(job, runId, { progress: { ...job.progress, currentPhase: 'learning', progress: 95 } }))) {
+        return;
+      }
+      let contactsClassified = 0;
+      if (analyses.length === 0) {
+        emitLog(`No new threads since the last run; the profile is up to date`);
+        await personalContextService.markProfileUpToDate(job.userId, checkpoint.historyId);
+      } else {
+        const synthesis = depth.synthesis ? await personalContextAnalysisService.synthesizeAnalyses(analyses) : undefined;
+        const analysisResult = personalContextAnalysisService.aggregateInsights(analyses, synthesis);
+        const counts = { threadsAnalyzed: job.progress.threadsAnalyzed, emailsAnalyzed: job.progress.emailsAnalyzed };
+        if (job.mode === 'incremental') {
+          await personalContextService.mergeLearnedProfile(job.userId, checkpoint.userEmail, analysisResult, counts, job.options, checkpoint.historyId);
+        } else {
+          await personalContextService.saveLearnedProfile(job.userId, checkpoint.userEmail, analysisResult, counts, job.options, checkpoint.historyId);
+        }
+        contactsClassified = analysisResult.contactRelationships.length;
+      }
+      await personalContextStore.deleteLearningJobBatches(jobId);
+
+      const finishedAt = new Date();
+      await this.update(job, runId, {
+        status: 'completed',
+        runId: undefined,
+        finishedAt,
+        progress: {
+          ...job.progress,
+          currentPhase: 'complete',
+          progress: 100,
+          contactsClassified,
+          estimatedCompletion: finishedAt
+        }
+      });
+      this.providers.delete(jobId);
+      emitLog(`Completed learning job ${jobId}`);
+    } catch (error) {
+      console.error(`[LearningJobService] Learning job ${jobId} failed:`, error);
+      try {
+        // A pause or cancel that came in meanwhile wins over the failure
+        const failed = await this.update(job, runId, {
+          status: 'failed',
+          runId: undefined,
+          finishedAt: new Date(),
+          error: (error as Error).message,
+          progress: { ...job.progress, currentPhase: 'error', lastError: (error as Error).message }
+        });
+        if (failed) {
+          this.providers.delete(jobId);
+        }
+      } catch (updateError) {
+        console.error(`[LearningJobService] Failed to record the failure of learning job ${jobId}:`, updateError);
+      }
+    }
+  }
+
+  /**
+   * Saves changes to a running job as long as this run still owns it, and mirrors its progress
+   * into learning_progress. Returns false once the job has been paused, cancelled or taken over.
+   */
+  private async update(job: LearningJob, runId: string, updates: Partial<LearningJob>): Promise<boolean> {
+    const progress = { ...(updates.progress ?? job.progress), status: toProgressStatus(updates.status ?? job.status) };
+    const result = await personalContextStore.transitionLearningJob(
+      job.id,
+      current => current.status === 'running' && current.runId === runId,
+      { ...updates, progress, updatedAt: new Date() }
+    );
+    if (!result?.applied) {
+      return false;
+    }
+    const before = { ...job };
+    Object.assign(job, result.job);
+    await this.mirrorProgress(job);
+    this.publishChanges(before, job);
+    return true;
+  }
+
+  /**
+   * Streams what an update changed to the job's owner
+   */
+  private publishChanges(before: LearningJob, after: LearningJob): void {
+    if (before.status !== after.status) {
+      learningEvents.publish(after.userId, { type: 'status', job: after });
+      if (after.status === 'failed' && after.error) {
+        learningEvents.publish(after.userId, { type: 'error', jobId: after.id, message: after.error });
+      }
+    }
+    if (before.progress.currentPhase !== after.progress.currentPhase) {
+      learningEvents.publish(after.userId, {
+        type: 'phase',
+        jobId: after.id,
+        phase: after.progress.currentPhase,
+        progress: after.progress
+      });
+    }
+    if (after.checkpoint && before.checkpoint?.nextBatch !== after.checkpoint.nextBatch && after.checkpoint.nextBatch > 0) {
+      learningEvents.publish(after.userId, {
+        type: 'batch',
+        jobId: after.id,
+        batch: after.checkpoint.nextBatch,
+        totalBatches: after.checkpoint.totalBatches,
+        progress: after.progress
+      });
+    }
+  }
+
+  private async mirrorProgress(job: LearningJob): Promise<void> {
+    try {
+      await personalContextStore.saveLearningProgress(job.userId, { ...job.progress, jobId: job.id });
+    } catch (error) {
+      console.warn(`[LearningJobService] Failed to save learning progress for job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Picks up jobs whose process went away. Jobs using server-held Google credentials carry on;
+   * the others wait to be resumed with their mailbox credentials. Jobs updated too recently to
+   * tell, for instance checkpointed just before a restart, are checked again once they would
+   * have gone stale.
+   */
+  private async recoverInterruptedJobs(): Promise<void> {
+    const jobs = await personalContextStore.getLearningJobsByStatus(['queued', 'running']);
+    const cutoff = Date.now() - STALE_JOB_MS;
+    let nextCheckAt: number | null = null;
+
+    for (const job of jobs) {
+      if (this.queue.includes(job.id) || (job.runId && this.activeRunIds.has(job.runId))) {
+        continue;
+      }
+      if (job.updatedAt.getTime() > cutoff) {
+        const staleAt = job.updatedAt.getTime() + STALE_JOB_MS;
+        nextCheckAt = nextCheckAt === null ? staleAt : Math.min(nextCheckAt, staleAt);
+        continue;
+      }
+      if (job.source.kind === 'gmail_credentials') {
+        const result = await personalContextStore.transitionLearningJob(job.id, current => isUnchanged(current, job), {
+          status: 'queued',
+          runId: undefined,
+          updatedAt: new Date()
+        });
+        if (result?.applied) {
+          console.log(`[LearningJobService] Re-queued interrupted learning job ${job.id}`);
+          learningEvents.publish(result.job.userId, { type: 'status', job: result.job });
+          this.schedule(job.id);
+        }
+      } else {
+        const result = await personalContextStore.transitionLearningJob(job.id, current => isUnchanged(current, job), {
+          status: 'paused',
+          runId: undefined,
+          needsCredentials: true,
+          error: CREDENTIALS_LOST_ERROR,
+          progress: { ...job.progress, status: 'paused' },
+          updatedAt: new Date()
+        });
+        if (result?.applied) {
+          console.log(`[LearningJobService] Paused interrupted learning job ${job.id} until it's resumed with credentials`);
+          await this.mirrorProgress(result.job);
+          learningEvents.publish(result.job.userId, { type: 'status', job: result.job });
+        }
+      }
+    }
+
+    if (nextCheckAt !== null) {
+      this.scheduleRecovery(nextCheckAt - Date.now() + RECOVERY_CHECK_MARGIN_MS);
+    }
+  }
+
+  private scheduleRecovery(delayMs: number): void {
+    if (this.recoveryTimer) clearTimeout(this.recoveryTimer);
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = null;
+      this.recoverInterruptedJobs().catch(error => {
+        console.error('[LearningJobService] Failed to recover interrupted jobs:', error);
+      });
+    }, Math.max(delayMs, 0));
+    // A pending check shouldn't keep the process alive on its own
+    this.recoveryTimer.unref?.();
+  }
+}
+
+export const learningJobService = LearningJobService.getInstance();
@@ -5,70 +5,48 @@ import type {
   LearningProgress,
   ContactRelationship,
   ContactCommunicationStyle,
+  EvidenceSource,
   LearningMetadata,
   CommunicationStyle,
   ProfessionalProfile,
-  PersonalPreferences
+  PersonalPreferences,
+  BehavioralPattern,
+  ContextualResponse,
+  TemporalPattern,
+  KnowledgeArea,
+  ReplyOrigin,
+  ReplyStyleStats,
+  SentReplyAnalysis
 } from '@/types/personal-context';
 
+import { GmailMailProvider } from '@/services/gmail-provider';
 import { gmailService } from './gmail-service';
-import { personalContextAnalysisService } from './analysis-service';
+import { personalContextAnalysisService, type AggregatedAnalysis } from './analysis-service';
 import { personalContextStore } from './context-store';
+import { mergeEvidenceSources, traceEvidence } from './evidence-sources';
+import { learningEvents } from './learning-events';
 
-// Helper function to emit logs to the UI
+// Helper function to emit logs to the learning job's live event stream
 const emitLog = (message: string) => {
   // Log to console first
   console.log(`[PersonalContextService] ${message}`);
-  
-  if (typeof window !== 'undefined') {
-    const event = new CustomEvent('personal-context-log', {
-      detail: { message, source: 'service' }
-    });
-    window.dispatchEvent(event);
-  }
+  learningEvents.log('service', message);
 };
 
-// Capture all console logs related to personal context
-// This needs to happen at module initialization time to catch all logs
-if (typeof window !== 'undefined') {
-  // We're in the browser, so we can override console.log
-  const originalConsoleLog = console.log;
-  console.log = function(...args) {
-    // Call the original console.log
-    originalConsoleLog.apply(console, args);
-    
-    // Convert args to string for analysis
-    const logStr = typeof args[0] === 'string' ? args[0] : args.join(' ');
-    
-    // Capture ALL terminal logs related to our application - more inclusive pattern
-    // Send all relevant logs to UI
-    if (typeof logStr === 'string') {
-      // Determine the source based on log content
-      let source = 'server'; // Default source
-      
-      if (logStr.includes('[GmailService]')) {
-        source = 'gmail';
-      } else if (logStr.includes('[AnalysisService]')) {
-        source = 'analysis';
-      } else if (logStr.includes('[PersonalContextService]')) {
-        source = 'service';
-      } else if (logStr.includes('[PersonalContextAPI]') || logStr.includes('[API]')) {
-        source = 'server';
-      } else if (logStr.includes('[PersonalContextStore]')) {
-        source = 'service';
-      } else if (logStr.includes('WARNING:') || logStr.includes('Compiling')) {
-        source = 'server';
-      } else if (logStr.includes('GET /api/personal-context') || logStr.includes('POST /api/personal-context')) {
-        source = 'server';
-      }
-      
-      // Send to the UI via event
-      const event = new CustomEvent('personal-context-log', {
-        detail: { message: logStr, source }
-      });
-      window.dispatchEvent(event);
-    }
-  };
+type LearnedCounts = { threadsAnalyzed: number; emailsAnalyzed: number };
+
+function weightedAverage(value: number, weight: number, otherValue: number, otherWeight: number): number {
+  return (value * weight + otherValue * otherWeight) / (weight + otherWeight);
+}
+
+// Running average after adding the `count`th value
+function addToAverage(average: number, value: number, count: number): number {
+  return average + (value - average) / count;
+}
+
+// Unique values of both lists, the first list's first
+function mergeValues<T>(first: T[] = [], second: T[] = [], limit: number): T[] {
+  return Array.from(new Set([...first, ...second])).slice(0, limit);
 }
 
 export class PersonalContextService {
@@ -84,132 +62,82 @@ export class PersonalContextService {
   }
 
   /**
-   * Main entry point for learning personal context from Gmail
+   * Builds the profile from the analysis of a finished learning run and saves it along with
+   * its contacts and patterns. Learning jobs call this once every batch has been analyzed.
    */
-  async learnPersonalContext(input: PersonalContextLearningInput): Promise<{
-    success: boolean;
-    profile?: PersonalContextProfile;
-    error?: string;
-  }> {
-    try {
-      console.log(`[PersonalContextService] Starting personal context learning for user: ${input.userId}`);
-      emitLog(`Starting personal context learning for user: ${input.userId}`);
-      
-      // Initialize learning progress
-      const initialProgress: LearningProgress = {
-        userId: input.userId,
-        currentPhase: 'discovery',
-        progress: 0,
-        threadsDiscovered: 0,
-        threadsAnalyzed: 0,
-        emailsAnalyzed: 0,
-        contactsClassified: 0,
-        startTime: new Date(),
-        status: 'running'
-      };
-      
-      // Try to save initial progress, but continue if it fails
-      try {
-        await personalContextStore.saveLearningProgress(input.userId, initialProgress);
-      } catch (progressError: any) {
-        console.warn('[PersonalContextService] Failed to save initial progress, continuing without progress tracking:', progressError);
-      }
-      
-      // Phase 1: Discover Gmail threads
-      emitLog(`Phase 1: Discovering Gmail threads...`);
-      await this.updateProgress(input.userId, 'discovery', 10);
-      
-      // Get user's Gmail profile first
-      emitLog(`Retrieving Gmail profile...`);
-      const gmailProfile = await gmailService.getUserProfile(input.accessToken);
-      if (!gmailProfile) {
-        throw new Error('Failed to access Gmail profile');
-      }
-      
-      console.log(`[PersonalContextService] Fetching threads for ${gmailProfile.emailAddress}`);
-      emitLog(`Fetching interactive threads for ${gmailProfile.emailAddress}...`);
-      
-      const threadsResponse = await gmailService.fetchInteractiveThreads(
-        input.accessToken,
-        gmailProfile.emailAddress,
-        input.options
-      );
-      
-      console.log(`[PersonalContextService] Discovered ${threadsResponse.threads.length} interactive threads`);
-      emitLog(`Discovered ${threadsResponse.threads.length} interactive threads for analysis`);
-      
-      await this.updateProgress(input.userId, 'analysis', 30, {
-        threadsDiscovered: threadsResponse.threads.length
-      });
-      
-      // Phase 2: Analyze threads with AI
-      if (threadsResponse.threads.length === 0) {
-        console.warn(`[PersonalContextService] No threads found for analysis`);
-        emitLog(`No email threads found for analysis. Try expanding the time range or checking email activity.`);
-        return {
-          success: false,
-          error: 'No email threads found for analysis. Try expanding the time range or checking email activity.'
-        };
-      }
-      
-      emitLog(`Phase 2: Analyzing ${threadsResponse.threads.length} threads with AI...`);
-      const analysisResult = await personalContextAnalysisService.analyzeEmailThreads(
-        threadsResponse.threads,
-        gmailProfile.emailAddress
-      );
-      
-      emitLog(`Successfully analyzed ${threadsResponse.threads.length} threads containing ${threadsResponse.threads.reduce((sum, t) => sum + t.messageCount, 0)} emails`);
-      emitLog(`Identified ${analysisResult.contactRelationships.length} contacts from your email history`);
-      
-      await this.updateProgress(input.userId, 'learning', 70, {
-        threadsAnalyzed: threadsResponse.threads.length,
-        emailsAnalyzed: threadsResponse.threads.reduce((sum, t) => sum + t.messageCount, 0),
-        contactsClassified: analysisResult.contactRelationships.length
-      });
-      
-      // Phase 3: Build personal context profile
-      emitLog(`Phase 3: Building personal context profile...`);
-      const profile = await this.buildPersonalContextProfile(
-        input.userId,
-        gmailProfile.emailAddress,
-        analysisResult,
-        threadsResponse.threads,
-        input.options
-      );
-      
-      // Phase 4: Save everything to Firestore
-      emitLog(`Phase 4: Saving data to database...`);
-      await this.savePersonalContextData(input.userId, profile, analysisResult);
-      
-      await this.updateProgress(input.userId, 'complete', 100);
-      
-      console.log(`[PersonalContextService] Successfully completed personal context learning`);
-      emitLog(`Successfully completed personal context learning`);
-      
-      return {
-        success: true,
-        profile
-      };
-      
-    } catch (error) {
-      console.error('[PersonalContextService] Error during personal context learning:', error);
-      emitLog(`Error: ${(error as Error).message}`);
-      
-      await this.updateProgress(input.userId, 'error', undefined, undefined, (error as Error).message);
-      
-      return {
-        success: false,
-        error: `Learning failed: ${(error as Error).message}`
-      };
+  async saveLearnedProfile(
+    userId: string,
+    userEmail: string,
+    analysisResult: AggregatedAnalysis,
+    counts: LearnedCounts,
+    options: PersonalContextLearningInput['options'],
+    historyId?: string
+  ): Promise<PersonalContextProfile> {
+    emitLog(`Building personal context profile...`);
+    const profile = await this.buildPersonalContextProfile(userId, userEmail, analysisResult, counts, options, historyId);
+    
+    emitLog(`Saving data to database...`);
+    await this.savePersonalContextData(userId, profile, analysisResult);
+    
+    console.log(`[PersonalContextService] Saved learned profile for user: ${userId}`);
+    return profile;
+  }
+
+  /**
+   * Merges the analysis of an incremental learning run into the saved profile. The profile and
+   * the new analysis are weighted by the number of threads each was learned from, so a few new
+   * threads refine the profile instead of replacing it. With no saved profile, builds a new one.
+   */
+  async mergeLearnedProfile(
+    userId: string,
+    userEmail: string,
+    analysisResult: AggregatedAnalysis,
+    counts: LearnedCounts,
+    options: PersonalContextLearningInput['options'],
+    historyId?: string
+  ): Promise<PersonalContextProfile> {
+    const existingProfile = await personalContextStore.getPersonalContext(userId);
+    if (!existingProfile) {
+      emitLog(`No saved profile to merge into, building a new one`);
+      return this.saveLearnedProfile(userId, userEmail, analysisResult, counts, options, historyId);
     }
+
+    emitLog(`Merging ${counts.threadsAnalyzed} new threads into the profile learned from ${existingProfile.learningMetadata.threadsAnalyzed}...`);
+    const profile = this.mergePersonalContextProfile(existingProfile, analysisResult, counts, historyId);
+
+    emitLog(`Saving data to database...`);
+    await this.savePersonalContextData(userId, profile, analysisResult);
+
+    console.log(`[PersonalContextService] Merged incremental learning into the profile for user: ${userId}`);
+    return profile;
   }
 
   /**
-   * Updates personal context with new email interactions
+   * Records that an incremental run found nothing new, so the next one starts from here
+   */
+  async markProfileUpToDate(userId: string, historyId?: string): Promise<void> {
+    const profile = await personalContextStore.getPersonalContext(userId);
+    if (!profile) {
+      return;
+    }
+    await personalContextStore.savePersonalContext(userId, {
+      ...profile,
+      learningMetadata: {
+        ...profile.learningMetadata,
+        lastIncrementalAnalysis: new Date(),
+        lastHistoryId: historyId ?? profile.learningMetadata.lastHistoryId
+      }
+    });
+  }
+
+  /**
+   * Learns from a reply the user sent: measures its style, folds it into the recipient's
+   * communication pattern and records whether it came from an AI draft
    */
   async updatePersonalContext(input: PersonalContextUpdateInput): Promise<{
     success: boolean;
     updates?: string[];
+    replyOrigin?: ReplyOrigin;
     error?: string;
   }> {
     try {
@@ -224,55 +152,52 @@ export class PersonalContextService {
         };
       }
       
-      // Analyze the new email interaction
-      // This is a simplified version - could be enhanced with more sophisticated analysis
+      const now = new Date();
+      const contactEmail = input.recipientEmail;
+      const analysis = personalContextAnalysisService.analyzeSentReply(input.userReply, input.aiDraft);
       const updates: string[] = [];
       
-      // Update communication patterns if we have a thread context
-      if (input.threadContext) {
-        const contactEmail = input.recipientEmail;
-        const existingPattern = existingProfile.communicationPatterns.contactSpecificStyles[contactEmail];
-        
-        // Simple pattern update logic
-        if (existingPattern) {
-          existingPattern.sampleCount += 1;
-          existingPattern.lastUpdated = new Date();
-          updates.push(`Updated communication pattern for ${contactEmail}`);
-        } else {
-          // Create new pattern - simplified for now
-          const newPattern: ContactCommunicationStyle = {
-            contactEmail,
-            style: existingProfile.communicationPatterns.globalStyle, // Use global style as baseline
-            confidence: 0.3, // Low confidence for single interaction
-            lastUpdated: new Date(),
-            sampleCount: 1
-          };
-          
-          existingProfile.communicationPatterns.contactSpecificStyles[contactEmail] = newPattern;
-          updates.push(`Created new communication pattern for ${contactEmail}`);
-        }
-        
-        // Update contact relationship
-        const existingRelationship = existingProfile.relationships.contacts[contactEmail];
-        if (existingRelationship) {
-          existingRelationship.lastInteraction = new Date();
-          existingRelationship.totalInteractions += 1;
-          updates.push(`Updated relationship data for ${contactEmail}`);
-        }
+      const existingPattern = existingProfile.communicationPatterns.contactSpecificStyles[contactEmail];
+      const pattern = this.applySentReply(
+        existingPattern ?? {
+          contactEmail,
+          style: existingProfile.communicationPatterns.globalStyle, // Use global style as baseline
+          confidence: 0.2,
+          lastUpdated: now,
+          sampleCount: 0
+        },
+        analysis,
+        now
+      );
+      existingProfile.communicationPatterns.contactSpecificStyles[contactEmail] = pattern;
+      updates.push(`${existingPattern ? 'Updated' : 'Created'} communication pattern for ${contactEmail} (${pattern.sampleCount} samples)`);
+      updates.push(`Recorded reply origin: ${analysis.origin}`);
+      
+      // Update contact relationship
+      const existingRelationship = existingProfile.relationships.contacts[contactEmail];
+      if (existingRelationship) {
+        existingRelationship.lastInteraction = now;
+        existingRelationship.totalInteractions += 1;
+        updates.push(`Updated relationship data for ${contactEmail}`);
       }
       
       // Update the profile metadata
-      existingProfile.lastUpdated = new Date();
+      existingProfile.lastUpdated = now;
       existingProfile.version += 1;
+      if (existingProfile.learningMetadata.learningSource === 'historical_analysis') {
+        existingProfile.learningMetadata.learningSource = 'hybrid';
+      }
       
       // Save updates
       await personalContextStore.updatePersonalContext(input.userId, existingProfile);
+      await personalContextStore.saveCommunicationPattern(input.userId, contactEmail, pattern);
       
       console.log(`[PersonalContextService] Successfully updated personal context with ${updates.length} changes`);
       
       return {
         success: true,
-        updates
+        updates,
+        replyOrigin: analysis.origin
       };
       
     } catch (error) {
@@ -351,7 +276,7 @@ export class PersonalContextService {
    */
   async testGmailConnection(accessToken: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const isConnected = await gmailService.testConnection(accessToken);
+      const isConnected = await gmailService.testConnection(new GmailMailProvider(accessToken));
       
       if (isConnected) {
         return { success: true };
@@ -373,78 +298,20 @@ export class PersonalContextService {
 
   // Private helper methods
   
-  private async updateProgress(
-    userId: string,
-    phase: LearningProgress['currentPhase'],
-    progress?: number,
-    updates?: Partial<LearningProgress>,
-    error?: string
-  ): Promise<void> {
-    try {
-      const existingProgress = await personalContextStore.getLearningProgress(userId);
-      if (!existingProgress) {
-        // If we can't get existing progress, just log and continue
-        console.warn(`[PersonalContextService] No existing progress found for user ${userId}, skipping progress update`);
-        return;
-      }
-      
-      const updatedProgress: Partial<LearningProgress> = {
-        currentPhase: phase,
-        status: error ? 'failed' : (phase === 'complete' ? 'completed' : 'running'),
-        ...updates
-      };
-      
-      if (progress !== undefined) {
-        updatedProgress.progress = progress;
-      }
-      
-      if (error) {
-        updatedProgress.lastError = error;
-      }
-      
-      if (phase === 'complete') {
-        updatedProgress.estimatedCompletion = new Date();
-      }
-      
-      await personalContextStore.updateLearningProgress(userId, updatedProgress);
-    } catch (updateError: any) {
-      console.warn('[PersonalContextService] Failed to update progress:', updateError);
-      
-      // If Firestore isn't available, don't fail the learning process
-      if (updateError?.message?.includes('Firestore database is not properly set up')) {
-        console.warn('[PersonalContextService] Firestore not available, continuing learning without progress tracking');
-        return;
-      }
-      
-      // For other errors, continue but log the warning
-      console.warn('[PersonalContextService] Continuing learning despite progress update failure');
-    }
-  }
-
   private async buildPersonalContextProfile(
     userId: string,
     userEmail: string,
-    analysisResult: Awaited<ReturnType<typeof personalContextAnalysisService.analyzeEmailThreads>>,
-    threads: any[],
-    options: PersonalContextLearningInput['options']
+    analysisResult: AggregatedAnalysis,
+    counts: LearnedCounts,
+    options: PersonalContextLearningInput['options'],
+    historyId?: string
   ): Promise<PersonalContextProfile> {
     const now = new Date();
     
     // Build contact relationships map
     const contactsMap: Record<string, ContactRelationship> = {};
     for (const contact of analysisResult.contactRelationships) {
-      contactsMap[contact.contactEmail] = {
-        contactEmail: contact.contactEmail,
-        relationshipType: contact.category,
-        confidence: contact.confidence,
-        communicationFrequency: 'monthly', // Default, could be enhanced
-        responseTimePattern: 'business_hours', // Default, could be enhanced
-        communicationInitiator: 'mutual', // Default, could be enhanced
-        sharedContexts: [], // Could be enhanced
-        lastInteraction: now,
-        totalInteractions: 1, // Default, could be enhanced
-        averageResponseTime: 1440 // 24 hours default
-      };
+      contactsMap[contact.contactEmail] = this.buildContactRelationship(contact, now);
     }
     
     // Build contact-specific communication styles map
@@ -453,10 +320,11 @@ export class PersonalContextService {
     
     // Build learning metadata
     const learningMetadata: LearningMetadata = {
-      emailsAnalyzed: threads.reduce((sum, t) => sum + t.messageCount, 0),
-      threadsAnalyzed: threads.length,
+      emailsAnalyzed: counts.emailsAnalyzed,
+      threadsAnalyzed: counts.threadsAnalyzed,
       contactsClassified: analysisResult.contactRelationships.length,
       lastFullAnalysis: now,
+      lastHistoryId: historyId,
       analysisTimeRange: {
         startDate: this.getAnalysisStartDate(options.timeRange),
         endDate: now
@@ -501,6 +369,274 @@ export class PersonalContextService {
     return profile;
   }
 
+  private buildContactRelationship(
+    contact: AggregatedAnalysis['contactRelationships'][number],
+    lastInteraction: Date
+  ): ContactRelationship {
+    return {
+      contactEmail: contact.contactEmail,
+      relationshipType: contact.category,
+      confidence: contact.confidence,
+      communicationFrequency: 'monthly', // Default, could be enhanced
+      responseTimePattern: 'business_hours', // Default, could be enhanced
+      communicationInitiator: 'mutual', // Default, could be enhanced
+      sharedContexts: [], // Could be enhanced
+      lastInteraction,
+      totalInteractions: 1, // Default, could be enhanced
+      averageResponseTime: 1440, // 24 hours default
+      evidenceSources: contact.evidenceSources
+    };
+  }
+
+  /**
+   * Adds a sent reply to a contact's pattern. Replies the user wrote or edited update the style
+   * averages and the style derived from them; unedited AI drafts only count towards the origins.
+   */
+  private applySentReply(
+    pattern: ContactCommunicationStyle,
+    { origin, features }: SentReplyAnalysis,
+    now: Date
+  ): ContactCommunicationStyle {
+    const previous: ReplyStyleStats = pattern.replyStats ?? {
+      replies: 0,
+      origins: { ai_draft: 0, edited_ai_draft: 0, written: 0 },
+      styleSamples: 0,
+      averageWordCount: 0,
+      averageSentenceLength: 0,
+      averageEmojiCount: 0,
+      averageFormality: 0
+    };
+    const replyStats: ReplyStyleStats = {
+      ...previous,
+      replies: previous.replies + 1,
+      origins: { ...previous.origins, [origin]: previous.origins[origin] + 1 }
+    };
+    if (origin === 'ai_draft') {
+      return { ...pattern, lastUpdated: now, replyStats };
+    }
+
+    const samples = previous.styleSamples + 1;
+    replyStats.styleSamples = samples;
+    replyStats.averageWordCount = addToAverage(previous.averageWordCount, features.wordCount, samples);
+    replyStats.averageSentenceLength = addToAverage(previous.averageSentenceLength, features.averageSentenceLength, samples);
+    replyStats.averageEmojiCount = addToAverage(previous.averageEmojiCount, features.emojiCount, samples);
+    replyStats.averageFormality = addToAverage(previous.averageFormality, features.formality, samples);
+
+    const style: CommunicationStyle = {
+      ...pattern.style,
+      formality: Math.round(replyStats.averageFormality),
+      greetingStyle: mergeValues(features.greeting ? [features.greeting] : [], pattern.style.greetingStyle, 3),
+      closingStyle: mergeValues(features.closing ? [features.closing] : [], pattern.style.closingStyle, 3),
+      sentenceStructure: replyStats.averageSentenceLength < 10 ? 'short' : replyStats.averageSentenceLength < 20 ? 'medium' : 'long',
+      responseLength: replyStats.averageWordCount < 50 ? 'brief' : replyStats.averageWordCount < 150 ? 'moderate' : 'detailed',
+      emojiUsage: replyStats.averageEmojiCount === 0 ? 'none' : replyStats.averageEmojiCount < 1 ? 'minimal' : replyStats.averageEmojiCount < 3 ? 'moderate' : 'frequent'
+    };
+
+    return {
+      ...pattern,
+      style,
+      // Each reply adds a little confidence, up to what a full analysis would give
+      confidence: Math.max(pattern.confidence, Math.min(0.2 + samples * 0.1, 0.9)),
+      lastUpdated: now,
+      sampleCount: pattern.sampleCount + 1,
+      replyStats
+    };
+  }
+
+  private mergePersonalContextProfile(
+    existing: PersonalContextProfile,
+    analysisResult: AggregatedAnalysis,
+    counts: LearnedCounts,
+    historyId?: string
+  ): PersonalContextProfile {
+    const now = new Date();
+    const metadata = existing.learningMetadata;
+    const existingWeight = Math.max(metadata.threadsAnalyzed, 1);
+    const newWeight = Math.max(counts.threadsAnalyzed, 1);
+    const weigh = (existingConfidence: number) =>
+      weightedAverage(existingConfidence, existingWeight, analysisResult.confidence, newWeight);
+    // Values that can't be averaged come from whichever side carries more weighted confidence
+    const preferNew = analysisResult.confidence * newWeight > existing.confidence * existingWeight;
+
+    const contacts = this.mergeContactRelationships(existing.relationships.contacts, analysisResult.contactRelationships, now);
+    const insightWeights = { existingWeight, newWeight };
+
+    return {
+      ...existing,
+      version: existing.version + 1,
+      confidence: weigh(existing.confidence),
+      lastAnalyzed: now,
+      lastUpdated: now,
+      communicationPatterns: {
+        ...existing.communicationPatterns,
+        globalStyle: this.mergeCommunicationStyle(
+          existing.communicationPatterns.globalStyle,
+          analysisResult.communicationStyle,
+          insightWeights,
+          preferNew
+        )
+      },
+      relationships: {
+        contacts,
+        relationshipTypes: Array.from(new Set(Object.values(contacts).map(contact => contact.relationshipType)))
+      },
+      professionalProfile: this.mergeProfessionalProfile(existing.professionalProfile, analysisResult.professionalProfile, preferNew),
+      personalPreferences: this.mergePersonalPreferences(existing.personalPreferences, analysisResult.personalPreferences, preferNew),
+      behavioralPatterns: this.mergeInsights<BehavioralPattern>(
+        existing.behavioralPatterns, analysisResult.behavioralPatterns, pattern => pattern.type, insightWeights
+      ),
+      contextualResponses: this.mergeInsights<ContextualResponse>(
+        existing.contextualResponses, analysisResult.contextualResponses, response => response.scenario.toLowerCase().substring(0, 20), insightWeights
+      ),
+      temporalPatterns: this.mergeInsights<TemporalPattern>(
+        existing.temporalPatterns, analysisResult.temporalPatterns, pattern => pattern.type, insightWeights
+      ),
+      knowledgeAreas: this.mergeInsights<KnowledgeArea>(
+        existing.knowledgeAreas, analysisResult.knowledgeAreas, area => area.domain.toLowerCase().trim(), insightWeights
+      ),
+      learningMetadata: {
+        ...metadata,
+        emailsAnalyzed: metadata.emailsAnalyzed + counts.emailsAnalyzed,
+        threadsAnalyzed: metadata.threadsAnalyzed + counts.threadsAnalyzed,
+        contactsClassified: Object.keys(contacts).length,
+        lastIncrementalAnalysis: now,
+        lastHistoryId: historyId ?? metadata.lastHistoryId,
+        analysisTimeRange: { ...metadata.analysisTimeRange, endDate: now },
+        confidenceScores: {
+          overall: weigh(metadata.confidenceScores.overall),
+          communicationStyle: weigh(metadata.confidenceScores.communicationStyle),
+          relationships: weigh(metadata.confidenceScores.relationships),
+          professionalProfile: weigh(metadata.confidenceScores.professionalProfile),
+          personalPreferences: weigh(metadata.confidenceScores.personalPreferences)
+        }
+      }
+    };
+  }
+
+  private mergeCommunicationStyle(
+    existing: CommunicationStyle,
+    learned: CommunicationStyle,
+    { existingWeight, newWeight }: { existingWeight: number; newWeight: number },
+    preferNew: boolean
+  ): CommunicationStyle {
+    const [primary, secondary] = preferNew ? [learned, existing] : [existing, learned];
+    return {
+      ...primary,
+      formality: Math.round(weightedAverage(existing.formality, existingWeight, learned.formality, newWeight)),
+      greetingStyle: mergeValues(primary.greetingStyle, secondary.greetingStyle, 3),
+      closingStyle: mergeValues(primary.closingStyle, secondary.closingStyle, 3),
+      languagePreferences: mergeValues(primary.languagePreferences, secondary.languagePreferences, 5),
+      evidenceSources: mergeEvidenceSources(primary.evidenceSources, secondary.evidenceSources, 5)
+    };
+  }
+
+  /**
+   * Each earlier interaction with a contact counts once and the new run once. A category the
+   * new run disagrees with loses confidence; the new category only takes over once it outweighs
+   * everything seen before.
+   */
+  private mergeContactRelationships(
+    existing: Record<string, ContactRelationship>,
+    learned: AggregatedAnalysis['contactRelationships'],
+    now: Date
+  ): Record<string, ContactRelationship> {
+    const contacts = { ...existing };
+    for (const contact of learned) {
+      const current = contacts[contact.contactEmail];
+      if (!current) {
+        contacts[contact.contactEmail] = this.buildContactRelationship(contact, now);
+        continue;
+      }
+
+      const weight = Math.max(current.totalInteractions, 1);
+      const agrees = current.relationshipType === contact.category;
+      const takesOver = !agrees && contact.confidence > current.confidence * weight;
+      contacts[contact.contactEmail] = {
+        ...current,
+        relationshipType: takesOver ? contact.category : current.relationshipType,
+        confidence: agrees
+          ? weightedAverage(current.confidence, weight, contact.confidence, 1)
+          : takesOver
+            ? weightedAverage(0, weight, contact.confidence, 1)
+            : weightedAverage(current.confidence, weight, 0, 1),
+        lastInteraction: now,
+        totalInteractions: current.totalInteractions + 1,
+        // Latest run's sources first
+        evidenceSources: mergeEvidenceSources(contact.evidenceSources, current.evidenceSources, 5)
+      };
+    }
+    return contacts;
+  }
+
+  private mergeProfessionalProfile(
+    existing: ProfessionalProfile,
+    learned: Partial<ProfessionalProfile>,
+    preferNew: boolean
+  ): ProfessionalProfile {
+    const pick = <T>(current: T, value: T | undefined): T => (value !== undefined && (preferNew || current === undefined) ? value : current);
+    return {
+      ...existing,
+      jobTitle: pick(existing.jobTitle, learned.jobTitle),
+      company: pick(existing.company, learned.company),
+      department: pick(existing.department, learned.department),
+      managementLevel: pick(existing.managementLevel, learned.managementLevel),
+      workingHours: pick(existing.workingHours, learned.workingHours),
+      meetingPatterns: pick(existing.meetingPatterns, learned.meetingPatterns),
+      expertise: mergeValues(existing.expertise, learned.expertise, 5),
+      // Recent projects first
+      projectsAndResponsibilities: mergeValues(learned.projectsAndResponsibilities, existing.projectsAndResponsibilities, 10),
+      decisionMakingAuthority: mergeValues(existing.decisionMakingAuthority, learned.decisionMakingAuthority, 5)
+    };
+  }
+
+  private mergePersonalPreferences(
+    existing: PersonalPreferences,
+    learned: Partial<PersonalPreferences>,
+    preferNew: boolean
+  ): PersonalPreferences {
+    const pick = <T>(current: T, value: T | undefined): T => (value !== undefined && preferNew ? value : current);
+    return {
+      ...existing,
+      responseTimingPatterns: pick(existing.responseTimingPatterns, learned.responseTimingPatterns),
+      communicationPreferences: pick(existing.communicationPreferences, learned.communicationPreferences),
+      decisionMakingStyle: pick(existing.decisionMakingStyle, learned.decisionMakingStyle),
+      conflictResolutionApproach: pick(existing.conflictResolutionApproach, learned.conflictResolutionApproach),
+      schedulingPreferences: pick(existing.schedulingPreferences, learned.schedulingPreferences),
+      personalInterests: mergeValues(existing.personalInterests, learned.personalInterests, 10),
+      valuesAndBeliefs: mergeValues(existing.valuesAndBeliefs, learned.valuesAndBeliefs, 10)
+    };
+  }
+
+  /**
+   * Merges insight lists keyed the same way the analysis groups them. Matching insights keep
+   * the wording of the more confident one, pool their evidence and its sources and average their
+   * confidence by weight; insights the new run didn't see are kept as they were.
+   */
+  private mergeInsights<T extends { evidence: string[]; evidenceSources?: EvidenceSource[]; confidence: number }>(
+    existing: T[] = [],
+    learned: T[] = [],
+    keyOf: (insight: T) => string,
+    { existingWeight, newWeight }: { existingWeight: number; newWeight: number }
+  ): T[] {
+    const merged = new Map(existing.map(insight => [keyOf(insight), insight]));
+    for (const insight of learned) {
+      const key = keyOf(insight);
+      const current = merged.get(key);
+      if (!current) {
+        merged.set(key, insight);
+        continue;
+      }
+      const evidence = mergeValues(insight.evidence, current.evidence, 3);
+      merged.set(key, {
+        ...(insight.confidence > current.confidence ? insight : current),
+        evidence,
+        evidenceSources: traceEvidence(evidence, [insight, current]),
+        confidence: weightedAverage(current.confidence, existingWeight, insight.confidence, newWeight)
+      });
+    }
+    return Array.from(merged.values());
+  }
+
   private buildProfessionalProfile(partial: Partial<ProfessionalProfile>): ProfessionalProfile {
     // Create a clean copy without undefined values
     const cleanPartial = Object.entries(partial || {}).reduce((acc, [key, value]) => {
@@ -573,7 +709,7 @@ export class PersonalContextService {
   private async savePersonalContextData(
     userId: string,
     profile: PersonalContextProfile,
-    analysisResult: Awaited<ReturnType<typeof personalContextAnalysisService.analyzeEmailThreads>>
+    analysisResult: AggregatedAnalysis
   ): Promise<void> {
     try {
       // Save main profile
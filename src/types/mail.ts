@@ -1,15 +1,141 @@
 
 export interface Email {
   id: string;
+  threadId?: string;
   sender: string;
   senderEmail: string;
   subject: string;
   body: string; // Will contain full body after fetching details
+  htmlBody?: string; // Raw (unsanitized) text/html alternative, when the message has one
   snippet: string; 
   receivedTime: string; // Formatted string like "10:30 AM" or "2 days ago"
   read?: boolean;
-  // Potentially add raw internalDate if needed for precise sorting later
-  // internalDate?: string; // Unix timestamp from Gmail
+  starred?: boolean;
+  labelIds?: string[]; // Gmail label IDs, system (INBOX, STARRED, ...) and user ("Label_123")
+  attachments?: EmailAttachment[]; // Only populated when the full message is fetched
+  internalDate?: string; // Unix timestamp (ms) from Gmail, used for ordering across pages
+  // RFC 5322 headers needed to reply in-thread; only populated when the full message is fetched
+  messageIdHeader?: string; // Message-ID, including angle brackets
+  references?: string; // Space-separated References chain
+  replyTo?: string[];
+  to?: string[]; // Address entries such as "Jane Doe <jane@example.com>"
+  cc?: string[];
+  bcc?: string[]; // Only present on our own drafts and sent messages
+  inReplyTo?: string; // In-Reply-To header, used to tell reply drafts from new ones
+  isDraft?: boolean;
+  headers?: Record<string, string>; // All headers, lower-cased names; only when the full message is fetched
+  accountId?: string; // Connected account the message came from; set in merged multi-account lists
 }
 
-export type EmailBoxType = "inbox" | "unread" | "sent" | "drafts";
+export type ComposeMode = "reply" | "replyAll" | "forward";
+
+export interface OutgoingEmail {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+  attachments?: OutgoingAttachment[];
+  // When set, the message is sent as a reply/forward of this email
+  mode?: ComposeMode;
+  original?: Email;
+}
+
+export interface EmailAttachment {
+  messageId: string;
+  partId: string;
+  attachmentId?: string; // Set when the data must be fetched via messages.attachments.get
+  data?: string; // base64url, set when Gmail inlines small parts in the message itself
+  filename: string;
+  mimeType: string;
+  size: number; // bytes
+  contentId?: string; // Content-ID header without angle brackets, for inline (cid:) parts
+}
+
+// A local file to be attached to an outgoing message
+export interface OutgoingAttachment {
+  filename: string;
+  mimeType: string;
+  data: string; // standard base64
+}
+
+export interface MailThread {
+  id: string;
+  subject: string;
+  messages: Email[]; // Oldest first, as returned by threads.get
+}
+
+// Characters of a message's plain-text body to mark, such as a quote the personal context was
+// learned from. The offsets count from the first non-blank character, as the learner trims bodies.
+export interface BodyHighlight {
+  start: number;
+  end: number;
+}
+
+export interface EmailPage {
+  emails: Email[];
+  nextPageToken?: string; // Cursor for the next page; undefined when the box is exhausted
+}
+
+export type SystemBoxType = "inbox" | "unread" | "sent" | "drafts";
+// User labels are boxes too, addressed by Gmail label ID (e.g. "label:Label_123")
+export type LabelBoxType = `label:${string}`;
+export type EmailBoxType = SystemBoxType | LabelBoxType;
+
+// Where a message list comes from: a mailbox/label, or a provider search query
+export type MessageListSource = { boxType: EmailBoxType } | { query: string };
+
+export interface SavedSearch {
+  id: string;
+  label: string;
+  query: string; // Gmail search syntax, e.g. "from:alice has:attachment"
+}
+
+export interface MailLabel {
+  id: string;
+  name: string; // Nested labels use "/" separators, e.g. "Clients/Acme"
+  type: "system" | "user";
+  hidden?: boolean; // Hidden from the label list in Gmail's settings
+  // Only filled in by listLabelsWithCounts (labels.list doesn't return counts)
+  messagesUnread?: number;
+  messagesTotal?: number;
+}
+
+// Mailbox changes that can be applied to one or many messages
+export type MailboxAction =
+  | { type: "archive" }
+  | { type: "trash" }
+  | { type: "star"; starred: boolean }
+  | { type: "markRead"; read: boolean }
+  | { type: "snooze" } // Archive under the "Snoozed" label; Gmail's own snooze isn't exposed by the API
+  | { type: "label"; labelId: string; apply: boolean };
+
+export interface MailServerConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (993/465); otherwise STARTTLS is used when offered
+}
+
+// Credentials for a plain IMAP/SMTP mailbox; both servers use the same login
+export interface ImapAccountConfig {
+  emailAddress: string;
+  displayName?: string;
+  username: string;
+  password: string;
+  imap: MailServerConfig;
+  smtp: MailServerConfig;
+}
+
+// A connected Google mailbox. Several can be connected at once next to the signed-in user.
+export interface MailAccount {
+  id: string; // Lower-cased email address
+  email: string;
+  displayName: string | null;
+  photoURL: string | null;
+  color: string; // Tag colour in unified views (a hex value)
+  isPrimary: boolean; // The account used to sign in to the app
+  accessToken: string | null; // Only held in memory; null until (re)connected this session
+  accessTokenExpiresAt?: number | null; // Epoch milliseconds, when known
+  hasOfflineAccess?: boolean; // The server holds a refresh token, so access survives reloads and expiry
+  grantedScopes?: string[]; // Google scope URLs the account has approved
+}
@@ -46,6 +46,7 @@ export interface CommunicationStyle {
   punctuationStyle: string;
   responseLength: 'brief' | 'moderate' | 'detailed';
   languagePreferences: string[];
+  evidenceSources?: EvidenceSource[]; // Messages the tone, formality and greetings were learned from
 }
 
 export interface ContactCommunicationStyle {
@@ -54,6 +55,40 @@ export interface ContactCommunicationStyle {
   confidence: number;
   lastUpdated: Date;
   sampleCount: number;
+  replyStats?: ReplyStyleStats; // Replies sent to this contact from the app
+}
+
+// How a sent reply came about: an AI draft sent as-is, an AI draft the user edited, or the
+// user's own writing
+export type ReplyOrigin = 'ai_draft' | 'edited_ai_draft' | 'written';
+
+// Style features measured on one reply the user sent
+export interface ReplyStyleFeatures {
+  wordCount: number;
+  averageSentenceLength: number; // in words
+  emojiCount: number;
+  exclamationCount: number;
+  greeting?: string;
+  closing?: string;
+  formality: number; // 1-10 scale
+}
+
+export interface SentReplyAnalysis {
+  origin: ReplyOrigin;
+  features: ReplyStyleFeatures;
+  draftSimilarity?: number; // 0-1, share of the AI draft's words kept; only when the reply started from one
+}
+
+export interface ReplyStyleStats {
+  replies: number;
+  origins: Record<ReplyOrigin, number>;
+  // Running averages over the replies the user wrote or edited; unedited AI drafts say nothing
+  // about the user's own style
+  styleSamples: number;
+  averageWordCount: number;
+  averageSentenceLength: number;
+  averageEmojiCount: number;
+  averageFormality: number;
 }
 
 export interface ContactRelationship {
@@ -68,6 +103,7 @@ export interface ContactRelationship {
   lastInteraction: Date;
   totalInteractions: number;
   averageResponseTime: number; // in minutes
+  evidenceSources?: EvidenceSource[]; // Messages the relationship was learned from
 }
 
 export type ContactCategory = 
@@ -139,6 +175,8 @@ export interface LearningMetadata {
   threadsAnalyzed: number;
   contactsClassified: number;
   lastFullAnalysis?: Date;
+  lastIncrementalAnalysis?: Date;
+  lastHistoryId?: string; // Mailbox history ID the profile is up to date with; incremental runs start here
   analysisTimeRange: {
     startDate: Date;
     endDate: Date;
@@ -164,6 +202,7 @@ export interface EmailThread {
   lastMessageDate: Date;
   messages: ThreadMessage[];
   threadCategory: 'work' | 'personal' | 'commercial' | 'automated' | 'unknown';
+  mailbox?: 'gmail' | 'imap'; // Kind of mailbox the thread was fetched from
 }
 
 export interface ThreadMessage {
@@ -192,10 +231,22 @@ export interface ThreadAnalysisResult {
   confidence: number;
 }
 
+// Where a piece of evidence was quoted from. The offsets index the message's plain-text body and
+// are left out when the quote can't be found in it word for word.
+export interface EvidenceSource {
+  excerpt: string;
+  threadId: string;
+  messageId: string;
+  start?: number;
+  end?: number;
+  mailbox?: 'gmail' | 'imap'; // Unset for sources recorded before IMAP learning, which are all Gmail
+}
+
 export interface CommunicationInsight {
   type: 'tone' | 'formality' | 'greeting_style' | 'sign_off_style' | 'response_timing' | 'sentence_structure' | 'emoji_usage' | 'punctuation_style' | 'language_preference' | 'style_variation';
   description: string;
   evidence: string[];
+  evidenceSources?: EvidenceSource[]; // One per piece of evidence that could be traced
   confidence: number;
   contactEmail?: string;
   contextual_factors?: string[];
@@ -209,6 +260,7 @@ export interface RelationshipInsight {
   responseTimePattern?: 'immediate' | 'within_hours' | 'business_hours' | 'delayed' | 'varies';
   initiationPattern?: 'user_initiates' | 'contact_initiates' | 'mutual' | 'unknown';
   evidence: string[];
+  evidenceSources?: EvidenceSource[];
   confidence: number;
   sharedContexts?: string[];
   addressingStyle?: string;
@@ -219,6 +271,7 @@ export interface ProfessionalInsight {
   type: 'role' | 'company' | 'department' | 'responsibilities' | 'expertise' | 'authority_level' | 'decision_making' | 'meeting_preferences' | 'work_schedule' | 'project_involvement' | 'industry_knowledge' | 'networking_style' | 'management_level' | 'reporting_structure';
   value: string;
   evidence: string[];
+  evidenceSources?: EvidenceSource[];
   confidence: number;
   context?: string;
 }
@@ -227,6 +280,7 @@ export interface PersonalInsight {
   type: 'schedule_preference' | 'availability_pattern' | 'family_information' | 'hobby_interest' | 'travel_preference' | 'food_preference' | 'entertainment_choice' | 'value_belief' | 'decision_making_style' | 'conflict_resolution' | 'stress_indicator' | 'privacy_boundary' | 'seasonal_pattern' | 'routine_habit' | 'brand_preference' | 'location_preference' | 'restaurant_preference' | 'shopping_habit' | 'daily_routine' | 'cultural_preference' | 'learning_preference' | 'information_consumption' | 'leisure_activity' | 'sports_team' | 'music_preference' | 'book_preference' | 'movie_preference' | 'technology_preference' | 'social_media_usage' | 'communication_channel_preference' | 'preference' | 'interest' | 'schedule' | 'decision_style' | 'communication_preference'; // Keep old types for backward compatibility
   value: string;
   evidence: string[];
+  evidenceSources?: EvidenceSource[];
   confidence: number;
   category?: 'personal' | 'family' | 'lifestyle' | 'preferences' | 'behavioral' | 'temporal' | 'cultural' | 'entertainment' | 'consumption';
 }
@@ -236,6 +290,7 @@ export interface BehavioralPattern {
   pattern: string;
   triggers: string[];
   evidence: string[];
+  evidenceSources?: EvidenceSource[];
   confidence: number;
 }
 
@@ -245,6 +300,7 @@ export interface ContextualResponse {
   formality_level: 'very_low' | 'low' | 'medium' | 'high' | 'very_high';
   key_phrases: string[];
   evidence: string[];
+  evidenceSources?: EvidenceSource[];
   confidence: number;
 }
 
@@ -253,6 +309,7 @@ export interface TemporalPattern {
   pattern: string;
   specific_times?: string[];
   evidence: string[];
+  evidenceSources?: EvidenceSource[];
   confidence: number;
 }
 
@@ -260,6 +317,7 @@ export interface KnowledgeArea {
   domain: string;
   expertise_level: 'novice' | 'intermediate' | 'advanced' | 'expert';
   evidence: string[];
+  evidenceSources?: EvidenceSource[];
   confidence: number;
   context?: string;
 }
@@ -277,15 +335,89 @@ export interface LearningProgress {
   estimatedCompletion?: Date;
   lastError?: string;
   status: 'idle' | 'running' | 'paused' | 'completed' | 'failed';
+  jobId?: string; // Learning job reporting this progress
+}
+
+// Background learning jobs. A job discovers the threads to learn from once, then fetches and
+// analyzes them a batch at a time, checkpointing after every batch so it can be paused, resumed
+// or picked up again after a server restart.
+export type LearningJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+// Where a job reads mail from. Posted access tokens and IMAP passwords are only held in memory,
+// so jobs using them have to be resumed with them again after a restart.
+export type LearningJobSource =
+  | { kind: 'gmail_credentials'; userId: string; accountId: string }
+  | { kind: 'gmail_token' }
+  | { kind: 'imap'; emailAddress: string };
+
+export interface LearningJobCheckpoint {
+  userEmail: string;
+  threadIds: string[]; // Every thread to analyze, in processing order
+  batchSize: number;
+  nextBatch: number; // First batch that hasn't been analyzed yet
+  totalBatches: number;
+  historyId?: string; // Mailbox history ID taken at discovery, recorded on the profile at the end
 }
 
+// Full jobs rebuild the profile from the time range; incremental ones merge in mail since the last run
+export type LearningJobMode = 'full' | 'incremental';
+
+export interface LearningJob {
+  id: string;
+  userId: string; // Personal-context owner
+  requestedBy: string; // Firebase user who started the job
+  status: LearningJobStatus;
+  mode: LearningJobMode;
+  options: PersonalContextLearningInput['options'];
+  source: LearningJobSource;
+  checkpoint?: LearningJobCheckpoint; // Set once discovery has finished
+  progress: LearningProgress;
+  needsCredentials?: boolean; // Paused until resumed with the mailbox credentials again
+  runId?: string; // Worker run that owns the job while it's running
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+}
+
+// Events streamed to the job owner's browser while learning runs (GET /api/personal-context/learn/events)
+export type LearningLogSource = 'gmail' | 'analysis' | 'service';
+
+export type LearningEvent =
+  | { type: 'snapshot'; job: LearningJob | null; progress: LearningProgress | null } // Sent first on every connection
+  | { type: 'status'; job: LearningJob }
+  | { type: 'phase'; jobId: string; phase: LearningProgress['currentPhase']; progress: LearningProgress }
+  | { type: 'batch'; jobId: string; batch: number; totalBatches: number; progress: LearningProgress }
+  | { type: 'log'; jobId: string; source: LearningLogSource; message: string; timestamp: string }
+  | { type: 'error'; jobId?: string; message: string };
+
 // API and Service Types
+
+// How much of the mailbox learning reads and what it extracts (see src/lib/analysis-depth.ts)
+export type AnalysisDepth = 'basic' | 'standard' | 'comprehensive';
+
+// What a learning run is expected to cost, worked out from the threads discovery finds
+export interface LearningEstimate {
+  analysisDepth: AnalysisDepth;
+  threadsDiscovered: number;
+  threadsToAnalyze: number; // Discovered threads within the depth's limit; short threads are dropped later
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+  estimatedMinutes: number;
+}
+
 export interface PersonalContextLearningInput {
   userId: string;
-  accessToken: string;
+  accessToken?: string; // Google OAuth token; not needed when learning from an IMAP account
+  // Firebase user and Google account whose server-held refresh token the learner should use.
+  // Preferred over accessToken: the server renews access itself, so long runs don't expire midway.
+  credentials?: { userId: string; accountId: string };
+  mode?: LearningJobMode; // Defaults to 'full'
   options: {
     timeRange: 'last_month' | 'last_3months' | 'last_6months' | 'last_year' | 'last_2years' | 'last_3years' | 'last_5years' | 'all_time';
-    analysisDepth: 'basic' | 'standard' | 'comprehensive';
+    analysisDepth: AnalysisDepth;
     includePromotional: boolean;
     minThreadLength: number;
   };
@@ -296,6 +428,7 @@ export interface PersonalContextUpdateInput {
   emailContent: string;
   recipientEmail: string;
   userReply: string;
+  aiDraft?: string; // AI draft the reply was started from, if any
   threadContext?: EmailThread;
 }
 
@@ -332,4 +465,12 @@ export interface LearningProgressDocument {
   progress: LearningProgress;
   createdAt: Date;
   updatedAt: Date;
+}
+
+// Analyses of one checkpointed batch, kept until the job has built the profile
+export interface LearningJobBatchDocument {
+  jobId: string;
+  batch: number;
+  analyses: ThreadAnalysisResult[];
+  createdAt: Date;
 } 
\ No newline at end of file
@@ -0,0 +1,161 @@
+// Security rule tests. They need the Firestore emulator, so run them with `npm run test:rules`,
+// which starts it, points FIRESTORE_EMULATOR_HOST at it and runs this file.
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { deleteApp, initializeApp, type FirebaseApp } from "firebase/app";
+import {
+  collection,
+  connectFirestoreEmulator,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  getFirestore,
+  query,
+  setDoc,
+  where,
+  type Firestore,
+} from "firebase/firestore";
+import { deleteApp as deleteAdminApp, initializeApp as initializeAdminApp, type App } from "firebase-admin/app";
+import { getFirestore as getAdminFirestore } from "firebase-admin/firestore";
+
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+if (!emulatorHost) {
+  throw new Error("FIRESTORE_EMULATOR_HOST is not set; run these tests with `npm run test:rules`");
+}
+const [host, port] = emulatorHost.split(":");
+const projectId = process.env.GCLOUD_PROJECT || "demo-mahasen";
+
+const ALICE = "alice";
+const BOB = "bob";
+
+const clientApps: FirebaseApp[] = [];
+
+// A browser client signed in as `uid`, or signed out
+function clientDb(uid: string | null): Firestore {
+  const app = initializeApp({ projectId, apiKey: "test" }, `client-${uid ?? "anonymous"}-${clientApps.length}`);
+  clientApps.push(app);
+  const db = getFirestore(app);
+  connectFirestoreEmulator(db, host, Number(port), uid ? { mockUserToken: { user_id: uid } } : undefined);
+  return db;
+}
+
+async function assertDenied(operation: Promise<unknown>) {
+  await assert.rejects(operation, (error: { code?: string }) => error.code === "permission-denied");
+}
+
+describe("firestore.rules", () => {
+  let adminApp: App;
+
+  before(async () => {
+    // Seed through the Admin SDK, which bypasses the rules like the app server does
+    adminApp = initializeAdminApp({ projectId }, "rules-test-admin");
+    const adminDb = getAdminFirestore(adminApp);
+    await Promise.all([
+      adminDb.doc(`personal_contexts/${ALICE}`).set({ userId: ALICE, profile: {} }),
+      adminDb.doc(`personal_contexts/${ALICE}:work@example.com`).set({ userId: `${ALICE}:work@example.com`, profile: {} }),
+      adminDb.doc(`personal_contexts/${BOB}`).set({ userId: BOB, profile: {} }),
+      adminDb.doc(`learning_progress/${ALICE}`).set({ userId: ALICE, progress: {} }),
+      adminDb.doc(`contact_relationships/${ALICE}_friend@example_com`).set({ userId: ALICE, contactEmail: "friend@example.com" }),
+      adminDb.doc(`contact_relationships/${BOB}_friend@example_com`).set({ userId: BOB, contactEmail: "friend@example.com" }),
+      adminDb.doc(`communication_patterns/${BOB}_friend@example_com`).set({ userId: BOB, contactEmail: "friend@example.com" }),
+      adminDb.doc(`oauth_credentials/${ALICE}:alice@example.com`).set({ userId: ALICE, encryptedRefreshToken: "sealed" }),
+      adminDb.doc("learning_jobs/alice-job").set({ userId: `${ALICE}:work@example.com`, status: "running" }),
+      adminDb.doc("learning_jobs/alice-job/batches/0").set({ jobId: "alice-job", batch: 0, analyses: [] }),
+      adminDb.doc("learning_jobs/bob-job").set({ userId: BOB, status: "running" }),
+    ]);
+  });
+
+  after(async () => {
+    await Promise.all(clientApps.map(app => deleteApp(app)));
+    await deleteAdminApp(adminApp);
+  });
+
+  describe("personal_contexts and learning_progress", () => {
+    it("lets users read and write their own profile and progress", async () => {
+      const db = clientDb(ALICE);
+      assert.equal((await getDoc(doc(db, "personal_contexts", ALICE))).exists(), true);
+      await setDoc(doc(db, "personal_contexts", ALICE), { userId: ALICE, profile: { confidence: 0.5 } });
+      await setDoc(doc(db, "learning_progress", ALICE), { userId: ALICE, progress: { status: "completed" } });
+    });
+
+    it("lets users reach the profiles of their other connected accounts", async () => {
+      const db = clientDb(ALICE);
+      assert.equal((await getDoc(doc(db, "personal_contexts", `${ALICE}:work@example.com`))).exists(), true);
+    });
+
+    it("keeps other users' profiles private", async () => {
+      const db = clientDb(ALICE);
+      await assertDenied(getDoc(doc(db, "personal_contexts", BOB)));
+      await assertDenied(setDoc(doc(db, "personal_contexts", BOB), { userId: BOB, profile: {} }));
+      await assertDenied(deleteDoc(doc(db, "learning_progress", BOB)));
+    });
+
+    it("doesn't treat a user ID prefix as ownership", async () => {
+      // "alice2" is a different user, not one of Alice's accounts
+      const db = clientDb(ALICE);
+      await assertDenied(getDoc(doc(db, "personal_contexts", `${ALICE}2`)));
+    });
+
+    it("denies signed-out clients", async () => {
+      const db = clientDb(null);
+      await assertDenied(getDoc(doc(db, "personal_contexts", ALICE)));
+      await assertDenied(getDoc(doc(db, "learning_progress", ALICE)));
+    });
+  });
+
+  describe("contact_relationships and communication_patterns", () => {
+    it("lets users query and write their own contacts", async () => {
+      const db = clientDb(ALICE);
+      const snapshot = await getDocs(query(collection(db, "contact_relationships"), where("userId", "==", ALICE)));
+      assert.equal(snapshot.size, 1);
+      await setDoc(doc(db, "communication_patterns", `${ALICE}_friend@example_com`), { userId: ALICE, contactEmail: "friend@example.com" });
+    });
+
+    it("denies reading or overwriting another user's contacts", async () => {
+      const db = clientDb(ALICE);
+      await assertDenied(getDoc(doc(db, "contact_relationships", `${BOB}_friend@example_com`)));
+      await assertDenied(getDocs(query(collection(db, "contact_relationships"), where("userId", "==", BOB))));
+      await assertDenied(setDoc(doc(db, "communication_patterns", `${BOB}_friend@example_com`), { userId: ALICE }));
+    });
+
+    it("denies creating contacts on behalf of another user", async () => {
+      const db = clientDb(ALICE);
+      await assertDenied(setDoc(doc(db, "contact_relationships", `${BOB}_new@example_com`), { userId: BOB }));
+    });
+
+    it("denies unfiltered queries across users", async () => {
+      const db = clientDb(ALICE);
+      await assertDenied(getDocs(collection(db, "contact_relationships")));
+    });
+  });
+
+  describe("learning_jobs", () => {
+    it("lets users watch their own jobs", async () => {
+      const db = clientDb(ALICE);
+      assert.equal((await getDoc(doc(db, "learning_jobs", "alice-job"))).exists(), true);
+      const snapshot = await getDocs(query(collection(db, "learning_jobs"), where("userId", "==", `${ALICE}:work@example.com`)));
+      assert.equal(snapshot.size, 1);
+    });
+
+    it("keeps other users' jobs private", async () => {
+      const db = clientDb(ALICE);
+      await assertDenied(getDoc(doc(db, "learning_jobs", "bob-job")));
+    });
+
+    it("leaves changing jobs and reading their batches to the server", async () => {
+      const db = clientDb(ALICE);
+      await assertDenied(setDoc(doc(db, "learning_jobs", "alice-job"), { userId: ALICE, status: "cancelled" }));
+      await assertDenied(getDoc(doc(db, "learning_jobs", "alice-job", "batches", "0")));
+    });
+  });
+
+  describe("oauth_credentials", () => {
+    it("is closed to browsers, even for the owner", async () => {
+      const db = clientDb(ALICE);
+      await assertDenied(getDoc(doc(db, "oauth_credentials", `${ALICE}:alice@example.com`)));
+      await assertDenied(setDoc(doc(db, "oauth_credentials", `${ALICE}:alice@example.com`), { userId: ALICE }));
+    });
+  });
+});
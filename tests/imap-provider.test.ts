@@ -0,0 +1,153 @@
+// IMAP/SMTP provider tests. They need a GreenMail server, which creates accounts on first login:
+//
+//   docker run --rm -p 3025:3025 -p 3143:3143 greenmail/standalone
+//
+// then run `npm run test:imap`. GREENMAIL_HOST points them at a server other than localhost.
+
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ImapFlow } from "imapflow";
+import { ImapMailProvider } from "@/services/imap-provider";
+import type { Email, ImapAccountConfig } from "@/types/mail";
+
+const host = process.env.GREENMAIL_HOST || "localhost";
+const IMAP_PORT = 3143;
+const SMTP_PORT = 3025;
+// GreenMail listens on a local address and non-standard ports, which the provider refuses otherwise
+process.env.MAIL_SERVER_ALLOWED_HOSTS = host;
+
+// Fresh accounts each run, so earlier runs' mail doesn't get in the way
+const runId = Date.now().toString(36);
+const ALICE = `alice-${runId}@example.test`;
+const BOB = `bob-${runId}@example.test`;
+
+function accountFor(emailAddress: string): ImapAccountConfig {
+  return {
+    emailAddress,
+    username: emailAddress,
+    password: "secret",
+    imap: { host, port: IMAP_PORT, secure: false },
+    smtp: { host, port: SMTP_PORT, secure: false },
+  };
+}
+
+// GreenMail only creates the inbox; the provider keeps sent mail in "Sent"
+async function createSentFolder(account: ImapAccountConfig) {
+  const client = new ImapFlow({
+    host,
+    port: IMAP_PORT,
+    secure: false,
+    auth: { user: account.username, pass: account.password },
+    logger: false,
+  });
+  await client.connect();
+  try {
+    await client.mailboxCreate("Sent");
+  } finally {
+    await client.logout();
+  }
+}
+
+// SMTP delivery is asynchronous; waits until the inbox holds `count` messages
+async function waitForInbox(provider: ImapMailProvider, count: number): Promise<Email[]> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const { emails } = await provider.listEmails({ boxType: "inbox" }, 50);
+    if (emails.length >= count) return emails;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error(`Inbox didn't reach ${count} messages`);
+}
+
+describe("ImapMailProvider", () => {
+  const alice = new ImapMailProvider(accountFor(ALICE));
+  const bob = new ImapMailProvider(accountFor(BOB));
+  let threadId: string;
+  let original: Email;
+
+  before(async () => {
+    await Promise.all([createSentFolder(accountFor(ALICE)), createSentFolder(accountFor(BOB))]);
+  });
+
+  it("sends through SMTP and keeps a copy in the Sent folder", async () => {
+    const sent = await bob.sendEmail({ to: [ALICE], subject: "Project kickoff", body: "Can we meet on Tuesday?" });
+    assert.ok(sent.threadId);
+    threadId = sent.threadId;
+
+    const copy = await bob.getEmail(sent.id);
+    assert.ok(copy, "the sent message is stored in Sent and can be fetched by its ID");
+    assert.equal(copy.subject, "Project kickoff");
+    assert.ok(copy.labelIds?.includes("SENT"));
+    assert.equal(copy.threadId, threadId);
+  });
+
+  it("delivers to the recipient's inbox with the same thread ID", async () => {
+    const [summary] = await waitForInbox(alice, 1);
+    assert.equal(summary.threadId, threadId);
+    assert.equal(summary.senderEmail, BOB);
+    assert.ok(!summary.read);
+
+    const full = await alice.getEmail(summary.id);
+    assert.ok(full);
+    assert.equal(full.body, "Can we meet on Tuesday?");
+    original = full;
+  });
+
+  it("rebuilds a thread from In-Reply-To and References across the inbox and Sent", async () => {
+    const reply = await alice.sendEmail({
+      to: [BOB],
+      subject: "Re: Project kickoff",
+      body: "Tuesday works for me.",
+      mode: "reply",
+      original,
+    });
+    assert.equal(reply.threadId, threadId);
+
+    // Bob answers the reply, so the third message's References chain has two entries
+    const [bobsInbox] = await waitForInbox(bob, 1);
+    const aliceReply = await bob.getEmail(bobsInbox.id);
+    assert.ok(aliceReply);
+    assert.equal(aliceReply.inReplyTo, original.messageIdHeader);
+    await bob.sendEmail({ to: [ALICE], subject: "Re: Project kickoff", body: "See you then.", mode: "reply", original: aliceReply });
+    await waitForInbox(alice, 2);
+
+    const thread = await alice.getThread(threadId);
+    assert.ok(thread);
+    assert.deepEqual(
+      thread.messages.map(message => message.body),
+      ["Can we meet on Tuesday?", "Tuesday works for me.", "See you then."]
+    );
+    assert.equal(thread.messages[2].inReplyTo, aliceReply.messageIdHeader);
+    assert.ok(thread.messages[2].references?.includes(original.messageIdHeader!));
+  });
+
+  it("finds the threads the user sent in and fetches them for learning", async () => {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const threadIds = await alice.listSentThreadIds(since, 10);
+    assert.deepEqual(threadIds, [threadId]);
+
+    const { threads, failed } = await alice.getThreadsByIds(threadIds);
+    assert.equal(failed.length, 0);
+    assert.equal(threads[0].messages.length, 3);
+  });
+
+  it("pages through the inbox newest first with UID page tokens", async () => {
+    for (const subject of ["First update", "Second update", "Third update"]) {
+      await bob.sendEmail({ to: [ALICE], subject, body: subject });
+    }
+    const all = await waitForInbox(alice, 5);
+
+    const seen: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await alice.listEmails({ boxType: "inbox" }, 2, pageToken);
+      assert.ok(page.emails.length <= 2);
+      seen.push(...page.emails.map(email => email.id));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    assert.equal(seen.length, all.length);
+    assert.equal(new Set(seen).size, seen.length, "no message appears on two pages");
+    const first = await alice.getEmail(seen[0]);
+    assert.equal(first?.subject, "Third update");
+  });
+});